@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { publishToChangeHub } from "@/lib/storage/change-hub"
+import { GET } from "./route"
+
+const change = {
+  collection: "inventory",
+  type: "delete" as const,
+  id: "1",
+  origin: "other-client",
+  at: "2024-01-01T00:00:00.000Z",
+}
+
+const openStream = async () => {
+  const abort = new AbortController()
+  const response = await GET(new Request("http://localhost/api/changes", { signal: abort.signal }))
+  const reader = response.body!.getReader()
+  return { abort, reader, response }
+}
+
+describe("GET /api/changes", () => {
+  it("streams published changes as server-sent events", async () => {
+    const { abort, reader, response } = await openStream()
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream")
+    const decoder = new TextDecoder()
+    expect(decoder.decode((await reader.read()).value)).toBe("retry: 3000\n\n")
+
+    publishToChangeHub([change])
+    expect(decoder.decode((await reader.read()).value)).toBe(`data: ${JSON.stringify({ changes: [change] })}\n\n`)
+    abort.abort()
+  })
+
+  it("stops listening once the client goes away", async () => {
+    const { abort, reader } = await openStream()
+    await reader.read()
+    const before = publishToChangeHub([change])
+
+    abort.abort()
+    expect(publishToChangeHub([change])).toBe(before - 1)
+    // The change published before the abort is still queued, then the stream ends
+    expect((await reader.read()).done).toBe(false)
+    expect((await reader.read()).done).toBe(true)
+  })
+
+  it("closes only once when the stream is cancelled before the request aborts", async () => {
+    const { abort, reader } = await openStream()
+    const before = publishToChangeHub([change])
+
+    await reader.cancel()
+    // Closing the cancelled stream again would throw inside the abort listener
+    expect(() => abort.abort()).not.toThrow()
+    expect(publishToChangeHub([change])).toBe(before - 1)
+  })
+})
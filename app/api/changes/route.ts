@@ -0,0 +1,58 @@
+import { checkAccess } from "@/lib/storage/access"
+import { subscribeToChangeHub } from "@/lib/storage/change-hub"
+import { errorResponse } from "@/lib/storage/collection-routes"
+
+// Event streams must never be cached or prerendered
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const HEARTBEAT_INTERVAL = 25000 // Keeps proxies from closing idle streams
+
+// Read only: the collection routes publish each write once it went through, see lib/storage/collection-routes.ts
+export async function GET(request: Request) {
+  const denied = checkAccess(request)
+  if (denied) return errorResponse(denied)
+  const encoder = new TextEncoder()
+  // Set by whichever comes first: the client going away (abort) or the stream being cancelled
+  let closed = false
+  let close = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text))
+      }
+      // Browsers wait this long before reconnecting a dropped stream
+      send("retry: 3000\n\n")
+
+      const unsubscribe = subscribeToChangeHub((changes) => send(`data: ${JSON.stringify({ changes })}\n\n`))
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL)
+      close = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+      request.signal.addEventListener("abort", () => {
+        if (closed) return
+        close()
+        try {
+          controller.close()
+        } catch {
+          // Already closed or errored by the runtime
+        }
+      })
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
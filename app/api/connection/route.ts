@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { inventoryCollection, layoutCollection, movementsCollection, productsCollection } from "@/lib/database"
+import type { SheetCheckBody } from "@/lib/storage/api-client"
+import { checkAccess } from "@/lib/storage/access"
+import { errorResponse } from "@/lib/storage/collection-routes"
+import { toErrorBody } from "@/lib/storage/errors"
+import { getConnectionSummary, testConnection } from "@/lib/storage/stein-server"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// The settings screen only shows the connection; it is changed through the STEIN_ variables of the server
+export async function GET(request: Request) {
+  const denied = checkAccess(request)
+  if (denied) return errorResponse(denied)
+  try {
+    return NextResponse.json({ connection: getConnectionSummary() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  const denied = checkAccess(request)
+  if (denied) return errorResponse(denied)
+  try {
+    const checks = await testConnection([
+      inventoryCollection,
+      movementsCollection,
+      layoutCollection,
+      productsCollection,
+    ])
+    const body: SheetCheckBody[] = checks.map((check) => ({ ...check, error: check.error && toErrorBody(check.error) }))
+    return NextResponse.json({ checks: body })
+  } catch (error) {
+    // The connection itself is not configured, so there is no sheet to check
+    return errorResponse(error)
+  }
+}
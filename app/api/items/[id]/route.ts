@@ -0,0 +1,11 @@
+import { inventoryCollection } from "@/lib/database"
+import { inventoryValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const routes = createCollectionRoutes(inventoryCollection, inventoryValidation)
+
+export const PUT = routes.update
+export const DELETE = routes.remove
@@ -0,0 +1,12 @@
+import { inventoryCollection } from "@/lib/database"
+import { inventoryValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Inventory boxes. SteinHQ is only reached from here, with the credentials in the server environment
+const routes = createCollectionRoutes(inventoryCollection, inventoryValidation)
+
+export const GET = routes.list
+export const POST = routes.insert
@@ -0,0 +1,11 @@
+import { layoutCollection } from "@/lib/database"
+import { layoutValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const routes = createCollectionRoutes(layoutCollection, layoutValidation)
+
+export const PUT = routes.update
+export const DELETE = routes.remove
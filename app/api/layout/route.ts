@@ -0,0 +1,12 @@
+import { layoutCollection } from "@/lib/database"
+import { layoutValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Warehouse layout, one row per aisle
+const routes = createCollectionRoutes(layoutCollection, layoutValidation)
+
+export const GET = routes.list
+export const POST = routes.insert
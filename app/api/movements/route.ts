@@ -0,0 +1,12 @@
+import { movementsCollection } from "@/lib/database"
+import { movementValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Stock movements are an append-only ledger, so there is no route to change or delete one
+const routes = createCollectionRoutes(movementsCollection, movementValidation)
+
+export const GET = routes.list
+export const POST = routes.insert
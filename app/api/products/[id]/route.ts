@@ -0,0 +1,11 @@
+import { productsCollection } from "@/lib/database"
+import { productValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+const routes = createCollectionRoutes(productsCollection, productValidation)
+
+export const PUT = routes.update
+export const DELETE = routes.remove
@@ -0,0 +1,12 @@
+import { productsCollection } from "@/lib/database"
+import { productValidation } from "@/lib/record-validation"
+import { createCollectionRoutes } from "@/lib/storage/collection-routes"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Product catalogue
+const routes = createCollectionRoutes(productsCollection, productValidation)
+
+export const GET = routes.list
+export const POST = routes.insert
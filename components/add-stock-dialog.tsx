@@ -0,0 +1,245 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { resolveProduct, suggestProducts } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import { getLocationLabel } from "@/lib/inventory-sync"
+import type { Aisle, SlotRef } from "@/lib/warehouse"
+
+export interface AddStockLine {
+  sku: string
+  name: string
+  quantity: number
+  isNewProduct: boolean
+}
+
+interface AddStockDialogProps {
+  target: SlotRef | null
+  aisles: Aisle[]
+  products: Product[]
+  onClose: () => void
+  onSubmit: (target: SlotRef, lines: AddStockLine[]) => Promise<boolean>
+}
+
+const lineSchema = z.object({
+  sku: z.string().trim().min(1, "Indica el SKU o código de barras"),
+  name: z.string().trim(),
+  quantity: z
+    .number({ invalid_type_error: "Indica una cantidad" })
+    .int("La cantidad debe ser un número entero")
+    .positive("La cantidad debe ser mayor que cero"),
+})
+
+// Known SKUs take their name from the catalog, so a name is only required for new products
+const createAddStockSchema = (products: Product[]) =>
+  z.object({ lines: z.array(lineSchema).min(1, "Añade al menos una referencia") }).superRefine((form, ctx) => {
+    const seen = new Map<string, number>()
+    form.lines.forEach((line, index) => {
+      const product = resolveProduct(products, line.sku)
+      if (!product && !line.name) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["lines", index, "name"],
+          message: "SKU nuevo: indica el nombre del producto",
+        })
+      }
+      const sku = (product?.sku || line.sku).toLowerCase()
+      if (seen.has(sku)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["lines", index, "sku"],
+          message: `Repetido en la línea ${(seen.get(sku) || 0) + 1}`,
+        })
+      } else {
+        seen.set(sku, index)
+      }
+    })
+  })
+
+type AddStockForm = z.infer<ReturnType<typeof createAddStockSchema>>
+
+const emptyLine = { sku: "", name: "", quantity: Number.NaN }
+
+export default function AddStockDialog({ target, aisles, products, onClose, onSubmit }: AddStockDialogProps) {
+  const [activeLine, setActiveLine] = useState<number | null>(null)
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<AddStockForm>({
+    resolver: zodResolver(createAddStockSchema(products)),
+    defaultValues: { lines: [emptyLine] },
+  })
+  const { fields, append, remove } = useFieldArray({ control, name: "lines" })
+  const lines = watch("lines")
+
+  useEffect(() => {
+    if (target) {
+      reset({ lines: [emptyLine] })
+      setActiveLine(null)
+    }
+  }, [target, reset])
+
+  const submit = async (form: AddStockForm) => {
+    if (!target) return
+    const resolved = form.lines.map((line) => {
+      const product = resolveProduct(products, line.sku)
+      return {
+        sku: product?.sku || line.sku,
+        name: product?.name || line.name,
+        quantity: line.quantity,
+        isNewProduct: !product,
+      }
+    })
+    if (await onSubmit(target, resolved)) {
+      onClose()
+    }
+  }
+
+  const pickProduct = (index: number, product: Product) => {
+    setValue(`lines.${index}.sku`, product.sku, { shouldValidate: true })
+    setValue(`lines.${index}.name`, product.name)
+    setActiveLine(null)
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">Añadir Stock</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            {target && `Entrada de mercancía en ${getLocationLabel(aisles, target)}. `}
+            Los SKU del catálogo se completan solos; los nuevos se añaden al catálogo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(submit)} className="space-y-4">
+          <div className="space-y-3">
+            {fields.map((field, index) => {
+              const line = lines[index]
+              const product = line ? resolveProduct(products, line.sku) : undefined
+              const lineErrors = errors.lines?.[index]
+              const suggestions =
+                activeLine === index && line?.sku && !product ? suggestProducts(products, line.sku, 6) : []
+
+              return (
+                <div key={field.id} className="grid grid-cols-[1fr_1.5fr_6rem_auto] gap-2 items-start">
+                  <div className="relative">
+                    <Label htmlFor={`line-${index}-sku`} className="text-[#124734] text-xs">
+                      SKU
+                    </Label>
+                    <Input
+                      id={`line-${index}-sku`}
+                      autoComplete="off"
+                      autoFocus={index === fields.length - 1}
+                      {...register(`lines.${index}.sku`, {
+                        onBlur: () => setTimeout(() => setActiveLine(null), 150),
+                      })}
+                      onFocus={() => setActiveLine(index)}
+                      aria-invalid={Boolean(lineErrors?.sku)}
+                      className="border-[#7dd3a0] focus:border-[#124734]"
+                    />
+                    {suggestions.length > 0 && (
+                      <div className="absolute z-10 mt-1 w-64 rounded-md border border-[#a7e6c1] bg-white shadow-md">
+                        {suggestions.map((suggestion) => (
+                          <button
+                            key={suggestion.id}
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => pickProduct(index, suggestion)}
+                            className="block w-full px-2 py-1 text-left text-sm hover:bg-[#f0f7f4]"
+                          >
+                            <span className="font-medium text-[#124734]">{suggestion.sku}</span>
+                            <span className="ml-2 text-[#0f3d2a]">{suggestion.name}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {lineErrors?.sku && <p className="mt-1 text-xs text-red-600">{lineErrors.sku.message}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor={`line-${index}-name`} className="text-[#124734] text-xs">
+                      Producto
+                    </Label>
+                    {product ? (
+                      <div className="h-9 flex items-center px-3 rounded-md bg-[#f0f7f4] text-sm text-[#124734] truncate">
+                        {product.name}
+                      </div>
+                    ) : (
+                      <Input
+                        id={`line-${index}-name`}
+                        placeholder="Nombre del nuevo producto"
+                        {...register(`lines.${index}.name`)}
+                        aria-invalid={Boolean(lineErrors?.name)}
+                        className="border-[#7dd3a0] focus:border-[#124734]"
+                      />
+                    )}
+                    {lineErrors?.name && <p className="mt-1 text-xs text-red-600">{lineErrors.name.message}</p>}
+                  </div>
+                  <div>
+                    <Label htmlFor={`line-${index}-quantity`} className="text-[#124734] text-xs">
+                      Cantidad
+                    </Label>
+                    <Input
+                      id={`line-${index}-quantity`}
+                      type="number"
+                      min="1"
+                      {...register(`lines.${index}.quantity`, { valueAsNumber: true })}
+                      aria-invalid={Boolean(lineErrors?.quantity)}
+                      className="border-[#7dd3a0] focus:border-[#124734]"
+                    />
+                    {lineErrors?.quantity && <p className="mt-1 text-xs text-red-600">{lineErrors.quantity.message}</p>}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                    className="mt-5 text-red-600 hover:text-red-800"
+                    title="Quitar línea"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              )
+            })}
+            {errors.lines?.root && <p className="text-xs text-red-600">{errors.lines.root.message}</p>}
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => append(emptyLine)}
+              className="border-[#7dd3a0] text-[#124734]"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Otra referencia
+            </Button>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={onClose} className="border-[#7dd3a0] text-[#124734]">
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                {isSubmitting ? "Guardando..." : fields.length > 1 ? `Añadir ${fields.length} referencias` : "Añadir"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Camera, ScanLine } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { createFrameDecoder } from "@/lib/barcode-decoder"
+import { BARCODE_FORMATS } from "@/lib/scan"
+
+// The Shape Detection API is not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance
+
+interface BarcodeScannerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onScan: (code: string) => void
+}
+
+const SCAN_INTERVAL_MS = 250
+// Frames are scaled down to this width before decoding in JavaScript, which is plenty for a label held up close
+const DECODE_WIDTH = 640
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null =>
+  typeof window !== "undefined" && "BarcodeDetector" in window
+    ? (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor }).BarcodeDetector
+    : null
+
+// Reads codes with the browser's BarcodeDetector when it has one, and in JavaScript from canvas frames otherwise
+function createVideoScanner(): (video: HTMLVideoElement) => Promise<string | null> {
+  const Detector = getBarcodeDetector()
+  if (Detector) {
+    const detector = new Detector({ formats: BARCODE_FORMATS })
+    return async (video) => (await detector.detect(video))[0]?.rawValue || null
+  }
+
+  const decode = createFrameDecoder(BARCODE_FORMATS)
+  const canvas = document.createElement("canvas")
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  return async (video) => {
+    if (!context || video.videoWidth === 0) return null
+    const scale = Math.min(1, DECODE_WIDTH / video.videoWidth)
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    context.drawImage(video, 0, 0, canvas.width, canvas.height)
+    return decode(context.getImageData(0, 0, canvas.width, canvas.height))
+  }
+}
+
+export default function BarcodeScannerDialog({ open, onOpenChange, onScan }: BarcodeScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [manualCode, setManualCode] = useState("")
+  // The camera loop outlives renders; it reads the callbacks from here so it never calls a stale one
+  const callbacks = useRef({ onScan, onOpenChange })
+  useEffect(() => {
+    callbacks.current = { onScan, onOpenChange }
+  })
+
+  useEffect(() => {
+    if (!open) return
+    setManualCode("")
+    setCameraError(null)
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError("Este navegador no puede usar la cámara. Usa el lector o escribe el código.")
+      return
+    }
+
+    let stream: MediaStream | null = null
+    let intervalId: ReturnType<typeof setInterval> | null = null
+    let cancelled = false
+    const stopStream = () => stream?.getTracks().forEach((track) => track.stop())
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+        // The dialog may have closed while the browser asked for permission; the camera must not stay on
+        if (cancelled || !videoRef.current) {
+          stopStream()
+          return
+        }
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+
+        const scan = createVideoScanner()
+        let busy = false
+        intervalId = setInterval(async () => {
+          if (busy || !videoRef.current) return
+          busy = true
+          try {
+            const code = await scan(videoRef.current)
+            if (code && !cancelled) {
+              cancelled = true
+              callbacks.current.onScan(code)
+              callbacks.current.onOpenChange(false)
+            }
+          } catch {
+            // A frame that fails to decode is skipped; the next one gets another try
+          } finally {
+            busy = false
+          }
+        }, SCAN_INTERVAL_MS)
+      } catch {
+        setCameraError("No se pudo acceder a la cámara. Usa el lector o escribe el código.")
+      }
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      if (intervalId) clearInterval(intervalId)
+      stopStream()
+    }
+  }, [open])
+
+  const submitManualCode = () => {
+    if (!manualCode.trim()) return
+    onScan(manualCode.trim())
+    onOpenChange(false)
+  }
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      submitManualCode()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <ScanLine className="h-5 w-5" />
+            Escanear Código
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Apunta la cámara a la etiqueta de un producto o de una ubicación (p. ej. A-C3-L2).
+          </DialogDescription>
+        </DialogHeader>
+
+        {cameraError ? (
+          <Alert className="border-yellow-200 bg-yellow-50">
+            <Camera className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-800">{cameraError}</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="relative overflow-hidden rounded-lg bg-black">
+            <video ref={videoRef} muted playsInline className="w-full aspect-video object-cover" />
+            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-[#7dd3a0] opacity-80" />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="manualCode" className="text-[#124734]">
+            Lector de códigos o entrada manual
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="manualCode"
+              autoFocus
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="SKU, código de barras o ubicación"
+              className="border-[#7dd3a0] focus:border-[#124734]"
+            />
+            <Button onClick={submitManualCode} className="bg-[#124734] hover:bg-[#0f3d2a]">
+              Buscar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import type { BulkOperation, BulkProgress } from "@/lib/database"
+
+const OPERATION_LABELS: Record<BulkOperation, string> = {
+  insert: "añadiendo",
+  update: "actualizando",
+  delete: "eliminando",
+}
+
+export default function BulkProgressBar({ progress }: { progress: BulkProgress }) {
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 100
+  return (
+    <div className="space-y-1" role="status">
+      <div className="flex justify-between text-sm text-[#0f3d2a]">
+        <span>
+          Guardando cambios: {OPERATION_LABELS[progress.operation]} {progress.done} de {progress.total} filas
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-2 rounded-full bg-[#f0f7f4] overflow-hidden">
+        <div className="h-full bg-[#124734] transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
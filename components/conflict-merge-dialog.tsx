@@ -0,0 +1,154 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { GitMerge } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { InventoryItem } from "@/lib/database"
+import {
+  getConflictingFields,
+  MERGE_FIELDS,
+  type ConflictResolution,
+  type InventoryConflict,
+  type MergeChoice,
+  type MergeField,
+} from "@/lib/inventory-conflicts"
+
+interface ConflictMergeDialogProps {
+  conflict: InventoryConflict | null
+  // Conflicts from the same save still waiting after this one
+  remaining?: number
+  onResolve: (resolution: ConflictResolution) => Promise<boolean>
+}
+
+const formatValue = (item: InventoryItem | null, field: MergeField) =>
+  item ? item[field].toString() || "—" : "Eliminada"
+
+const formatTime = (timestamp: string) => (timestamp ? new Date(timestamp).toLocaleString() : "—")
+
+// No close button or outside click: the save stays blocked until one side is chosen
+export default function ConflictMergeDialog({ conflict, remaining = 0, onResolve }: ConflictMergeDialogProps) {
+  const [fields, setFields] = useState<Record<MergeField, MergeChoice>>({ quantity: "local", description: "local" })
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (conflict) {
+      setFields({ quantity: "local", description: "local" })
+    }
+  }, [conflict])
+
+  if (!conflict) return null
+
+  const { base, local, remote } = conflict
+  const conflicting = getConflictingFields(conflict)
+  const canMerge = conflicting.length > 1
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setIsSaving(true)
+    await onResolve(resolution)
+    setIsSaving(false)
+  }
+
+  return (
+    <Dialog open>
+      <DialogContent
+        className="border-[#a7e6c1] sm:max-w-2xl"
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <GitMerge className="h-5 w-5" />
+            Conflicto de edición
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            {base.reference} en {base.location} se modificó en otro dispositivo mientras lo editabas. Elige qué valores
+            conservar; el resto de tus cambios se guardará después.
+            {remaining > 0 &&
+              ` Después quedan ${remaining} ${remaining === 1 ? "conflicto" : "conflictos"} más por resolver.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(!local || !remote) && (
+          <Alert className="border-yellow-200 bg-yellow-50">
+            <AlertDescription className="text-yellow-800">
+              {!local
+                ? "Tú vaciaste esta referencia de la caja, pero otro usuario la modificó."
+                : "Otro usuario vació esta referencia de la caja, pero tú la modificaste."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="rounded border border-[#a7e6c1] overflow-hidden text-sm">
+          <div className="grid grid-cols-4 gap-2 bg-[#f0f7f4] p-2 font-medium text-[#124734]">
+            <span>Campo</span>
+            <span>Antes</span>
+            <span>Mi versión</span>
+            <span>Versión remota</span>
+          </div>
+          {MERGE_FIELDS.map(({ field, label }) => {
+            const differs = conflicting.includes(field)
+            return (
+              <div key={field} className="grid grid-cols-4 gap-2 p-2 border-t border-[#a7e6c1] items-center">
+                <span className="text-[#124734]">{label}</span>
+                <span className="text-[#0f3d2a]">{formatValue(base, field)}</span>
+                {(["local", "remote"] as MergeChoice[]).map((side) => (
+                  <label
+                    key={side}
+                    className={`flex items-center gap-2 ${differs ? "font-semibold text-[#124734]" : "text-[#0f3d2a]"}`}
+                  >
+                    {canMerge && differs && (
+                      <input
+                        type="radio"
+                        name={`merge-${field}`}
+                        checked={fields[field] === side}
+                        onChange={() => setFields({ ...fields, [field]: side })}
+                        className="accent-[#124734]"
+                      />
+                    )}
+                    {formatValue(side === "local" ? local : remote, field)}
+                  </label>
+                ))}
+              </div>
+            )
+          })}
+          <div className="grid grid-cols-4 gap-2 p-2 border-t border-[#a7e6c1] text-xs text-[#0f3d2a]">
+            <span>Modificado</span>
+            <span>{formatTime(base.updated_at)}</span>
+            <span>Sin guardar</span>
+            <span>{remote ? formatTime(remote.updated_at) : "—"}</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={isSaving}
+            onClick={() => resolve({ keep: "remote" })}
+            className="border-[#7dd3a0] text-[#124734]"
+          >
+            Usar versión remota
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isSaving}
+            onClick={() => resolve({ keep: "local" })}
+            className="border-[#7dd3a0] text-[#124734]"
+          >
+            Mantener la mía
+          </Button>
+          {canMerge && (
+            <Button
+              disabled={isSaving}
+              onClick={() => resolve({ keep: "merged", fields })}
+              className="bg-[#124734] hover:bg-[#0f3d2a]"
+            >
+              Guardar combinación
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
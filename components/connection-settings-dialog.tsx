@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { PlugZap } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { inventoryCollection, layoutCollection, movementsCollection, productsCollection } from "@/lib/database"
+import {
+  connectionClient,
+  getStorageBackend,
+  toStorageError,
+  type SheetCheck,
+  type SteinConnectionSummary,
+} from "@/lib/storage"
+import { describeStorageError } from "@/lib/storage-errors"
+
+interface ConnectionSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const COLLECTIONS = [
+  { collection: inventoryCollection, label: "Inventario" },
+  { collection: movementsCollection, label: "Movimientos" },
+  { collection: layoutCollection, label: "Distribución" },
+  { collection: productsCollection, label: "Catálogo" },
+]
+
+const getCollectionLabel = (name: string) => COLLECTIONS.find((c) => c.collection.name === name)?.label || name
+
+function describeCheck(check: SheetCheck): { ok: boolean; text: string } {
+  if (check.error) return { ok: false, text: describeStorageError(check.error) }
+  const found = `Hoja "${check.sheetName}" encontrada`
+  if (!check.missingColumns || !check.extraColumns) {
+    return { ok: true, text: `${found}, pero está vacía: la cabecera se comprobará cuando tenga filas` }
+  }
+  if (check.missingColumns.length > 0) {
+    return { ok: false, text: `${found}, pero a la cabecera le faltan: ${check.missingColumns.join(", ")}` }
+  }
+  const extra =
+    check.extraColumns.length > 0 ? ` (columnas adicionales ignoradas: ${check.extraColumns.join(", ")})` : ""
+  return { ok: true, text: `${found} y la cabecera coincide${extra}` }
+}
+
+export default function ConnectionSettingsDialog({ open, onOpenChange }: ConnectionSettingsDialogProps) {
+  const [connection, setConnection] = useState<SteinConnectionSummary | null>(null)
+  const [checks, setChecks] = useState<SheetCheck[] | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+  const [requestError, setRequestError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setChecks(null)
+      setRequestError(null)
+      connectionClient
+        .getSummary()
+        .then(setConnection)
+        .catch((error) => setRequestError(describeStorageError(toStorageError(error))))
+    }
+  }, [open])
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    setRequestError(null)
+    try {
+      setChecks(await connectionClient.test())
+    } catch (error) {
+      setRequestError(describeStorageError(toStorageError(error)))
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const backend = getStorageBackend()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <PlugZap className="h-5 w-5" />
+            Conexión con SteinHQ
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            El navegador no se conecta directamente a SteinHQ: el servidor lo hace con sus propias credenciales. Para
+            cambiar la conexión, modifica las variables STEIN_BASE_URL, STEIN_STORAGE_ID, STEIN_SHEETS, STEIN_USERNAME y
+            STEIN_PASSWORD del servidor y reinícialo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {backend !== "stein" && (
+          <Alert className="border-yellow-200 bg-yellow-50">
+            <AlertDescription className="text-yellow-800">
+              El almacenamiento activo es "{backend}": esta conexión solo se usa con SteinHQ.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {requestError && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{requestError}</AlertDescription>
+          </Alert>
+        )}
+
+        {connection && (
+          <div className="grid gap-4 md:grid-cols-2 text-sm">
+            <dl className="space-y-2">
+              <div>
+                <dt className="font-medium text-[#124734]">URL base</dt>
+                <dd className="text-[#0f3d2a] break-all">{connection.baseUrl}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-[#124734]">Almacenamiento</dt>
+                <dd className="text-[#0f3d2a]">{connection.storageIdHint}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-[#124734]">Autenticación</dt>
+                <dd className="text-[#0f3d2a]">
+                  {connection.authenticated ? "Usuario y contraseña" : "Sin credenciales"}
+                </dd>
+              </div>
+            </dl>
+
+            <dl className="space-y-2">
+              {COLLECTIONS.map(({ collection, label }) => (
+                <div key={collection.name}>
+                  <dt className="font-medium text-[#124734]">{label}</dt>
+                  <dd className="text-[#0f3d2a]">
+                    {connection.sheets[collection.name]
+                      ? `Hoja "${connection.sheets[collection.name]}"`
+                      : `Automática (${collection.sheetNames.slice(0, 3).join(", ")}...)`}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        {checks && (
+          <div className="rounded border border-[#a7e6c1] text-sm">
+            {checks.map((check) => {
+              const { ok, text } = describeCheck(check)
+              return (
+                <div key={check.collection} className="flex gap-2 p-2 border-b border-[#a7e6c1] last:border-b-0">
+                  <span className={`font-medium ${ok ? "text-[#124734]" : "text-red-700"}`}>
+                    {ok ? "✓" : "✗"} {getCollectionLabel(check.collection)}
+                  </span>
+                  <span className={ok ? "text-[#0f3d2a]" : "text-red-700"}>{text}</span>
+                </div>
+              )
+            })}
+            {checks.length < COLLECTIONS.length && (
+              <div className="p-2 text-[#0f3d2a]">
+                El resto de hojas no se comprobaron porque el almacenamiento no respondió o rechazó las credenciales del
+                servidor.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handleTest}
+            disabled={isTesting}
+            className="border-[#7dd3a0] text-[#124734]"
+          >
+            {isTesting ? "Probando..." : "Probar conexión"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { EXPORT_FORMAT_LABELS, type ExportFormat, type ExportScope } from "@/lib/inventory-export"
+import type { StockAlert } from "@/lib/stock-alerts"
+import type { Aisle } from "@/lib/warehouse"
+
+export type ExportScopeKind = ExportScope["kind"]
+
+interface ExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  aisles: Aisle[]
+  // Current search results, if any
+  search: { query: string; matches: { boxId: string; reference: string }[] } | null
+  alerts: StockAlert[]
+  initialScope?: ExportScopeKind
+  onExport: (scope: ExportScope, format: ExportFormat) => Promise<boolean>
+}
+
+const SCOPE_LABELS: Record<ExportScopeKind, string> = {
+  all: "Todo el inventario",
+  aisle: "Un pasillo",
+  search: "Resultados de la búsqueda actual",
+  low_stock: "Referencias con stock bajo",
+}
+
+export default function ExportDialog({
+  open,
+  onOpenChange,
+  aisles,
+  search,
+  alerts,
+  initialScope = "all",
+  onExport,
+}: ExportDialogProps) {
+  const [scopeKind, setScopeKind] = useState<ExportScopeKind>(initialScope)
+  const [aisleId, setAisleId] = useState("")
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [isExporting, setIsExporting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setScopeKind(initialScope)
+      setAisleId(aisles[0]?.id || "")
+    }
+  }, [open])
+
+  const isAvailable = (kind: ExportScopeKind) =>
+    kind === "search" ? search !== null && search.matches.length > 0 : kind === "low_stock" ? alerts.length > 0 : true
+
+  const buildScope = (): ExportScope | null => {
+    if (scopeKind === "aisle") {
+      const aisle = aisles.find((a) => a.id === aisleId)
+      return aisle ? { kind: "aisle", aisleId: aisle.id, aisleName: aisle.name } : null
+    }
+    if (scopeKind === "search") return search && { kind: "search", ...search }
+    if (scopeKind === "low_stock") return { kind: "low_stock", alerts }
+    return { kind: "all" }
+  }
+
+  const handleExport = async () => {
+    const scope = buildScope()
+    if (!scope) return
+    setIsExporting(true)
+    const exported = await onExport(scope, format)
+    setIsExporting(false)
+    if (exported) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <Download className="h-5 w-5" />
+            Exportar Inventario
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Todos los formatos usan las mismas columnas, que el importador reconoce al volver a cargar el archivo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-[#124734]">Qué exportar</Label>
+            {(Object.keys(SCOPE_LABELS) as ExportScopeKind[]).map((kind) => (
+              <label
+                key={kind}
+                className={`flex items-center gap-2 text-sm ${isAvailable(kind) ? "text-[#0f3d2a]" : "text-gray-400"}`}
+              >
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scopeKind === kind}
+                  disabled={!isAvailable(kind)}
+                  onChange={() => setScopeKind(kind)}
+                  className="accent-[#124734]"
+                />
+                {SCOPE_LABELS[kind]}
+                {kind === "search" && search && ` ("${search.query}", ${search.matches.length})`}
+                {kind === "low_stock" && ` (${alerts.length})`}
+              </label>
+            ))}
+            {scopeKind === "aisle" && (
+              <select
+                value={aisleId}
+                onChange={(e) => setAisleId(e.target.value)}
+                className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+              >
+                {aisles.map((aisle) => (
+                  <option key={aisle.id} value={aisle.id}>
+                    {aisle.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="export-format" className="text-[#124734]">
+              Formato
+            </Label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+            >
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((option) => (
+                <option key={option} value={option}>
+                  {EXPORT_FORMAT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="border-[#7dd3a0] text-[#124734]">
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || !isAvailable(scopeKind)}
+            className="bg-[#124734] hover:bg-[#0f3d2a]"
+          >
+            {isExporting ? "Exportando..." : "Exportar"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
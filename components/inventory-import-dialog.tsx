@@ -0,0 +1,334 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { InventoryItem } from "@/lib/database"
+import { isEmptyDiff } from "@/lib/inventory-sync"
+import {
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  previewImport,
+  readImportFile,
+  validateMapping,
+  type ColumnMapping,
+  type ImportPreview,
+  type ImportRowStatus,
+  type ImportTable,
+} from "@/lib/inventory-import"
+import type { WarehouseLayout } from "@/lib/layout"
+import type { Aisle } from "@/lib/warehouse"
+
+interface InventoryImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  layout: WarehouseLayout
+  aisles: Aisle[]
+  // Saves pending edits first and returns the stored rows the file is compared with
+  loadExisting: () => Promise<InventoryItem[] | null>
+  onApply: (preview: ImportPreview) => Promise<boolean>
+}
+
+type Step = "file" | "mapping" | "preview"
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: "Nueva",
+  changed: "Cambia",
+  unchanged: "Sin cambios",
+  conflict: "Conflicto",
+  invalid: "Error",
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: "bg-green-100 text-green-800 border border-green-300",
+  changed: "bg-blue-100 text-blue-800 border border-blue-300",
+  unchanged: "bg-gray-100 text-gray-700 border border-gray-300",
+  conflict: "bg-yellow-100 text-yellow-800 border border-yellow-300",
+  invalid: "bg-red-100 text-red-800 border border-red-300",
+}
+
+export default function InventoryImportDialog({
+  open,
+  onOpenChange,
+  layout,
+  aisles,
+  loadExisting,
+  onApply,
+}: InventoryImportDialogProps) {
+  const [step, setStep] = useState<Step>("file")
+  const [fileName, setFileName] = useState("")
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [replace, setReplace] = useState(false)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setStep("file")
+      setFileName("")
+      setTable(null)
+      setMapping(null)
+      setReplace(false)
+      setPreview(null)
+      setValidationError(null)
+    }
+  }, [open])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setValidationError(null)
+    setIsWorking(true)
+    try {
+      const read = await readImportFile(file)
+      if (read.headers.length === 0 || read.rows.length === 0) {
+        setValidationError("El archivo no contiene filas para importar")
+        return
+      }
+      setFileName(file.name)
+      setTable(read)
+      setMapping(guessColumnMapping(read.headers))
+      setStep("mapping")
+    } catch (error) {
+      console.error("[v0] Error reading import file:", error)
+      setValidationError(error instanceof Error ? error.message : "No se pudo leer el archivo")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const buildPreview = async () => {
+    if (!table || !mapping) return
+    const mappingError = validateMapping(mapping)
+    if (mappingError) {
+      setValidationError(mappingError)
+      return
+    }
+
+    setValidationError(null)
+    setIsWorking(true)
+    const existing = await loadExisting()
+    setIsWorking(false)
+    if (!existing) {
+      setValidationError("No se pudo leer el inventario guardado para compararlo con el archivo")
+      return
+    }
+    setPreview(previewImport(table, mapping, layout, aisles, existing, replace))
+    setStep("preview")
+  }
+
+  const handleApply = async () => {
+    if (!preview) return
+    setIsWorking(true)
+    const applied = await onApply(preview)
+    setIsWorking(false)
+    if (applied) onOpenChange(false)
+  }
+
+  const counts = preview
+    ? preview.rows.reduce((totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }), {
+        new: 0,
+        changed: 0,
+        unchanged: 0,
+        conflict: 0,
+        invalid: 0,
+      } as Record<ImportRowStatus, number>)
+    : null
+  const hasChanges = preview !== null && !isEmptyDiff(preview.diff)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <Upload className="h-5 w-5" />
+            Importar Inventario
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            {step === "file" && "Selecciona un archivo CSV, XLSX o JSON con una fila por referencia y caja."}
+            {step === "mapping" && `${fileName}: indica qué columna del archivo corresponde a cada dato.`}
+            {step === "preview" && "Revisa los cambios antes de aplicarlos. Nada se guarda hasta que confirmes."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {validationError && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{validationError}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === "file" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className="text-[#124734]">
+              Archivo
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.txt,.xlsx,.json"
+              disabled={isWorking}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="border-[#7dd3a0] focus:border-[#124734]"
+            />
+            <p className="text-xs text-[#0f3d2a]">
+              La ubicación puede venir en columnas separadas (pasillo, columna, nivel) o como código de caja, p. ej.
+              A-C3-L2. Una cantidad 0 vacía la referencia de esa caja.
+            </p>
+          </div>
+        )}
+
+        {step === "mapping" && table && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`import-${field}`} className="text-[#124734]">
+                    {label}
+                  </Label>
+                  <select
+                    id={`import-${field}`}
+                    value={mapping[field] ?? ""}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || null })}
+                    className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+                  >
+                    <option value="">— No importar —</option>
+                    {table.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <label className="flex items-start gap-2 text-sm text-[#0f3d2a]">
+              <input
+                type="checkbox"
+                checked={replace}
+                onChange={(e) => setReplace(e.target.checked)}
+                className="mt-1 accent-[#124734]"
+              />
+              <span>
+                Sustituir el inventario: las referencias guardadas que no aparezcan en el archivo se eliminarán.
+              </span>
+            </label>
+            <p className="text-xs text-[#0f3d2a]">{table.rows.length} filas en el archivo.</p>
+          </div>
+        )}
+
+        {step === "preview" && preview && counts && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+                <Badge key={status} className={STATUS_STYLES[status]}>
+                  {STATUS_LABELS[status]}: {counts[status]}
+                </Badge>
+              ))}
+              {replace && <Badge className="bg-red-600 text-white">Se eliminan: {preview.removed.length}</Badge>}
+            </div>
+            {preview.replaceBlocked && (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">
+                  No se eliminará nada mientras el archivo tenga filas con error: podrían ser referencias que quieres
+                  conservar. Corrígelas para sustituir el inventario.
+                </AlertDescription>
+              </Alert>
+            )}
+            {(counts.conflict > 0 || counts.invalid > 0) && (
+              <p className="text-xs text-[#0f3d2a]">
+                Las filas con error o en conflicto no se aplican. Corrígelas en el archivo y vuelve a importarlo.
+              </p>
+            )}
+            <ScrollArea className="h-80">
+              <div className="space-y-1 pr-4">
+                {preview.rows
+                  .filter((row) => row.status !== "unchanged")
+                  .map((row) => (
+                    <div
+                      key={row.line}
+                      className="flex items-center justify-between gap-2 p-2 rounded border border-[#a7e6c1] bg-[#f0f7f4] text-sm"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge className={STATUS_STYLES[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                        <span className="text-xs text-[#0f3d2a] whitespace-nowrap">Línea {row.line}</span>
+                        {row.row && (
+                          <span className="font-medium text-[#124734] truncate">
+                            {row.row.reference} · {row.row.location}
+                          </span>
+                        )}
+                        {row.message && <span className="text-xs text-[#0f3d2a] truncate">{row.message}</span>}
+                      </div>
+                      {row.row && (
+                        <span className="text-xs text-[#0f3d2a] whitespace-nowrap">
+                          {row.existing ? `${row.existing.quantity} → ` : ""}
+                          {row.row.quantity}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                {preview.removed.map((item) => (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between gap-2 p-2 rounded border border-red-200 bg-red-50 text-sm"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge className="bg-red-600 text-white">Eliminar</Badge>
+                      <span className="font-medium text-red-800 truncate">
+                        {item.reference} · {item.location}
+                      </span>
+                    </div>
+                    <span className="text-xs text-red-800 whitespace-nowrap">{item.quantity} → 0</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <div>
+            {step !== "file" && (
+              <Button
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => {
+                  setValidationError(null)
+                  setStep(step === "preview" ? "mapping" : "file")
+                }}
+                className="border-[#7dd3a0] text-[#124734]"
+              >
+                Atrás
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="border-[#7dd3a0] text-[#124734]">
+              Cancelar
+            </Button>
+            {step === "mapping" && (
+              <Button onClick={buildPreview} disabled={isWorking} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                {isWorking ? "Comparando..." : "Vista previa"}
+              </Button>
+            )}
+            {step === "preview" && (
+              <Button
+                onClick={handleApply}
+                disabled={isWorking || !hasChanges}
+                className="bg-[#124734] hover:bg-[#0f3d2a]"
+              >
+                {isWorking ? "Aplicando..." : "Aplicar cambios"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,275 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Download, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { suggestProducts } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import { downloadBlob } from "@/lib/inventory-export"
+import {
+  buildPrintDocument,
+  getLocationLabels,
+  getProductLabels,
+  LABEL_STOCKS,
+  renderLabelSheets,
+  type LabelData,
+} from "@/lib/labels"
+import type { Aisle } from "@/lib/warehouse"
+
+interface LabelPrintDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  aisles: Aisle[]
+  products: Product[]
+}
+
+type LabelMode = "locations" | "products"
+
+const toggle = (set: Set<string>, value: string) => {
+  const next = new Set(set)
+  if (next.has(value)) next.delete(value)
+  else next.add(value)
+  return next
+}
+
+export default function LabelPrintDialog({ open, onOpenChange, aisles, products }: LabelPrintDialogProps) {
+  const [mode, setMode] = useState<LabelMode>("locations")
+  const [stockId, setStockId] = useState(LABEL_STOCKS[0].id)
+  const [selectedAisles, setSelectedAisles] = useState<Set<string>>(new Set())
+  // Empty means every column of the selected aisles
+  const [selectedColumns, setSelectedColumns] = useState<Set<string>>(new Set())
+  const [onlyStocked, setOnlyStocked] = useState(false)
+  // Explicit box ids (A-C1-L1, ...) take precedence over the aisle/column selection
+  const [boxCodes, setBoxCodes] = useState("")
+  const [selectedSkus, setSelectedSkus] = useState<Set<string>>(new Set())
+  const [productQuery, setProductQuery] = useState("")
+
+  useEffect(() => {
+    if (open) {
+      setSelectedAisles(new Set())
+      setSelectedColumns(new Set())
+      setBoxCodes("")
+      setSelectedSkus(new Set())
+      setProductQuery("")
+    }
+  }, [open])
+
+  const stock = LABEL_STOCKS.find((s) => s.id === stockId) || LABEL_STOCKS[0]
+
+  const labels: LabelData[] = useMemo(() => {
+    if (mode === "products") {
+      return getProductLabels(products.filter((product) => selectedSkus.has(product.sku)))
+    }
+    const boxIds = new Set(
+      boxCodes
+        .split(/[\s,;]+/)
+        .map((code) => code.trim().toUpperCase())
+        .filter(Boolean),
+    )
+    return getLocationLabels(
+      aisles,
+      (aisle, column, box) =>
+        (boxIds.size > 0
+          ? boxIds.has(box.id)
+          : selectedAisles.has(aisle.id) && (selectedColumns.size === 0 || selectedColumns.has(column.id))) &&
+        (!onlyStocked || box.references.length > 0),
+    )
+  }, [mode, aisles, products, selectedAisles, selectedColumns, boxCodes, onlyStocked, selectedSkus])
+
+  const pages = useMemo(() => renderLabelSheets(labels, stock), [labels, stock])
+
+  const downloadSvg = () => {
+    pages.forEach((page, index) =>
+      downloadBlob(new Blob([page], { type: "image/svg+xml" }), `etiquetas-${index + 1}.svg`),
+    )
+  }
+
+  const printSheets = () => {
+    const printWindow = window.open("", "_blank")
+    if (!printWindow) return
+    printWindow.document.write(buildPrintDocument(pages, stock))
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
+  }
+
+  const visibleProducts = productQuery.trim() ? suggestProducts(products, productQuery, products.length) : products
+  const columnsOfSelectedAisles = aisles.filter((aisle) => selectedAisles.has(aisle.id))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">Imprimir Etiquetas</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Cada etiqueta lleva el nombre y un código de barras Code 128 con la ubicación o el SKU, que se puede
+            escanear o buscar desde la pestaña de búsqueda.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Button
+                variant={mode === "locations" ? "default" : "outline"}
+                onClick={() => setMode("locations")}
+                className={mode === "locations" ? "bg-[#124734] hover:bg-[#0f3d2a]" : "border-[#7dd3a0] text-[#124734]"}
+              >
+                Ubicaciones
+              </Button>
+              <Button
+                variant={mode === "products" ? "default" : "outline"}
+                onClick={() => setMode("products")}
+                className={mode === "products" ? "bg-[#124734] hover:bg-[#0f3d2a]" : "border-[#7dd3a0] text-[#124734]"}
+              >
+                Productos
+              </Button>
+            </div>
+
+            <div>
+              <Label htmlFor="labelStock" className="text-[#124734]">
+                Formato de etiqueta
+              </Label>
+              <select
+                id="labelStock"
+                value={stockId}
+                onChange={(e) => setStockId(e.target.value)}
+                className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+              >
+                {LABEL_STOCKS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {mode === "locations" ? (
+              <ScrollArea className="h-64 border border-[#a7e6c1] rounded-lg p-2">
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-1">
+                    {aisles.map((aisle) => (
+                      <Badge
+                        key={aisle.id}
+                        variant="outline"
+                        onClick={() => {
+                          setSelectedAisles(toggle(selectedAisles, aisle.id))
+                          setSelectedColumns(new Set())
+                        }}
+                        className={`cursor-pointer ${
+                          selectedAisles.has(aisle.id)
+                            ? "bg-[#124734] text-white border-[#124734]"
+                            : "border-[#7dd3a0] text-[#124734]"
+                        }`}
+                      >
+                        {aisle.name}
+                      </Badge>
+                    ))}
+                  </div>
+                  {columnsOfSelectedAisles.map((aisle) => (
+                    <div key={aisle.id}>
+                      <div className="text-xs font-medium text-[#124734] mb-1">{aisle.name}</div>
+                      <div className="flex flex-wrap gap-1">
+                        {aisle.columns.map((column) => (
+                          <Badge
+                            key={column.id}
+                            variant="outline"
+                            onClick={() => setSelectedColumns(toggle(selectedColumns, column.id))}
+                            className={`cursor-pointer text-xs ${
+                              selectedColumns.has(column.id)
+                                ? "bg-[#7dd3a0] text-[#124734] border-[#7dd3a0]"
+                                : "border-[#a7e6c1] text-[#0f3d2a]"
+                            }`}
+                          >
+                            {column.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div>
+                    <Label htmlFor="labelBoxCodes" className="text-[#124734] text-xs">
+                      O cajas concretas
+                    </Label>
+                    <Input
+                      id="labelBoxCodes"
+                      value={boxCodes}
+                      onChange={(e) => setBoxCodes(e.target.value)}
+                      placeholder="A-C1-L1, B-C2-L3"
+                      className="h-8 border-[#7dd3a0] focus:border-[#124734]"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-[#0f3d2a]">
+                    <input type="checkbox" checked={onlyStocked} onChange={(e) => setOnlyStocked(e.target.checked)} />
+                    Solo cajas con stock
+                  </label>
+                </div>
+              </ScrollArea>
+            ) : (
+              <div className="space-y-2">
+                <Input
+                  value={productQuery}
+                  onChange={(e) => setProductQuery(e.target.value)}
+                  placeholder="Filtrar por SKU o nombre"
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+                <ScrollArea className="h-52 border border-[#a7e6c1] rounded-lg p-2">
+                  <div className="space-y-1">
+                    {visibleProducts.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selectedSkus.has(product.sku)}
+                          onChange={() => setSelectedSkus(toggle(selectedSkus, product.sku))}
+                        />
+                        <span className="font-medium text-[#124734]">{product.sku}</span>
+                        <span className="text-[#0f3d2a] truncate">{product.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="text-sm text-[#0f3d2a]">
+              {labels.length} etiquetas · {pages.length} {pages.length === 1 ? "hoja" : "hojas"}
+            </div>
+            <div className="border border-[#a7e6c1] rounded-lg bg-gray-50 p-2 flex items-center justify-center h-72">
+              {pages.length > 0 ? (
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(pages[0])}`}
+                  alt="Vista previa de la primera hoja"
+                  className="max-h-full max-w-full shadow"
+                />
+              ) : (
+                <span className="text-sm text-gray-500">Selecciona ubicaciones o productos</span>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={downloadSvg}
+                disabled={pages.length === 0}
+                className="border-[#7dd3a0] text-[#124734]"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                SVG
+              </Button>
+              <Button onClick={printSheets} disabled={pages.length === 0} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                <Printer className="h-4 w-4 mr-2" />
+                Imprimir / PDF
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,394 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { validateGeometry, type WarehouseGeometry } from "@/lib/geometry"
+import {
+  createLayoutColumns,
+  findDisplacedSlots,
+  isValidAisleId,
+  type LayoutAisle,
+  type LayoutColumn,
+  type WarehouseLayout,
+} from "@/lib/layout"
+import type { Aisle } from "@/lib/warehouse"
+
+interface LayoutEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  layout: WarehouseLayout
+  aisles: Aisle[]
+  onSave: (layout: WarehouseLayout) => Promise<boolean>
+}
+
+const MAX_COLUMNS = 30
+const MAX_LEVELS = 12
+
+const GEOMETRY_FIELDS: {
+  id: string
+  label: string
+  get: (geometry: WarehouseGeometry) => number
+  set: (geometry: WarehouseGeometry, value: number) => WarehouseGeometry
+}[] = [
+  {
+    id: "entranceX",
+    label: "Entrada X",
+    get: (g) => g.entrance.x,
+    set: (g, value) => ({ ...g, entrance: { ...g.entrance, x: value } }),
+  },
+  {
+    id: "entranceY",
+    label: "Entrada Y",
+    get: (g) => g.entrance.y,
+    set: (g, value) => ({ ...g, entrance: { ...g.entrance, y: value } }),
+  },
+  {
+    id: "aisleSpacing",
+    label: "Entre pasillos",
+    get: (g) => g.aisleSpacing,
+    set: (g, value) => ({ ...g, aisleSpacing: value }),
+  },
+  {
+    id: "columnWidth",
+    label: "Ancho columna",
+    get: (g) => g.columnWidth,
+    set: (g, value) => ({ ...g, columnWidth: value }),
+  },
+  {
+    id: "levelHeight",
+    label: "Alto nivel",
+    get: (g) => g.levelHeight,
+    set: (g, value) => ({ ...g, levelHeight: value }),
+  },
+]
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(1, Number.isNaN(value) ? 1 : value))
+
+export default function LayoutEditorDialog({ open, onOpenChange, layout, aisles, onSave }: LayoutEditorDialogProps) {
+  const [draft, setDraft] = useState<LayoutAisle[]>([])
+  const [geometry, setGeometry] = useState<WarehouseGeometry>(layout.geometry)
+  const [newAisle, setNewAisle] = useState({ id: "", columns: 7, levels: 6 })
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setDraft(layout.aisles.map((aisle) => ({ ...aisle, columns: aisle.columns.map((column) => ({ ...column })) })))
+      setGeometry(layout.geometry)
+      setValidationError(null)
+    }
+  }, [open, layout])
+
+  const updateAisle = (aisleId: string, update: (aisle: LayoutAisle) => LayoutAisle) => {
+    setDraft((prev) => prev.map((aisle) => (aisle.id === aisleId ? update(aisle) : aisle)))
+  }
+
+  const updateColumn = (aisleId: string, columnNumber: number, update: (column: LayoutColumn) => LayoutColumn) => {
+    updateAisle(aisleId, (aisle) => ({
+      ...aisle,
+      columns: aisle.columns.map((column) => (column.number === columnNumber ? update(column) : column)),
+    }))
+  }
+
+  const setColumnCount = (aisleId: string, count: number) => {
+    updateAisle(aisleId, (aisle) => {
+      const target = clamp(count, MAX_COLUMNS)
+      if (target <= aisle.columns.length) {
+        return { ...aisle, columns: aisle.columns.slice(0, target) }
+      }
+      const last = aisle.columns[aisle.columns.length - 1]
+      return {
+        ...aisle,
+        columns: [
+          ...aisle.columns,
+          ...createLayoutColumns(target - aisle.columns.length, last?.levels || 6, (last?.number || 0) + 1),
+        ],
+      }
+    })
+  }
+
+  const setLevelCount = (aisleId: string, columnNumber: number, levels: number) => {
+    updateColumn(aisleId, columnNumber, (column) => {
+      const target = clamp(levels, MAX_LEVELS)
+      return { ...column, levels: target, disabledLevels: column.disabledLevels.filter((level) => level <= target) }
+    })
+  }
+
+  const toggleLevel = (aisleId: string, columnNumber: number, level: number) => {
+    updateColumn(aisleId, columnNumber, (column) => ({
+      ...column,
+      disabledLevels: column.disabledLevels.includes(level)
+        ? column.disabledLevels.filter((l) => l !== level)
+        : [...column.disabledLevels, level].sort((a, b) => a - b),
+    }))
+  }
+
+  const moveAisle = (index: number, direction: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const addAisle = () => {
+    const id = newAisle.id.trim().toUpperCase()
+    if (!isValidAisleId(id)) {
+      setValidationError("El identificador del pasillo solo puede contener letras y números.")
+      return
+    }
+    if (draft.some((aisle) => aisle.id === id)) {
+      setValidationError(`Ya existe un pasillo con el identificador ${id}.`)
+      return
+    }
+    setDraft((prev) => [
+      ...prev,
+      { id, columns: createLayoutColumns(clamp(newAisle.columns, MAX_COLUMNS), clamp(newAisle.levels, MAX_LEVELS)) },
+    ])
+    setNewAisle({ id: "", columns: newAisle.columns, levels: newAisle.levels })
+    setValidationError(null)
+  }
+
+  const handleSave = async () => {
+    const newLayout: WarehouseLayout = { aisles: draft, geometry }
+    if (draft.length === 0) {
+      setValidationError("El almacén debe tener al menos un pasillo.")
+      return
+    }
+    const geometryError = validateGeometry(geometry)
+    if (geometryError) {
+      setValidationError(geometryError)
+      return
+    }
+
+    const displaced = findDisplacedSlots(newLayout, aisles)
+    if (displaced.length > 0) {
+      setValidationError(
+        `Estas ubicaciones tienen stock y quedarían fuera de la distribución: ${displaced.join(", ")}. ` +
+          "Vacíalas o trasládalas antes de eliminarlas o desactivarlas.",
+      )
+      return
+    }
+
+    setIsSaving(true)
+    const saved = await onSave(newLayout)
+    setIsSaving(false)
+    if (saved) {
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">Configurar Distribución</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Define los pasillos en orden desde la entrada, sus columnas y los niveles de cada columna. Haz clic en un
+            nivel para marcarlo como no disponible, o en Apilado/Estante para indicar si las cajas de arriba bloquean a
+            las de abajo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {validationError && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{validationError}</AlertDescription>
+          </Alert>
+        )}
+
+        <ScrollArea className="h-96">
+          <div className="space-y-4 pr-4">
+            {draft.map((aisle, index) => (
+              <div key={aisle.id} className="border border-[#a7e6c1] rounded-lg p-3 bg-[#f0f7f4]">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="bg-white text-[#124734]">
+                      Pasillo {aisle.id}
+                    </Badge>
+                    <Label htmlFor={`columns-${aisle.id}`} className="text-[#124734] text-sm">
+                      Columnas
+                    </Label>
+                    <Input
+                      id={`columns-${aisle.id}`}
+                      type="number"
+                      min="1"
+                      max={MAX_COLUMNS}
+                      value={aisle.columns.length}
+                      onChange={(e) => setColumnCount(aisle.id, Number.parseInt(e.target.value))}
+                      className="w-16 h-8 text-center border-[#7dd3a0] focus:border-[#124734]"
+                    />
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => moveAisle(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveAisle(index, 1)}
+                      disabled={index === draft.length - 1}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft((prev) => prev.filter((a) => a.id !== aisle.id))}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {aisle.columns.map((column) => (
+                    <div key={column.number} className="bg-white border border-[#a7e6c1] rounded p-2 text-center">
+                      <div className="text-xs font-medium text-[#124734] mb-1">C{column.number}</div>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={MAX_LEVELS}
+                        value={column.levels}
+                        onChange={(e) => setLevelCount(aisle.id, column.number, Number.parseInt(e.target.value))}
+                        className="w-14 h-7 text-center text-xs mb-1 border-[#7dd3a0] focus:border-[#124734]"
+                        title="Niveles"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateColumn(aisle.id, column.number, (c) => ({
+                            ...c,
+                            blocking: c.blocking === "shelved" ? undefined : "shelved",
+                          }))
+                        }
+                        className="w-14 h-5 rounded text-[10px] border border-[#7dd3a0] text-[#124734] mb-1"
+                        title="Apilado: las cajas de arriba bloquean a las de abajo. Estante: cada nivel se saca por separado."
+                      >
+                        {column.blocking === "shelved" ? "Estante" : "Apilado"}
+                      </button>
+                      <div className="flex flex-col-reverse gap-0.5">
+                        {Array.from({ length: column.levels }, (_, levelIndex) => {
+                          const level = levelIndex + 1
+                          const disabled = column.disabledLevels.includes(level)
+                          return (
+                            <button
+                              key={level}
+                              type="button"
+                              onClick={() => toggleLevel(aisle.id, column.number, level)}
+                              className={`w-14 h-5 rounded text-xs border ${
+                                disabled
+                                  ? "bg-gray-200 border-gray-300 text-gray-400 line-through"
+                                  : "bg-green-100 border-green-300 text-green-700"
+                              }`}
+                            >
+                              N{level}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-end gap-2 border-t border-[#a7e6c1] pt-4">
+          <div>
+            <Label htmlFor="newAisleId" className="text-[#124734] text-sm">
+              Nuevo pasillo
+            </Label>
+            <Input
+              id="newAisleId"
+              value={newAisle.id}
+              onChange={(e) => setNewAisle({ ...newAisle, id: e.target.value })}
+              placeholder="Ej: J o M1"
+              className="w-28 border-[#7dd3a0] focus:border-[#124734]"
+            />
+          </div>
+          <div>
+            <Label htmlFor="newAisleColumns" className="text-[#124734] text-sm">
+              Columnas
+            </Label>
+            <Input
+              id="newAisleColumns"
+              type="number"
+              min="1"
+              max={MAX_COLUMNS}
+              value={newAisle.columns}
+              onChange={(e) => setNewAisle({ ...newAisle, columns: Number.parseInt(e.target.value) })}
+              className="w-20 border-[#7dd3a0] focus:border-[#124734]"
+            />
+          </div>
+          <div>
+            <Label htmlFor="newAisleLevels" className="text-[#124734] text-sm">
+              Niveles
+            </Label>
+            <Input
+              id="newAisleLevels"
+              type="number"
+              min="1"
+              max={MAX_LEVELS}
+              value={newAisle.levels}
+              onChange={(e) => setNewAisle({ ...newAisle, levels: Number.parseInt(e.target.value) })}
+              className="w-20 border-[#7dd3a0] focus:border-[#124734]"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={addAisle}
+            disabled={!newAisle.id.trim()}
+            className="border-[#7dd3a0] text-[#124734]"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Añadir
+          </Button>
+        </div>
+
+        <div className="border-t border-[#a7e6c1] pt-4">
+          <div className="text-sm font-medium text-[#124734] mb-2">Dimensiones (metros)</div>
+          <div className="flex flex-wrap items-end gap-2">
+            {GEOMETRY_FIELDS.map((field) => (
+              <div key={field.id}>
+                <Label htmlFor={`geometry-${field.id}`} className="text-[#124734] text-xs">
+                  {field.label}
+                </Label>
+                <Input
+                  id={`geometry-${field.id}`}
+                  type="number"
+                  step="0.1"
+                  value={Number.isNaN(field.get(geometry)) ? "" : field.get(geometry)}
+                  onChange={(e) => setGeometry(field.set(geometry, Number.parseFloat(e.target.value)))}
+                  className="w-24 h-8 border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Los pasillos se colocan de izquierda a derecha en el orden de la lista, con la columna 1 junto al pasillo
+            transversal delantero (y = 0). Las distancias de búsqueda, mapa y picking se calculan con estas medidas.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="border-[#7dd3a0] text-[#124734]">
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="bg-[#124734] hover:bg-[#0f3d2a]">
+            {isSaving ? "Guardando..." : "Guardar"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { AlertCircle, PlugZap, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { StorageError } from "@/lib/database"
+import { getRetryHint, STORAGE_ERROR_LABELS } from "@/lib/storage-errors"
+
+interface LoadErrorScreenProps {
+  error: StorageError
+  onRetry: () => void
+  onConfigure: () => void
+}
+
+// Shown instead of the warehouse when the inventory cannot be read, so a failure never looks like an empty store
+export default function LoadErrorScreen({ error, onRetry, onConfigure }: LoadErrorScreenProps) {
+  return (
+    <div className="min-h-screen bg-white p-6 font-sans flex items-center justify-center">
+      <div className="max-w-md text-center space-y-4">
+        <AlertCircle className="h-12 w-12 text-red-600 mx-auto" />
+        <div>
+          <h2 className="text-2xl font-normal text-[#124734] mb-2">No se pudo cargar el inventario</h2>
+          <p className="text-[#0f3d2a]">
+            {STORAGE_ERROR_LABELS[error.code]}.{getRetryHint(error)}
+          </p>
+          {error.code === "misconfigured_sheet" && (
+            <p className="text-sm text-[#0f3d2a] mt-2">
+              Revisa la conexión con SteinHQ: que la hoja exista y que su fila de cabecera tenga las columnas esperadas.
+            </p>
+          )}
+          {error.code === "forbidden" && (
+            <p className="text-sm text-[#0f3d2a] mt-2">
+              Recarga la página e introduce la contraseña del almacén cuando el navegador la pida.
+            </p>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 break-words">
+          {error.message}
+          {error.attempts > 1 && ` (${error.attempts} intentos)`}
+        </p>
+        <p className="text-sm text-[#0f3d2a]">
+          No se muestra ni se guarda nada hasta poder leer los datos, para no sobrescribir el inventario del servidor.
+        </p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" onClick={onConfigure} className="border-[#7dd3a0] text-[#124734]">
+            <PlugZap className="w-4 h-4 mr-2" />
+            Conexión
+          </Button>
+          <Button onClick={onRetry} className="bg-[#124734] hover:bg-[#0f3d2a]">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reintentar
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
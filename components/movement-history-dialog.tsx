@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowDown, ArrowUp, ArrowLeftRight } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { movementsDb, type StockMovement } from "@/lib/database"
+import { getBoxDelta, MOVEMENT_TYPE_LABELS } from "@/lib/movements"
+import { describeStorageError } from "@/lib/storage-errors"
+
+export type MovementHistoryFilter =
+  { kind: "reference"; reference: string } | { kind: "box"; boxId: string; name: string }
+
+interface MovementHistoryDialogProps {
+  filter: MovementHistoryFilter | null
+  onClose: () => void
+}
+
+export default function MovementHistoryDialog({ filter, onClose }: MovementHistoryDialogProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!filter) return
+
+    const loadMovements = async () => {
+      setIsLoading(true)
+      setError(null)
+      const result = await movementsDb.selectItems()
+      if (result.error || !result.data) {
+        setError(`Error cargando el historial de movimientos: ${describeStorageError(result.error)}`)
+        setMovements([])
+      } else {
+        setMovements(
+          result.data
+            .filter((movement) =>
+              filter.kind === "reference"
+                ? movement.reference === filter.reference
+                : movement.from_box === filter.boxId || movement.to_box === filter.boxId,
+            )
+            .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+        )
+      }
+      setIsLoading(false)
+    }
+
+    loadMovements()
+  }, [filter])
+
+  const describeLocation = (movement: StockMovement) => {
+    if (movement.type === "transfer") return `${movement.from_box} → ${movement.to_box}`
+    return movement.to_box || movement.from_box
+  }
+
+  const getSignedQuantity = (movement: StockMovement) => {
+    if (filter?.kind === "box") return getBoxDelta(movement, filter.boxId)
+    if (movement.type === "transfer") return 0
+    return movement.to_box ? movement.quantity : -movement.quantity
+  }
+
+  return (
+    <Dialog open={filter !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">
+            Historial de{" "}
+            {filter?.kind === "reference" ? `la referencia ${filter.reference}` : `la caja ${filter?.name}`}
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Todos los movimientos registrados, del más reciente al más antiguo.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-[#0f3d2a]">Cargando movimientos...</p>
+        ) : error ? (
+          <p className="text-sm text-red-700">{error}</p>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-[#0f3d2a]">No hay movimientos registrados.</p>
+        ) : (
+          <ScrollArea className="h-96">
+            <div className="space-y-2 pr-4">
+              {movements.map((movement) => {
+                const signed = getSignedQuantity(movement)
+                return (
+                  <div
+                    key={movement.id}
+                    className="flex items-center justify-between bg-white p-2 rounded border border-[#a7e6c1] text-sm"
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="border-[#7dd3a0] text-[#124734]">
+                          {MOVEMENT_TYPE_LABELS[movement.type]}
+                        </Badge>
+                        <span className="font-medium text-[#124734]">{movement.reference}</span>
+                        <span className="text-[#0f3d2a]">{describeLocation(movement)}</span>
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {movement.created_at ? new Date(movement.created_at).toLocaleString("es-ES") : "Sin fecha"} ·{" "}
+                        {movement.user || "Sin operario"}
+                        {movement.reason && ` · ${movement.reason}`}
+                      </div>
+                    </div>
+                    <div
+                      className={`flex items-center gap-1 font-bold ${
+                        signed > 0 ? "text-green-700" : signed < 0 ? "text-red-700" : "text-[#124734]"
+                      }`}
+                    >
+                      {signed > 0 ? (
+                        <ArrowDown className="h-3 w-3" />
+                      ) : signed < 0 ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowLeftRight className="h-3 w-3" />
+                      )}
+                      {signed === 0 ? movement.quantity : Math.abs(signed)}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Check, ClipboardList, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { Product } from "@/lib/database"
+import { formatDistance, type WarehouseGeometry } from "@/lib/geometry"
+import { allocateOrder, parseOrder, type PickList, type PickStop } from "@/lib/picking"
+import type { ScoringSettings } from "@/lib/scoring"
+import type { Aisle } from "@/lib/warehouse"
+
+interface PickListDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  aisles: Aisle[]
+  products: Product[]
+  scoringSettings: ScoringSettings
+  geometry: WarehouseGeometry
+  onConfirmStop: (stop: PickStop) => boolean
+}
+
+export default function PickListDialog({
+  open,
+  onOpenChange,
+  aisles,
+  products,
+  scoringSettings,
+  geometry,
+  onConfirmStop,
+}: PickListDialogProps) {
+  const [orderText, setOrderText] = useState("")
+  const [pickList, setPickList] = useState<PickList | null>(null)
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set())
+  const [parseErrors, setParseErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    if (open) {
+      setOrderText("")
+      setPickList(null)
+      setConfirmed(new Set())
+      setParseErrors([])
+    }
+  }, [open])
+
+  const generate = () => {
+    const { lines, errors } = parseOrder(orderText, products)
+    setParseErrors(errors)
+    setConfirmed(new Set())
+    setPickList(lines.length > 0 ? allocateOrder(aisles, lines, scoringSettings, { geometry, products }) : null)
+  }
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setOrderText(await file.text())
+    e.target.value = ""
+  }
+
+  const confirmStop = (stop: PickStop) => {
+    if (onConfirmStop(stop)) {
+      setConfirmed((prev) => new Set(prev).add(stop.id))
+    }
+  }
+
+  const productName = (sku: string) => products.find((product) => product.sku === sku)?.name || sku
+  const pendingStops = pickList ? pickList.stops.length - confirmed.size : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <ClipboardList className="h-5 w-5" />
+            Lista de Picking
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Pega o importa un pedido (una línea por SKU y cantidad). Las unidades se reparten entre las cajas mejor
+            puntuadas y las paradas se ordenan por el recorrido más corto desde la 🚪 ENTRADA.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!pickList ? (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="orderText" className="text-[#124734]">
+                Pedido
+              </Label>
+              <textarea
+                id="orderText"
+                value={orderText}
+                onChange={(e) => setOrderText(e.target.value)}
+                rows={8}
+                placeholder={"REF001 10\nREF002;4\nREF004,1"}
+                className="w-full rounded-md border border-[#7dd3a0] p-2 font-mono text-sm focus:border-[#124734] focus:outline-none"
+              />
+            </div>
+            {parseErrors.length > 0 && (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">
+                  {parseErrors.map((error) => (
+                    <div key={error}>{error}</div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" asChild className="border-[#7dd3a0] text-[#124734]">
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Importar CSV
+                  <input type="file" accept=".csv,.tsv,.txt" onChange={importFile} className="hidden" />
+                </label>
+              </Button>
+              <Button onClick={generate} disabled={!orderText.trim()} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                Generar lista
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {pickList.shortages.length > 0 && (
+              <Alert className="border-yellow-200 bg-yellow-50">
+                <AlertDescription className="text-yellow-800">
+                  Stock insuficiente:{" "}
+                  {pickList.shortages
+                    .map((shortage) => `${shortage.sku} (${shortage.allocated}/${shortage.requested})`)
+                    .join(", ")}
+                </AlertDescription>
+              </Alert>
+            )}
+            <ScrollArea className="h-80">
+              <div className="space-y-2 pr-4">
+                {pickList.stops.map((stop, index) => {
+                  const done = confirmed.has(stop.id)
+                  return (
+                    <div
+                      key={stop.id}
+                      className={`flex items-center justify-between gap-2 p-2 rounded border ${
+                        done ? "bg-gray-50 border-gray-200 opacity-60" : "bg-[#f0f7f4] border-[#a7e6c1]"
+                      }`}
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Badge className="bg-[#124734] text-white">{index + 1}</Badge>
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-[#124734]">{stop.location}</div>
+                          <div className="text-xs text-[#0f3d2a] truncate">
+                            {stop.reference.id} - {productName(stop.reference.id)}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="border-[#7dd3a0] text-[#124734]">
+                          {stop.quantity} uds
+                        </Badge>
+                        <Button
+                          size="sm"
+                          onClick={() => confirmStop(stop)}
+                          disabled={done}
+                          className="bg-[#124734] hover:bg-[#0f3d2a]"
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          {done ? "Hecho" : "Confirmar"}
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </ScrollArea>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-[#0f3d2a]">
+                {pendingStops === 0 ? "Pedido completo" : `${pendingStops} paradas pendientes`} · Recorrido{" "}
+                {formatDistance(pickList.distance)}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setPickList(null)} className="border-[#7dd3a0] text-[#124734]">
+                  Editar pedido
+                </Button>
+                <Button onClick={() => onOpenChange(false)} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                  Cerrar
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,262 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Package, Plus, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { createProductDraft, PRODUCT_UNITS, suggestProducts, validateProduct, type NewProduct } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+
+interface ProductCatalogDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  products: Product[]
+  stockBySku: Map<string, number>
+  onSave: (product: NewProduct, editingId?: string) => Promise<boolean>
+}
+
+const toDraft = ({ id, created_at, updated_at, ...product }: Product): NewProduct => product
+
+const numericFields: { key: keyof NewProduct; label: string; step: string }[] = [
+  { key: "length_cm", label: "Largo (cm)", step: "0.1" },
+  { key: "width_cm", label: "Ancho (cm)", step: "0.1" },
+  { key: "height_cm", label: "Alto (cm)", step: "0.1" },
+  { key: "weight_kg", label: "Peso (kg)", step: "0.01" },
+  { key: "min_stock", label: "Stock mínimo", step: "1" },
+  { key: "reorder_point", label: "Punto de pedido", step: "1" },
+  { key: "reorder_quantity", label: "Lote de pedido", step: "1" },
+]
+
+export default function ProductCatalogDialog({
+  open,
+  onOpenChange,
+  products,
+  stockBySku,
+  onSave,
+}: ProductCatalogDialogProps) {
+  const [query, setQuery] = useState("")
+  const [draft, setDraft] = useState<NewProduct>(createProductDraft())
+  const [editingId, setEditingId] = useState<string | undefined>(undefined)
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setQuery("")
+      setDraft(createProductDraft())
+      setEditingId(undefined)
+      setValidationError(null)
+    }
+  }, [open])
+
+  const visible = query.trim() ? suggestProducts(products, query, products.length) : products
+
+  const startEditing = (product?: Product) => {
+    setDraft(product ? toDraft(product) : createProductDraft())
+    setEditingId(product?.id)
+    setValidationError(null)
+  }
+
+  const handleSave = async () => {
+    const error = validateProduct(draft, products, editingId)
+    if (error) {
+      setValidationError(error)
+      return
+    }
+
+    setIsSaving(true)
+    const saved = await onSave(draft, editingId)
+    setIsSaving(false)
+    if (saved) {
+      startEditing()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">Catálogo de Productos</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Datos maestros de cada SKU. Las cajas solo guardan el SKU y la cantidad; el nombre se toma de aquí.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Buscar por SKU o nombre"
+                className="pl-8 border-[#7dd3a0] focus:border-[#124734]"
+              />
+            </div>
+            <ScrollArea className="h-80 border border-[#a7e6c1] rounded-lg">
+              <div className="divide-y divide-[#a7e6c1]">
+                {visible.map((product) => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => startEditing(product)}
+                    className={`w-full text-left p-2 hover:bg-[#f0f7f4] ${editingId === product.id ? "bg-[#f0f7f4]" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-[#124734]">{product.sku}</span>
+                      <Badge variant="outline" className="text-xs border-[#7dd3a0] text-[#124734]">
+                        {stockBySku.get(product.sku) || 0} {product.unit}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-[#0f3d2a] truncate">{product.name}</div>
+                    {product.category && <div className="text-xs text-gray-500">{product.category}</div>}
+                  </button>
+                ))}
+                {visible.length === 0 && (
+                  <div className="p-4 text-center text-sm text-gray-500">No hay productos que coincidan</div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-[#124734]">{editingId ? `Editar ${draft.sku}` : "Nuevo producto"}</h4>
+              {editingId && (
+                <Button variant="ghost" size="sm" onClick={() => startEditing()} className="text-[#124734]">
+                  <Plus className="h-3 w-3 mr-1" />
+                  Nuevo
+                </Button>
+              )}
+            </div>
+
+            {validationError && (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-800">{validationError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="productSku" className="text-[#124734]">
+                  SKU
+                </Label>
+                <Input
+                  id="productSku"
+                  value={draft.sku}
+                  onChange={(e) => setDraft({ ...draft, sku: e.target.value })}
+                  // Renaming a SKU would orphan the box rows that point at it
+                  disabled={Boolean(editingId && stockBySku.get(draft.sku))}
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+              <div>
+                <Label htmlFor="productBarcode" className="text-[#124734]">
+                  Código de barras
+                </Label>
+                <Input
+                  id="productBarcode"
+                  value={draft.barcode}
+                  onChange={(e) => setDraft({ ...draft, barcode: e.target.value })}
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="productName" className="text-[#124734]">
+                  Nombre
+                </Label>
+                <Input
+                  id="productName"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+              <div>
+                <Label htmlFor="productCategory" className="text-[#124734]">
+                  Categoría
+                </Label>
+                <Input
+                  id="productCategory"
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+              <div>
+                <Label htmlFor="productUnit" className="text-[#124734]">
+                  Unidad
+                </Label>
+                <select
+                  id="productUnit"
+                  value={draft.unit}
+                  onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                  className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+                >
+                  {PRODUCT_UNITS.map((unit) => (
+                    <option key={unit} value={unit}>
+                      {unit}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {numericFields.map((field) => (
+                <div key={field.key}>
+                  <Label htmlFor={`product-${field.key}`} className="text-[#124734]">
+                    {field.label}
+                  </Label>
+                  <Input
+                    id={`product-${field.key}`}
+                    type="number"
+                    min="0"
+                    step={field.step}
+                    value={draft[field.key]}
+                    onChange={(e) => setDraft({ ...draft, [field.key]: Number.parseFloat(e.target.value) || 0 })}
+                    className="border-[#7dd3a0] focus:border-[#124734]"
+                  />
+                </div>
+              ))}
+              <div className="col-span-2">
+                <Label htmlFor="productImage" className="text-[#124734]">
+                  URL de la imagen
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="productImage"
+                    value={draft.image_url}
+                    onChange={(e) => setDraft({ ...draft, image_url: e.target.value })}
+                    placeholder="https://..."
+                    className="border-[#7dd3a0] focus:border-[#124734]"
+                  />
+                  {draft.image_url ? (
+                    <img
+                      src={draft.image_url}
+                      alt={draft.name}
+                      className="h-9 w-9 rounded border border-[#a7e6c1] object-cover"
+                    />
+                  ) : (
+                    <Package className="h-9 w-9 p-2 rounded border border-[#a7e6c1] text-[#7dd3a0]" />
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} className="border-[#7dd3a0] text-[#124734]">
+                Cerrar
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                {isSaving ? "Guardando..." : editingId ? "Guardar cambios" : "Crear producto"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
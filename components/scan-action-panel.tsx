@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowDownToLine, ArrowUpFromLine } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { AddStockLine } from "@/components/add-stock-dialog"
+import { resolveProduct } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import { getLocationLabel } from "@/lib/inventory-sync"
+import { findBox, type Aisle, type Reference, type SlotRef } from "@/lib/warehouse"
+
+interface ScanActionPanelProps {
+  slot: SlotRef | null
+  aisles: Aisle[]
+  products: Product[]
+  onClose: () => void
+  onPick: (slot: SlotRef, reference: Reference, quantity: number) => void
+  onPutAway: (slot: SlotRef, lines: AddStockLine[]) => Promise<boolean>
+}
+
+// Quick pick / put-away for the box whose location label was just scanned
+export default function ScanActionPanel({ slot, aisles, products, onClose, onPick, onPutAway }: ScanActionPanelProps) {
+  const [pickQuantities, setPickQuantities] = useState<Record<string, string>>({})
+  const [putAway, setPutAway] = useState({ sku: "", quantity: "" })
+  const [validationError, setValidationError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (slot) {
+      setPickQuantities({})
+      setPutAway({ sku: "", quantity: "" })
+      setValidationError(null)
+    }
+  }, [slot])
+
+  const box = slot ? findBox(aisles, slot) : undefined
+
+  const handlePick = (reference: Reference) => {
+    if (!slot) return
+    const quantity = Number.parseInt(pickQuantities[reference.id] || "1")
+    if (!Number.isInteger(quantity) || quantity <= 0 || quantity > reference.quantity) {
+      setValidationError(`Indica una cantidad entre 1 y ${reference.quantity} para ${reference.id}`)
+      return
+    }
+    setValidationError(null)
+    setPickQuantities((prev) => ({ ...prev, [reference.id]: "" }))
+    onPick(slot, reference, quantity)
+  }
+
+  const handlePutAway = async () => {
+    if (!slot) return
+    const product = resolveProduct(products, putAway.sku)
+    const quantity = Number.parseInt(putAway.quantity)
+    if (!product) {
+      setValidationError(`${putAway.sku || "El código"} no está en el catálogo. Añádelo desde el layout o el catálogo.`)
+      return
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      setValidationError("La cantidad a ubicar debe ser mayor que cero")
+      return
+    }
+    if (box?.disabled) {
+      setValidationError("Esta ubicación está marcada como no disponible")
+      return
+    }
+
+    setValidationError(null)
+    const saved = await onPutAway(slot, [{ sku: product.sku, name: product.name, quantity, isNewProduct: false }])
+    if (saved) {
+      setPutAway({ sku: "", quantity: "" })
+    }
+  }
+
+  return (
+    <Dialog open={slot !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-[#a7e6c1]">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">{slot && getLocationLabel(aisles, slot)}</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            {box
+              ? `${box.id} · ${box.references.length > 0 ? `${box.references.length} referencias` : "Vacía"}`
+              : "Ubicación no encontrada"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {validationError && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{validationError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 font-medium text-[#124734]">
+            <ArrowUpFromLine className="h-4 w-4" />
+            Sacar (picking)
+          </h4>
+          {box?.references.map((reference) => (
+            <div
+              key={reference.id}
+              className="flex items-center justify-between gap-2 bg-[#f0f7f4] p-2 rounded border border-[#a7e6c1]"
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-[#124734]">{reference.id}</span>
+                <span className="text-sm text-[#0f3d2a] ml-2 truncate">{reference.name}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="border-[#7dd3a0] text-[#124734]">
+                  {reference.quantity}
+                </Badge>
+                <Input
+                  type="number"
+                  min="1"
+                  max={reference.quantity}
+                  value={pickQuantities[reference.id] || ""}
+                  onChange={(e) => setPickQuantities((prev) => ({ ...prev, [reference.id]: e.target.value }))}
+                  placeholder="1"
+                  className="w-16 h-8 text-center border-[#7dd3a0] focus:border-[#124734]"
+                />
+                <Button size="sm" onClick={() => handlePick(reference)} className="bg-[#124734] hover:bg-[#0f3d2a]">
+                  Sacar
+                </Button>
+              </div>
+            </div>
+          ))}
+          {box && box.references.length === 0 && <p className="text-sm text-gray-500">No hay stock en esta caja.</p>}
+        </div>
+
+        <div className="space-y-2 border-t border-[#a7e6c1] pt-4">
+          <h4 className="flex items-center gap-2 font-medium text-[#124734]">
+            <ArrowDownToLine className="h-4 w-4" />
+            Ubicar (put-away)
+          </h4>
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="putAwaySku" className="text-[#124734] text-xs">
+                SKU o código de barras
+              </Label>
+              <Input
+                id="putAwaySku"
+                value={putAway.sku}
+                onChange={(e) => setPutAway({ ...putAway, sku: e.target.value })}
+                className="border-[#7dd3a0] focus:border-[#124734]"
+              />
+            </div>
+            <div>
+              <Label htmlFor="putAwayQuantity" className="text-[#124734] text-xs">
+                Cantidad
+              </Label>
+              <Input
+                id="putAwayQuantity"
+                type="number"
+                min="1"
+                value={putAway.quantity}
+                onChange={(e) => setPutAway({ ...putAway, quantity: e.target.value })}
+                className="w-20 border-[#7dd3a0] focus:border-[#124734]"
+              />
+            </div>
+            <Button onClick={handlePutAway} className="bg-[#124734] hover:bg-[#0f3d2a]">
+              Ubicar
+            </Button>
+          </div>
+          {putAway.sku && resolveProduct(products, putAway.sku) && (
+            <p className="text-xs text-[#0f3d2a]">{resolveProduct(products, putAway.sku)?.name}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  getStrategyWeights,
+  SCORE_FACTOR_LABELS,
+  SCORING_STRATEGIES,
+  type ScoreFactor,
+  type ScoringSettings,
+} from "@/lib/scoring"
+
+interface ScoringSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: ScoringSettings
+  operator: string
+  onSave: (settings: ScoringSettings) => void
+}
+
+const FACTORS = Object.keys(SCORE_FACTOR_LABELS) as ScoreFactor[]
+
+export default function ScoringSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  operator,
+  onSave,
+}: ScoringSettingsDialogProps) {
+  const [draft, setDraft] = useState<ScoringSettings>(settings)
+  const [validationError, setValidationError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setDraft(settings)
+      setValidationError(null)
+    }
+  }, [open, settings])
+
+  const weights = getStrategyWeights(draft)
+  const totalWeight = FACTORS.reduce((sum, factor) => sum + weights[factor], 0)
+
+  const handleSave = () => {
+    if (totalWeight <= 0) {
+      setValidationError("Al menos un criterio debe tener peso")
+      return
+    }
+    if (draft.lowStockThreshold < 0 || draft.mediumStockThreshold < draft.lowStockThreshold) {
+      setValidationError("El umbral de stock medio debe ser mayor o igual que el de stock bajo")
+      return
+    }
+    onSave(draft)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">Criterios de Búsqueda</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Cómo se ordenan las ubicaciones en la búsqueda y en las listas de picking.
+            {operator ? ` Se guardan para ${operator}.` : " Indica tu nombre de operario para guardarlos a tu nombre."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {validationError && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{validationError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            {SCORING_STRATEGIES.map((strategy) => (
+              <label
+                key={strategy.id}
+                className={`flex items-start gap-2 p-2 rounded border cursor-pointer ${
+                  draft.strategyId === strategy.id ? "border-[#124734] bg-[#f0f7f4]" : "border-[#a7e6c1]"
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="strategy"
+                  checked={draft.strategyId === strategy.id}
+                  onChange={() => setDraft({ ...draft, strategyId: strategy.id })}
+                  className="mt-1"
+                />
+                <div>
+                  <div className="text-sm font-medium text-[#124734]">{strategy.name}</div>
+                  <div className="text-xs text-[#0f3d2a]">{strategy.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-[#124734]">Pesos</h4>
+            {FACTORS.map((factor) => (
+              <div key={factor}>
+                <div className="flex justify-between text-xs text-[#0f3d2a]">
+                  <span>{SCORE_FACTOR_LABELS[factor]}</span>
+                  <span>{totalWeight > 0 ? Math.round((weights[factor] / totalWeight) * 100) : 0}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round(weights[factor] * 100)}
+                  disabled={draft.strategyId !== "custom"}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      weights: { ...draft.weights, [factor]: Number.parseInt(e.target.value) / 100 },
+                    })
+                  }
+                  className="w-full accent-[#124734]"
+                />
+              </div>
+            ))}
+            {draft.strategyId !== "custom" && (
+              <p className="text-xs text-gray-500">Elige "Personalizada" para ajustar los pesos.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 pt-2 border-t border-[#a7e6c1]">
+              <div>
+                <Label htmlFor="lowStockThreshold" className="text-[#124734] text-xs">
+                  Stock bajo (≤ uds)
+                </Label>
+                <Input
+                  id="lowStockThreshold"
+                  type="number"
+                  min="0"
+                  value={draft.lowStockThreshold}
+                  onChange={(e) => setDraft({ ...draft, lowStockThreshold: Number.parseInt(e.target.value) || 0 })}
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+              <div>
+                <Label htmlFor="mediumStockThreshold" className="text-[#124734] text-xs">
+                  Stock medio (≤ uds)
+                </Label>
+                <Input
+                  id="mediumStockThreshold"
+                  type="number"
+                  min="0"
+                  value={draft.mediumStockThreshold}
+                  onChange={(e) => setDraft({ ...draft, mediumStockThreshold: Number.parseInt(e.target.value) || 0 })}
+                  className="border-[#7dd3a0] focus:border-[#124734]"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="border-[#7dd3a0] text-[#124734]">
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} className="bg-[#124734] hover:bg-[#0f3d2a]">
+            Guardar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
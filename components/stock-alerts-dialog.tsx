@@ -0,0 +1,98 @@
+"use client"
+
+import { Bell, Download, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { STOCK_ALERT_LABELS, type StockAlert, type StockAlertLevel } from "@/lib/stock-alerts"
+
+interface StockAlertsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  alerts: StockAlert[]
+  onLocate: (sku: string) => void
+  onExport: () => void
+}
+
+const LEVEL_STYLES: Record<StockAlertLevel, string> = {
+  out: "bg-red-600 text-white",
+  critical: "bg-red-100 text-red-800 border border-red-300",
+  reorder: "bg-yellow-100 text-yellow-800 border border-yellow-300",
+}
+
+export default function StockAlertsDialog({ open, onOpenChange, alerts, onLocate, onExport }: StockAlertsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-[#a7e6c1] sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[#124734]">
+            <Bell className="h-5 w-5" />
+            Alertas de Stock
+          </DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            Referencias cuyo stock total, sumando todas las cajas, está por debajo del mínimo o en el punto de pedido.
+            Los umbrales se configuran en el catálogo de productos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {alerts.length === 0 ? (
+          <div className="text-center py-8 text-[#0f3d2a]">Todas las referencias están por encima de su umbral.</div>
+        ) : (
+          <ScrollArea className="h-96">
+            <div className="space-y-2 pr-4">
+              {alerts.map((alert) => (
+                <div
+                  key={alert.sku}
+                  className="flex items-center justify-between gap-2 p-2 rounded border border-[#a7e6c1] bg-[#f0f7f4]"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Badge className={LEVEL_STYLES[alert.level]}>{STOCK_ALERT_LABELS[alert.level]}</Badge>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-[#124734] truncate">
+                        {alert.sku} - {alert.name}
+                      </div>
+                      <div className="text-xs text-[#0f3d2a]">
+                        Stock {alert.stock} {alert.unit} · Mínimo {alert.minStock} · Punto de pedido{" "}
+                        {alert.reorderPoint}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="border-[#7dd3a0] text-[#124734] whitespace-nowrap">
+                      Pedir {alert.suggestedQuantity} {alert.unit}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onLocate(alert.sku)}
+                      className="text-[#0f3d2a] hover:text-[#124734]"
+                      title="Ver ubicaciones"
+                    >
+                      <Search className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={onExport}
+            disabled={alerts.length === 0}
+            className="border-[#7dd3a0] text-[#124734]"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Exportar
+          </Button>
+          <Button onClick={() => onOpenChange(false)} className="bg-[#124734] hover:bg-[#0f3d2a]">
+            Cerrar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowLeftRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { validateTransfer, type StockTransfer } from "@/lib/transfer"
+import { findBox, getSlotBoxId, type Aisle, type Reference, type SlotRef } from "@/lib/warehouse"
+
+export interface TransferRequest {
+  from: SlotRef
+  reference: Reference
+  to?: SlotRef
+}
+
+interface TransferStockDialogProps {
+  request: TransferRequest | null
+  aisles: Aisle[]
+  onClose: () => void
+  onConfirm: (transfer: StockTransfer, reason: string) => Promise<boolean>
+}
+
+const selectClassName =
+  "w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+
+export default function TransferStockDialog({ request, aisles, onClose, onConfirm }: TransferStockDialogProps) {
+  const [target, setTarget] = useState<SlotRef | null>(null)
+  const [quantity, setQuantity] = useState("")
+  const [reason, setReason] = useState("")
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (request) {
+      setTarget(request.to || null)
+      setQuantity(request.reference.quantity.toString())
+      setReason("")
+      setValidationError(null)
+    }
+  }, [request])
+
+  const targetAisle = aisles.find((aisle) => aisle.id === target?.aisleId)
+  const targetColumn = targetAisle?.columns.find((column) => column.id === target?.columnId)
+  const sourceBox = request ? findBox(aisles, request.from) : undefined
+
+  const handleConfirm = async () => {
+    if (!request || !target) {
+      setValidationError("Selecciona la caja de destino")
+      return
+    }
+
+    const transfer: StockTransfer = {
+      from: request.from,
+      to: target,
+      reference: request.reference,
+      quantity: Number.parseInt(quantity),
+    }
+    const error = validateTransfer(aisles, transfer)
+    if (error) {
+      setValidationError(error)
+      return
+    }
+
+    setIsSaving(true)
+    const saved = await onConfirm(transfer, reason.trim())
+    setIsSaving(false)
+    if (saved) {
+      onClose()
+    }
+  }
+
+  return (
+    <Dialog open={request !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="border-[#a7e6c1]">
+        <DialogHeader>
+          <DialogTitle className="text-[#124734]">Trasladar Stock</DialogTitle>
+          <DialogDescription className="text-[#0f3d2a]">
+            {request &&
+              `${request.reference.id} - ${request.reference.name} desde ${
+                sourceBox ? `${getSlotBoxId(request.from)} (${sourceBox.name})` : getSlotBoxId(request.from)
+              }. Disponibles: ${request.reference.quantity} unidades.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {validationError && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">{validationError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="transferAisle" className="text-[#124734]">
+                Pasillo
+              </Label>
+              <select
+                id="transferAisle"
+                value={target?.aisleId || ""}
+                onChange={(e) => {
+                  const aisle = aisles.find((a) => a.id === e.target.value)
+                  const column = aisle?.columns[0]
+                  const box = column?.boxes.find((b) => !b.disabled)
+                  setTarget(
+                    aisle && column && box ? { aisleId: aisle.id, columnId: column.id, level: box.level } : null,
+                  )
+                }}
+                className={selectClassName}
+              >
+                <option value="">—</option>
+                {aisles.map((aisle) => (
+                  <option key={aisle.id} value={aisle.id}>
+                    {aisle.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="transferColumn" className="text-[#124734]">
+                Columna
+              </Label>
+              <select
+                id="transferColumn"
+                value={target?.columnId || ""}
+                disabled={!targetAisle}
+                onChange={(e) => {
+                  const column = targetAisle?.columns.find((c) => c.id === e.target.value)
+                  const box = column?.boxes.find((b) => !b.disabled)
+                  if (targetAisle && column && box) {
+                    setTarget({ aisleId: targetAisle.id, columnId: column.id, level: box.level })
+                  }
+                }}
+                className={selectClassName}
+              >
+                {targetAisle?.columns.map((column) => (
+                  <option key={column.id} value={column.id}>
+                    {column.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="transferLevel" className="text-[#124734]">
+                Nivel
+              </Label>
+              <select
+                id="transferLevel"
+                value={target?.level || ""}
+                disabled={!targetColumn}
+                onChange={(e) => target && setTarget({ ...target, level: Number.parseInt(e.target.value) })}
+                className={selectClassName}
+              >
+                {targetColumn?.boxes
+                  .filter((box) => !box.disabled)
+                  .map((box) => (
+                    <option key={box.id} value={box.level}>
+                      {box.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="transferQuantity" className="text-[#124734]">
+              Cantidad
+            </Label>
+            <Input
+              id="transferQuantity"
+              type="number"
+              min="1"
+              max={request?.reference.quantity}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="border-[#7dd3a0] focus:border-[#124734]"
+            />
+          </div>
+          <div>
+            <Label htmlFor="transferReason" className="text-[#124734]">
+              Motivo (opcional)
+            </Label>
+            <Input
+              id="transferReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ej: Reubicación por rotación"
+              className="border-[#7dd3a0] focus:border-[#124734]"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} className="border-[#7dd3a0] text-[#124734]">
+              Cancelar
+            </Button>
+            <Button onClick={handleConfirm} disabled={isSaving} className="bg-[#124734] hover:bg-[#0f3d2a]">
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              {isSaving ? "Trasladando..." : "Trasladar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
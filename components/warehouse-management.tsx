@@ -2,8 +2,29 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
-import { Search, Package, Edit2, Plus, Minus, MapPin, AlertCircle, Map } from "lucide-react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import {
+  Search,
+  Package,
+  Edit2,
+  Plus,
+  Minus,
+  MapPin,
+  AlertCircle,
+  Map,
+  History,
+  Settings2,
+  ArrowLeftRight,
+  ScanLine,
+  Tag,
+  ClipboardList,
+  SlidersHorizontal,
+  Bell,
+  Upload,
+  Download,
+  PlugZap,
+} from "lucide-react"
+import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -13,54 +34,163 @@ import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { db, type InventoryItem } from "@/lib/database"
-
-interface Reference {
-  id: string
-  name: string
-  quantity: number
-}
-
-interface Box {
-  id: string
-  level: number
-  name: string
-  references: Reference[]
-}
-
-interface Column {
-  id: string
-  name: string
-  boxes: Box[]
-}
-
-interface Aisle {
-  id: string
-  name: string
-  columns: Column[]
-}
+import AddStockDialog, { type AddStockLine } from "@/components/add-stock-dialog"
+import BarcodeScannerDialog from "@/components/barcode-scanner-dialog"
+import BulkProgressBar from "@/components/bulk-progress-bar"
+import ConflictMergeDialog from "@/components/conflict-merge-dialog"
+import ConnectionSettingsDialog from "@/components/connection-settings-dialog"
+import ExportDialog, { type ExportScopeKind } from "@/components/export-dialog"
+import InventoryImportDialog from "@/components/inventory-import-dialog"
+import LoadErrorScreen from "@/components/load-error-screen"
+import LabelPrintDialog from "@/components/label-print-dialog"
+import LayoutEditorDialog from "@/components/layout-editor-dialog"
+import MovementHistoryDialog, { type MovementHistoryFilter } from "@/components/movement-history-dialog"
+import PickListDialog from "@/components/pick-list-dialog"
+import ProductCatalogDialog from "@/components/product-catalog-dialog"
+import ScanActionPanel from "@/components/scan-action-panel"
+import ScoringSettingsDialog from "@/components/scoring-settings-dialog"
+import StockAlertsDialog from "@/components/stock-alerts-dialog"
+import TransferStockDialog, { type TransferRequest } from "@/components/transfer-stock-dialog"
+import {
+  applyCatalogNames,
+  createProductDraft,
+  getStockBySku,
+  loadCatalog,
+  saveProduct,
+  seedCatalogFromItems,
+  type NewProduct,
+} from "@/lib/catalog"
+import {
+  db,
+  layoutDb,
+  movementsDb,
+  productsDb,
+  StorageError,
+  toStorageError,
+  type BulkProgress,
+  type DatabaseResponse,
+  type InventoryItem,
+  type Product,
+  type SyncStatus,
+} from "@/lib/database"
+import {
+  ACCESSIBILITY_FACTOR_LABELS,
+  assessAccessibility,
+  calculateAccessibility,
+  type AccessibilityContext,
+  type AccessibilityFactor,
+} from "@/lib/accessibility"
+import { formatDistance, getAisleDistance, getDistanceFromEntrance, getMaxDistance } from "@/lib/geometry"
+import { buildExport, downloadBlob, type ExportFormat, type ExportScope } from "@/lib/inventory-export"
+import {
+  applyResolution,
+  describeConflict,
+  persistResolution,
+  resolveConflict,
+  type ConflictResolution,
+  type InventoryConflict,
+} from "@/lib/inventory-conflicts"
+import type { ImportPreview } from "@/lib/inventory-import"
+import { applyInventoryDiff, diffInventory, flattenAisles, isEmptyDiff, rebaseInventory } from "@/lib/inventory-sync"
+import {
+  getOperatorName,
+  queueMovement,
+  setOperatorName,
+  toMovementRows,
+  toResetMovements,
+  type PendingMovement,
+} from "@/lib/movements"
+import {
+  buildAislesFromItems,
+  buildEmptyAisles,
+  countUsableBoxes,
+  DEFAULT_LAYOUT,
+  getUsableBoxes,
+  loadLayout,
+  renameAisle,
+  renameBox,
+  renameColumn,
+  saveLayout,
+  type WarehouseLayout,
+} from "@/lib/layout"
+import type { PickStop } from "@/lib/picking"
+import { createWedgeDetector, resolveScan } from "@/lib/scan"
+import { findWorsenedAlerts, getStockAlertLevel, getStockAlerts, STOCK_ALERT_LABELS } from "@/lib/stock-alerts"
+import { describeStorageError } from "@/lib/storage-errors"
+import {
+  EMPTY_SEARCH_FILTERS,
+  hasActiveFilters,
+  searchInventory,
+  splitHighlights,
+  type ReferenceMatch,
+  type SearchFilters,
+} from "@/lib/search"
+import {
+  calculateProximity,
+  getStockPriority,
+  loadScoringSettings,
+  saveScoringSettings,
+  SCORE_FACTOR_LABELS,
+  scoreCandidates,
+  type ScoreFactor,
+  type ScoringCandidate,
+  type ScoringSettings,
+} from "@/lib/scoring"
+import { applyTransfer, persistTransfer, validateTransfer, type StockTransfer } from "@/lib/transfer"
+import {
+  adjustBoxReference,
+  findBox,
+  getBoxId,
+  getColumnNumber,
+  getSlotBoxId,
+  updateBox,
+  type Aisle,
+  type Reference,
+  type SlotRef,
+} from "@/lib/warehouse"
+
+// Drag payload for moving a reference chip onto another box in the layout tab
+const TRANSFER_DRAG_TYPE = "application/x-ortocanis-transfer"
+
+// Smaller writes finish before a progress bar would be readable
+const BULK_PROGRESS_MIN_ROWS = 20
 
 interface SearchResult {
   reference: string
+  filters: SearchFilters
   totalUnits: number
   locations: {
     aisle: string
     column: string
     level: number
+    boxId: string
     quantity: number
     accessibility: number
+    accessibilityReason: string
     priority: number
     proximity: number
+    distance: number
     totalScore: number
+    drivingFactor: ScoreFactor
     referenceName: string
     referenceId: string
+    match: ReferenceMatch
   }[]
 }
 
 export default function WarehouseManagement() {
   const [aisles, setAisles] = useState<Aisle[]>([])
+  const [layout, setLayout] = useState<WarehouseLayout>(DEFAULT_LAYOUT)
+  // The layout with every change asked for so far, saved or not; renames build on it instead of on the last render
+  const latestLayout = useRef<WarehouseLayout>(DEFAULT_LAYOUT)
+  // Layout saves run one after another, each diffing against what the one before it stored
+  const layoutSaves = useRef<Promise<unknown>>(Promise.resolve())
+  const [showLayoutEditor, setShowLayoutEditor] = useState(false)
+  const [products, setProducts] = useState<Product[]>([])
+  const [showCatalog, setShowCatalog] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
   const [searchResults, setSearchResults] = useState<SearchResult | null>(null)
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS)
   const [selectedLocation, setSelectedLocation] = useState<{ aisle: string; column: string; level: number } | null>(
     null,
   )
@@ -72,44 +202,132 @@ export default function WarehouseManagement() {
   >([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [addStockTarget, setAddStockTarget] = useState<SlotRef | null>(null)
+  const [activeTab, setActiveTab] = useState("layout")
+  const [showScanner, setShowScanner] = useState(false)
+  const [showLabels, setShowLabels] = useState(false)
+  const [showPickList, setShowPickList] = useState(false)
+  const [showStockAlerts, setShowStockAlerts] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [exportScope, setExportScope] = useState<ExportScopeKind | null>(null)
+  const [scoringSettings, setScoringSettings] = useState<ScoringSettings>(() => loadScoringSettings(""))
+  const [showScoringSettings, setShowScoringSettings] = useState(false)
+  const [showConnectionSettings, setShowConnectionSettings] = useState(false)
+  const [scannedSlot, setScannedSlot] = useState<SlotRef | null>(null)
   const [showSearchDialog, setShowSearchDialog] = useState(false)
+  const [syncState, setSyncState] = useState<{ offline: boolean; reason: string } & SyncStatus<InventoryItem>>({
+    offline: false,
+    reason: "",
+    pending: 0,
+    conflicts: [],
+  })
+
+  const [operator, setOperator] = useState("")
+  const [historyFilter, setHistoryFilter] = useState<MovementHistoryFilter | null>(null)
+  const [transferRequest, setTransferRequest] = useState<TransferRequest | null>(null)
+
+  const refreshSyncState = () => {
+    setSyncState({ offline: db.isFallbackMode(), reason: db.getFallbackReason(), ...db.getSyncStatus() })
+  }
+
+  // Rows as last read from or written to the store; saves are diffed against this
+  const syncedItems = useRef<InventoryItem[] | null>(null)
+
+  // Remote updates are applied under the unsaved edits in the latest aisles; while a save is writing they wait
+  // for it, since it replaces the baseline when it finishes
+  const currentAisles = useRef(aisles)
+  currentAisles.current = aisles
+  const savesInFlight = useRef(0)
+  const heldRemoteItems = useRef<InventoryItem[] | null>(null)
+
+  // The local edits, and the stock movements queued for them, survive an update from another client
+  const receiveRemoteItems = (items: InventoryItem[], currentLayout: WarehouseLayout) => {
+    if (savesInFlight.current > 0) {
+      heldRemoteItems.current = items
+      return
+    }
+    const rebased = syncedItems.current
+      ? rebaseInventory(currentAisles.current, syncedItems.current, items)
+      : { baseline: items, items }
+    syncedItems.current = rebased.baseline
+    refreshSyncState()
+    setAisles(buildAislesFromItems(currentLayout, rebased.items))
+  }
+
+  // Large saves, imports and resets cost a request per row on SteinHQ, so their progress is shown
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null)
+
+  const reportProgress = (progress: BulkProgress) => {
+    if (progress.total >= BULK_PROGRESS_MIN_ROWS) setBulkProgress(progress)
+  }
+
+  // Set when the inventory could not be read, so the page shows that instead of an empty warehouse
+  const [loadError, setLoadError] = useState<StorageError | null>(null)
+
+  // Rows of a save rejected because another client changed them first, resolved one at a time in the merge
+  // dialog; saving waits until all of them are resolved
+  const [editConflicts, setEditConflicts] = useState<InventoryConflict[]>([])
+  const editConflict = editConflicts[0] ?? null
+
+  // Stock changes made since the last save, written to the ledger once the inventory rows are stored
+  const pendingMovements = useRef<PendingMovement[]>([])
+
+  const trackMovement = (movement: PendingMovement) => {
+    pendingMovements.current = queueMovement(pendingMovements.current, movement)
+  }
+
+  const flushMovements = async () => {
+    const rows = toMovementRows(pendingMovements.current, getOperatorName())
+    pendingMovements.current = []
+    if (rows.length === 0) return
+
+    const result = await movementsDb.insertMany(rows)
+    if (result.error) {
+      console.error("[v0] Error recording stock movements:", result.error)
+      setError("Error registrando los movimientos de stock")
+    }
+  }
 
   const saveToDatabase = async (data: Aisle[]) => {
+    if (editConflict) return
     try {
-      // Convert aisle structure to inventory items for database storage
-      const inventoryItems: Omit<InventoryItem, "id" | "created_at" | "updated_at">[] = []
-
-      data.forEach((aisle) => {
-        aisle.columns.forEach((column) => {
-          column.boxes.forEach((box) => {
-            box.references.forEach((ref) => {
-              inventoryItems.push({
-                reference: ref.id,
-                description: ref.name,
-                quantity: ref.quantity,
-                location: `${aisle.name}-${column.name}-${box.name}`,
-                aisle: aisle.id,
-                column: Number.parseInt(column.id.split("C")[1]),
-                shelf: box.level,
-              })
-            })
-          })
-        })
-      })
+      if (!syncedItems.current) {
+        const existingItems = await db.selectItems()
+        syncedItems.current = existingItems.data || []
+      }
 
-      // Clear existing items and insert new ones
-      const existingItems = await db.selectItems()
-      if (existingItems.data) {
-        for (const item of existingItems.data) {
-          await db.deleteItem(item.id)
-        }
+      const diff = diffInventory(data, syncedItems.current)
+      if (isEmptyDiff(diff)) {
+        await flushMovements()
+        return
       }
 
-      // Insert new items
-      for (const item of inventoryItems) {
-        await db.insertItem(item)
+      console.log(
+        `[v0] Syncing inventory: ${diff.inserts.length} inserts, ${diff.updates.length} updates, ${diff.deletes.length} deletes`,
+      )
+      const baseline = syncedItems.current
+      savesInFlight.current += 1
+      const result = await applyInventoryDiff(db, baseline, diff, reportProgress).finally(() => {
+        savesInFlight.current -= 1
+      })
+      if (result.error || !result.data) {
+        // Rows that went through are at their stored version, the failed ones stay at the version this save was
+        // based on; re-reading the store instead would make the next save overwrite the other client's change
+        syncedItems.current = result.data
+        const conflicts = (result.conflicts || []).flatMap(
+          (conflict) => describeConflict(diff, baseline, conflict) || [],
+        )
+        if (conflicts.length > 0) {
+          console.warn(`[v0] Save conflict on ${conflicts.length} rows`)
+          setEditConflicts(conflicts)
+          // Nothing else failed; the merge dialog takes it from here
+          if (conflicts.length === result.failedRows?.length) return
+        }
+        throw result.error || new StorageError("unknown", "Error applying inventory changes")
       }
+      syncedItems.current = result.data
+      await flushMovements()
+      refreshSyncState()
 
       if (db.isFallbackMode()) {
         console.log("[v0] Inventory saved to localStorage (API fallback mode)")
@@ -118,123 +336,117 @@ export default function WarehouseManagement() {
       }
     } catch (error) {
       console.error("[v0] Error saving to database:", error)
-      setError("Error saving to database")
+      setError(`Error guardando los cambios: ${describeStorageError(toStorageError(error))}`)
+    } finally {
+      setBulkProgress(null)
+      const held = heldRemoteItems.current
+      if (held && savesInFlight.current === 0) {
+        heldRemoteItems.current = null
+        receiveRemoteItems(held, layout)
+      }
     }
   }
 
-  const loadFromDatabase = async (): Promise<Aisle[]> => {
+  // A failed read is reported as such, never as an empty warehouse that the next save would write back
+  const loadFromDatabase = async (currentLayout: WarehouseLayout): Promise<DatabaseResponse<Aisle[]>> => {
     try {
       const result = await db.selectItems()
       if (result.error || !result.data) {
         console.error("[v0] Database error:", result.error)
-        return []
+        return { data: null, error: result.error || new StorageError("unknown", "Error loading inventory") }
       }
-
-      // Convert database items back to aisle structure
-      const aisleMap: { [key: string]: Aisle } = {}
-
-      result.data.forEach((item) => {
-        if (!aisleMap[item.aisle]) {
-          aisleMap[item.aisle] = {
-            id: item.aisle,
-            name: `Pasillo ${item.aisle}`,
-            columns: Array.from({ length: 7 }, (_, colIndex) => ({
-              id: `${item.aisle}-C${colIndex + 1}`,
-              name: `Columna ${colIndex + 1}`,
-              boxes: Array.from({ length: 6 }, (_, levelIndex) => ({
-                id: `${item.aisle}-C${colIndex + 1}-L${levelIndex + 1}`,
-                level: levelIndex + 1,
-                name: `Nivel ${levelIndex + 1}`,
-                references: [],
-              })),
-            })),
-          }
-        }
-
-        const aisle = aisleMap[item.aisle]
-        const column = aisle.columns.find((c) => c.id === `${item.aisle}-C${item.column}`)
-        if (column) {
-          const box = column.boxes.find((b) => b.level === item.shelf)
-          if (box) {
-            box.references.push({
-              id: item.reference,
-              name: item.description,
-              quantity: item.quantity,
-            })
-          }
-        }
-      })
+      syncedItems.current = result.data
 
       if (db.isFallbackMode()) {
         console.log("[v0] Inventory loaded from localStorage (API fallback mode)")
       } else {
         console.log("[v0] Inventory loaded from database")
       }
-      return Object.values(aisleMap).sort((a, b) => a.id.localeCompare(b.id))
+      return { data: buildAislesFromItems(currentLayout, result.data), error: null }
     } catch (error) {
       console.error("[v0] Error loading from database:", error)
-      return null
+      return { data: null, error: toStorageError(error) }
     }
   }
 
-  const createInitialData = (): Aisle[] => {
-    const aisleLetters = ["A", "B", "C", "D", "E", "F", "G", "H", "I"]
-    const initialData: Aisle[] = aisleLetters.map((letter) => ({
-      id: letter,
-      name: `Pasillo ${letter}`,
-      columns: Array.from({ length: 7 }, (_, colIndex) => ({
-        id: `${letter}-C${colIndex + 1}`,
-        name: `Columna ${colIndex + 1}`,
-        boxes: Array.from({ length: 6 }, (_, levelIndex) => ({
-          id: `${letter}-C${colIndex + 1}-L${levelIndex + 1}`,
-          level: levelIndex + 1,
-          name: `Nivel ${levelIndex + 1}`,
-          references: [],
-        })),
-      })),
-    }))
+  const loadProducts = async (items: InventoryItem[]) => {
+    const result = await loadCatalog(productsDb)
+    if (result.error || !result.data) {
+      console.error("[v0] Error loading product catalog:", result.error)
+      return
+    }
+
+    const seeded = await seedCatalogFromItems(productsDb, result.data, items)
+    if (seeded.error || !seeded.data) {
+      console.error("[v0] Error adding existing references to the catalog:", seeded.error)
+    }
+    setProducts(seeded.data || result.data)
+  }
+
+  const createInitialData = (currentLayout: WarehouseLayout): Aisle[] => {
+    const initialData = buildEmptyAisles(currentLayout)
 
     // Añadir algunos datos de ejemplo solo si no hay datos guardados
-    initialData[0].columns[0].boxes[0].references = [
+    const addSample = (aisleIndex: number, columnIndex: number, boxIndex: number, references: Reference[]) => {
+      const box = initialData[aisleIndex]?.columns[columnIndex]?.boxes[boxIndex]
+      if (box && !box.disabled) {
+        box.references = references
+      }
+    }
+    addSample(0, 0, 0, [
       { id: "REF001", name: "Arnés Deportivo", quantity: 25 },
       { id: "REF002", name: "Collar Ajustable", quantity: 45 },
-    ]
-    initialData[0].columns[0].boxes[1].references = [{ id: "REF001", name: "Arnés Deportivo", quantity: 120 }]
-    initialData[0].columns[1].boxes[0].references = [{ id: "REF003", name: "Correa Extensible", quantity: 15 }]
-    initialData[1].columns[0].boxes[0].references = [{ id: "REF002", name: "Collar Ajustable", quantity: 80 }]
-    initialData[2].columns[2].boxes[2].references = [{ id: "REF004", name: "Cama Ortopédica", quantity: 5 }]
+    ])
+    addSample(0, 0, 1, [{ id: "REF001", name: "Arnés Deportivo", quantity: 120 }])
+    addSample(0, 1, 0, [{ id: "REF003", name: "Correa Extensible", quantity: 15 }])
+    addSample(1, 0, 0, [{ id: "REF002", name: "Collar Ajustable", quantity: 80 }])
+    addSample(2, 2, 2, [{ id: "REF004", name: "Cama Ortopédica", quantity: 5 }])
 
     return initialData
   }
 
   useEffect(() => {
-    const initializeData = async () => {
-      setIsLoading(true)
-      setError(null)
+    setOperator(getOperatorName())
+    setScoringSettings(loadScoringSettings(getOperatorName()))
+  }, [])
 
-      try {
-        const savedData = await loadFromDatabase()
-        if (savedData) {
-          setAisles(savedData)
-        } else {
-          const initialData = createInitialData()
-          setAisles(initialData)
-          await saveToDatabase(initialData)
-        }
-      } catch (err) {
-        console.error("[v0] Error initializing data:", err)
-        setError("Error loading data from database")
-        // Fallback to initial data
-        const initialData = createInitialData()
-        setAisles(initialData)
-      } finally {
-        setIsLoading(false)
+  const initializeData = async () => {
+    setIsLoading(true)
+    setError(null)
+    setLoadError(null)
+
+    try {
+      const currentLayout = await loadLayout(layoutDb)
+      latestLayout.current = currentLayout
+      setLayout(currentLayout)
+
+      const savedData = await loadFromDatabase(currentLayout)
+      if (!savedData.data) {
+        // Nothing is shown or saved until the inventory can be read; see the load error screen
+        setLoadError(savedData.error)
+        return
       }
+      setAisles(savedData.data)
+      await loadProducts(syncedItems.current || [])
+    } catch (err) {
+      console.error("[v0] Error initializing data:", err)
+      setLoadError(toStorageError(err))
+    } finally {
+      setIsLoading(false)
     }
+  }
 
+  useEffect(() => {
     initializeData()
   }, [])
 
+  // Catalog names win over whatever description a box row carries; the next sync writes them back
+  useEffect(() => {
+    if (products.length > 0) {
+      setAisles((prev) => applyCatalogNames(prev, products))
+    }
+  }, [products])
+
   useEffect(() => {
     if (aisles.length > 0 && !isLoading) {
       const saveData = async () => {
@@ -258,48 +470,7 @@ export default function WarehouseManagement() {
     const setupRealtimeUpdates = async () => {
       try {
         unsubscribe = await db.subscribeToChanges(async (items) => {
-          // Convert database items back to aisle structure
-          const aisleMap: { [key: string]: Aisle } = {}
-
-          // Initialize empty structure
-          const aisleLetters = ["A", "B", "C", "D", "E", "F", "G", "H", "I"]
-          aisleLetters.forEach((letter) => {
-            aisleMap[letter] = {
-              id: letter,
-              name: `Pasillo ${letter}`,
-              columns: Array.from({ length: 7 }, (_, colIndex) => ({
-                id: `${letter}-C${colIndex + 1}`,
-                name: `Columna ${colIndex + 1}`,
-                boxes: Array.from({ length: 6 }, (_, levelIndex) => ({
-                  id: `${letter}-C${colIndex + 1}-L${levelIndex + 1}`,
-                  level: levelIndex + 1,
-                  name: `Nivel ${levelIndex + 1}`,
-                  references: [],
-                })),
-              })),
-            }
-          })
-
-          // Populate with database items
-          items.forEach((item) => {
-            const aisle = aisleMap[item.aisle]
-            if (aisle) {
-              const column = aisle.columns.find((c) => c.id === `${item.aisle}-C${item.column}`)
-              if (column) {
-                const box = column.boxes.find((b) => b.level === item.shelf)
-                if (box) {
-                  box.references.push({
-                    id: item.reference,
-                    name: item.description,
-                    quantity: item.quantity,
-                  })
-                }
-              }
-            }
-          })
-
-          const updatedAisles = Object.values(aisleMap).sort((a, b) => a.id.localeCompare(b.id))
-          setAisles(updatedAisles)
+          receiveRemoteItems(items, layout)
           console.log("[v0] Real-time update received from database")
         })
       } catch (err) {
@@ -316,109 +487,76 @@ export default function WarehouseManagement() {
         unsubscribe()
       }
     }
-  }, [isLoading])
-
-  const calculateAccessibility = (aisle: Aisle, columnId: string, targetLevel: number): number => {
-    const column = aisle.columns.find((col) => col.id === columnId)
-    if (!column) return 3 // Default to high accessibility for empty spaces
-
-    const boxesAbove = column.boxes.filter((box) => box.level > targetLevel && box.references.length > 0).length
-    const boxesBelow = column.boxes.filter((box) => box.level < targetLevel && box.references.length > 0).length
-
-    // Empty spaces are highly accessible (green)
-    const targetBox = column.boxes.find((box) => box.level === targetLevel)
-    if (!targetBox || targetBox.references.length === 0) return 3
+  }, [isLoading, layout])
 
-    // Calculate accessibility based on obstacles above and proximity to ground
-    if (boxesAbove === 0 && targetLevel <= 2) return 3 // Very accessible
-    if (boxesAbove <= 1 && targetLevel <= 4) return 2 // Moderately accessible
-    return 1 // Low accessibility
-  }
-
-  const calculateProximity = (aisleId: string): number => {
-    const aisleIndex = aisleId.charCodeAt(0) - "A".charCodeAt(0)
-    return 9 - aisleIndex
-  }
-
-  const searchReference = (term: string) => {
-    if (!term.trim()) {
+  const searchReference = (term: string, filters: SearchFilters = searchFilters) => {
+    if (!term.trim() && !hasActiveFilters(filters)) {
       setSearchResults(null)
       setHighlightedBoxes([])
       return
     }
 
-    const locations: SearchResult["locations"] = []
-    let totalUnits = 0
-
-    aisles.forEach((aisle) => {
-      aisle.columns.forEach((column) => {
-        column.boxes.forEach((box) => {
-          const reference = box.references.find(
-            (ref) =>
-              ref.id.toLowerCase().includes(term.toLowerCase()) || ref.name.toLowerCase().includes(term.toLowerCase()),
-          )
-
-          if (reference) {
-            totalUnits += reference.quantity
-
-            const priority = reference.quantity <= 50 ? 3 : reference.quantity <= 100 ? 2 : 1
-            const accessibility = calculateAccessibility(aisle, column.id, box.level)
-            const proximity = calculateProximity(aisle.id)
-
-            const priorityScore = (priority / 3) * 5
-            const accessibilityScore = (accessibility / 3) * 5
-            const proximityScore = (proximity / 9) * 5
-
-            const totalScore = priorityScore * 0.4 + accessibilityScore * 0.35 + proximityScore * 0.25
-
-            locations.push({
-              aisle: aisle.name,
-              column: column.name,
-              level: box.level,
-              quantity: reference.quantity,
-              accessibility,
-              priority,
-              proximity,
-              totalScore,
-              referenceName: reference.name,
-              referenceId: reference.id,
-            })
-          }
-        })
-      })
-    })
-
-    locations.sort((a, b) => b.totalScore - a.totalScore)
+    const hits = searchInventory(aisles, products, term, filters, accessibilityContext)
+    // Keyed by box and reference; "Map" is the lucide icon in this file
+    const matches: Record<string, ReferenceMatch> = Object.fromEntries(
+      hits.map((hit) => [`${hit.box.id}|${hit.reference.id}`, hit.match]),
+    )
+    const totalUnits = hits.reduce((sum, hit) => sum + hit.reference.quantity, 0)
+
+    const locations: SearchResult["locations"] = scoreCandidates(
+      aisles,
+      hits,
+      scoringSettings,
+      accessibilityContext,
+    ).map((scored) => ({
+      aisle: scored.aisle.name,
+      column: scored.column.name,
+      level: scored.box.level,
+      boxId: scored.box.id,
+      quantity: scored.reference.quantity,
+      accessibility: scored.accessibility,
+      accessibilityReason: scored.accessibilityReason,
+      priority: scored.priority,
+      proximity: scored.proximity,
+      distance: scored.distance,
+      totalScore: scored.totalScore,
+      drivingFactor: scored.drivingFactor,
+      referenceName: scored.reference.name,
+      referenceId: scored.reference.id,
+      match: matches[`${scored.box.id}|${scored.reference.id}`] || { score: 1, spans: {} },
+    }))
 
     setSearchResults({
       reference: term,
+      filters,
       locations,
       totalUnits,
     })
 
     const boxesToHighlight: { aisleId: string; columnId: string; level: number; accessibility: number }[] = []
-    aisles.forEach((aisle) => {
-      aisle.columns.forEach((column) => {
-        column.boxes.forEach((box) => {
-          const reference = box.references.find(
-            (ref) =>
-              ref.id.toLowerCase().includes(term.toLowerCase()) || ref.name.toLowerCase().includes(term.toLowerCase()),
-          )
-          if (reference) {
-            const accessibility = calculateAccessibility(aisle, column.id, box.level)
-            boxesToHighlight.push({
-              aisleId: aisle.id,
-              columnId: column.id,
-              level: box.level,
-              accessibility,
-            })
-          }
-        })
+    hits.forEach((hit) => {
+      if (boxesToHighlight.some((h) => h.columnId === hit.column.id && h.level === hit.box.level)) return
+      boxesToHighlight.push({
+        aisleId: hit.aisle.id,
+        columnId: hit.column.id,
+        level: hit.box.level,
+        accessibility: calculateAccessibility(hit.aisle, hit.column.id, hit.box.level, accessibilityContext),
       })
     })
     setHighlightedBoxes(boxesToHighlight)
   }
 
+  const renderHighlighted = (text: string, spans?: { start: number; end: number }[]) =>
+    splitHighlights(text, spans).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+          {part.text}
+        </mark>
+      ) : (
+        part.text
+      ),
+    )
+
   const updateName = (type: "aisle" | "column", id: string, newName: string) => {
     if (!newName.trim()) return
 
@@ -438,6 +576,15 @@ export default function WarehouseManagement() {
     )
     setEditingName(null)
     setNewName("")
+
+    if (type === "aisle") {
+      applyLayout((current) => renameAisle(current, id, newName.trim()))
+    } else {
+      const aisle = aisles.find((a) => a.columns.some((column) => column.id === id))
+      if (aisle) {
+        applyLayout((current) => renameColumn(current, aisle.id, getColumnNumber(id), newName.trim()))
+      }
+    }
   }
 
   const addReference = async (
@@ -451,24 +598,25 @@ export default function WarehouseManagement() {
       return
     }
 
+    const targetBox = aisles
+      .find((aisle) => aisle.id === aisleId)
+      ?.columns.find((column) => column.id === columnId)
+      ?.boxes.find((box) => box.level === level)
+    if (targetBox?.disabled) {
+      setError("Esta ubicación está marcada como no disponible")
+      return
+    }
+
     try {
-      const columnNumber = Number.parseInt(columnId.split("C")[1])
-      const result = await db.insertItem({
+      // Persisted by the debounced diff sync, which inserts or updates just this row
+      trackMovement({
+        type: "receipt",
         reference: refData.id,
         description: refData.name,
-        quantity: refData.quantity,
-        location: `Pasillo ${aisleId}-Columna ${columnNumber}-Nivel ${level}`,
-        aisle: aisleId,
-        column: columnNumber,
-        shelf: level,
+        boxId: `${columnId}-L${level}`,
+        delta: refData.quantity,
+        reason: "Entrada de mercancía",
       })
-
-      if (result.error) {
-        console.error("[v0] Database error adding reference:", result.error)
-        setError("Error adding reference to database")
-        return
-      }
-
       setAisles((prev) => {
         const updated = prev.map((aisle) => {
           if (aisle.id === aisleId) {
@@ -491,7 +639,7 @@ export default function WarehouseManagement() {
                         } else {
                           return {
                             ...box,
-                            references: [...box.references, refData],
+                            references: [...box.references, { ...refData, receivedAt: new Date().toISOString() }],
                           }
                         }
                       }
@@ -505,7 +653,7 @@ export default function WarehouseManagement() {
           }
           return aisle
         })
-        console.log("[v0] Reference added and saved to database")
+        console.log("[v0] Reference added and will be saved")
         return updated
       })
     } catch (err) {
@@ -514,7 +662,26 @@ export default function WarehouseManagement() {
     }
   }
 
+  const findReference = (aisleId: string, columnId: string, level: number, refId: string) =>
+    aisles
+      .find((aisle) => aisle.id === aisleId)
+      ?.columns.find((column) => column.id === columnId)
+      ?.boxes.find((box) => box.level === level)
+      ?.references.find((ref) => ref.id === refId)
+
   const updateReferenceQuantity = (aisleId: string, columnId: string, level: number, refId: string, change: number) => {
+    const current = findReference(aisleId, columnId, level, refId)
+    if (current) {
+      trackMovement({
+        type: "adjustment",
+        reference: refId,
+        description: current.name,
+        boxId: `${columnId}-L${level}`,
+        delta: Math.max(0, current.quantity + change) - current.quantity,
+        reason: "Ajuste manual",
+      })
+    }
+
     setAisles((prev) => {
       const updated = prev.map((aisle) => {
         if (aisle.id === aisleId) {
@@ -563,6 +730,18 @@ export default function WarehouseManagement() {
   ) => {
     if (newQuantity < 0) return
 
+    const current = findReference(aisleId, columnId, level, refId)
+    if (current) {
+      trackMovement({
+        type: "count_correction",
+        reference: refId,
+        description: current.name,
+        boxId: `${columnId}-L${level}`,
+        delta: newQuantity - current.quantity,
+        reason: "Corrección de recuento",
+      })
+    }
+
     setAisles((prev) => {
       const updated = prev.map((aisle) => {
         if (aisle.id === aisleId) {
@@ -628,32 +807,107 @@ export default function WarehouseManagement() {
         return aisle
       }),
     )
+    applyLayout((current) => renameBox(current, aisleId, getColumnNumber(columnId), level, newName.trim()))
   }
 
-  const promptForReferenceData = (): { id: string; name: string; quantity: number } | null => {
-    const refId = prompt("Código de referencia:")?.trim()
-    const refName = prompt("Nombre del producto:")?.trim()
-    const quantityStr = prompt("Cantidad inicial:")?.trim()
-    const quantity = Number.parseInt(quantityStr || "0")
+  const saveCatalogProduct = async (product: NewProduct, editingId?: string): Promise<boolean> => {
+    const result = await saveProduct(productsDb, products, product, editingId)
+    if (result.error || !result.data) {
+      console.error("[v0] Error saving product:", result.error)
+      setError(`Error guardando el producto: ${describeStorageError(result.error)}`)
+      return false
+    }
+    setProducts(result.data)
+    return true
+  }
+
+  const applyLayout = (change: WarehouseLayout | ((current: WarehouseLayout) => WarehouseLayout)): Promise<boolean> => {
+    const previousLayout = latestLayout.current
+    const newLayout = typeof change === "function" ? change(previousLayout) : change
+    latestLayout.current = newLayout
 
-    if (!refId || !refName || !quantityStr || quantity <= 0 || isNaN(quantity)) {
-      if (refId || refName || quantityStr) {
-        alert("Por favor, introduce valores válidos para todos los campos.")
+    const save = layoutSaves.current.then(async () => {
+      const result = await saveLayout(layoutDb, newLayout)
+      if (result.error) {
+        console.error("[v0] Error saving layout:", result.error)
+        setError("Error guardando la distribución del almacén")
+        // Changes asked for since then were built on this one and are saved (or not) with it
+        if (latestLayout.current === newLayout) latestLayout.current = previousLayout
+        return false
       }
-      return null
+      // Changing the layout re-subscribes, which rebuilds the aisles from the stored rows
+      setLayout(newLayout)
+      return true
+    })
+    layoutSaves.current = save
+    return save
+  }
+
+  const transferStock = async (transfer: StockTransfer, reason: string): Promise<boolean> => {
+    const validationError = validateTransfer(aisles, transfer)
+    if (validationError) {
+      setError(validationError)
+      return false
+    }
+
+    // Unsaved edits would leave the baseline without the rows the transfer needs to touch
+    await saveToDatabase(aisles)
+    if (!syncedItems.current) {
+      setError("Error trasladando el stock: no se pudo leer el inventario guardado")
+      return false
+    }
+
+    const result = await persistTransfer(db, syncedItems.current, aisles, transfer)
+    if (result.error || !result.data) {
+      console.error("[v0] Error transferring stock:", result.error)
+      syncedItems.current = null
+      setError(`Error trasladando el stock: ${describeStorageError(result.error)}`)
+      return false
     }
 
-    return { id: refId, name: refName, quantity }
+    syncedItems.current = result.data
+    setAisles((prev) => applyTransfer(prev, transfer))
+    trackMovement({
+      type: "transfer",
+      reference: transfer.reference.id,
+      description: transfer.reference.name,
+      boxId: getSlotBoxId(transfer.from),
+      toBoxId: getSlotBoxId(transfer.to),
+      delta: transfer.quantity,
+      reason: reason || "Traslado entre cajas",
+    })
+    await flushMovements()
+    refreshSyncState()
+    return true
   }
 
   const handleAddReference = (aisleId: string, columnId: string, level: number) => {
-    const refData = promptForReferenceData()
-    if (refData) {
-      addReference(aisleId, columnId, level, refData)
-      if (confirm("¿Desea añadir otra referencia a esta caja?")) {
-        setTimeout(() => handleAddReference(aisleId, columnId, level), 100)
+    setAddStockTarget({ aisleId, columnId, level })
+  }
+
+  const addStock = async (target: SlotRef, lines: AddStockLine[]): Promise<boolean> => {
+    // Register new SKUs one by one so each is validated against the ones created before it
+    let catalog = products
+    for (const line of lines.filter((l) => l.isNewProduct)) {
+      const result = await saveProduct(productsDb, catalog, createProductDraft(line.sku, line.name))
+      if (result.error || !result.data) {
+        console.error("[v0] Error saving product:", result.error)
+        setError(`Error guardando el producto ${line.sku}: ${describeStorageError(result.error)}`)
+        setProducts(catalog)
+        return false
       }
+      catalog = result.data
     }
+    setProducts(catalog)
+
+    for (const line of lines) {
+      await addReference(target.aisleId, target.columnId, target.level, {
+        id: line.sku,
+        name: line.name,
+        quantity: line.quantity,
+      })
+    }
+    return true
   }
 
   const getAccessibilityIcon = (accessibility: number) => {
@@ -672,11 +926,11 @@ export default function WarehouseManagement() {
     return "Baja"
   }
 
-  const getProximityText = (proximity: number) => {
-    if (proximity >= 8) return "Muy cerca (2-3 pasos)"
-    if (proximity >= 6) return "Cerca (4-6 pasos)"
-    if (proximity >= 4) return "Media distancia (7-10 pasos)"
-    return "Lejos (11+ pasos)"
+  const getProximityText = (proximity: number, distance: number) => {
+    if (proximity >= 8) return `Muy cerca (${formatDistance(distance)})`
+    if (proximity >= 6) return `Cerca (${formatDistance(distance)})`
+    if (proximity >= 4) return `Media distancia (${formatDistance(distance)})`
+    return `Lejos (${formatDistance(distance)})`
   }
 
   const getProximityColor = (proximity: number) => {
@@ -686,6 +940,16 @@ export default function WarehouseManagement() {
     return "text-red-700 bg-red-100"
   }
 
+  const accessibilityContext: AccessibilityContext = useMemo(
+    () => ({ geometry: layout.geometry, products }),
+    [layout.geometry, products],
+  )
+
+  const maxDistance = useMemo(() => getMaxDistance(aisles, layout.geometry), [aisles, layout.geometry])
+
+  const getAisleProximity = (aisleId: string) =>
+    calculateProximity(getAisleDistance(aisles, layout.geometry, aisleId), maxDistance)
+
   const getProximityIcon = (proximity: number) => {
     return proximity >= 7 ? "🚪" : proximity >= 4 ? "🚶" : "🏃"
   }
@@ -698,35 +962,57 @@ export default function WarehouseManagement() {
     let highStockItems = 0
     const uniqueReferences = new Set<string>()
     let occupiedBoxes = 0
-    const totalBoxes = aisles.length * 7 * 6 // 9 aisles * 7 columns * 6 levels
+    const totalBoxes = countUsableBoxes(aisles)
     let highAccessibilityBoxes = 0
     let mediumAccessibilityBoxes = 0
     let lowAccessibilityBoxes = 0
+    // Boxes below high accessibility, by what holds them back
+    const accessibilityLimits: Record<AccessibilityFactor, number> = { reach: 0, blocked: 0, weight: 0 }
 
     aisles.forEach((aisle) => {
       aisle.columns.forEach((column) => {
         column.boxes.forEach((box) => {
           if (box.references.length > 0) {
             occupiedBoxes++
-            const accessibility = calculateAccessibility(aisle, column.id, box.level)
+            const { score: accessibility, limitingFactor } = assessAccessibility(
+              aisle,
+              column.id,
+              box.level,
+              accessibilityContext,
+            )
             if (accessibility === 3) highAccessibilityBoxes++
             else if (accessibility === 2) mediumAccessibilityBoxes++
             else lowAccessibilityBoxes++
+            if (limitingFactor) accessibilityLimits[limitingFactor]++
           }
 
           box.references.forEach((ref) => {
             totalReferences++
             totalUnits += ref.quantity
             uniqueReferences.add(ref.id)
-
-            if (ref.quantity <= 50) lowStockItems++
-            else if (ref.quantity <= 100) mediumStockItems++
-            else highStockItems++
           })
         })
       })
     })
 
+    // Stock health is judged per SKU over all its boxes: against the catalog thresholds when the product has
+    // them, otherwise against the search criteria's low/medium stock limits
+    getStockBySku(aisles).forEach((stock, sku) => {
+      const product = products.find((p) => p.sku === sku)
+      const hasThresholds = product && (product.min_stock > 0 || product.reorder_point > 0)
+      const alertLevel = hasThresholds ? getStockAlertLevel(product, stock) : null
+      const priority = !hasThresholds
+        ? getStockPriority(stock, scoringSettings)
+        : alertLevel === "reorder"
+          ? 2
+          : alertLevel
+            ? 3
+            : 1
+      if (priority === 3) lowStockItems++
+      else if (priority === 2) mediumStockItems++
+      else highStockItems++
+    })
+
     const occupancyRate = totalBoxes > 0 ? (occupiedBoxes / totalBoxes) * 100 : 0
 
     return {
@@ -742,30 +1028,146 @@ export default function WarehouseManagement() {
       highAccessibilityBoxes,
       mediumAccessibilityBoxes,
       lowAccessibilityBoxes,
+      accessibilityLimits,
     }
   }
 
   const stats = getWarehouseStats()
 
+  const stockAlerts = useMemo(() => getStockAlerts(products, aisles), [products, aisles])
+  const lastStockTotals = useRef<Map<string, number> | null>(null)
+
+  // Notify when stock leaving the warehouse (here or on another device) pushes a SKU past a threshold
+  useEffect(() => {
+    if (isLoading) return
+    const totals = getStockBySku(aisles)
+    if (lastStockTotals.current) {
+      findWorsenedAlerts(lastStockTotals.current, stockAlerts).forEach((alert) => {
+        const notify = alert.level === "reorder" ? toast.warning : toast.error
+        notify(`${alert.sku} - ${alert.name}: ${STOCK_ALERT_LABELS[alert.level].toLowerCase()}`, {
+          description: `Quedan ${alert.stock} ${alert.unit}. Pedido sugerido: ${alert.suggestedQuantity} ${alert.unit}.`,
+          action: { label: "Ver alertas", onClick: () => setShowStockAlerts(true) },
+        })
+      })
+    }
+    lastStockTotals.current = totals
+  }, [stockAlerts, isLoading])
+
+  const handleScan = (code: string) => {
+    const result = resolveScan(code, aisles, products)
+    console.log(`[v0] Scanned ${result.kind} code: ${result.code}`)
+
+    if (result.kind === "location") {
+      setScannedSlot(result.slot)
+    } else if (result.kind === "product") {
+      setSearchTerm(result.sku)
+      searchReference(result.sku)
+      setActiveTab("search")
+    } else {
+      setError(`Código no reconocido: ${result.code}`)
+    }
+  }
+
+  // The wedge listener is registered once, so it reads the latest handler through a ref
+  const scanHandler = useRef(handleScan)
+  scanHandler.current = handleScan
+
+  useEffect(() => {
+    const detectWedgeScan = createWedgeDetector((code) => scanHandler.current(code))
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Scans into a focused field are handled by that field (search box, dialogs...)
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      if (detectWedgeScan(e.key, e.timeStamp)) {
+        e.preventDefault()
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  const pickFromBox = (slot: SlotRef, reference: Reference, quantity: number, reason = "Salida por escaneo") => {
+    trackMovement({
+      type: "pick",
+      reference: reference.id,
+      description: reference.name,
+      boxId: getSlotBoxId(slot),
+      delta: -quantity,
+      reason,
+    })
+    setAisles((prev) => updateBox(prev, slot, (box) => adjustBoxReference(box, reference, -quantity)))
+  }
+
+  const confirmPickStop = (stop: PickStop): boolean => {
+    // Stock may have moved since the list was generated
+    const available = findBox(aisles, stop.slot)?.references.find((ref) => ref.id === stop.reference.id)?.quantity || 0
+    if (available < stop.quantity) {
+      setError(`Solo quedan ${available} unidades de ${stop.reference.id} en ${stop.boxId}`)
+      return false
+    }
+    pickFromBox(stop.slot, stop.reference, stop.quantity, "Preparación de pedido")
+    return true
+  }
+
+  // Label codes typed or pasted into the search box resolve like scans: box ids open the box, barcodes find the SKU
+  const submitSearch = (term: string) => {
+    const result = resolveScan(term, aisles, products)
+    if (term.trim() && result.kind === "location") {
+      setScannedSlot(result.slot)
+    } else {
+      searchReference(result.kind === "product" ? result.sku : term)
+    }
+  }
+
+  const updateScoringSettings = (settings: ScoringSettings) => {
+    saveScoringSettings(getOperatorName(), settings)
+    setScoringSettings(settings)
+  }
+
+  // Re-rank the current results when the criteria change
+  useEffect(() => {
+    if (searchResults) {
+      searchReference(searchResults.reference, searchResults.filters)
+    }
+  }, [scoringSettings, accessibilityContext])
+
   const handleSearchKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
-      searchReference(searchTerm)
+      submitSearch(searchTerm)
     }
   }
 
   const resetWarehouse = async () => {
     try {
       setIsLoading(true)
+      // Unsaved edits are discarded with the tree, so their movements never happened
+      pendingMovements.current = []
+      let removed: InventoryItem[] = []
 
       // Clear database
       const existingItems = await db.selectItems()
       if (existingItems.data) {
-        for (const item of existingItems.data) {
-          await db.deleteItem(item.id)
+        const deleted = await db.deleteMany(
+          existingItems.data.map((item) => item.id),
+          { onProgress: reportProgress },
+        )
+        const deletedIds = new Set(deleted.data || [])
+        removed = existingItems.data.filter((item) => deletedIds.has(item.id))
+        if (deleted.error) {
+          // Rows that could not be deleted stay in the store, so the next save compares against it again
+          console.error("[v0] Error clearing inventory:", deleted.error)
+          syncedItems.current = null
+          setError(`No se pudieron eliminar ${deleted.failures?.length ?? "todas las"} filas del inventario anterior`)
+        } else {
+          syncedItems.current = []
         }
+      } else {
+        syncedItems.current = []
       }
 
-      const initialData = createInitialData()
+      const initialData = createInitialData(layout)
+      // The removed stock and the sample stock are written to the ledger once the new rows are saved
+      toResetMovements(removed, flattenAisles(initialData)).forEach(trackMovement)
       setAisles(initialData)
       await saveToDatabase(initialData)
       console.log("[v0] Warehouse reset to initial state in database")
@@ -773,28 +1175,139 @@ export default function WarehouseManagement() {
       console.error("[v0] Error resetting warehouse:", err)
       setError("Error resetting warehouse")
     } finally {
+      setBulkProgress(null)
       setIsLoading(false)
     }
   }
 
-  const exportData = async () => {
+  const exportInventory = async (scope: ExportScope, format: ExportFormat): Promise<boolean> => {
+    // Exports read the stored rows, so pending edits are saved first to include them
+    await saveToDatabase(aisles)
+    if (!syncedItems.current) {
+      setError("Error exportando el inventario: no se pudo leer el inventario guardado")
+      return false
+    }
+
     try {
-      const result = await db.selectItems()
-      if (result.data) {
-        const dataStr = JSON.stringify(result.data, null, 2)
-        const dataBlob = new Blob([dataStr], { type: "application/json" })
-        const url = URL.createObjectURL(dataBlob)
-        const link = document.createElement("a")
-        link.href = url
-        link.download = `warehouse-inventory-${new Date().toISOString().split("T")[0]}.json`
-        link.click()
-        URL.revokeObjectURL(url)
-        console.log("[v0] Database data exported successfully")
-      }
+      const { blob, fileName, rowCount } = buildExport(syncedItems.current, scope, format)
+      downloadBlob(blob, fileName)
+      console.log(`[v0] Exported ${rowCount} rows to ${fileName}`)
+      return true
     } catch (error) {
       console.error("[v0] Error exporting data:", error)
       setError("Error exporting data")
+      return false
+    }
+  }
+
+  const resolveEditConflict = async (resolution: ConflictResolution): Promise<boolean> => {
+    if (!editConflict) return false
+    const resolved = resolveConflict(editConflict, resolution)
+    const result = await persistResolution(db, editConflict, resolved)
+    if (result.conflict) {
+      // The row changed again while the dialog was open; show the newer remote values
+      const remote = result.conflict.remote
+      setEditConflicts((prev) => [{ ...editConflict, remote }, ...prev.slice(1)])
+      return false
+    }
+    if (result.error) {
+      console.error("[v0] Error resolving save conflict:", result.error)
+      setError(`Error resolviendo el conflicto: ${describeStorageError(result.error)}`)
+      return false
+    }
+
+    // The ledger gets the net change against the remote row, not the local edit that may have been discarded
+    const { base, remote } = editConflict
+    const boxId = getBoxId(base.aisle, base.column, base.shelf)
+    pendingMovements.current = pendingMovements.current.filter(
+      (movement) => movement.reference !== base.reference || (movement.boxId !== boxId && movement.toBoxId !== boxId),
+    )
+    const delta = (resolved?.quantity ?? 0) - (remote?.quantity ?? 0)
+    if (delta !== 0) {
+      trackMovement({
+        type: "adjustment",
+        reference: base.reference,
+        description: resolved?.description || base.description,
+        boxId,
+        delta,
+        reason: "Resolución de conflicto",
+      })
+    }
+
+    // The resolved row becomes the baseline; the other queued rows keep the version their conflict was based on
+    if (syncedItems.current) {
+      const others = syncedItems.current.filter((item) => item.id !== base.id)
+      syncedItems.current = result.data ? [...others, result.data] : others
+    }
+    setEditConflicts((prev) => prev.slice(1))
+    // Once the queue is empty, saving the new tree writes the rest of the changes that were held back
+    setAisles((prev) => applyResolution(prev, editConflict, resolved))
+    refreshSyncState()
+    return true
+  }
+
+  // Unsaved edits are stored first so the import preview compares the file with what is really there
+  const loadImportBaseline = async (): Promise<InventoryItem[] | null> => {
+    await saveToDatabase(aisles)
+    return syncedItems.current
+  }
+
+  const importInventory = async (preview: ImportPreview): Promise<boolean> => {
+    if (!syncedItems.current) {
+      setError("Error importando el inventario: no se pudo leer el inventario guardado")
+      return false
+    }
+
+    console.log(
+      `[v0] Importing inventory: ${preview.diff.inserts.length} inserts, ${preview.diff.updates.length} updates, ${preview.diff.deletes.length} deletes`,
+    )
+    const result = await applyInventoryDiff(db, syncedItems.current, preview.diff, reportProgress)
+    setBulkProgress(null)
+    if (!result.data) {
+      console.error("[v0] Error importing inventory:", result.error)
+      syncedItems.current = null
+      setError(`Error importando el inventario: ${describeStorageError(result.error)}`)
+      return false
+    }
+
+    let movements = preview.movements
+    if (result.error) {
+      // The rows that did go through stay imported; the tree is rebuilt from the store so the next save
+      // does not undo them, and the failed rows are left out of the ledger
+      console.error("[v0] Import partially failed:", result.error)
+      const failed = new Set(
+        (result.failedRows || []).map((row) => `${getBoxId(row.aisle, row.column, row.shelf)}|${row.reference}`),
+      )
+      movements = movements.filter((movement) => !failed.has(`${movement.boxId}|${movement.reference}`))
+      const stored = await db.selectItems()
+      syncedItems.current = stored.data
+      setError(
+        `La importación se aplicó solo en parte: ${failed.size} filas no se pudieron guardar${
+          result.conflict ? " porque otro usuario las modificó" : ""
+        }. Revisa esas referencias e importa de nuevo el archivo.`,
+      )
+    } else {
+      syncedItems.current = result.data
     }
+
+    setAisles(buildAislesFromItems(layout, syncedItems.current || result.data))
+    movements.forEach(trackMovement)
+    await flushMovements()
+    refreshSyncState()
+    return true
+  }
+
+  const retryConnection = async () => {
+    const reconnected = await db.reconnect()
+    refreshSyncState()
+    if (!reconnected) {
+      setError("El servidor sigue sin estar disponible. Los cambios se guardan localmente.")
+    }
+  }
+
+  const dismissSyncConflicts = () => {
+    db.clearSyncConflicts()
+    refreshSyncState()
   }
 
   const pushToDatabase = async () => {
@@ -806,9 +1319,13 @@ export default function WarehouseManagement() {
       await saveToDatabase(aisles)
 
       // Force reload from database to ensure sync
-      const freshData = await loadFromDatabase()
-      if (freshData) {
-        setAisles(freshData)
+      const freshData = await loadFromDatabase(layout)
+      if (freshData.data) {
+        setAisles(freshData.data)
+      } else {
+        setError(
+          `Los cambios se guardaron, pero no se pudieron volver a leer: ${describeStorageError(freshData.error)}`,
+        )
       }
 
       console.log("[v0] Manual push completed successfully")
@@ -826,11 +1343,29 @@ export default function WarehouseManagement() {
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#124734] mx-auto mb-4"></div>
           <p className="text-[#124734] text-lg">Cargando datos del almacén...</p>
+          {bulkProgress && (
+            <div className="mt-4 w-80">
+              <BulkProgressBar progress={bulkProgress} />
+            </div>
+          )}
         </div>
       </div>
     )
   }
 
+  if (loadError) {
+    return (
+      <>
+        <LoadErrorScreen
+          error={loadError}
+          onRetry={initializeData}
+          onConfigure={() => setShowConnectionSettings(true)}
+        />
+        <ConnectionSettingsDialog open={showConnectionSettings} onOpenChange={setShowConnectionSettings} />
+      </>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-white p-6 font-sans">
       <div className="max-w-7xl mx-auto">
@@ -856,13 +1391,97 @@ export default function WarehouseManagement() {
           <h1 className="text-4xl font-medium text-[#124734] mb-2">ORTOCANIS</h1>
           <h2 className="text-2xl font-normal text-[#124734] mb-2">Sistema de Gestión de Almacén</h2>
           <p className="text-[#0f3d2a] font-normal">Control inteligente de inventario</p>
-          <div className="mt-2 flex items-center justify-center gap-2">
-            <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-            <span className="text-sm text-[#0f3d2a]">Sistema sincronizado</span>
-          </div>
+          {syncState.offline ? (
+            <div className="mt-2 flex items-center justify-center gap-2">
+              <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></div>
+              <span className="text-sm text-[#0f3d2a]">
+                Modo sin conexión
+                {syncState.pending > 0 && ` · ${syncState.pending} cambios pendientes de sincronizar`}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={retryConnection}
+                className="text-[#0f3d2a] hover:text-[#124734]"
+                title={syncState.reason}
+              >
+                Reintentar
+              </Button>
+            </div>
+          ) : (
+            <div className="mt-2 flex items-center justify-center gap-2">
+              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+              <span className="text-sm text-[#0f3d2a]">Sistema sincronizado</span>
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowStockAlerts(true)}
+            className={`mt-2 ${
+              stockAlerts.length > 0 ? "border-red-300 text-red-700 bg-red-50" : "border-[#7dd3a0] text-[#124734]"
+            }`}
+          >
+            <Bell className="w-4 h-4 mr-2" />
+            {stockAlerts.length > 0 ? `${stockAlerts.length} alertas de stock` : "Sin alertas de stock"}
+          </Button>
         </div>
 
-        <Tabs defaultValue="layout" className="space-y-6">
+        {stats.totalReferences === 0 && (
+          <Alert className="mb-6 border-[#a7e6c1] bg-[#f0f7f4]">
+            <Package className="h-4 w-4 text-[#124734]" />
+            <AlertDescription className="text-[#124734]">
+              El inventario está vacío: no hay ninguna referencia guardada todavía.
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowImport(true)}
+                className="ml-2 text-[#124734] hover:text-[#0f3d2a]"
+              >
+                Importar Datos
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {bulkProgress && (
+          <div className="mb-6 rounded-md border border-[#a7e6c1] p-3">
+            <BulkProgressBar progress={bulkProgress} />
+          </div>
+        )}
+
+        {syncState.conflicts.length > 0 && (
+          <Alert className="mb-6 border-yellow-200 bg-yellow-50">
+            <AlertCircle className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-800">
+              <div className="font-medium">
+                {syncState.conflicts.length} cambios hechos sin conexión no se aplicaron porque otra persona modificó
+                las mismas filas:
+              </div>
+              <ul className="mt-1 list-disc pl-5 text-sm">
+                {syncState.conflicts.map((conflict) => {
+                  const item = conflict.operation.type === "delete" ? conflict.remote : conflict.operation.item
+                  return (
+                    <li key={conflict.operation.opId}>
+                      {item ? `${item.reference} (${item.location})` : "Fila eliminada"} —{" "}
+                      {conflict.remote ? "modificada en el servidor" : "eliminada en el servidor"}
+                    </li>
+                  )
+                })}
+              </ul>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={dismissSyncConflicts}
+                className="mt-1 text-yellow-700 hover:text-yellow-900"
+              >
+                Descartar
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList className="grid w-full grid-cols-4 bg-[#f0f7f4] border-[#a7e6c1]">
             <TabsTrigger value="layout" className="data-[state=active]:bg-[#124734] data-[state=active]:text-white">
               Layout del Almacén
@@ -882,14 +1501,40 @@ export default function WarehouseManagement() {
             {/* Botón para mostrar mapa */}
             <div className="flex justify-between items-center">
               <h3 className="text-xl font-semibold text-[#124734]">Distribución del Almacén</h3>
-              <Button
-                onClick={() => setShowMap(!showMap)}
-                variant="outline"
-                className="border-[#124734] text-[#124734] hover:bg-[#f0f7f4]"
-              >
-                <Map className="h-4 w-4 mr-2" />
-                {showMap ? "Ocultar Mapa" : "Mostrar Mapa"}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => setShowLabels(true)}
+                  variant="outline"
+                  className="border-[#124734] text-[#124734] hover:bg-[#f0f7f4]"
+                >
+                  <Tag className="h-4 w-4 mr-2" />
+                  Etiquetas
+                </Button>
+                <Button
+                  onClick={() => setShowCatalog(true)}
+                  variant="outline"
+                  className="border-[#124734] text-[#124734] hover:bg-[#f0f7f4]"
+                >
+                  <Package className="h-4 w-4 mr-2" />
+                  Catálogo
+                </Button>
+                <Button
+                  onClick={() => setShowLayoutEditor(true)}
+                  variant="outline"
+                  className="border-[#124734] text-[#124734] hover:bg-[#f0f7f4]"
+                >
+                  <Settings2 className="h-4 w-4 mr-2" />
+                  Configurar Distribución
+                </Button>
+                <Button
+                  onClick={() => setShowMap(!showMap)}
+                  variant="outline"
+                  className="border-[#124734] text-[#124734] hover:bg-[#f0f7f4]"
+                >
+                  <Map className="h-4 w-4 mr-2" />
+                  {showMap ? "Ocultar Mapa" : "Mostrar Mapa"}
+                </Button>
+              </div>
             </div>
 
             {/* Mapa del almacén */}
@@ -903,14 +1548,20 @@ export default function WarehouseManagement() {
                 </CardHeader>
                 <CardContent className="p-6">
                   <div className="mb-6">
-                    <div className="grid grid-cols-9 gap-3 max-w-4xl mx-auto">
+                    <div
+                      className="grid gap-3 max-w-4xl mx-auto"
+                      style={{ gridTemplateColumns: `repeat(${Math.min(aisles.length, 9)}, minmax(0, 1fr))` }}
+                    >
                       {aisles.map((aisle) => {
                         const totalBoxes = aisle.columns.reduce(
                           (total, col) => total + col.boxes.filter((box) => box.references.length > 0).length,
                           0,
                         )
-                        const totalCapacity = aisle.columns.length * 6 // 6 niveles por columna
-                        const occupancyRate = (totalBoxes / totalCapacity) * 100
+                        const totalCapacity = aisle.columns.reduce(
+                          (total, col) => total + getUsableBoxes(col).length,
+                          0,
+                        )
+                        const occupancyRate = totalCapacity > 0 ? (totalBoxes / totalCapacity) * 100 : 0
 
                         return (
                           <div
@@ -949,7 +1600,10 @@ export default function WarehouseManagement() {
                               </div>
                             </div>
                             <div className="text-xs text-[#0f3d2a]">
-                              {getProximityText(calculateProximity(aisle.id))}
+                              {getProximityText(
+                                getAisleProximity(aisle.id),
+                                getAisleDistance(aisles, layout.geometry, aisle.id),
+                              )}
                             </div>
                           </div>
                         )
@@ -998,7 +1652,8 @@ export default function WarehouseManagement() {
                           ID: {aisle.id}
                         </Badge>
                         <Badge variant="outline" className="border-[#7dd3a0] text-[#124734]">
-                          {getProximityIcon(calculateProximity(aisle.id))} Proximidad: {calculateProximity(aisle.id)}/9
+                          {getProximityIcon(getAisleProximity(aisle.id))} Proximidad: {getAisleProximity(aisle.id)}/9 ·{" "}
+                          {formatDistance(getAisleDistance(aisles, layout.geometry, aisle.id))}
                         </Badge>
                       </div>
                     </div>
@@ -1033,7 +1688,25 @@ export default function WarehouseManagement() {
                               .reverse()
                               .map((box) => {
                                 const hasContent = box.references.length > 0
-                                const accessibility = calculateAccessibility(aisle, column.id, box.level)
+                                const accessibility = assessAccessibility(
+                                  aisle,
+                                  column.id,
+                                  box.level,
+                                  accessibilityContext,
+                                )
+
+                                if (box.disabled && !hasContent) {
+                                  return (
+                                    <div
+                                      key={box.id}
+                                      className="border border-dashed rounded-lg p-3 bg-gray-100 border-gray-300"
+                                    >
+                                      <span className="text-xs font-medium text-gray-400">
+                                        Nivel {box.level} - No disponible
+                                      </span>
+                                    </div>
+                                  )
+                                }
 
                                 return (
                                   <div
@@ -1044,13 +1717,30 @@ export default function WarehouseManagement() {
                                         : "bg-gray-50 border-gray-200 hover:bg-[#a7e6c1]"
                                     }`}
                                     onClick={() => handleAddReference(aisle.id, column.id, box.level)}
+                                    onDragOver={(e) => {
+                                      if (!box.disabled && e.dataTransfer.types.includes(TRANSFER_DRAG_TYPE)) {
+                                        e.preventDefault()
+                                      }
+                                    }}
+                                    onDrop={(e) => {
+                                      e.preventDefault()
+                                      const dragged = e.dataTransfer.getData(TRANSFER_DRAG_TYPE)
+                                      if (dragged && !box.disabled) {
+                                        setTransferRequest({
+                                          ...(JSON.parse(dragged) as TransferRequest),
+                                          to: { aisleId: aisle.id, columnId: column.id, level: box.level },
+                                        })
+                                      }
+                                    }}
                                   >
                                     <div className="flex items-center justify-between mb-2">
                                       <span className="text-xs font-medium text-gray-600">
                                         Nivel {box.level} - {box.name}
                                       </span>
                                       <div className="flex items-center gap-1">
-                                        <span className="text-xs">{getAccessibilityIcon(accessibility)}</span>
+                                        <span className="text-xs" title={accessibility.reason}>
+                                          {getAccessibilityIcon(accessibility.score)}
+                                        </span>
                                         <Badge variant="secondary" className="text-xs">
                                           {hasContent ? `${box.references.length} refs` : "Vacío"}
                                         </Badge>
@@ -1059,7 +1749,24 @@ export default function WarehouseManagement() {
                                     {hasContent ? (
                                       <div className="space-y-1">
                                         {box.references.map((ref) => (
-                                          <div key={ref.id} className="flex items-center justify-between text-xs">
+                                          <div
+                                            key={ref.id}
+                                            draggable
+                                            onDragStart={(e) => {
+                                              e.stopPropagation()
+                                              e.dataTransfer.effectAllowed = "move"
+                                              e.dataTransfer.setData(
+                                                TRANSFER_DRAG_TYPE,
+                                                JSON.stringify({
+                                                  from: { aisleId: aisle.id, columnId: column.id, level: box.level },
+                                                  reference: ref,
+                                                }),
+                                              )
+                                            }}
+                                            onClick={(e) => e.stopPropagation()}
+                                            className="flex items-center justify-between text-xs cursor-grab rounded hover:bg-white"
+                                            title="Arrastra a otra caja para trasladar"
+                                          >
                                             <span className="truncate font-medium text-[#124734]">{ref.id}</span>
                                             <Badge
                                               variant="outline"
@@ -1110,6 +1817,18 @@ export default function WarehouseManagement() {
                     <Search className="w-4 h-4 mr-2" />
                     Buscar Referencia
                   </Button>
+                  <Button onClick={() => setShowScanner(true)} variant="outline" className="border-gray-300">
+                    <ScanLine className="w-4 h-4 mr-2" />
+                    Escanear
+                  </Button>
+                  <Button onClick={() => setShowPickList(true)} variant="outline" className="border-gray-300">
+                    <ClipboardList className="w-4 h-4 mr-2" />
+                    Lista de Picking
+                  </Button>
+                  <Button onClick={() => setShowScoringSettings(true)} variant="outline" className="border-gray-300">
+                    <SlidersHorizontal className="w-4 h-4 mr-2" />
+                    Criterios de Búsqueda
+                  </Button>
                 </div>
 
                 <Dialog open={showSearchDialog} onOpenChange={setShowSearchDialog}>
@@ -1117,7 +1836,8 @@ export default function WarehouseManagement() {
                     <DialogHeader>
                       <DialogTitle className="text-[#124734]">Buscar Referencia</DialogTitle>
                       <DialogDescription className="text-[#0f3d2a]">
-                        Introduce el código de referencia o nombre del producto que deseas buscar.
+                        Busca por código, nombre, categoría o código de barras. No importan las tildes ni pequeñas
+                        erratas, y puedes acotar la búsqueda con los filtros.
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4">
@@ -1134,7 +1854,107 @@ export default function WarehouseManagement() {
                           className="border-[#7dd3a0] focus:border-[#124734]"
                         />
                       </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <Label htmlFor="filterAisle" className="text-[#124734] text-xs">
+                            Pasillo
+                          </Label>
+                          <select
+                            id="filterAisle"
+                            value={searchFilters.aisleId}
+                            onChange={(e) => setSearchFilters({ ...searchFilters, aisleId: e.target.value })}
+                            className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+                          >
+                            <option value="">Todos</option>
+                            {aisles.map((aisle) => (
+                              <option key={aisle.id} value={aisle.id}>
+                                {aisle.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <Label htmlFor="filterLevel" className="text-[#124734] text-xs">
+                            Nivel
+                          </Label>
+                          <select
+                            id="filterLevel"
+                            value={searchFilters.level}
+                            onChange={(e) =>
+                              setSearchFilters({ ...searchFilters, level: Number.parseInt(e.target.value) })
+                            }
+                            className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+                          >
+                            <option value={0}>Todos</option>
+                            {Array.from(
+                              { length: Math.max(0, ...aisles.flatMap((a) => a.columns.map((c) => c.boxes.length))) },
+                              (_, index) => (
+                                <option key={index + 1} value={index + 1}>
+                                  Nivel {index + 1}
+                                </option>
+                              ),
+                            )}
+                          </select>
+                        </div>
+                        <div>
+                          <Label className="text-[#124734] text-xs">Cantidad</Label>
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              min="0"
+                              value={searchFilters.minQuantity ?? ""}
+                              onChange={(e) =>
+                                setSearchFilters({
+                                  ...searchFilters,
+                                  minQuantity: e.target.value === "" ? null : Number.parseInt(e.target.value),
+                                })
+                              }
+                              placeholder="Mín."
+                              className="h-9 border-[#7dd3a0] focus:border-[#124734]"
+                            />
+                            <Input
+                              type="number"
+                              min="0"
+                              value={searchFilters.maxQuantity ?? ""}
+                              onChange={(e) =>
+                                setSearchFilters({
+                                  ...searchFilters,
+                                  maxQuantity: e.target.value === "" ? null : Number.parseInt(e.target.value),
+                                })
+                              }
+                              placeholder="Máx."
+                              className="h-9 border-[#7dd3a0] focus:border-[#124734]"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <Label htmlFor="filterAccessibility" className="text-[#124734] text-xs">
+                            Accesibilidad
+                          </Label>
+                          <select
+                            id="filterAccessibility"
+                            value={searchFilters.minAccessibility}
+                            onChange={(e) =>
+                              setSearchFilters({ ...searchFilters, minAccessibility: Number.parseInt(e.target.value) })
+                            }
+                            className="w-full h-9 rounded-md border border-[#7dd3a0] bg-white px-2 text-sm focus:border-[#124734] focus:outline-none"
+                          >
+                            <option value={1}>Cualquiera</option>
+                            <option value={2}>🟡 Media o alta</option>
+                            <option value={3}>🟢 Solo alta</option>
+                          </select>
+                        </div>
+                      </div>
                       <div className="flex justify-end gap-2">
+                        {hasActiveFilters(searchFilters) && (
+                          <Button
+                            variant="ghost"
+                            onClick={() => setSearchFilters(EMPTY_SEARCH_FILTERS)}
+                            className="text-[#0f3d2a] mr-auto"
+                          >
+                            Quitar filtros
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           onClick={() => setShowSearchDialog(false)}
@@ -1144,10 +1964,10 @@ export default function WarehouseManagement() {
                         </Button>
                         <Button
                           onClick={() => {
-                            searchReference(searchTerm)
+                            submitSearch(searchTerm)
                             setShowSearchDialog(false)
                           }}
-                          disabled={!searchTerm.trim()}
+                          disabled={!searchTerm.trim() && !hasActiveFilters(searchFilters)}
                           className="bg-[#124734] hover:bg-[#0f3d2a]"
                         >
                           <Search className="w-4 h-4 mr-2" />
@@ -1164,14 +1984,34 @@ export default function WarehouseManagement() {
                       <div className="flex items-center gap-2">
                         <Package className="h-5 w-5 text-[#0f3d2a]" />
                         <h3 className="text-lg font-semibold text-[#124734]">
-                          Resultados para: "{searchResults.reference}"
+                          {searchResults.reference ? `Resultados para: "${searchResults.reference}"` : "Resultados"}
                         </h3>
+                        {hasActiveFilters(searchResults.filters) && (
+                          <Badge variant="outline" className="border-[#7dd3a0] text-[#124734]">
+                            Con filtros
+                          </Badge>
+                        )}
                       </div>
-                      <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-2">
-                        <span className="text-blue-800 font-semibold">Total: {searchResults.totalUnits} unidades</span>
-                        <span className="text-blue-600 text-sm ml-2">
-                          en {searchResults.locations.length} ubicaciones
-                        </span>
+                      <div className="flex items-center gap-2">
+                        <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-2">
+                          <span className="text-blue-800 font-semibold">
+                            Total: {searchResults.totalUnits} unidades
+                          </span>
+                          <span className="text-blue-600 text-sm ml-2">
+                            en {searchResults.locations.length} ubicaciones
+                          </span>
+                        </div>
+                        {searchResults.locations.length > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setExportScope("search")}
+                            className="border-[#7dd3a0] text-[#124734]"
+                            title="Exportar resultados"
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
 
@@ -1179,7 +2019,7 @@ export default function WarehouseManagement() {
                       <Alert className="border-[#a7e6c1]">
                         <AlertCircle className="h-4 w-4 text-[#0f3d2a]" />
                         <AlertDescription className="text-[#124734]">
-                          No se encontraron ubicaciones para esta referencia.
+                          No se encontraron ubicaciones que coincidan con la búsqueda.
                         </AlertDescription>
                       </Alert>
                     ) : (
@@ -1196,10 +2036,11 @@ export default function WarehouseManagement() {
                                     </span>
                                   </div>
                                   <Badge variant="outline" className="border-[#7dd3a0] text-[#124734]">
-                                    {location.referenceId}: {location.quantity} unidades
+                                    {renderHighlighted(location.referenceId, location.match.spans.sku)}:{" "}
+                                    {location.quantity} unidades
                                   </Badge>
                                   <Badge variant="secondary" className="bg-blue-50 border-blue-200 text-blue-700">
-                                    {location.referenceName}
+                                    {renderHighlighted(location.referenceName, location.match.spans.name)}
                                   </Badge>
                                 </div>
                                 <div className="flex items-center gap-2">
@@ -1208,7 +2049,7 @@ export default function WarehouseManagement() {
                                       <span
                                         className={`px-2 py-1 rounded text-xs ${getProximityColor(location.proximity)}`}
                                       >
-                                        {getProximityText(location.proximity)}
+                                        {getProximityText(location.proximity, location.distance)}
                                       </span>
                                     </div>
                                     <div className="flex items-center gap-1">
@@ -1221,10 +2062,17 @@ export default function WarehouseManagement() {
                                             : "Difícil"}
                                       </span>
                                     </div>
+                                    <div className="text-xs text-gray-500">{location.accessibilityReason}</div>
                                   </div>
                                   <div className="text-right">
                                     <div className="text-xs text-gray-500">Puntuación</div>
                                     <div className="font-bold text-[#124734]">{location.totalScore.toFixed(1)}/5.0</div>
+                                    <div
+                                      className="text-xs text-[#0f3d2a]"
+                                      title="Factor que más pesa en la puntuación"
+                                    >
+                                      Por: {SCORE_FACTOR_LABELS[location.drivingFactor]}
+                                    </div>
                                   </div>
                                 </div>
                               </div>
@@ -1258,15 +2106,21 @@ export default function WarehouseManagement() {
                         <div key={aisle.id} className="bg-white border-2 border-[#7dd3a0] rounded-lg p-3 shadow-md">
                           <div className="flex items-center gap-2 mb-2">
                             <div className="text-sm font-bold text-[#124734]">PASILLO {aisle.id}</div>
-                            <div className="text-xs text-gray-600">(Entrada por Columna 1 →)</div>
+                            <div className="text-xs text-gray-600">
+                              (Entrada por Columna 1 → ·{" "}
+                              {formatDistance(getAisleDistance(aisles, layout.geometry, aisle.id))})
+                            </div>
                           </div>
-                          <div className="grid grid-cols-7 gap-1">
+                          <div
+                            className="grid gap-1"
+                            style={{ gridTemplateColumns: `repeat(${aisle.columns.length}, minmax(0, 1fr))` }}
+                          >
                             {aisle.columns
                               .slice()
                               .reverse()
-                              .map((column, colIndex) => (
+                              .map((column) => (
                                 <div key={column.id} className="text-center">
-                                  <div className="text-xs text-gray-600 mb-1">C{7 - colIndex}</div>
+                                  <div className="text-xs text-gray-600 mb-1">C{getColumnNumber(column.id)}</div>
                                   <div className="space-y-1">
                                     {column.boxes
                                       .slice()
@@ -1281,7 +2135,9 @@ export default function WarehouseManagement() {
                                         let boxClass =
                                           "w-8 h-6 border rounded text-xs flex items-center justify-center "
 
-                                        if (highlightedBox) {
+                                        if (box.disabled) {
+                                          boxClass += "bg-gray-200 border-gray-300 text-gray-400"
+                                        } else if (highlightedBox) {
                                           const accessibilityColor = getAccessibilityColor(highlightedBox.accessibility)
                                           boxClass += `${accessibilityColor} text-white font-bold animate-pulse`
                                         } else if (hasContent) {
@@ -1294,7 +2150,7 @@ export default function WarehouseManagement() {
                                           <div
                                             key={box.id}
                                             className={boxClass}
-                                            title={`${box.name} - ${hasContent ? box.references.length + " refs" : "Vacío (Alta accesibilidad)"}`}
+                                            title={`${box.name} - ${box.disabled ? "No disponible" : hasContent ? box.references.length + " refs" : "Vacío (Alta accesibilidad)"} - ${formatDistance(getDistanceFromEntrance(aisles, layout.geometry, { aisleId: aisle.id, columnId: column.id, level: box.level }))}`}
                                           >
                                             {box.level}
                                           </div>
@@ -1360,12 +2216,28 @@ export default function WarehouseManagement() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                <div className="flex items-center gap-2 mb-4">
+                  <Label htmlFor="operator" className="text-[#124734]">
+                    Operario
+                  </Label>
+                  <Input
+                    id="operator"
+                    value={operator}
+                    onChange={(e) => setOperator(e.target.value)}
+                    onBlur={() => {
+                      setOperatorName(operator)
+                      setScoringSettings(loadScoringSettings(getOperatorName()))
+                    }}
+                    placeholder="Tu nombre, para el historial de movimientos"
+                    className="max-w-xs border-[#7dd3a0] focus:border-[#124734]"
+                  />
+                </div>
                 <ScrollArea className="h-96">
                   <div className="space-y-4">
                     {aisles.map((aisle) => (
                       <div key={aisle.id} className="space-y-3">
                         <h3 className="font-semibold text-lg border-b border-[#a7e6c1] pb-2 text-[#124734]">
-                          {aisle.name} {getProximityIcon(calculateProximity(aisle.id))}
+                          {aisle.name} {getProximityIcon(getAisleProximity(aisle.id))}
                         </h3>
                         {aisle.columns.map((column) => (
                           <div key={column.id} className="ml-4 space-y-2">
@@ -1373,7 +2245,12 @@ export default function WarehouseManagement() {
                             {column.boxes
                               .filter((box) => box.references.length > 0)
                               .map((box) => {
-                                const accessibility = calculateAccessibility(aisle, column.id, box.level)
+                                const accessibility = assessAccessibility(
+                                  aisle,
+                                  column.id,
+                                  box.level,
+                                  accessibilityContext,
+                                )
                                 return (
                                   <div
                                     key={box.id}
@@ -1382,24 +2259,39 @@ export default function WarehouseManagement() {
                                     <div className="font-medium text-sm text-[#124734] mb-2 flex items-center gap-2 justify-between">
                                       <div className="flex items-center gap-2">
                                         Nivel {box.level} - {box.name}
-                                        <span>{getAccessibilityIcon(accessibility)}</span>
+                                        <span title={accessibility.reason}>
+                                          {getAccessibilityIcon(accessibility.score)}
+                                        </span>
                                       </div>
-                                      <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={() => {
-                                          const newName = prompt(
-                                            `Nuevo nombre para la caja (Nivel ${box.level}):`,
-                                            box.name,
-                                          )
-                                          if (newName && newName.trim()) {
-                                            updateBoxName(aisle.id, column.id, box.level, newName.trim())
+                                      <div className="flex items-center">
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() =>
+                                            setHistoryFilter({ kind: "box", boxId: box.id, name: box.name })
                                           }
-                                        }}
-                                        className="text-[#0f3d2a] hover:text-[#124734]"
-                                      >
-                                        <Edit2 className="h-3 w-3" />
-                                      </Button>
+                                          className="text-[#0f3d2a] hover:text-[#124734]"
+                                          title="Historial de la caja"
+                                        >
+                                          <History className="h-3 w-3" />
+                                        </Button>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => {
+                                            const newName = prompt(
+                                              `Nuevo nombre para la caja (Nivel ${box.level}):`,
+                                              box.name,
+                                            )
+                                            if (newName && newName.trim()) {
+                                              updateBoxName(aisle.id, column.id, box.level, newName.trim())
+                                            }
+                                          }}
+                                          className="text-[#0f3d2a] hover:text-[#124734]"
+                                        >
+                                          <Edit2 className="h-3 w-3" />
+                                        </Button>
+                                      </div>
                                     </div>
                                     <div className="space-y-2">
                                       {box.references.map((ref) => (
@@ -1412,6 +2304,15 @@ export default function WarehouseManagement() {
                                             <span className="text-sm text-[#0f3d2a] ml-2">{ref.name}</span>
                                           </div>
                                           <div className="flex items-center gap-2">
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              onClick={() => setHistoryFilter({ kind: "reference", reference: ref.id })}
+                                              className="text-[#0f3d2a] hover:text-[#124734]"
+                                              title="Historial de la referencia"
+                                            >
+                                              <History className="h-3 w-3" />
+                                            </Button>
                                             <Button
                                               variant="outline"
                                               size="sm"
@@ -1448,6 +2349,20 @@ export default function WarehouseManagement() {
                                             >
                                               <Plus className="h-3 w-3" />
                                             </Button>
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              onClick={() =>
+                                                setTransferRequest({
+                                                  from: { aisleId: aisle.id, columnId: column.id, level: box.level },
+                                                  reference: ref,
+                                                })
+                                              }
+                                              className="text-[#0f3d2a] hover:text-[#124734]"
+                                              title="Trasladar a otra caja"
+                                            >
+                                              <ArrowLeftRight className="h-3 w-3" />
+                                            </Button>
                                           </div>
                                         </div>
                                       ))}
@@ -1537,36 +2452,39 @@ export default function WarehouseManagement() {
                     </h3>
                     <div className="space-y-3">
                       <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg border border-red-200">
-                        <span className="text-red-700">Stock Bajo (≤50)</span>
+                        <span className="text-red-700">Stock Bajo</span>
                         <span className="font-bold text-red-800">{stats.lowStockItems}</span>
                       </div>
                       <div className="flex justify-between items-center p-3 bg-yellow-50 rounded-lg border border-yellow-200">
-                        <span className="text-yellow-700">Stock Medio (51-100)</span>
+                        <span className="text-yellow-700">Stock Medio</span>
                         <span className="font-bold text-yellow-800">{stats.mediumStockItems}</span>
                       </div>
                       <div className="flex justify-between items-center p-3 bg-green-50 rounded-lg border border-green-200">
-                        <span className="text-green-700">Stock Alto ({">"}100)</span>
+                        <span className="text-green-700">Stock Alto</span>
                         <span className="font-bold text-green-800">{stats.highStockItems}</span>
                       </div>
                       <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
-                        <div className="text-sm text-gray-600 mb-2">Distribución de Stock</div>
+                        <div className="text-sm text-gray-600 mb-2">
+                          Distribución de Stock por referencia (umbrales del catálogo o{" "}
+                          {scoringSettings.lowStockThreshold}/{scoringSettings.mediumStockThreshold} uds)
+                        </div>
                         <div className="flex h-4 bg-gray-200 rounded-full overflow-hidden">
                           <div
                             className="bg-red-500"
                             style={{
-                              width: `${stats.totalReferences > 0 ? (stats.lowStockItems / stats.totalReferences) * 100 : 0}%`,
+                              width: `${stats.uniqueReferences > 0 ? (stats.lowStockItems / stats.uniqueReferences) * 100 : 0}%`,
                             }}
                           ></div>
                           <div
                             className="bg-yellow-500"
                             style={{
-                              width: `${stats.totalReferences > 0 ? (stats.mediumStockItems / stats.totalReferences) * 100 : 0}%`,
+                              width: `${stats.uniqueReferences > 0 ? (stats.mediumStockItems / stats.uniqueReferences) * 100 : 0}%`,
                             }}
                           ></div>
                           <div
                             className="bg-green-500"
                             style={{
-                              width: `${stats.totalReferences > 0 ? (stats.highStockItems / stats.totalReferences) * 100 : 0}%`,
+                              width: `${stats.uniqueReferences > 0 ? (stats.highStockItems / stats.uniqueReferences) * 100 : 0}%`,
                             }}
                           ></div>
                         </div>
@@ -1591,6 +2509,15 @@ export default function WarehouseManagement() {
                         <span className="text-red-700 flex items-center gap-2">🔴 Baja Accesibilidad</span>
                         <span className="font-bold text-red-800">{stats.lowAccessibilityBoxes}</span>
                       </div>
+                      <div className="p-3 bg-gray-50 rounded-lg border">
+                        <div className="text-sm text-gray-700 mb-2">Motivo principal (media y baja)</div>
+                        {(Object.keys(ACCESSIBILITY_FACTOR_LABELS) as AccessibilityFactor[]).map((factor) => (
+                          <div key={factor} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{ACCESSIBILITY_FACTOR_LABELS[factor]}</span>
+                            <span className="font-medium text-gray-800">{stats.accessibilityLimits[factor]}</span>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   </div>
 
@@ -1600,7 +2527,7 @@ export default function WarehouseManagement() {
                     </h3>
                     <div className="space-y-2">
                       {aisles.map((aisle) => {
-                        const proximity = calculateProximity(aisle.id)
+                        const proximity = getAisleProximity(aisle.id)
                         const occupiedBoxes = aisle.columns.reduce(
                           (total, col) => total + col.boxes.filter((box) => box.references.length > 0).length,
                           0,
@@ -1616,7 +2543,7 @@ export default function WarehouseManagement() {
                             <div className="flex items-center gap-2">
                               <span className="text-sm text-gray-600">{occupiedBoxes} cajas</span>
                               <Badge variant="outline" className="text-xs">
-                                {proximity}/9
+                                {formatDistance(getAisleDistance(aisles, layout.geometry, aisle.id))}
                               </Badge>
                             </div>
                           </div>
@@ -1660,9 +2587,18 @@ export default function WarehouseManagement() {
                   <Button variant="destructive" onClick={resetWarehouse}>
                     Reiniciar Almacén
                   </Button>
-                  <Button variant="secondary" onClick={exportData}>
+                  <Button variant="secondary" onClick={() => setShowImport(true)}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Importar Datos
+                  </Button>
+                  <Button variant="secondary" onClick={() => setExportScope("all")}>
+                    <Download className="h-4 w-4 mr-2" />
                     Exportar Datos
                   </Button>
+                  <Button variant="secondary" onClick={() => setShowConnectionSettings(true)}>
+                    <PlugZap className="h-4 w-4 mr-2" />
+                    Conexión
+                  </Button>
                 </div>
               </CardContent>
             </Card>
@@ -1716,6 +2652,120 @@ export default function WarehouseManagement() {
             </div>
           </DialogContent>
         </Dialog>
+
+        <MovementHistoryDialog filter={historyFilter} onClose={() => setHistoryFilter(null)} />
+
+        <AddStockDialog
+          target={addStockTarget}
+          aisles={aisles}
+          products={products}
+          onClose={() => setAddStockTarget(null)}
+          onSubmit={addStock}
+        />
+
+        <BarcodeScannerDialog open={showScanner} onOpenChange={setShowScanner} onScan={handleScan} />
+
+        <ScanActionPanel
+          slot={scannedSlot}
+          aisles={aisles}
+          products={products}
+          onClose={() => setScannedSlot(null)}
+          onPick={pickFromBox}
+          onPutAway={addStock}
+        />
+
+        <ScoringSettingsDialog
+          open={showScoringSettings}
+          onOpenChange={setShowScoringSettings}
+          settings={scoringSettings}
+          operator={operator}
+          onSave={updateScoringSettings}
+        />
+
+        <ConnectionSettingsDialog open={showConnectionSettings} onOpenChange={setShowConnectionSettings} />
+
+        <StockAlertsDialog
+          open={showStockAlerts}
+          onOpenChange={setShowStockAlerts}
+          alerts={stockAlerts}
+          onLocate={(sku) => {
+            setShowStockAlerts(false)
+            setActiveTab("search")
+            searchReference(sku, EMPTY_SEARCH_FILTERS)
+          }}
+          onExport={() => {
+            setShowStockAlerts(false)
+            setExportScope("low_stock")
+          }}
+        />
+
+        <ConflictMergeDialog
+          conflict={editConflict}
+          remaining={editConflicts.length - 1}
+          onResolve={resolveEditConflict}
+        />
+
+        <ExportDialog
+          open={exportScope !== null}
+          onOpenChange={(open) => !open && setExportScope(null)}
+          aisles={aisles}
+          search={
+            searchResults && {
+              query: searchResults.reference,
+              matches: searchResults.locations.map((location) => ({
+                boxId: location.boxId,
+                reference: location.referenceId,
+              })),
+            }
+          }
+          alerts={stockAlerts}
+          initialScope={exportScope ?? "all"}
+          onExport={exportInventory}
+        />
+
+        <InventoryImportDialog
+          open={showImport}
+          onOpenChange={setShowImport}
+          layout={layout}
+          aisles={aisles}
+          loadExisting={loadImportBaseline}
+          onApply={importInventory}
+        />
+
+        <PickListDialog
+          open={showPickList}
+          onOpenChange={setShowPickList}
+          aisles={aisles}
+          products={products}
+          scoringSettings={scoringSettings}
+          geometry={layout.geometry}
+          onConfirmStop={confirmPickStop}
+        />
+
+        <LabelPrintDialog open={showLabels} onOpenChange={setShowLabels} aisles={aisles} products={products} />
+
+        <ProductCatalogDialog
+          open={showCatalog}
+          onOpenChange={setShowCatalog}
+          products={products}
+          stockBySku={getStockBySku(aisles)}
+          onSave={saveCatalogProduct}
+        />
+
+        <TransferStockDialog
+          request={transferRequest}
+          aisles={aisles}
+          onClose={() => setTransferRequest(null)}
+          onConfirm={transferStock}
+        />
+
+        <LayoutEditorDialog
+          open={showLayoutEditor}
+          onOpenChange={setShowLayoutEditor}
+          layout={layout}
+          aisles={aisles}
+          onSave={applyLayout}
+        />
       </div>
     </div>
   )
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import { assessAccessibility, calculateAccessibility, getReachMethod } from "@/lib/accessibility"
+import { createProductDraft } from "@/lib/catalog"
+import type { InventoryItem, Product } from "@/lib/database"
+import { DEFAULT_GEOMETRY } from "@/lib/geometry"
+import { buildAislesFromItems, DEFAULT_LAYOUT } from "@/lib/layout"
+import type { ColumnBlocking } from "@/lib/warehouse"
+
+const item = (reference: string, shelf: number): InventoryItem => ({
+  id: `${reference}-${shelf}`,
+  reference,
+  description: reference,
+  quantity: 1,
+  location: "",
+  aisle: "A",
+  column: 1,
+  shelf,
+  created_at: "",
+  updated_at: "",
+})
+
+const buildAisle = (shelves: number[], blocking?: ColumnBlocking, reference = "REF001") =>
+  buildAislesFromItems(
+    {
+      ...DEFAULT_LAYOUT,
+      aisles: [{ id: "A", columns: [{ number: 1, levels: 8, disabledLevels: [], ...(blocking ? { blocking } : {}) }] }],
+    },
+    shelves.map((shelf) => item(reference, shelf)),
+  )[0]
+
+const product = (sku: string, weight_kg: number): Product => ({
+  ...createProductDraft(sku, sku),
+  weight_kg,
+  id: sku,
+  created_at: "",
+  updated_at: "",
+})
+
+describe("getReachMethod", () => {
+  it("goes from the floor to hand, ladder and forklift as the level rises", () => {
+    // 40 cm levels: level 5 sits at 1.6 m and level 7 at 2.4 m
+    expect([1, 2, 5, 6, 7, 8].map((level) => getReachMethod(level, DEFAULT_GEOMETRY))).toEqual([
+      "floor",
+      "hand",
+      "hand",
+      "step-ladder",
+      "step-ladder",
+      "forklift",
+    ])
+    expect(getReachMethod(2, { ...DEFAULT_GEOMETRY, levelHeight: 2 })).toBe("step-ladder")
+  })
+})
+
+describe("assessAccessibility", () => {
+  it("scores empty spaces and unknown columns as easy", () => {
+    const aisle = buildAisle([])
+    expect(assessAccessibility(aisle, "A-C1", 8)).toMatchObject({
+      score: 3,
+      limitingFactor: null,
+      reason: "Hueco libre",
+    })
+    expect(calculateAccessibility(aisle, "A-C9", 1)).toBe(3)
+  })
+
+  it("lowers the score with the height of the box", () => {
+    const aisle = buildAisle([1, 6, 8])
+    expect(assessAccessibility(aisle, "A-C1", 6)).toMatchObject({
+      score: 2,
+      reach: "step-ladder",
+      limitingFactor: "reach",
+    })
+    expect(assessAccessibility(aisle, "A-C1", 8)).toMatchObject({
+      score: 1,
+      reach: "forklift",
+      reason: "Nivel 8 con carretilla",
+    })
+  })
+
+  it("counts occupied boxes stacked above, but not on shelving", () => {
+    const stacked = assessAccessibility(buildAisle([1, 2, 4]), "A-C1", 1)
+    expect(stacked).toMatchObject({ score: 1, boxesAbove: 2, limitingFactor: "blocked" })
+    expect(stacked.reason).toBe("Nivel 1 a ras de suelo · 2 cajas encima")
+    expect(assessAccessibility(buildAisle([1, 2]), "A-C1", 1).reason).toContain("1 caja encima")
+
+    expect(assessAccessibility(buildAisle([1, 2, 4], "shelved"), "A-C1", 1)).toMatchObject({ score: 3, boxesAbove: 0 })
+  })
+
+  it("penalises heavy units off the floor using the catalog weights", () => {
+    const context = { geometry: DEFAULT_GEOMETRY, products: [product("HEAVY", 30), product("MEDIUM", 20)] }
+    expect(assessAccessibility(buildAisle([1], "shelved", "HEAVY"), "A-C1", 1, context).score).toBe(3)
+    expect(assessAccessibility(buildAisle([2], "shelved", "HEAVY"), "A-C1", 2, context)).toMatchObject({
+      score: 1,
+      unitWeightKg: 30,
+      limitingFactor: "weight",
+      reason: "Nivel 2 a mano · 30 kg/ud",
+    })
+    expect(assessAccessibility(buildAisle([2], "shelved", "MEDIUM"), "A-C1", 2, context).score).toBe(3)
+    expect(assessAccessibility(buildAisle([6], "shelved", "MEDIUM"), "A-C1", 6, context).score).toBe(2)
+  })
+})
@@ -0,0 +1,117 @@
+import type { Product } from "@/lib/database"
+import { DEFAULT_GEOMETRY, type WarehouseGeometry } from "@/lib/geometry"
+import type { Aisle, Box } from "@/lib/warehouse"
+
+export type ReachMethod = "floor" | "hand" | "step-ladder" | "forklift"
+
+export const REACH_LABELS: Record<ReachMethod, string> = {
+  floor: "a ras de suelo",
+  hand: "a mano",
+  "step-ladder": "con escalera",
+  forklift: "con carretilla",
+}
+
+// Height of the bottom of the box above the floor up to which each method reaches, in metres
+const HAND_REACH = 1.6
+const STEP_LADDER_REACH = 2.5
+
+// Units heavier than this are awkward on a ladder; above the team-lift limit they need two people or a forklift
+const HEAVY_UNIT_KG = 15
+const TEAM_LIFT_KG = 25
+
+export type AccessibilityFactor = "reach" | "blocked" | "weight"
+
+export const ACCESSIBILITY_FACTOR_LABELS: Record<AccessibilityFactor, string> = {
+  reach: "Altura",
+  blocked: "Cajas encima",
+  weight: "Peso",
+}
+
+export interface AccessibilityContext {
+  geometry: WarehouseGeometry
+  // Unit weights come from the catalog; references without a product count as weightless
+  products: Product[]
+}
+
+export const DEFAULT_ACCESSIBILITY_CONTEXT: AccessibilityContext = { geometry: DEFAULT_GEOMETRY, products: [] }
+
+export interface AccessibilityAssessment {
+  // 3 = easy to reach, 1 = needs equipment, help or moving other stock first
+  score: number
+  reach: ReachMethod
+  boxesAbove: number
+  // Heaviest unit stored in the box
+  unitWeightKg: number
+  // What lowered the score the most, null when nothing did
+  limitingFactor: AccessibilityFactor | null
+  reason: string
+}
+
+export function getReachMethod(level: number, geometry: WarehouseGeometry): ReachMethod {
+  const height = (level - 1) * geometry.levelHeight
+  if (level <= 1) return "floor"
+  if (height <= HAND_REACH) return "hand"
+  if (height <= STEP_LADDER_REACH) return "step-ladder"
+  return "forklift"
+}
+
+const getUnitWeight = (box: Box, products: Product[]) =>
+  Math.max(0, ...box.references.map((ref) => products.find((product) => product.sku === ref.id)?.weight_kg || 0))
+
+export function assessAccessibility(
+  aisle: Aisle,
+  columnId: string,
+  targetLevel: number,
+  context: AccessibilityContext = DEFAULT_ACCESSIBILITY_CONTEXT,
+): AccessibilityAssessment {
+  const reach = getReachMethod(targetLevel, context.geometry)
+  const column = aisle.columns.find((col) => col.id === columnId)
+  const targetBox = column?.boxes.find((box) => box.level === targetLevel)
+
+  // Empty spaces are highly accessible (green): there is nothing to take out
+  if (!column || !targetBox || targetBox.references.length === 0) {
+    return { score: 3, reach, boxesAbove: 0, unitWeightKg: 0, limitingFactor: null, reason: "Hueco libre" }
+  }
+
+  // On shelving every level is taken out on its own; stacked boxes have to be lifted off first
+  const boxesAbove =
+    column.blocking === "shelved"
+      ? 0
+      : column.boxes.filter((box) => box.level > targetLevel && box.references.length > 0).length
+  const unitWeightKg = getUnitWeight(targetBox, context.products)
+
+  const penalties: Record<AccessibilityFactor, number> = {
+    reach: reach === "forklift" ? 2 : reach === "step-ladder" ? 1 : 0,
+    blocked: Math.min(2, boxesAbove),
+    weight:
+      unitWeightKg >= TEAM_LIFT_KG && reach !== "floor"
+        ? 2
+        : unitWeightKg >= HEAVY_UNIT_KG && reach === "step-ladder"
+          ? 1
+          : 0,
+  }
+
+  const factors = Object.keys(penalties) as AccessibilityFactor[]
+  const limiting = factors.reduce((worst, factor) => (penalties[factor] > penalties[worst] ? factor : worst))
+  const score = Math.max(1, 3 - Math.max(...factors.map((factor) => penalties[factor])))
+
+  const parts = [`Nivel ${targetLevel} ${REACH_LABELS[reach]}`]
+  if (boxesAbove > 0) parts.push(boxesAbove === 1 ? "1 caja encima" : `${boxesAbove} cajas encima`)
+  if (unitWeightKg >= HEAVY_UNIT_KG) parts.push(`${unitWeightKg} kg/ud`)
+
+  return {
+    score,
+    reach,
+    boxesAbove,
+    unitWeightKg,
+    limitingFactor: penalties[limiting] > 0 ? limiting : null,
+    reason: parts.join(" · "),
+  }
+}
+
+export const calculateAccessibility = (
+  aisle: Aisle,
+  columnId: string,
+  targetLevel: number,
+  context?: AccessibilityContext,
+): number => assessAccessibility(aisle, columnId, targetLevel, context).score
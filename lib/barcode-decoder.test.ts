@@ -0,0 +1,51 @@
+import { readFileSync } from "node:fs"
+import { PNG } from "pngjs"
+import { describe, expect, it } from "vitest"
+import { createFrameDecoder, type PixelFrame } from "@/lib/barcode-decoder"
+import { encodeCode128 } from "@/lib/code128"
+
+// Frames as a phone camera would deliver them, see scripts/generate-barcode-fixtures.mjs
+const readFixture = (name: string): PixelFrame =>
+  PNG.sync.read(readFileSync(new URL(`./__fixtures__/barcodes/${name}`, import.meta.url)))
+
+// A location label as the app prints it, rendered to pixels at `scale` pixels per module
+function renderCode128(text: string, scale: number): PixelFrame {
+  const { bars, modules } = encodeCode128(text)
+  const width = modules * scale
+  const height = 30 * scale
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  bars.forEach((bar) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = bar.x * scale; x < (bar.x + bar.width) * scale; x++) {
+        data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3)
+      }
+    }
+  })
+  return { width, height, data }
+}
+
+describe("createFrameDecoder", () => {
+  const decode = createFrameDecoder()
+
+  it("reads a product EAN-13 from a noisy, low-contrast frame", () => {
+    expect(decode(readFixture("ean13-8412345678905.png"))).toBe("8412345678905")
+  })
+
+  it("reads a QR location code", () => {
+    expect(decode(readFixture("qr-A-C3-L2.png"))).toBe("A-C3-L2")
+  })
+
+  it("reads the Code 128 labels the app prints", () => {
+    expect(decode(renderCode128("A-C12-L3", 2))).toBe("A-C12-L3")
+    expect(decode(renderCode128("REF-00042", 3))).toBe("REF-00042")
+  })
+
+  it("returns null for frames without a code, and keeps working afterwards", () => {
+    expect(decode(readFixture("no-code.png"))).toBeNull()
+    expect(decode(readFixture("qr-A-C3-L2.png"))).toBe("A-C3-L2")
+  })
+
+  it("only looks for the formats it was created with", () => {
+    expect(createFrameDecoder(["qr_code"])(readFixture("ean13-8412345678905.png"))).toBeNull()
+  })
+})
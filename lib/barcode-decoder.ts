@@ -0,0 +1,68 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  ChecksumException,
+  DecodeHintType,
+  FormatException,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+  RGBLuminanceSource,
+} from "@zxing/library"
+import { BARCODE_FORMATS } from "@/lib/scan"
+
+// Decoding in JavaScript for browsers without the BarcodeDetector API (Firefox, Safari on older iOS).
+// Runs on a single camera frame at a time and needs no network.
+
+const ZXING_FORMATS: Record<string, BarcodeFormat> = {
+  qr_code: BarcodeFormat.QR_CODE,
+  code_128: BarcodeFormat.CODE_128,
+  code_39: BarcodeFormat.CODE_39,
+  ean_13: BarcodeFormat.EAN_13,
+  ean_8: BarcodeFormat.EAN_8,
+  upc_a: BarcodeFormat.UPC_A,
+  upc_e: BarcodeFormat.UPC_E,
+}
+
+// RGBA pixels, as in the ImageData of a canvas
+export interface PixelFrame {
+  width: number
+  height: number
+  data: Uint8ClampedArray | Uint8Array
+}
+
+// Same green-weighted average ZXing uses for its own RGB sources
+function toLuminance({ width, height, data }: PixelFrame): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(width * height)
+  for (let pixel = 0; pixel < luminance.length; pixel++) {
+    const offset = pixel * 4
+    luminance[pixel] = (data[offset] + 2 * data[offset + 1] + data[offset + 2]) >> 2
+  }
+  return luminance
+}
+
+// A frame without a readable code is the normal case while the camera is pointed around
+const isNoCodeError = (error: unknown) =>
+  error instanceof NotFoundException || error instanceof ChecksumException || error instanceof FormatException
+
+// Returns a decoder that keeps its reader between frames; it returns null when the frame holds no readable code
+export function createFrameDecoder(formats: string[] = BARCODE_FORMATS): (frame: PixelFrame) => string | null {
+  const reader = new MultiFormatReader()
+  const hints = new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, formats.flatMap((format) => ZXING_FORMATS[format] ?? [])],
+    [DecodeHintType.TRY_HARDER, true],
+  ])
+  reader.setHints(hints)
+
+  return (frame) => {
+    const source = new RGBLuminanceSource(toLuminance(frame), frame.width, frame.height)
+    try {
+      return reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source))).getText()
+    } catch (error) {
+      if (isNoCodeError(error)) return null
+      throw error
+    } finally {
+      reader.reset()
+    }
+  }
+}
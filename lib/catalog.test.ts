@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyCatalogNames,
+  createProductDraft,
+  findProduct,
+  getStockBySku,
+  resolveProduct,
+  saveProduct,
+  seedCatalogFromItems,
+  suggestProducts,
+  validateProduct,
+} from "@/lib/catalog"
+import { productsCollection, type InventoryItem, type Product } from "@/lib/database"
+import { buildAislesFromItems, DEFAULT_LAYOUT } from "@/lib/layout"
+import { MemoryAdapter } from "@/lib/storage"
+
+const product = (sku: string, name: string, extra: Partial<Product> = {}): Product => ({
+  ...createProductDraft(sku, name),
+  id: `product-${sku}`,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+  ...extra,
+})
+
+const products = [
+  product("REF010", "Correa Extensible"),
+  product("REF001", "Arnés Deportivo", { barcode: "8412345678905" }),
+  product("ARN-2", "Collar Reflectante"),
+]
+
+const item = (reference: string, description: string, quantity: number, shelf = 1): InventoryItem => ({
+  id: `${reference}-${shelf}`,
+  reference,
+  description,
+  quantity,
+  location: "",
+  aisle: "A",
+  column: 1,
+  shelf,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+})
+
+describe("finding products", () => {
+  it("matches a SKU or barcode exactly, ignoring case and spaces", () => {
+    expect(findProduct(products, " ref001 ")?.name).toBe("Arnés Deportivo")
+    expect(findProduct(products, "8412345678905")?.sku).toBe("REF001")
+    expect(findProduct(products, "REF00")).toBeUndefined()
+    expect(findProduct(products, "  ")).toBeUndefined()
+  })
+
+  it("suggests SKU prefix matches before name matches", () => {
+    expect(suggestProducts(products, "ref").map((p) => p.sku)).toEqual(["REF010", "REF001", "ARN-2"])
+    expect(suggestProducts(products, "ar").map((p) => p.sku)).toEqual(["ARN-2", "REF001"])
+    expect(suggestProducts(products, "", 2)).toHaveLength(2)
+  })
+
+  it("settles on a typed code only when it is exact or the sole SKU with that prefix", () => {
+    expect(resolveProduct(products, "REF001")?.sku).toBe("REF001")
+    expect(resolveProduct(products, "ARN")?.sku).toBe("ARN-2")
+    expect(resolveProduct(products, "REF")).toBeUndefined()
+    expect(resolveProduct(products, "")).toBeUndefined()
+  })
+})
+
+describe("validateProduct", () => {
+  it("requires a SKU and a name", () => {
+    expect(validateProduct(createProductDraft("", "Nombre"), products)).toBe("El SKU es obligatorio")
+    expect(validateProduct(createProductDraft("NUEVO", " "), products)).toBe("El nombre es obligatorio")
+  })
+
+  it("rejects SKUs and barcodes used by another product, but not by the one being edited", () => {
+    expect(validateProduct(createProductDraft("ref001", "Otro"), products)).toMatch(/Ya existe un producto/)
+    expect(validateProduct({ ...createProductDraft("NUEVO", "Otro"), barcode: "8412345678905" }, products)).toMatch(
+      /ya está asignado/,
+    )
+    expect(
+      validateProduct(
+        { ...createProductDraft("REF001", "Arnés"), barcode: "8412345678905" },
+        products,
+        "product-REF001",
+      ),
+    ).toBeNull()
+  })
+
+  it("rejects negative numbers and a minimum above the reorder point", () => {
+    expect(validateProduct({ ...createProductDraft("N", "N"), weight_kg: -1 }, products)).toMatch(
+      /no pueden ser negativos/,
+    )
+    expect(validateProduct({ ...createProductDraft("N", "N"), min_stock: 10, reorder_point: 5 }, products)).toMatch(
+      /stock mínimo/,
+    )
+    expect(validateProduct({ ...createProductDraft("N", "N"), min_stock: 10 }, products)).toBeNull()
+  })
+})
+
+describe("catalog storage", () => {
+  it("saves new and edited products and keeps the list sorted by SKU", async () => {
+    const store = new MemoryAdapter(productsCollection)
+    const created = await saveProduct(store, [], createProductDraft(" REF2 ", " Bebedero "))
+    expect(created.data!.map((p) => [p.sku, p.name])).toEqual([["REF2", "Bebedero"]])
+
+    const added = await saveProduct(store, created.data!, createProductDraft("REF10", "Comedero"))
+    expect(added.data!.map((p) => p.sku)).toEqual(["REF2", "REF10"])
+
+    const id = added.data![0].id
+    const edited = await saveProduct(store, added.data!, createProductDraft("REF2", "Bebedero Doble"), id)
+    expect(edited.data!.find((p) => p.id === id)?.name).toBe("Bebedero Doble")
+    expect((await store.selectItems()).data).toHaveLength(2)
+  })
+
+  it("returns a validation error without writing", async () => {
+    const store = new MemoryAdapter(productsCollection)
+    const result = await saveProduct(store, products, createProductDraft("REF001", "Duplicado"))
+    expect(result.error?.code).toBe("validation")
+    expect((await store.selectItems()).data).toEqual([])
+  })
+
+  it("seeds one product per SKU found only in the stock rows, named after its first description", async () => {
+    const store = new MemoryAdapter(productsCollection)
+    const items = [item("REF001", "Arnés", 2), item("NEW1", "Pienso", 1), item("NEW1", "Pienso Gato", 3, 2)]
+    const result = await seedCatalogFromItems(store, products, items)
+    expect(result.data!.map((p) => p.sku)).toEqual(["ARN-2", "NEW1", "REF001", "REF010"])
+    expect((await store.selectItems()).data!.map((p) => [p.sku, p.name])).toEqual([["NEW1", "Pienso"]])
+
+    expect((await seedCatalogFromItems(store, result.data!, items)).data).toBe(result.data)
+  })
+})
+
+describe("catalog names and stock", () => {
+  const aisles = buildAislesFromItems(DEFAULT_LAYOUT, [
+    item("REF001", "arnes viejo", 2),
+    item("REF001", "Arnés Deportivo", 3, 2),
+    item("SUELTO", "Sin ficha", 1, 3),
+  ])
+
+  it("renames box entries after the catalog and keeps the same tree when nothing changes", () => {
+    const named = applyCatalogNames(aisles, products)
+    const names = named[0].columns[0].boxes.slice(0, 3).map((box) => box.references[0].name)
+    expect(names).toEqual(["Arnés Deportivo", "Arnés Deportivo", "Sin ficha"])
+    expect(applyCatalogNames(named, products)).toBe(named)
+  })
+
+  it("totals the stock of each SKU across boxes", () => {
+    expect(getStockBySku(aisles)).toEqual(
+      new Map([
+        ["REF001", 5],
+        ["SUELTO", 1],
+      ]),
+    )
+  })
+})
@@ -0,0 +1,171 @@
+import type { DatabaseResponse, InventoryItem, Product, StorageAdapter } from "@/lib/database"
+import { StorageError, type NewRecord } from "@/lib/storage"
+import type { Aisle } from "@/lib/warehouse"
+
+export type NewProduct = NewRecord<Product>
+
+export const PRODUCT_UNITS = ["ud", "par", "caja", "pack", "m", "kg"]
+
+export const createProductDraft = (sku = "", name = ""): NewProduct => ({
+  sku,
+  name,
+  category: "",
+  unit: "ud",
+  length_cm: 0,
+  width_cm: 0,
+  height_cm: 0,
+  weight_kg: 0,
+  barcode: "",
+  min_stock: 0,
+  reorder_point: 0,
+  reorder_quantity: 0,
+  image_url: "",
+})
+
+const sameCode = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Exact SKU or barcode match, as typed or scanned
+export function findProduct(products: Product[], code: string): Product | undefined {
+  if (!code.trim()) return undefined
+  return products.find((product) => sameCode(product.sku, code) || (product.barcode && sameCode(product.barcode, code)))
+}
+
+// Products for an autocomplete list: SKU prefix matches first, then anything containing the query in SKU or name
+export function suggestProducts(products: Product[], query: string, limit = 8): Product[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return products.slice(0, limit)
+
+  const prefix = products.filter((product) => product.sku.toLowerCase().startsWith(needle))
+  const contains = products.filter(
+    (product) =>
+      !prefix.includes(product) &&
+      (product.sku.toLowerCase().includes(needle) || product.name.toLowerCase().includes(needle)),
+  )
+  return [...prefix, ...contains].slice(0, limit)
+}
+
+// What the add flow settles on for a typed code: an exact match, or the only SKU starting with it
+export function resolveProduct(products: Product[], code: string): Product | undefined {
+  const exact = findProduct(products, code)
+  if (exact) return exact
+  const needle = code.trim().toLowerCase()
+  const candidates = needle ? products.filter((product) => product.sku.toLowerCase().startsWith(needle)) : []
+  return candidates.length === 1 ? candidates[0] : undefined
+}
+
+export function validateProduct(product: NewProduct, products: Product[], editingId?: string): string | null {
+  if (!product.sku.trim()) return "El SKU es obligatorio"
+  if (!product.name.trim()) return "El nombre es obligatorio"
+  if (products.some((other) => other.id !== editingId && sameCode(other.sku, product.sku))) {
+    return `Ya existe un producto con el SKU ${product.sku.trim()}`
+  }
+  if (
+    product.barcode.trim() &&
+    products.some((other) => other.id !== editingId && other.barcode && sameCode(other.barcode, product.barcode))
+  ) {
+    return `El código de barras ${product.barcode.trim()} ya está asignado a otro producto`
+  }
+  const numbers = [
+    product.length_cm,
+    product.width_cm,
+    product.height_cm,
+    product.weight_kg,
+    product.min_stock,
+    product.reorder_point,
+    product.reorder_quantity,
+  ]
+  if (numbers.some((value) => !Number.isFinite(value) || value < 0)) {
+    return "Las dimensiones, el peso y los umbrales de stock no pueden ser negativos"
+  }
+  if (product.reorder_point > 0 && product.min_stock > product.reorder_point) {
+    return "El stock mínimo no puede ser mayor que el punto de pedido"
+  }
+  return null
+}
+
+const sortProducts = (products: Product[]) =>
+  [...products].sort((a, b) => a.sku.localeCompare(b.sku, undefined, { numeric: true }))
+
+export async function loadCatalog(store: StorageAdapter<Product>): Promise<DatabaseResponse<Product[]>> {
+  const result = await store.selectItems()
+  if (result.error || !result.data)
+    return { data: null, error: result.error || new StorageError("unknown", "Error loading products") }
+  return { data: sortProducts(result.data), error: null }
+}
+
+// Creates catalog entries for SKUs that so far only existed as free text in box rows.
+// The first description found for a SKU wins; the rest are overwritten by the catalog name on the next sync.
+export async function seedCatalogFromItems(
+  store: StorageAdapter<Product>,
+  products: Product[],
+  items: InventoryItem[],
+): Promise<DatabaseResponse<Product[]>> {
+  const missing = new Map<string, NewProduct>()
+  items.forEach((item) => {
+    if (item.reference && !findProduct(products, item.reference) && !missing.has(item.reference)) {
+      missing.set(item.reference, createProductDraft(item.reference, item.description || item.reference))
+    }
+  })
+  if (missing.size === 0) return { data: products, error: null }
+
+  console.log(`[v0] Adding ${missing.size} products to the catalog from existing stock`)
+  const result = await store.insertMany(Array.from(missing.values()))
+  if (result.error || !result.data)
+    return { data: null, error: result.error || new StorageError("unknown", "Error seeding products") }
+  return { data: sortProducts([...products, ...result.data]), error: null }
+}
+
+export async function saveProduct(
+  store: StorageAdapter<Product>,
+  products: Product[],
+  product: NewProduct,
+  editingId?: string,
+): Promise<DatabaseResponse<Product[]>> {
+  const validationError = validateProduct(product, products, editingId)
+  if (validationError) return { data: null, error: new StorageError("validation", validationError) }
+
+  const cleaned: NewProduct = { ...product, sku: product.sku.trim(), name: product.name.trim() }
+  const result = editingId ? await store.updateItem(editingId, cleaned) : await store.insertItem(cleaned)
+  if (result.error || !result.data)
+    return { data: null, error: result.error || new StorageError("unknown", "Error saving product") }
+
+  const saved = result.data
+  return {
+    data: sortProducts(editingId ? products.map((p) => (p.id === editingId ? saved : p)) : [...products, saved]),
+    error: null,
+  }
+}
+
+// Box entries store the SKU; names always come from the catalog so one SKU reads the same everywhere
+export function applyCatalogNames(aisles: Aisle[], products: Product[]): Aisle[] {
+  const names = new Map(products.map((product) => [product.sku, product.name]))
+  let changed = false
+  const next = aisles.map((aisle) => ({
+    ...aisle,
+    columns: aisle.columns.map((column) => ({
+      ...column,
+      boxes: column.boxes.map((box) => ({
+        ...box,
+        references: box.references.map((ref) => {
+          const name = names.get(ref.id)
+          if (!name || name === ref.name) return ref
+          changed = true
+          return { ...ref, name }
+        }),
+      })),
+    })),
+  }))
+  return changed ? next : aisles
+}
+
+export function getStockBySku(aisles: Aisle[]): Map<string, number> {
+  const totals = new Map<string, number>()
+  aisles.forEach((aisle) =>
+    aisle.columns.forEach((column) =>
+      column.boxes.forEach((box) =>
+        box.references.forEach((ref) => totals.set(ref.id, (totals.get(ref.id) || 0) + ref.quantity)),
+      ),
+    ),
+  )
+  return totals
+}
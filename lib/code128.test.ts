@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { canEncodeCode128, encodeCode128, QUIET_ZONE_MODULES } from "@/lib/code128"
+
+// Bar and space widths in order, as the patterns in the spec are written
+function toWidths(bars: { x: number; width: number }[]): string {
+  return bars
+    .map((bar, index) => {
+      const next = bars[index + 1]
+      return next ? `${bar.width}${next.x - bar.x - bar.width}` : `${bar.width}`
+    })
+    .join("")
+}
+
+describe("encodeCode128", () => {
+  it("writes start B, the data, the checksum and the stop pattern", () => {
+    // "A" is value 33; checksum (104 + 33) % 103 = 34
+    const { bars } = encodeCode128("A")
+    expect(toWidths(bars)).toBe("211214" + "111323" + "131123" + "2331112")
+    expect(bars[0].x).toBe(QUIET_ZONE_MODULES)
+  })
+
+  it("weights the checksum by position", () => {
+    // (104 + 33 * 1 + 34 * 2) % 103 = 102
+    const { bars } = encodeCode128("AB")
+    expect(toWidths(bars).slice(18, 24)).toBe("411131")
+  })
+
+  it("counts 11 modules per symbol, 13 for the stop and both quiet zones", () => {
+    expect(encodeCode128("A-C3-L2").modules).toBe(QUIET_ZONE_MODULES * 2 + 11 * (7 + 2) + 13)
+  })
+
+  it("rejects text outside code set B", () => {
+    expect(canEncodeCode128("")).toBe(false)
+    expect(canEncodeCode128("Año")).toBe(false)
+    expect(() => encodeCode128("Año")).toThrow()
+  })
+})
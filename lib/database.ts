@@ -1,3 +1,19 @@
+import { createStorageAdapter, generateId, type CollectionConfig, type StorageAdapter } from "@/lib/storage"
+import type { ColumnBlocking } from "@/lib/warehouse"
+
+export type {
+  BulkOperation,
+  BulkProgress,
+  DatabaseResponse,
+  StorageAdapter,
+  StorageBackend,
+  SyncConflict,
+  SyncStatus,
+  StorageErrorCode,
+  WriteConflict,
+} from "@/lib/storage"
+export { StorageError, toStorageError } from "@/lib/storage"
+
 export interface InventoryItem {
   id: string
   reference: string
@@ -11,143 +27,13 @@ export interface InventoryItem {
   updated_at: string
 }
 
-export interface DatabaseResponse<T> {
-  data: T | null
-  error: string | null
-}
-
-class SteinAPIService {
-  private apiUrl = "https://api.steinhq.com/v1/storages/68a89238affba40a62f0f182"
-  private possibleSheetNames = ["Sheet1", "Hoja1", "Hoja 1", "inventory", "Inventory", "almacén", "almacen"]
-  private sheetName = "Sheet1" // Will be updated when we find the correct one
-  private refreshInterval: NodeJS.Timeout | null = null
-  private subscribers: ((items: InventoryItem[]) => void)[] = []
-  private retryCount = 0
-  private maxRetries = 3
-  private lastRequestTime = 0
-  private minRequestInterval = 1000 // 1 second between requests
-  private fallbackMode = false
-  private fallbackReason = ""
-  private lastDataCache: InventoryItem[] = []
-
-  private getLocalStorageKey(): string {
-    return "warehouse-inventory-fallback"
-  }
-
-  private saveToLocalStorage(items: InventoryItem[]): void {
-    if (typeof window !== "undefined") {
-      localStorage.setItem(this.getLocalStorageKey(), JSON.stringify(items))
-    }
-  }
-
-  private loadFromLocalStorage(): InventoryItem[] {
-    if (typeof window !== "undefined") {
-      const stored = localStorage.getItem(this.getLocalStorageKey())
-      if (stored) {
-        try {
-          return JSON.parse(stored)
-        } catch (error) {
-          console.error("Error parsing localStorage data:", error)
-        }
-      }
-    }
-    return []
-  }
-
-  private async makeRequest(endpoint = "", options: RequestInit = {}): Promise<any> {
-    if (this.fallbackMode) {
-      throw new Error(`API unavailable: ${this.fallbackReason}`)
-    }
-
-    try {
-      const now = Date.now()
-      const timeSinceLastRequest = now - this.lastRequestTime
-      if (timeSinceLastRequest < this.minRequestInterval) {
-        await new Promise((resolve) => setTimeout(resolve, this.minRequestInterval - timeSinceLastRequest))
-      }
-      this.lastRequestTime = Date.now()
-
-      const url = `${this.apiUrl}/${this.sheetName}${endpoint}`
-      console.log(`[v0] SteinHQ API request: ${options.method || "GET"} ${url}`)
-
-      const response = await fetch(url, {
-        headers: {
-          "Content-Type": "application/json",
-          ...options.headers,
-        },
-        ...options,
-      })
-
-      console.log(`[v0] SteinHQ API response: ${response.status} ${response.statusText}`)
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.log(`[v0] SteinHQ API error response: ${errorText}`)
-
-        if (response.status === 402 || response.status === 429) {
-          this.fallbackMode = true
-          this.fallbackReason = "API limit exceeded - using local storage"
-          console.warn("SteinHQ API limit exceeded, switching to localStorage fallback")
-          throw new Error(`API limit exceeded`)
-        }
-        if (response.status === 500) {
-          throw new Error(`Server error - please try again later`)
-        }
-        if (response.status === 400) {
-          throw new Error(`Bad request - possibly incorrect sheet name "${this.sheetName}": ${errorText}`)
-        }
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`)
-      }
-
-      const contentType = response.headers.get("content-type")
-      if (contentType && contentType.includes("application/json")) {
-        const text = await response.text()
-        if (text.trim() === "") {
-          return {}
-        }
-        return JSON.parse(text)
-      } else {
-        return {}
-      }
-    } catch (error) {
-      console.error("SteinHQ API error:", error)
-
-      if (error.message.includes("API limit") || error.message.includes("Payment required")) {
-        this.fallbackMode = true
-        this.fallbackReason = "API limit exceeded - using local storage"
-      }
-
-      if (
-        this.retryCount < this.maxRetries &&
-        (error.message.includes("Server error") ||
-          error.message.includes("Failed to fetch") ||
-          error.message.includes("JSON"))
-      ) {
-        this.retryCount++
-        console.log(`Retrying request (${this.retryCount}/${this.maxRetries})...`)
-        await new Promise((resolve) => setTimeout(resolve, 1000 * this.retryCount))
-        return this.makeRequest(endpoint, options)
-      }
-
-      this.retryCount = 0
-      throw error
-    }
-  }
-
-  private generateId(): string {
-    if (typeof window !== "undefined" && window.crypto && window.crypto.randomUUID) {
-      return window.crypto.randomUUID()
-    }
-    return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
-      const r = (Math.random() * 16) | 0
-      const v = c == "x" ? r : (r & 0x3) | 0x8
-      return v.toString(16)
-    })
-  }
-
-  private mapSteinRowToItem(row: any): InventoryItem {
-    return {
-      id: row.id?.toString() || this.generateId(),
+export const inventoryCollection: CollectionConfig<InventoryItem> = {
+  name: "inventory",
+  sheetNames: ["Sheet1", "Hoja1", "Hoja 1", "inventory", "Inventory", "almacén", "almacen"],
+  apiPath: "/api/items",
+  codec: {
+    fromRow: (row: any): InventoryItem => ({
+      id: row.id?.toString() || generateId(),
       reference: row.reference || "",
       description: row.description || "",
       quantity: Number.parseInt(row.quantity) || 0,
@@ -155,13 +41,11 @@ class SteinAPIService {
       aisle: row.aisle || "",
       column: Number.parseInt(row.column) || 0,
       shelf: Number.parseInt(row.shelf) || 0,
-      created_at: row.created_at || new Date().toISOString(),
-      updated_at: row.updated_at || new Date().toISOString(),
-    }
-  }
-
-  private mapItemToSteinRow(item: InventoryItem): any {
-    return {
+      // A row stored without timestamps decodes to "" rather than a new time on every read, so its version stays stable
+      created_at: row.created_at || "",
+      updated_at: row.updated_at || "",
+    }),
+    toRow: (item: InventoryItem) => ({
       id: item.id,
       reference: item.reference,
       description: item.description,
@@ -172,350 +56,213 @@ class SteinAPIService {
       shelf: item.shelf,
       created_at: item.created_at,
       updated_at: item.updated_at,
-    }
-  }
-
-  private deepEqual(obj1: InventoryItem[], obj2: InventoryItem[]): boolean {
-    if (obj1.length !== obj2.length) return false
-
-    // Sort both arrays by id to ensure consistent comparison
-    const sorted1 = [...obj1].sort((a, b) => a.id.localeCompare(b.id))
-    const sorted2 = [...obj2].sort((a, b) => a.id.localeCompare(b.id))
-
-    for (let i = 0; i < sorted1.length; i++) {
-      const item1 = sorted1[i]
-      const item2 = sorted2[i]
-
-      // Compare all properties
-      if (
-        item1.id !== item2.id ||
-        item1.reference !== item2.reference ||
-        item1.description !== item2.description ||
-        item1.quantity !== item2.quantity ||
-        item1.location !== item2.location ||
-        item1.aisle !== item2.aisle ||
-        item1.column !== item2.column ||
-        item1.shelf !== item2.shelf ||
-        item1.created_at !== item2.created_at ||
-        item1.updated_at !== item2.updated_at
-      ) {
-        return false
-      }
-    }
-
-    return true
-  }
-
-  async insertItem(
-    item: Omit<InventoryItem, "id" | "created_at" | "updated_at">,
-  ): Promise<DatabaseResponse<InventoryItem>> {
-    try {
-      const newItem: InventoryItem = {
-        ...item,
-        id: this.generateId(),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      }
-
-      if (this.fallbackMode) {
-        const items = this.loadFromLocalStorage()
-        items.push(newItem)
-        this.saveToLocalStorage(items)
-        this.lastDataCache = [...items]
-        this.notifySubscribers()
-        return { data: newItem, error: null }
-      }
-
-      const steinRow = this.mapItemToSteinRow(newItem)
-      const response = await this.makeRequest("", {
-        method: "POST",
-        body: JSON.stringify([steinRow]),
-      })
-
-      const createdItem = Array.isArray(response) && response.length > 0 ? this.mapSteinRowToItem(response[0]) : newItem
-      this.lastDataCache = []
-      this.notifySubscribers()
-      return { data: createdItem, error: null }
-    } catch (error) {
-      if (error.message.includes("API limit")) {
-        const newItem: InventoryItem = {
-          ...item,
-          id: this.generateId(),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        }
-        const items = this.loadFromLocalStorage()
-        items.push(newItem)
-        this.saveToLocalStorage(items)
-        this.lastDataCache = [...items]
-        this.notifySubscribers()
-        return { data: newItem, error: null }
-      }
-      return { data: null, error: "Error inserting item" }
-    }
-  }
-
-  async selectItems(): Promise<DatabaseResponse<InventoryItem[]>> {
-    try {
-      if (this.fallbackMode) {
-        const items = this.loadFromLocalStorage()
-        return { data: items, error: null }
-      }
-
-      if (this.sheetName === "Sheet1") {
-        try {
-          this.sheetName = await this.findCorrectSheetName()
-        } catch (error) {
-          console.warn("Could not find correct sheet name, falling back to localStorage:", error.message)
-          this.fallbackMode = true
-          this.fallbackReason = "Sheet not found - using local storage"
-          const items = this.loadFromLocalStorage()
-          return { data: items, error: null }
-        }
-      }
-
-      const response = await this.makeRequest()
-      const items = Array.isArray(response) ? response.map((row: any) => this.mapSteinRowToItem(row)) : []
-      return { data: items, error: null }
-    } catch (error) {
-      if (error.message.includes("API limit") || error.message.includes("Bad request")) {
-        console.warn("SteinHQ API error, switching to localStorage:", error.message)
-        this.fallbackMode = true
-        this.fallbackReason = error.message.includes("Bad request")
-          ? "Sheet access error - using local storage"
-          : "API limit exceeded - using local storage"
-        const items = this.loadFromLocalStorage()
-        return { data: items, error: null }
-      }
-      return { data: [], error: null }
-    }
-  }
-
-  async updateItem(id: string, updates: Partial<InventoryItem>): Promise<DatabaseResponse<InventoryItem>> {
-    try {
-      if (this.fallbackMode) {
-        const items = this.loadFromLocalStorage()
-        const index = items.findIndex((item) => item.id === id)
-        if (index === -1) {
-          return { data: null, error: "Item not found" }
-        }
-
-        const updatedItem = {
-          ...items[index],
-          ...updates,
-          updated_at: new Date().toISOString(),
-        }
-        items[index] = updatedItem
-        this.saveToLocalStorage(items)
-        this.lastDataCache = [...items]
-        this.notifySubscribers()
-        return { data: updatedItem, error: null }
-      }
-
-      const allItemsResponse = await this.selectItems()
-      if (!allItemsResponse.data) {
-        return { data: null, error: "Could not fetch items for update" }
-      }
-
-      const existingItem = allItemsResponse.data.find((item) => item.id === id)
-      if (!existingItem) {
-        return { data: null, error: "Item not found" }
-      }
-
-      const updatedItem = {
-        ...existingItem,
-        ...updates,
-        updated_at: new Date().toISOString(),
-      }
-
-      const response = await this.makeRequest("", {
-        method: "PUT",
-        body: JSON.stringify({
-          condition: { id: id },
-          set: this.mapItemToSteinRow(updatedItem),
-        }),
-      })
-
-      this.lastDataCache = []
-      this.notifySubscribers()
-      return { data: updatedItem, error: null }
-    } catch (error) {
-      if (error.message.includes("API limit")) {
-        const items = this.loadFromLocalStorage()
-        const index = items.findIndex((item) => item.id === id)
-        if (index === -1) {
-          return { data: null, error: "Item not found" }
-        }
-
-        const updatedItem = {
-          ...items[index],
-          ...updates,
-          updated_at: new Date().toISOString(),
-        }
-        items[index] = updatedItem
-        this.saveToLocalStorage(items)
-        this.lastDataCache = [...items]
-        this.notifySubscribers()
-        return { data: updatedItem, error: null }
-      }
-      return { data: null, error: "Error updating item" }
-    }
-  }
-
-  async deleteItem(id: string): Promise<DatabaseResponse<boolean>> {
-    try {
-      if (this.fallbackMode) {
-        const items = this.loadFromLocalStorage()
-        const index = items.findIndex((item) => item.id === id)
-        if (index === -1) {
-          return { data: false, error: "Item not found" }
-        }
-
-        items.splice(index, 1)
-        this.saveToLocalStorage(items)
-        this.lastDataCache = [...items]
-        this.notifySubscribers()
-        return { data: true, error: null }
-      }
-
-      await this.makeRequest("", {
-        method: "DELETE",
-        body: JSON.stringify({
-          condition: { id: id },
-        }),
-      })
-
-      this.lastDataCache = []
-      this.notifySubscribers()
-      return { data: true, error: null }
-    } catch (error) {
-      if (error.message.includes("API limit")) {
-        const items = this.loadFromLocalStorage()
-        const index = items.findIndex((item) => item.id === id)
-        if (index === -1) {
-          return { data: false, error: "Item not found" }
-        }
-
-        items.splice(index, 1)
-        this.saveToLocalStorage(items)
-        this.lastDataCache = [...items]
-        this.notifySubscribers()
-        return { data: true, error: null }
-      }
-      return { data: false, error: "Error deleting item" }
-    }
-  }
-
-  async selectItemsByLocation(aisle: string): Promise<DatabaseResponse<InventoryItem[]>> {
-    try {
-      const itemsResult = await this.selectItems()
-      if (itemsResult.error || !itemsResult.data) {
-        return { data: null, error: "Error fetching items by location" }
-      }
-
-      const filteredItems = itemsResult.data.filter((item) => item.aisle === aisle)
-      return { data: filteredItems, error: null }
-    } catch (error) {
-      return { data: null, error: "Error filtering items by location" }
-    }
-  }
+    }),
+  },
+}
 
-  private async notifySubscribers(): Promise<void> {
-    const result = await this.selectItems()
-    if (result.data) {
-      if (!this.deepEqual(this.lastDataCache, result.data)) {
-        console.log("[v0] Data changes detected, updating subscribers")
-        this.lastDataCache = [...result.data] // Update cache
-        this.subscribers.forEach((callback) => callback(result.data!))
-      } else {
-        console.log("[v0] No data changes detected, skipping update")
-      }
-    }
-  }
+export type MovementType = "receipt" | "pick" | "adjustment" | "transfer" | "count_correction"
 
-  async subscribeToChanges(callback: (items: InventoryItem[]) => void): Promise<() => void> {
-    this.subscribers.push(callback)
+// Append-only ledger entry: `quantity` units of `reference` went from one box to another.
+// An empty from_box means stock entered the warehouse, an empty to_box means it left.
+export interface StockMovement {
+  id: string
+  type: MovementType
+  reference: string
+  description: string
+  quantity: number
+  from_box: string
+  to_box: string
+  user: string
+  reason: string
+  created_at: string
+  updated_at: string
+}
 
-    const result = await this.selectItems()
-    if (result.data) {
-      this.lastDataCache = [...result.data]
-      callback(result.data)
-    }
+export const MOVEMENT_TYPES: MovementType[] = ["receipt", "pick", "adjustment", "transfer", "count_correction"]
 
-    if (!this.refreshInterval) {
-      this.refreshInterval = setInterval(async () => {
-        try {
-          if (!this.fallbackMode) {
-            console.log("[v0] Starting 16-minute scheduled API check...")
-            await this.notifySubscribers()
-          }
-        } catch (error) {
-          console.error("Error during auto-refresh:", error)
-        }
-      }, 960000) // 16 minutes = 16 * 60 * 1000 = 960000ms
-    }
+export const movementsCollection: CollectionConfig<StockMovement> = {
+  name: "movements",
+  sheetNames: ["movements", "Movements", "movimientos", "Movimientos"],
+  apiPath: "/api/movements",
+  codec: {
+    fromRow: (row: any): StockMovement => ({
+      id: row.id?.toString() || generateId(),
+      type: MOVEMENT_TYPES.includes(row.type) ? row.type : "adjustment",
+      reference: row.reference || "",
+      description: row.description || "",
+      quantity: Number.parseInt(row.quantity) || 0,
+      from_box: row.from_box || "",
+      to_box: row.to_box || "",
+      user: row.user || "",
+      reason: row.reason || "",
+      created_at: row.created_at || "",
+      updated_at: row.updated_at || "",
+    }),
+    toRow: (movement: StockMovement) => ({
+      id: movement.id,
+      type: movement.type,
+      reference: movement.reference,
+      description: movement.description,
+      quantity: movement.quantity,
+      from_box: movement.from_box,
+      to_box: movement.to_box,
+      user: movement.user,
+      reason: movement.reason,
+      created_at: movement.created_at,
+      updated_at: movement.updated_at,
+    }),
+  },
+}
 
-    return () => {
-      const index = this.subscribers.indexOf(callback)
-      if (index > -1) {
-        this.subscribers.splice(index, 1)
-      }
+export interface LayoutColumn {
+  number: number
+  levels: number
+  disabledLevels: number[]
+  // Custom display names; absent means the default "Columna N" / "Nivel N"
+  name?: string
+  boxNames?: Record<number, string>
+  // Absent means "stacked"
+  blocking?: ColumnBlocking
+}
 
-      if (this.subscribers.length === 0 && this.refreshInterval) {
-        clearInterval(this.refreshInterval)
-        this.refreshInterval = null
-        this.lastDataCache = []
-      }
-    }
-  }
+// Physical dimensions of the floor, in metres. Aisles run from the front cross aisle (y = 0) towards the back,
+// laid out left to right in layout order starting at x = 0.
+export interface WarehouseGeometry {
+  entrance: { x: number; y: number }
+  // Centre-to-centre distance between consecutive aisles
+  aisleSpacing: number
+  // Length of one column along the aisle
+  columnWidth: number
+  levelHeight: number
+}
 
-  isFallbackMode(): boolean {
-    return this.fallbackMode
-  }
+// One row per aisle; columns are stored as JSON so a sheet only needs a single extra cell.
+// The floor geometry lives in one extra row of its own, see GEOMETRY_ROW_ID in lib/layout.
+export interface LayoutAisleRecord {
+  id: string
+  aisle_id: string
+  name: string
+  position: number
+  columns: LayoutColumn[]
+  geometry?: WarehouseGeometry
+  created_at: string
+  updated_at: string
+}
 
-  getFallbackReason(): string {
-    return this.fallbackReason
+const parseJsonColumn = <T>(value: unknown, fallback: T): T => {
+  if (typeof value !== "string") return (value as T) ?? fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
   }
+}
 
-  private async findCorrectSheetName(): Promise<string> {
-    for (const sheetName of this.possibleSheetNames) {
-      try {
-        console.log(`[v0] Trying sheet name: ${sheetName}`)
-        const url = `${this.apiUrl}/${sheetName}`
-        const response = await fetch(url, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-          },
-        })
+export const layoutCollection: CollectionConfig<LayoutAisleRecord> = {
+  name: "layout",
+  sheetNames: ["layout", "Layout", "distribucion", "Distribucion"],
+  apiPath: "/api/layout",
+  codec: {
+    fromRow: (row: any): LayoutAisleRecord => ({
+      id: row.id?.toString() || generateId(),
+      aisle_id: row.aisle_id || "",
+      name: row.name || "",
+      position: Number.parseInt(row.position) || 0,
+      columns: parseJsonColumn<LayoutColumn[]>(row.columns, []),
+      geometry: row.geometry ? parseJsonColumn<WarehouseGeometry | undefined>(row.geometry, undefined) : undefined,
+      created_at: row.created_at || "",
+      updated_at: row.updated_at || "",
+    }),
+    toRow: (record: LayoutAisleRecord) => ({
+      id: record.id,
+      aisle_id: record.aisle_id,
+      name: record.name,
+      position: record.position,
+      columns: JSON.stringify(record.columns),
+      geometry: record.geometry ? JSON.stringify(record.geometry) : "",
+      created_at: record.created_at,
+      updated_at: record.updated_at,
+    }),
+  },
+}
 
-        if (response.ok) {
-          console.log(`[v0] Found correct sheet name: ${sheetName}`)
-          return sheetName
-        }
-      } catch (error) {
-        console.log(`[v0] Sheet name ${sheetName} failed:`, error.message)
-        continue
-      }
-    }
-    throw new Error("Could not find a valid sheet name. Please check your Google Sheet.")
-  }
+// Master data for a SKU; box rows only carry the SKU and a copy of the name for readability in the sheet
+export interface Product {
+  id: string
+  sku: string
+  name: string
+  category: string
+  unit: string
+  length_cm: number
+  width_cm: number
+  height_cm: number
+  weight_kg: number
+  barcode: string
+  // Below min_stock the SKU is critical; at or below reorder_point it should be reordered. 0 disables either
+  min_stock: number
+  reorder_point: number
+  // Order lot size; 0 means top up to twice the reorder point
+  reorder_quantity: number
+  image_url: string
+  created_at: string
+  updated_at: string
+}
 
-  async initializeSheet(): Promise<void> {
-    try {
-      this.sheetName = await this.findCorrectSheetName()
-      console.log(`SteinHQ API service initialized with sheet: ${this.sheetName}`)
-    } catch (error) {
-      console.warn("Could not initialize SteinHQ API, will use localStorage fallback:", error.message)
-      this.fallbackMode = true
-      this.fallbackReason = "Sheet initialization failed - using local storage"
-    }
-  }
+const parseNumber = (value: unknown) => Number.parseFloat(String(value ?? "").replace(",", ".")) || 0
+
+export const productsCollection: CollectionConfig<Product> = {
+  name: "products",
+  sheetNames: ["products", "Products", "productos", "Productos", "catalogo", "Catalogo"],
+  apiPath: "/api/products",
+  codec: {
+    fromRow: (row: any): Product => ({
+      id: row.id?.toString() || generateId(),
+      sku: row.sku?.toString() || "",
+      name: row.name || "",
+      category: row.category || "",
+      unit: row.unit || "ud",
+      length_cm: parseNumber(row.length_cm),
+      width_cm: parseNumber(row.width_cm),
+      height_cm: parseNumber(row.height_cm),
+      weight_kg: parseNumber(row.weight_kg),
+      barcode: row.barcode?.toString() || "",
+      min_stock: Number.parseInt(row.min_stock) || 0,
+      reorder_point: Number.parseInt(row.reorder_point) || 0,
+      reorder_quantity: Number.parseInt(row.reorder_quantity) || 0,
+      image_url: row.image_url || "",
+      created_at: row.created_at || "",
+      updated_at: row.updated_at || "",
+    }),
+    toRow: (product: Product) => ({
+      id: product.id,
+      sku: product.sku,
+      name: product.name,
+      category: product.category,
+      unit: product.unit,
+      length_cm: product.length_cm,
+      width_cm: product.width_cm,
+      height_cm: product.height_cm,
+      weight_kg: product.weight_kg,
+      barcode: product.barcode,
+      min_stock: product.min_stock,
+      reorder_point: product.reorder_point,
+      reorder_quantity: product.reorder_quantity,
+      image_url: product.image_url,
+      created_at: product.created_at,
+      updated_at: product.updated_at,
+    }),
+  },
 }
 
-export const db = new SteinAPIService()
+export const db: StorageAdapter<InventoryItem> = createStorageAdapter(inventoryCollection)
+export const movementsDb: StorageAdapter<StockMovement> = createStorageAdapter(movementsCollection)
+export const layoutDb: StorageAdapter<LayoutAisleRecord> = createStorageAdapter(layoutCollection)
+export const productsDb: StorageAdapter<Product> = createStorageAdapter(productsCollection)
 
 export const createTables = async () => {
-  await db.initializeSheet()
-  console.log("SteinHQ API service initialized")
+  await db.initialize()
+  await movementsDb.initialize()
+  await layoutDb.initialize()
+  await productsDb.initialize()
+  console.log(`Storage initialized (${db.backend})`)
 }
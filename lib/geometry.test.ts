@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_GEOMETRY,
+  formatDistance,
+  getDistanceFromEntrance,
+  getMaxDistance,
+  planRoute,
+  validateGeometry,
+} from "@/lib/geometry"
+import { buildEmptyAisles, createLayoutColumns } from "@/lib/layout"
+import type { SlotRef } from "@/lib/warehouse"
+
+// Two aisles of two 1 m columns with three 40 cm levels; the door is 2 m in front of aisle A
+const aisles = buildEmptyAisles({
+  geometry: DEFAULT_GEOMETRY,
+  aisles: [
+    { id: "A", columns: createLayoutColumns(2, 3) },
+    { id: "B", columns: createLayoutColumns(2, 3) },
+  ],
+})
+
+const slot = (aisleId: string, column: number, level: number): SlotRef => ({
+  aisleId,
+  columnId: `${aisleId}-C${column}`,
+  level,
+})
+
+describe("getDistanceFromEntrance", () => {
+  it("walks to the middle of the column through the front cross aisle", () => {
+    expect(getDistanceFromEntrance(aisles, DEFAULT_GEOMETRY, slot("A", 1, 1))).toBeCloseTo(2.5)
+  })
+
+  it("adds the distance between aisles and the climb to the level", () => {
+    expect(getDistanceFromEntrance(aisles, DEFAULT_GEOMETRY, slot("B", 2, 3))).toBeCloseTo(3 + 3.5 + 0.8)
+    expect(getMaxDistance(aisles, DEFAULT_GEOMETRY)).toBeCloseTo(7.3)
+  })
+})
+
+describe("planRoute", () => {
+  it("visits the nearest stop first and returns to the entrance", () => {
+    const route = planRoute(aisles, DEFAULT_GEOMETRY, [
+      { slot: slot("B", 1, 1) },
+      { slot: slot("A", 2, 1) },
+      { slot: slot("A", 1, 1) },
+    ])
+    expect(route.stops.map((stop) => stop.slot.columnId)).toEqual(["A-C1", "A-C2", "B-C1"])
+    expect(route.distance).toBeCloseTo(2.5 + 1 + 5 + 5.5)
+  })
+
+  it("walks nowhere without stops", () => {
+    expect(planRoute(aisles, DEFAULT_GEOMETRY, [])).toEqual({ stops: [], distance: 0 })
+  })
+})
+
+describe("formatDistance", () => {
+  it("keeps one decimal below 10 m", () => {
+    expect(formatDistance(7.25)).toBe("7,3 m")
+    expect(formatDistance(12.4)).toBe("12 m")
+  })
+})
+
+describe("validateGeometry", () => {
+  it("rejects non-positive spacing", () => {
+    expect(validateGeometry(DEFAULT_GEOMETRY)).toBeNull()
+    expect(validateGeometry({ ...DEFAULT_GEOMETRY, columnWidth: 0 })).not.toBeNull()
+    expect(validateGeometry({ ...DEFAULT_GEOMETRY, entrance: { x: Number.NaN, y: 0 } })).not.toBeNull()
+  })
+})
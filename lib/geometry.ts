@@ -0,0 +1,137 @@
+import type { WarehouseGeometry } from "@/lib/database"
+import { getColumnNumber, type Aisle, type SlotRef } from "@/lib/warehouse"
+
+export type { WarehouseGeometry } from "@/lib/database"
+
+// 3 m between aisle centres, 1 m columns and 40 cm levels, with the door at the head of the first aisle
+export const DEFAULT_GEOMETRY: WarehouseGeometry = {
+  entrance: { x: 0, y: -2 },
+  aisleSpacing: 3,
+  columnWidth: 1,
+  levelHeight: 0.4,
+}
+
+export interface FloorPoint {
+  // Absent for points outside the racks, such as the entrance
+  aisleId?: string
+  x: number
+  y: number
+  // Height of the box above the floor
+  z: number
+}
+
+export const getEntrancePoint = (geometry: WarehouseGeometry): FloorPoint => ({
+  x: geometry.entrance.x,
+  y: geometry.entrance.y,
+  z: 0,
+})
+
+// Every aisle can be left through the back cross aisle, which sits after the longest one
+export const getAisleLength = (aisles: Aisle[], geometry: WarehouseGeometry) =>
+  Math.max(0, ...aisles.flatMap((aisle) => aisle.columns.map((column) => getColumnNumber(column.id)))) *
+  geometry.columnWidth
+
+export function getSlotPoint(aisles: Aisle[], geometry: WarehouseGeometry, slot: SlotRef): FloorPoint {
+  const aisleIndex = Math.max(
+    0,
+    aisles.findIndex((aisle) => aisle.id === slot.aisleId),
+  )
+  return {
+    aisleId: slot.aisleId,
+    x: aisleIndex * geometry.aisleSpacing,
+    y: (getColumnNumber(slot.columnId) - 0.5) * geometry.columnWidth,
+    z: (slot.level - 1) * geometry.levelHeight,
+  }
+}
+
+// Walking along the aisle when both points share it; otherwise out of the first aisle and into the second
+// through whichever cross aisle (front or back) is shorter. Reaching up or down to the box is added on top.
+export function getWalkingDistance(aisleLength: number, from: FloorPoint, to: FloorPoint): number {
+  const climb = Math.abs(from.z - to.z)
+  if (from.aisleId && from.aisleId === to.aisleId) return Math.abs(from.y - to.y) + climb
+
+  const viaFront = Math.abs(from.y) + Math.abs(to.y)
+  const viaBack = Math.abs(aisleLength - from.y) + Math.abs(aisleLength - to.y)
+  return Math.abs(from.x - to.x) + Math.min(viaFront, viaBack) + climb
+}
+
+export function getDistanceFromEntrance(aisles: Aisle[], geometry: WarehouseGeometry, slot: SlotRef): number {
+  return getWalkingDistance(
+    getAisleLength(aisles, geometry),
+    getEntrancePoint(geometry),
+    getSlotPoint(aisles, geometry, slot),
+  )
+}
+
+// Distance to the nearest floor-level box of the aisle, used to describe the aisle as a whole
+export function getAisleDistance(aisles: Aisle[], geometry: WarehouseGeometry, aisleId: string): number {
+  const aisle = aisles.find((a) => a.id === aisleId)
+  if (!aisle || aisle.columns.length === 0) return 0
+  return Math.min(
+    ...aisle.columns.map((column) =>
+      getDistanceFromEntrance(aisles, geometry, { aisleId, columnId: column.id, level: 1 }),
+    ),
+  )
+}
+
+export function getMaxDistance(aisles: Aisle[], geometry: WarehouseGeometry): number {
+  let max = 0
+  aisles.forEach((aisle) =>
+    aisle.columns.forEach((column) =>
+      column.boxes.forEach((box) => {
+        max = Math.max(
+          max,
+          getDistanceFromEntrance(aisles, geometry, { aisleId: aisle.id, columnId: column.id, level: box.level }),
+        )
+      }),
+    ),
+  )
+  return max
+}
+
+// Greedy nearest-neighbour walk from the entrance: always go to the closest stop not yet visited.
+// Returns the stops in walking order together with the total distance, back to the entrance included.
+export function planRoute<T extends { slot: SlotRef }>(
+  aisles: Aisle[],
+  geometry: WarehouseGeometry,
+  stops: T[],
+): { stops: T[]; distance: number } {
+  const aisleLength = getAisleLength(aisles, geometry)
+  const entrance = getEntrancePoint(geometry)
+  const pending = stops.map((stop) => ({ stop, point: getSlotPoint(aisles, geometry, stop.slot) }))
+  const ordered: T[] = []
+  let current = entrance
+  let distance = 0
+
+  while (pending.length > 0) {
+    let nearest = 0
+    let nearestDistance = Number.POSITIVE_INFINITY
+    pending.forEach((candidate, index) => {
+      const candidateDistance = getWalkingDistance(aisleLength, current, candidate.point)
+      if (candidateDistance < nearestDistance) {
+        nearest = index
+        nearestDistance = candidateDistance
+      }
+    })
+    const [next] = pending.splice(nearest, 1)
+    ordered.push(next.stop)
+    distance += nearestDistance
+    current = next.point
+  }
+
+  if (ordered.length > 0) distance += getWalkingDistance(aisleLength, current, entrance)
+  return { stops: ordered, distance }
+}
+
+export const formatDistance = (metres: number) =>
+  metres < 10 ? `${metres.toFixed(1).replace(".", ",")} m` : `${Math.round(metres)} m`
+
+export function validateGeometry(geometry: WarehouseGeometry): string | null {
+  if (![geometry.entrance.x, geometry.entrance.y].every(Number.isFinite)) {
+    return "Las coordenadas de la entrada deben ser números."
+  }
+  if (!(geometry.aisleSpacing > 0 && geometry.columnWidth > 0 && geometry.levelHeight >= 0)) {
+    return "La separación entre pasillos y el ancho de columna deben ser mayores que cero."
+  }
+  return null
+}
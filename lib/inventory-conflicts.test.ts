@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest"
+import type { InventoryItem } from "@/lib/database"
+import { inventoryCollection } from "@/lib/database"
+import {
+  applyResolution,
+  describeConflict,
+  getConflictingFields,
+  persistResolution,
+  resolveConflict,
+  type InventoryConflict,
+} from "@/lib/inventory-conflicts"
+import { buildAislesFromItems, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+import { MemoryAdapter } from "@/lib/storage"
+import { findBox } from "@/lib/warehouse"
+
+const base: InventoryItem = {
+  id: "1",
+  reference: "REF001",
+  description: "Tornillo",
+  quantity: 10,
+  location: "Pasillo A-Columna 1-Nivel 1",
+  aisle: "A",
+  column: 1,
+  shelf: 1,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-02T00:00:00.000Z",
+}
+
+const remote: InventoryItem = { ...base, quantity: 4, updated_at: "2024-01-03T00:00:00.000Z" }
+const local: InventoryItem = { ...base, quantity: 15, description: "Tornillo M6" }
+const conflict: InventoryConflict = { base, local, remote }
+
+const stored = async (store: MemoryAdapter<InventoryItem>) => (await store.selectItems()).data
+
+describe("describeConflict", () => {
+  it("pairs the stored row with the update this client tried to write", () => {
+    const diff = { inserts: [], updates: [{ id: "1", updates: { quantity: 15 } }], deletes: [] }
+    expect(describeConflict(diff, [base], { id: "1", expectedUpdatedAt: base.updated_at, remote })).toEqual({
+      base,
+      local: { ...base, quantity: 15 },
+      remote,
+    })
+  })
+
+  it("has no local row for a delete, and no conflict for a row it never knew", () => {
+    const diff = { inserts: [], updates: [], deletes: ["1"] }
+    const lost = { id: "1", expectedUpdatedAt: base.updated_at, remote }
+    expect(describeConflict(diff, [base], lost)?.local).toBeNull()
+    expect(describeConflict(diff, [], lost)).toBeNull()
+  })
+})
+
+describe("resolving a conflict", () => {
+  it("lists only the fields both sides changed differently", () => {
+    expect(getConflictingFields(conflict)).toEqual(["quantity", "description"])
+    expect(getConflictingFields({ ...conflict, local: { ...remote } })).toEqual([])
+    expect(getConflictingFields({ ...conflict, remote: null })).toEqual([])
+  })
+
+  it("keeps one side whole or takes each field from the chosen side", () => {
+    expect(resolveConflict(conflict, { keep: "local" })).toBe(local)
+    expect(resolveConflict(conflict, { keep: "remote" })).toBe(remote)
+    const fields = { quantity: "remote", description: "local" } as const
+    expect(resolveConflict(conflict, { keep: "merged", fields })).toEqual({ ...remote, description: "Tornillo M6" })
+  })
+})
+
+describe("persistResolution", () => {
+  it("writes the resolved values on top of the remote version", async () => {
+    const store = new MemoryAdapter(inventoryCollection, [remote])
+    const result = await persistResolution(store, conflict, local)
+
+    expect(result.error).toBeNull()
+    expect(await stored(store)).toEqual([expect.objectContaining({ quantity: 15, description: "Tornillo M6" })])
+  })
+
+  it("reports a new conflict when the row moved again, and leaves it alone", async () => {
+    const moved = { ...remote, quantity: 2, updated_at: "2024-01-04T00:00:00.000Z" }
+    const store = new MemoryAdapter(inventoryCollection, [moved])
+    const result = await persistResolution(store, conflict, local)
+
+    expect(result.conflict).toEqual({ id: "1", expectedUpdatedAt: remote.updated_at, remote: moved })
+    expect(await stored(store)).toEqual([moved])
+  })
+
+  it("goes through for a row stored without a version", async () => {
+    const unversioned = { ...remote, updated_at: "" }
+    const store = new MemoryAdapter(inventoryCollection, [unversioned])
+    const result = await persistResolution(store, { ...conflict, remote: unversioned }, local)
+
+    expect(result.conflict).toBeUndefined()
+    expect(await stored(store)).toEqual([expect.objectContaining({ quantity: 15 })])
+  })
+
+  it("deletes the row when the deletion wins, and puts it back when the remote deletion loses", async () => {
+    const store = new MemoryAdapter(inventoryCollection, [remote])
+    expect((await persistResolution(store, { ...conflict, local: null }, null)).error).toBeNull()
+    expect(await stored(store)).toEqual([])
+
+    await persistResolution(store, { ...conflict, remote: null }, local)
+    expect(await stored(store)).toEqual([expect.objectContaining({ reference: "REF001", quantity: 15 })])
+  })
+
+  it("writes nothing when the remote side already holds the resolved values", async () => {
+    const store = new MemoryAdapter(inventoryCollection, [remote])
+    expect(await persistResolution(store, conflict, { ...remote })).toEqual({ data: remote, error: null })
+    expect(await stored(store)).toEqual([remote])
+  })
+})
+
+describe("applyResolution", () => {
+  const layout = { ...DEFAULT_LAYOUT, aisles: [{ id: "A", columns: createLayoutColumns(1, 1) }] }
+  const slot = { aisleId: "A", columnId: "A-C1", level: 1 }
+
+  it("puts the resolved values into the box, or takes the reference out when nothing is left", () => {
+    const aisles = buildAislesFromItems(layout, [base])
+
+    expect(findBox(applyResolution(aisles, conflict, local), slot)?.references).toEqual([
+      expect.objectContaining({ id: "REF001", name: "Tornillo M6", quantity: 15 }),
+    ])
+    expect(findBox(applyResolution(aisles, conflict, null), slot)?.references).toEqual([])
+    expect(findBox(applyResolution(aisles, conflict, { ...remote, quantity: 0 }), slot)?.references).toEqual([])
+  })
+
+  it("adds the reference back to a box it was removed from", () => {
+    const aisles = buildAislesFromItems(layout, [])
+    expect(findBox(applyResolution(aisles, conflict, remote), slot)?.references).toEqual([
+      { id: "REF001", name: "Tornillo", quantity: 4, receivedAt: base.created_at },
+    ])
+  })
+})
@@ -0,0 +1,96 @@
+import type { DatabaseResponse, InventoryItem, StorageAdapter, WriteConflict } from "@/lib/database"
+import type { InventoryDiff } from "@/lib/inventory-sync"
+import { getColumnId, updateBox, type Aisle, type SlotRef } from "@/lib/warehouse"
+
+// A save that lost the race against another client's change to the same row
+export interface InventoryConflict {
+  // The stored version this client's change was based on
+  base: InventoryItem
+  // What this client tried to write; null when it deleted the row
+  local: InventoryItem | null
+  // The row as the other client left it; null when they deleted it
+  remote: InventoryItem | null
+}
+
+export type MergeField = "quantity" | "description"
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: "quantity", label: "Cantidad" },
+  { field: "description", label: "Descripción" },
+]
+
+export type MergeChoice = "local" | "remote"
+
+export type ConflictResolution =
+  | { keep: MergeChoice }
+  // Field by field; only possible when neither side deleted the row
+  | { keep: "merged"; fields: Record<MergeField, MergeChoice> }
+
+export function describeConflict(
+  diff: InventoryDiff,
+  existing: InventoryItem[],
+  conflict: WriteConflict<InventoryItem>,
+): InventoryConflict | null {
+  const base = existing.find((item) => item.id === conflict.id)
+  if (!base) return null
+  const update = diff.updates.find((change) => change.id === conflict.id)
+  return { base, local: update ? { ...base, ...update.updates } : null, remote: conflict.remote }
+}
+
+export const getConflictingFields = (conflict: InventoryConflict): MergeField[] =>
+  conflict.local && conflict.remote
+    ? MERGE_FIELDS.map(({ field }) => field).filter((field) => conflict.local![field] !== conflict.remote![field])
+    : []
+
+export function resolveConflict(conflict: InventoryConflict, resolution: ConflictResolution): InventoryItem | null {
+  if (resolution.keep !== "merged") return conflict[resolution.keep]
+  const { local, remote } = conflict
+  if (!local || !remote) return remote
+  return {
+    ...remote,
+    quantity: resolution.fields.quantity === "local" ? local.quantity : remote.quantity,
+    description: resolution.fields.description === "local" ? local.description : remote.description,
+  }
+}
+
+// Writes the resolved row on top of the remote version, itself as a conditional write in case it moved again
+export async function persistResolution(
+  store: StorageAdapter<InventoryItem>,
+  conflict: InventoryConflict,
+  resolved: InventoryItem | null,
+): Promise<DatabaseResponse<InventoryItem | null, InventoryItem>> {
+  const { remote } = conflict
+  if (!remote) {
+    if (!resolved) return { data: null, error: null }
+    const { id, created_at, updated_at, ...row } = resolved
+    return store.insertItem(row)
+  }
+
+  const precondition = { expectedUpdatedAt: remote.updated_at }
+  if (!resolved) {
+    const result = await store.deleteItem(remote.id, precondition)
+    return { data: null, error: result.error, conflict: result.conflict }
+  }
+  if (resolved.quantity === remote.quantity && resolved.description === remote.description) {
+    return { data: remote, error: null }
+  }
+  return store.updateItem(remote.id, { quantity: resolved.quantity, description: resolved.description }, precondition)
+}
+
+// Puts the resolved values into the box so the next save does not write the losing side again
+export function applyResolution(aisles: Aisle[], conflict: InventoryConflict, resolved: InventoryItem | null): Aisle[] {
+  const { base } = conflict
+  const slot: SlotRef = { aisleId: base.aisle, columnId: getColumnId(base.aisle, base.column), level: base.shelf }
+  return updateBox(aisles, slot, (box) => {
+    if (!resolved || resolved.quantity <= 0) {
+      return { ...box, references: box.references.filter((ref) => ref.id !== base.reference) }
+    }
+    const values = { name: resolved.description, quantity: resolved.quantity }
+    return box.references.some((ref) => ref.id === base.reference)
+      ? { ...box, references: box.references.map((ref) => (ref.id === base.reference ? { ...ref, ...values } : ref)) }
+      : {
+          ...box,
+          references: [...box.references, { id: base.reference, ...values, receivedAt: resolved.created_at }],
+        }
+  })
+}
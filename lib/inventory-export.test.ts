@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import type { InventoryItem } from "@/lib/database"
+import { buildExport, downloadBlob, getExportFileName, getExportRows, toCsv } from "@/lib/inventory-export"
+import { guessColumnMapping, parseCsv, previewImport } from "@/lib/inventory-import"
+import { buildAislesFromItems, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+import type { StockAlert } from "@/lib/stock-alerts"
+
+const item = (id: string, reference: string, aisle: string, column: number, shelf: number, quantity: number) =>
+  ({
+    id,
+    reference,
+    description: `Producto; "${reference}"`,
+    quantity,
+    location: `Pasillo ${aisle}-Columna ${column}-Nivel ${shelf}`,
+    aisle,
+    column,
+    shelf,
+    created_at: "2024-01-01T00:00:00.000Z",
+    updated_at: "2024-03-01T00:00:00.000Z",
+  }) satisfies InventoryItem
+
+const items = [
+  item("1", "REF002", "B", 1, 1, 3),
+  item("2", "REF001", "A", 2, 1, 15000),
+  item("3", "REF001", "A", 1, 2, 7),
+]
+
+describe("getExportRows", () => {
+  it("sorts by slot and reference", () => {
+    expect(getExportRows(items, { kind: "all" }).map((row) => row.boxId)).toEqual(["A-C1-L2", "A-C2-L1", "B-C1-L1"])
+  })
+
+  it("limits the rows to the scope", () => {
+    expect(getExportRows(items, { kind: "aisle", aisleId: "B", aisleName: "Pasillo B" })).toHaveLength(1)
+    const matches = [{ boxId: "A-C2-L1", reference: "REF001" }]
+    expect(getExportRows(items, { kind: "search", query: "ref", matches }).map((row) => row.quantity)).toEqual([15000])
+  })
+
+  it("lists low-stock SKUs that are not stored anywhere", () => {
+    const alerts = [{ sku: "REF002" }, { sku: "REF009", name: "Agotado" }] as StockAlert[]
+    const rows = getExportRows(items, { kind: "low_stock", alerts })
+    expect(rows.map((row) => [row.reference, row.quantity, row.boxId])).toEqual([
+      ["REF002", 3, "B-C1-L1"],
+      ["REF009", 0, ""],
+    ])
+  })
+})
+
+describe("toCsv", () => {
+  it("uses the locale's separator and number grouping", () => {
+    const rows = getExportRows(items, { kind: "aisle", aisleId: "A", aisleName: "Pasillo A" })
+    const spanish = toCsv(rows, "es-ES").split("\r\n")
+    expect(spanish[0]).toBe("﻿Referencia;Descripción;Cantidad;Pasillo;Columna;Nivel;Caja;Ubicación;Modificado")
+    expect(spanish[2]).toContain(';"Producto; ""REF001""";15.000;A;2;1;A-C2-L1;')
+    expect(toCsv(rows, "en-US").split("\r\n")[2]).toContain(',"15,000",A,2,1,')
+  })
+
+  it("re-imports without changes", () => {
+    const layout = {
+      ...DEFAULT_LAYOUT,
+      aisles: ["A", "B"].map((id) => ({ id, columns: createLayoutColumns(2, 2) })),
+    }
+    const [headers, ...rows] = parseCsv(toCsv(getExportRows(items, { kind: "all" }), "es-ES").slice(1))
+    const aisles = buildAislesFromItems(layout, items)
+    const preview = previewImport({ headers, rows }, guessColumnMapping(headers), layout, aisles, items, true)
+    expect(preview.rows.map((row) => row.status)).toEqual(["unchanged", "unchanged", "unchanged"])
+    expect(preview.diff).toEqual({ inserts: [], updates: [], deletes: [] })
+  })
+})
+
+describe("buildExport", () => {
+  it("keeps the stored records untouched in JSON", async () => {
+    const { blob, rowCount } = buildExport(items, { kind: "aisle", aisleId: "B", aisleName: "Pasillo B" }, "json")
+    expect(rowCount).toBe(1)
+    expect(JSON.parse(await blob.text())).toEqual([items[0]])
+  })
+
+  it("names files after the scope and date", () => {
+    const date = new Date("2024-05-06T10:00:00Z")
+    expect(getExportFileName({ kind: "search", query: "tornillo M8", matches: [] }, "csv", date)).toBe(
+      "warehouse-inventory-busqueda-tornillo-M8-2024-05-06.csv",
+    )
+  })
+})
+
+describe("downloadBlob", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("keeps the object URL alive until the download has started", () => {
+    vi.useFakeTimers()
+    const link = { href: "", download: "", click: vi.fn() }
+    vi.stubGlobal("document", { createElement: () => link })
+    vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:export")
+    const revoke = vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {})
+
+    downloadBlob(new Blob(["a"]), "inventario.csv")
+
+    expect(link).toMatchObject({ href: "blob:export", download: "inventario.csv" })
+    expect(link.click).toHaveBeenCalled()
+    vi.advanceTimersByTime(39999)
+    expect(revoke).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(revoke).toHaveBeenCalledWith("blob:export")
+  })
+})
@@ -0,0 +1,225 @@
+import type { InventoryItem } from "@/lib/database"
+import { createTablePdf, type PdfColumn } from "@/lib/pdf"
+import type { StockAlert } from "@/lib/stock-alerts"
+import { getBoxId } from "@/lib/warehouse"
+import { writeXlsx } from "@/lib/xlsx"
+
+export type ExportFormat = "csv" | "xlsx" | "pdf" | "json"
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "Informe PDF",
+  json: "JSON (copia de seguridad)",
+}
+
+export type ExportScope =
+  | { kind: "all" }
+  | { kind: "aisle"; aisleId: string; aisleName: string }
+  | { kind: "search"; query: string; matches: { boxId: string; reference: string }[] }
+  | { kind: "low_stock"; alerts: StockAlert[] }
+
+export interface ExportRow {
+  reference: string
+  description: string
+  quantity: number
+  // Empty for low-stock SKUs that are not stored anywhere
+  aisle: string
+  column: number | null
+  shelf: number | null
+  boxId: string
+  location: string
+  updatedAt: string
+}
+
+// Same headers in every format and scope, and recognised by the importer so an export can be edited and re-imported
+export const EXPORT_COLUMNS: { key: keyof ExportRow; header: string; pdfWidth: number }[] = [
+  { key: "reference", header: "Referencia", pdfWidth: 90 },
+  { key: "description", header: "Descripción", pdfWidth: 210 },
+  { key: "quantity", header: "Cantidad", pdfWidth: 60 },
+  { key: "aisle", header: "Pasillo", pdfWidth: 45 },
+  { key: "column", header: "Columna", pdfWidth: 50 },
+  { key: "shelf", header: "Nivel", pdfWidth: 40 },
+  { key: "boxId", header: "Caja", pdfWidth: 65 },
+  { key: "location", header: "Ubicación", pdfWidth: 110 },
+  { key: "updatedAt", header: "Modificado", pdfWidth: 100 },
+]
+
+const NUMERIC_COLUMNS: (keyof ExportRow)[] = ["quantity", "column", "shelf"]
+
+export const getExportLocale = () => (typeof navigator !== "undefined" && navigator.language) || "es-ES"
+
+const toExportRow = (item: InventoryItem): ExportRow => ({
+  reference: item.reference,
+  description: item.description,
+  quantity: item.quantity,
+  aisle: item.aisle,
+  column: item.column,
+  shelf: item.shelf,
+  boxId: getBoxId(item.aisle, item.column, item.shelf),
+  location: item.location,
+  updatedAt: item.updated_at,
+})
+
+export function getExportRows(items: InventoryItem[], scope: ExportScope): ExportRow[] {
+  let selected = items
+  if (scope.kind === "aisle") {
+    selected = items.filter((item) => item.aisle === scope.aisleId)
+  } else if (scope.kind === "search") {
+    const keys = new Set(scope.matches.map((match) => `${match.boxId}|${match.reference}`))
+    selected = items.filter((item) => keys.has(`${getBoxId(item.aisle, item.column, item.shelf)}|${item.reference}`))
+  } else if (scope.kind === "low_stock") {
+    const skus = new Set(scope.alerts.map((alert) => alert.sku))
+    selected = items.filter((item) => skus.has(item.reference))
+  }
+
+  const rows = selected
+    .map(toExportRow)
+    .sort(
+      (a, b) =>
+        a.aisle.localeCompare(b.aisle, undefined, { numeric: true }) ||
+        (a.column ?? 0) - (b.column ?? 0) ||
+        (a.shelf ?? 0) - (b.shelf ?? 0) ||
+        a.reference.localeCompare(b.reference, undefined, { numeric: true }),
+    )
+
+  // Out of stock SKUs have no box left but are exactly what the supplier needs to see
+  if (scope.kind === "low_stock") {
+    const stored = new Set(rows.map((row) => row.reference))
+    scope.alerts
+      .filter((alert) => !stored.has(alert.sku))
+      .forEach((alert) =>
+        rows.push({
+          reference: alert.sku,
+          description: alert.name,
+          quantity: 0,
+          aisle: "",
+          column: null,
+          shelf: null,
+          boxId: "",
+          location: "",
+          updatedAt: "",
+        }),
+      )
+  }
+  return rows
+}
+
+export function getScopeTitle(scope: ExportScope): string {
+  switch (scope.kind) {
+    case "all":
+      return "Inventario completo"
+    case "aisle":
+      return `Inventario - ${scope.aisleName}`
+    case "search":
+      return `Búsqueda "${scope.query}"`
+    case "low_stock":
+      return "Referencias con stock bajo"
+  }
+}
+
+export function getExportFileName(scope: ExportScope, format: ExportFormat, date = new Date()): string {
+  const suffix =
+    scope.kind === "aisle"
+      ? `pasillo-${scope.aisleId}`
+      : scope.kind === "search"
+        ? `busqueda-${scope.query.replace(/[^A-Za-z0-9]+/g, "-").slice(0, 30)}`
+        : scope.kind === "low_stock"
+          ? "stock-bajo"
+          : "completo"
+  return `warehouse-inventory-${suffix}-${date.toISOString().split("T")[0]}.${format}`
+}
+
+function formatCell(row: ExportRow, key: keyof ExportRow, numbers: Intl.NumberFormat): string {
+  const value = row[key]
+  if (value === null) return ""
+  return typeof value === "number" ? numbers.format(value) : value
+}
+
+// Spreadsheets split on ";" in locales that use the comma as decimal separator
+const getCsvSeparator = (locale: string) => ((1.5).toLocaleString(locale).includes(",") ? ";" : ",")
+
+export function toCsv(rows: ExportRow[], locale: string): string {
+  const separator = getCsvSeparator(locale)
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 })
+  const quote = (text: string) => (/[";,\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text)
+  const lines = [
+    EXPORT_COLUMNS.map((column) => quote(column.header)).join(separator),
+    ...rows.map((row) => EXPORT_COLUMNS.map((column) => quote(formatCell(row, column.key, numbers))).join(separator)),
+  ]
+  // The byte order mark makes Excel open the file as UTF-8 instead of mangling accents
+  return `\uFEFF${lines.join("\r\n")}\r\n`
+}
+
+export function toXlsx(rows: ExportRow[], title: string): Blob {
+  return writeXlsx(title, [
+    EXPORT_COLUMNS.map((column) => column.header),
+    ...rows.map((row) => EXPORT_COLUMNS.map((column) => row[column.key] ?? "")),
+  ])
+}
+
+export function toPdf(rows: ExportRow[], title: string, locale: string, date = new Date()): Blob {
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 })
+  const columns: PdfColumn[] = EXPORT_COLUMNS.map((column) => ({
+    header: column.header,
+    width: column.pdfWidth,
+    align: NUMERIC_COLUMNS.includes(column.key) ? "right" : "left",
+  }))
+  const totalUnits = rows.reduce((sum, row) => sum + row.quantity, 0)
+
+  return createTablePdf({
+    title,
+    subtitle: `${numbers.format(rows.length)} filas · ${numbers.format(totalUnits)} unidades`,
+    columns,
+    rows: rows.map((row) =>
+      EXPORT_COLUMNS.map((column) =>
+        column.key === "updatedAt" && row.updatedAt
+          ? new Date(row.updatedAt).toLocaleString(locale, { dateStyle: "short", timeStyle: "short" })
+          : formatCell(row, column.key, numbers),
+      ),
+    ),
+    footer: `Generado el ${date.toLocaleString(locale, { dateStyle: "long", timeStyle: "short" })}`,
+  })
+}
+
+export function buildExport(
+  items: InventoryItem[],
+  scope: ExportScope,
+  format: ExportFormat,
+  locale = getExportLocale(),
+): { blob: Blob; fileName: string; rowCount: number } {
+  const rows = getExportRows(items, scope)
+  const title = getScopeTitle(scope)
+  const fileName = getExportFileName(scope, format)
+
+  if (format === "csv") {
+    return {
+      blob: new Blob([toCsv(rows, locale)], { type: "text/csv;charset=utf-8" }),
+      fileName,
+      rowCount: rows.length,
+    }
+  }
+  if (format === "xlsx") return { blob: toXlsx(rows, title), fileName, rowCount: rows.length }
+  if (format === "pdf") return { blob: toPdf(rows, title, locale), fileName, rowCount: rows.length }
+
+  // JSON keeps the stored records untouched so it can serve as a backup and be imported again as is
+  const keys = new Set(rows.map((row) => `${row.boxId}|${row.reference}`))
+  const records = items.filter((item) => keys.has(`${getBoxId(item.aisle, item.column, item.shelf)}|${item.reference}`))
+  return {
+    blob: new Blob([JSON.stringify(records, null, 2)], { type: "application/json" }),
+    fileName,
+    rowCount: records.length,
+  }
+}
+
+// Browsers read the blob some time after click() returns, and a large file or a save dialog can take a while
+const DOWNLOAD_URL_LIFETIME_MS = 40000
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS)
+}
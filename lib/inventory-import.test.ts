@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+import type { InventoryItem } from "@/lib/database"
+import { guessColumnMapping, parseCsv, previewImport, validateMapping, type ImportTable } from "@/lib/inventory-import"
+import { buildAislesFromItems, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+
+const layout = { ...DEFAULT_LAYOUT, aisles: [{ id: "A", columns: createLayoutColumns(2, 2) }] }
+
+const item = (id: string, reference: string, column: number, shelf: number, quantity: number): InventoryItem => ({
+  id,
+  reference,
+  description: `Producto ${reference}`,
+  quantity,
+  location: `Pasillo A-Columna ${column}-Nivel ${shelf}`,
+  aisle: "A",
+  column,
+  shelf,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-03-01T00:00:00.000Z",
+})
+
+const stored = [item("1", "REF001", 1, 1, 10), item("2", "REF002", 1, 2, 5)]
+const aisles = buildAislesFromItems(layout, stored)
+
+const table = (...lines: string[]): ImportTable => {
+  const [headers, ...rows] = parseCsv(["Referencia;Descripción;Cantidad;Caja", ...lines].join("\n"))
+  return { headers, rows }
+}
+
+const preview = (source: ImportTable, replace = false) =>
+  previewImport(source, guessColumnMapping(source.headers), layout, aisles, stored, replace)
+
+describe("parseCsv", () => {
+  it("detects the separator from the header line", () => {
+    expect(parseCsv("a;b\n1;2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ])
+    expect(parseCsv("a,b\r\n1,2\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ])
+  })
+
+  it("keeps separators, doubled quotes and line breaks inside quoted fields", () => {
+    expect(parseCsv('a;b\n"x;y";"dice ""hola""\nadiós"')).toEqual([
+      ["a", "b"],
+      ["x;y", 'dice "hola"\nadiós'],
+    ])
+  })
+
+  it("skips blank lines", () => {
+    expect(parseCsv("a;b\n\n1;2\n;\n")).toHaveLength(2)
+  })
+})
+
+describe("guessColumnMapping", () => {
+  it("recognises Spanish and English headers regardless of accents and case", () => {
+    const mapping = guessColumnMapping(["SKU", "Descripción", "Qty", "Ubicación", "Otra"])
+    expect(mapping).toMatchObject({
+      reference: "SKU",
+      description: "Descripción",
+      quantity: "Qty",
+      location: "Ubicación",
+    })
+    expect(mapping.aisle).toBeNull()
+    expect(validateMapping(mapping)).toBeNull()
+  })
+
+  it("asks for a location when neither a box code nor aisle, column and level are mapped", () => {
+    expect(validateMapping(guessColumnMapping(["Referencia", "Cantidad", "Pasillo"]))).toMatch(/ubicación/)
+  })
+})
+
+describe("previewImport", () => {
+  it("classifies new, changed and unchanged lines and builds the diff and movements", () => {
+    const result = preview(table("REF001;Producto REF001;12;A-C1-L1", "REF002;;5;A-C1-L2", "REF003;Nuevo;4;A-C2-L1"))
+
+    expect(result.rows.map((row) => row.status)).toEqual(["changed", "unchanged", "new"])
+    expect(result.diff.updates).toEqual([{ id: "1", updates: { quantity: 12, description: "Producto REF001" } }])
+    expect(result.diff.inserts.map((row) => row.reference)).toEqual(["REF003"])
+    expect(result.movements.map((movement) => [movement.type, movement.reference, movement.delta])).toEqual([
+      ["adjustment", "REF001", 2],
+      ["receipt", "REF003", 4],
+    ])
+  })
+
+  it("reads grouped thousands as whole units", () => {
+    expect(preview(table("REF003;;1.234;A-C2-L1")).diff.inserts[0].quantity).toBe(1234)
+  })
+
+  it("marks bad quantities and slots outside the layout as invalid", () => {
+    const result = preview(table("REF003;;-1;A-C2-L1", "REF003;;1;B-C1-L1", "REF003;;1;A-C1-L9", ";;1;A-C1-L1"))
+    expect(result.rows.map((row) => row.status)).toEqual(["invalid", "invalid", "invalid", "invalid"])
+    expect(result.rows.map((row) => row.line)).toEqual([2, 3, 4, 5])
+  })
+
+  it("reports the same slot and reference with different values as a conflict", () => {
+    const result = preview(table("REF003;;1;A-C2-L1", "REF003;;2;A-C2-L1"))
+    expect(result.rows.map((row) => row.status)).toEqual(["conflict", "conflict"])
+    expect(result.diff.inserts).toEqual([])
+  })
+
+  it("does not overwrite rows changed in the warehouse after the export", () => {
+    const source = table()
+    source.headers.push("Modificado")
+    source.rows.push(["REF001", "", "3", "A-C1-L1", "2024-02-01T00:00:00.000Z"])
+    const result = previewImport(source, guessColumnMapping(source.headers), layout, aisles, stored, false)
+    expect(result.rows[0].status).toBe("conflict")
+    expect(result.diff.updates).toEqual([])
+  })
+
+  it("deletes stored rows missing from the file only when replacing", () => {
+    const source = table("REF001;;10;A-C1-L1")
+    expect(preview(source).diff.deletes).toEqual([])
+    const replaced = preview(source, true)
+    expect(replaced.removed.map((row) => row.id)).toEqual(["2"])
+    expect(replaced.diff.deletes).toEqual(["2"])
+    expect(replaced.movements).toEqual([expect.objectContaining({ reference: "REF002", delta: -5 })])
+    expect(replaced.replaceBlocked).toBe(false)
+  })
+
+  it("deletes nothing when replacing from a file with invalid lines", () => {
+    // The typo in the box code leaves REF002 without a line in the file
+    const result = preview(table("REF001;;12;A-C1-L1", "REF002;;5;A-C1-LL2"), true)
+    expect(result.replaceBlocked).toBe(true)
+    expect(result.removed).toEqual([])
+    expect(result.diff).toEqual({
+      inserts: [],
+      updates: [{ id: "1", updates: { quantity: 12, description: "Producto REF001" } }],
+      deletes: [],
+    })
+  })
+})
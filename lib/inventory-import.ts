@@ -0,0 +1,348 @@
+import type { InventoryItem } from "@/lib/database"
+import { getLocationLabel, rowKey, type InventoryDiff, type InventoryRow } from "@/lib/inventory-sync"
+import type { WarehouseLayout } from "@/lib/layout"
+import type { PendingMovement } from "@/lib/movements"
+import { normalizeText } from "@/lib/search"
+import { parseLocationCode } from "@/lib/scan"
+import { getBoxId, getColumnId, getColumnNumber, type Aisle } from "@/lib/warehouse"
+import { readXlsx } from "@/lib/xlsx"
+
+export type ImportField =
+  "reference" | "description" | "quantity" | "aisle" | "column" | "shelf" | "location" | "updated_at"
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; synonyms: string[] }[] = [
+  { field: "reference", label: "Referencia / SKU", synonyms: ["reference", "referencia", "ref", "sku", "codigo"] },
+  {
+    field: "description",
+    label: "Descripción",
+    synonyms: ["description", "descripcion", "nombre", "name", "producto"],
+  },
+  { field: "quantity", label: "Cantidad", synonyms: ["quantity", "cantidad", "qty", "unidades", "stock"] },
+  { field: "aisle", label: "Pasillo", synonyms: ["aisle", "pasillo"] },
+  { field: "column", label: "Columna", synonyms: ["column", "columna", "col"] },
+  { field: "shelf", label: "Nivel", synonyms: ["shelf", "nivel", "level", "estante", "balda"] },
+  { field: "location", label: "Ubicación (A-C1-L1)", synonyms: ["location", "ubicacion", "caja", "box"] },
+  { field: "updated_at", label: "Última modificación", synonyms: ["updated_at", "modificado", "fecha"] },
+]
+
+// Header names as they appear in the file, or null when the field is not in the file
+export type ColumnMapping = Record<ImportField, string | null>
+
+export interface ImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export type ImportRowStatus = "new" | "changed" | "unchanged" | "conflict" | "invalid"
+
+export interface ImportPreviewRow {
+  // 1-based line in the file, header included, so users can find it in their spreadsheet
+  line: number
+  status: ImportRowStatus
+  row: InventoryRow | null
+  existing?: InventoryItem
+  message?: string
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[]
+  // Stored rows that a full replace would delete
+  removed: InventoryItem[]
+  // A replace deletes nothing while the file has invalid lines: any of them may be a row the file meant to keep
+  replaceBlocked: boolean
+  diff: InventoryDiff
+  movements: PendingMovement[]
+}
+
+// Quoted fields may contain separators, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"))
+  const separator = [";", "\t", ","].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+// Accepts the app's own JSON export (an array of InventoryItem) as well as { data: [...] } wrappers
+function tableFromJson(text: string): ImportTable {
+  const parsed = JSON.parse(text)
+  const records: Record<string, unknown>[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.data)
+      ? parsed.data
+      : []
+  const headers = Array.from(new Set(records.flatMap((record) => Object.keys(record))))
+  return {
+    headers,
+    rows: records.map((record) => headers.map((header) => (record[header] ?? "").toString())),
+  }
+}
+
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const extension = file.name.split(".").pop()?.toLowerCase()
+  if (extension === "json") return tableFromJson(await file.text())
+
+  const cells = extension === "xlsx" ? await readXlsx(await file.arrayBuffer()) : parseCsv(await file.text())
+  const [headers = [], ...rows] = cells
+  return { headers: headers.map((header) => header.trim()), rows }
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) => normalizeText(header).replace(/[^a-z_]/g, ""))
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, synonyms }) => {
+      const index = normalized.findIndex((header) => synonyms.includes(header))
+      return [field, index === -1 ? null : headers[index]]
+    }),
+  ) as ColumnMapping
+}
+
+export function validateMapping(mapping: ColumnMapping): string | null {
+  if (!mapping.reference) return "Indica qué columna contiene la referencia"
+  if (!mapping.quantity) return "Indica qué columna contiene la cantidad"
+  if (!mapping.location && !(mapping.aisle && mapping.column && mapping.shelf)) {
+    return "Indica la ubicación: pasillo, columna y nivel, o una columna con el código de caja (A-C1-L1)"
+  }
+  return null
+}
+
+// Checks a slot against the configured layout, not against the rows already stored
+function validateSlot(layout: WarehouseLayout, aisleId: string, column: number, shelf: number): string | null {
+  const aisle = layout.aisles.find((a) => a.id === aisleId)
+  if (!aisle) return `El pasillo ${aisleId} no existe en la distribución`
+  const layoutColumn = aisle.columns.find((c) => c.number === column)
+  if (!layoutColumn) return `La columna ${column} no existe en el pasillo ${aisleId}`
+  if (shelf < 1 || shelf > layoutColumn.levels) return `El nivel ${shelf} no existe en ${getColumnId(aisleId, column)}`
+  if (layoutColumn.disabledLevels.includes(shelf))
+    return `La caja ${getBoxId(aisleId, column, shelf)} no está disponible`
+  return null
+}
+
+// Exports group thousands in the user's locale ("1.234", "1,234" or "1 234"); quantities are whole units
+const parseQuantity = (text: string) =>
+  Number(/^\d{1,3}([.,\s\u00a0\u202f]\d{3})+$/.test(text) ? text.replace(/\D/g, "") : text.replace(",", "."))
+
+interface ParsedRow {
+  line: number
+  row?: InventoryRow
+  updatedAt?: string
+  error?: string
+}
+
+function parseRow(
+  cells: string[],
+  line: number,
+  headers: string[],
+  mapping: ColumnMapping,
+  layout: WarehouseLayout,
+  aisles: Aisle[],
+): ParsedRow {
+  const get = (field: ImportField) => {
+    const header = mapping[field]
+    return header === null ? "" : (cells[headers.indexOf(header)] ?? "").trim()
+  }
+
+  const reference = get("reference")
+  if (!reference) return { line, error: "Falta la referencia" }
+
+  const quantity = parseQuantity(get("quantity"))
+  if (!Number.isInteger(quantity) || quantity < 0) return { line, error: `Cantidad no válida: "${get("quantity")}"` }
+
+  let aisleId = get("aisle").toUpperCase()
+  let column = Number.parseInt(get("column").replace(/^C/i, ""))
+  let shelf = Number.parseInt(get("shelf").replace(/^[LN]/i, ""))
+  if (!aisleId || Number.isNaN(column) || Number.isNaN(shelf)) {
+    const slot = parseLocationCode(get("location"))
+    if (!slot) return { line, error: "Falta la ubicación o no es válida" }
+    aisleId = slot.aisleId
+    column = getColumnNumber(slot.columnId)
+    shelf = slot.level
+  }
+
+  const slotError = validateSlot(layout, aisleId, column, shelf)
+  if (slotError) return { line, error: slotError }
+
+  return {
+    line,
+    updatedAt: get("updated_at") || undefined,
+    row: {
+      reference,
+      description: get("description"),
+      quantity,
+      location: getLocationLabel(aisles, { aisleId, columnId: getColumnId(aisleId, column), level: shelf }),
+      aisle: aisleId,
+      column,
+      shelf,
+    },
+  }
+}
+
+// Dry run: classifies every line of the file against what is stored and builds the diff that applying it
+// would write. With `replace`, stored rows missing from the file are deleted as well.
+export function previewImport(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  layout: WarehouseLayout,
+  aisles: Aisle[],
+  existing: InventoryItem[],
+  replace: boolean,
+): ImportPreview {
+  const existingByKey = new Map(existing.map((item) => [rowKey(item), item]))
+  const parsed = table.rows.map((cells, index) => parseRow(cells, index + 2, table.headers, mapping, layout, aisles))
+
+  // The same slot and reference twice with different values cannot be applied without guessing
+  const linesByKey = new Map<string, ParsedRow[]>()
+  parsed.forEach((entry) => {
+    if (entry.row) linesByKey.set(rowKey(entry.row), [...(linesByKey.get(rowKey(entry.row)) || []), entry])
+  })
+
+  const preview: ImportPreview = {
+    rows: [],
+    removed: [],
+    replaceBlocked: false,
+    diff: { inserts: [], updates: [], deletes: [] },
+    movements: [],
+  }
+  const seen = new Set<string>()
+
+  parsed.forEach((entry) => {
+    if (!entry.row) {
+      preview.rows.push({ line: entry.line, status: "invalid", row: null, message: entry.error })
+      return
+    }
+    const row = entry.row
+    const key = rowKey(row)
+    const current = existingByKey.get(key)
+    const duplicates = linesByKey.get(key) || []
+    const base = { line: entry.line, row, existing: current }
+
+    if (seen.has(key)) {
+      const differs = duplicates.some(
+        (other) => other.row!.quantity !== row.quantity || other.row!.description !== row.description,
+      )
+      preview.rows.push({
+        ...base,
+        status: differs ? "conflict" : "unchanged",
+        message: `Repetida en la línea ${duplicates[0].line}`,
+      })
+      return
+    }
+    seen.add(key)
+
+    if (
+      duplicates.some((other) => other.row!.quantity !== row.quantity || other.row!.description !== row.description)
+    ) {
+      preview.rows.push({
+        ...base,
+        status: "conflict",
+        message: `Aparece con otros valores en las líneas ${duplicates.map((other) => other.line).join(", ")}`,
+      })
+      return
+    }
+
+    const boxId = getBoxId(row.aisle, row.column, row.shelf)
+    if (!current) {
+      if (row.quantity === 0) {
+        preview.rows.push({ ...base, status: "unchanged", message: "Cantidad 0 en una caja sin esa referencia" })
+        return
+      }
+      preview.rows.push({ ...base, status: "new" })
+      preview.diff.inserts.push(row)
+      preview.movements.push({
+        type: "receipt",
+        reference: row.reference,
+        description: row.description,
+        boxId,
+        delta: row.quantity,
+        reason: "Importación",
+      })
+      return
+    }
+
+    const description = row.description || current.description
+    if (current.quantity === row.quantity && current.description === description) {
+      preview.rows.push({ ...base, status: "unchanged" })
+      return
+    }
+
+    // Rows exported earlier and edited offline must not overwrite changes made in the warehouse since
+    if (entry.updatedAt && Date.parse(current.updated_at) > Date.parse(entry.updatedAt)) {
+      preview.rows.push({ ...base, status: "conflict", message: "Modificada en el almacén después de la exportación" })
+      return
+    }
+
+    preview.rows.push({ ...base, status: "changed" })
+    if (row.quantity === 0) {
+      preview.diff.deletes.push(current.id)
+    } else {
+      preview.diff.updates.push({ id: current.id, updates: { quantity: row.quantity, description } })
+    }
+    if (row.quantity !== current.quantity) {
+      preview.movements.push({
+        type: "adjustment",
+        reference: row.reference,
+        description,
+        boxId,
+        delta: row.quantity - current.quantity,
+        reason: "Importación",
+      })
+    }
+  })
+
+  preview.replaceBlocked = replace && parsed.some((entry) => !entry.row)
+  if (replace && !preview.replaceBlocked) {
+    // Lines in conflict still count as present
+    const inFile = new Set(Array.from(linesByKey.keys()))
+    existing.forEach((item) => {
+      if (inFile.has(rowKey(item))) return
+      preview.removed.push(item)
+      preview.diff.deletes.push(item.id)
+      preview.movements.push({
+        type: "adjustment",
+        reference: item.reference,
+        description: item.description,
+        boxId: getBoxId(item.aisle, item.column, item.shelf),
+        delta: -item.quantity,
+        reason: "Importación (sustitución)",
+      })
+    })
+  }
+
+  return preview
+}
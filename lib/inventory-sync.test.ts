@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest"
+import { inventoryCollection, type InventoryItem } from "@/lib/database"
+import { applyInventoryDiff, diffInventory, flattenAisles, isEmptyDiff, rebaseInventory } from "@/lib/inventory-sync"
+import { buildAislesFromItems, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+import { MemoryAdapter } from "@/lib/storage"
+import { adjustBoxReference, updateBox } from "@/lib/warehouse"
+
+const layout = { ...DEFAULT_LAYOUT, aisles: [{ id: "A", columns: createLayoutColumns(2, 2) }] }
+
+const item = (id: string, reference: string, column: number, shelf: number, quantity: number): InventoryItem => ({
+  id,
+  reference,
+  description: `Producto ${reference}`,
+  quantity,
+  location: `Pasillo A-Columna ${column}-Nivel ${shelf}`,
+  aisle: "A",
+  column,
+  shelf,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+})
+
+const stored = [item("1", "REF001", 1, 1, 10), item("2", "REF002", 1, 2, 5), item("3", "REF003", 2, 1, 7)]
+
+describe("flattenAisles", () => {
+  it("writes one row per reference and box", () => {
+    const rows = flattenAisles(buildAislesFromItems(layout, stored))
+    expect(rows).toHaveLength(3)
+    expect(rows[0]).toEqual({
+      reference: "REF001",
+      description: "Producto REF001",
+      quantity: 10,
+      location: "Pasillo A-Columna 1-Nivel 1",
+      aisle: "A",
+      column: 1,
+      shelf: 1,
+    })
+  })
+})
+
+describe("diffInventory", () => {
+  it("is empty when the tree matches the store", () => {
+    expect(isEmptyDiff(diffInventory(buildAislesFromItems(layout, stored), stored))).toBe(true)
+  })
+
+  it("turns quantity changes, new references and emptied boxes into updates, inserts and deletes", () => {
+    let aisles = buildAislesFromItems(layout, stored)
+    aisles = updateBox(aisles, { aisleId: "A", columnId: "A-C1", level: 1 }, (box) =>
+      adjustBoxReference(box, { id: "REF001", name: "Producto REF001", quantity: 0 }, 5),
+    )
+    aisles = updateBox(aisles, { aisleId: "A", columnId: "A-C2", level: 1 }, (box) => ({ ...box, references: [] }))
+    aisles = updateBox(aisles, { aisleId: "A", columnId: "A-C2", level: 2 }, (box) =>
+      adjustBoxReference(box, { id: "REF004", name: "Producto REF004", quantity: 0 }, 3),
+    )
+
+    const diff = diffInventory(aisles, stored)
+    expect(diff.updates).toEqual([{ id: "1", updates: { quantity: 15 } }])
+    expect(diff.deletes).toEqual(["3"])
+    expect(diff.inserts.map((row) => row.reference)).toEqual(["REF004"])
+  })
+
+  it("deletes duplicate rows for the same slot and reference", () => {
+    const duplicate = { ...stored[0], id: "1b" }
+    expect(diffInventory(buildAislesFromItems(layout, stored), [...stored, duplicate]).deletes).toEqual(["1b"])
+  })
+})
+
+describe("applyInventoryDiff", () => {
+  it("applies every phase and returns the resulting rows", async () => {
+    const store = new MemoryAdapter(inventoryCollection, stored)
+    const result = await applyInventoryDiff(store, stored, {
+      inserts: [{ ...item("", "REF004", 2, 2, 3) }],
+      updates: [{ id: "1", updates: { quantity: 15 } }],
+      deletes: ["3"],
+    })
+
+    expect(result.error).toBeNull()
+    const { data } = await store.selectItems()
+    expect(data!.map((row) => [row.reference, row.quantity]).sort()).toEqual([
+      ["REF001", 15],
+      ["REF002", 5],
+      ["REF004", 3],
+    ])
+    expect(result.data!.map((row) => row.reference).sort()).toEqual(["REF001", "REF002", "REF004"])
+  })
+
+  it("reports rows changed by someone else as conflicts and still writes the rest", async () => {
+    const store = new MemoryAdapter(inventoryCollection, stored)
+    await store.updateItem("1", { quantity: 99 })
+
+    const result = await applyInventoryDiff(store, stored, {
+      inserts: [],
+      updates: [
+        { id: "1", updates: { quantity: 15 } },
+        { id: "2", updates: { quantity: 6 } },
+      ],
+      deletes: [],
+    })
+
+    expect(result.error?.code).toBe("conflict")
+    expect(result.conflict?.remote?.quantity).toBe(99)
+    expect(result.failedRows?.map((row) => row.reference)).toEqual(["REF001"])
+    const { data } = await store.selectItems()
+    expect(data!.find((row) => row.id === "1")!.quantity).toBe(99)
+    expect(data!.find((row) => row.id === "2")!.quantity).toBe(6)
+  })
+  it("reports every conflict and keeps the failed rows at their base version", async () => {
+    const store = new MemoryAdapter(inventoryCollection, stored)
+    await store.updateItem("1", { quantity: 99 })
+    await store.deleteItem("3")
+    const diff = {
+      inserts: [],
+      updates: [
+        { id: "1", updates: { quantity: 15 } },
+        { id: "2", updates: { quantity: 6 } },
+        { id: "3", updates: { quantity: 8 } },
+      ],
+      deletes: [],
+    }
+
+    const result = await applyInventoryDiff(store, stored, diff)
+    expect(result.conflicts?.map((conflict) => [conflict.id, conflict.remote?.quantity ?? null])).toEqual([
+      ["1", 99],
+      ["3", null],
+    ])
+    expect(result.data!.find((row) => row.id === "1")).toEqual(stored[0])
+    expect(result.data!.find((row) => row.id === "2")!.quantity).toBe(6)
+
+    // Saving again against that baseline conflicts again instead of overwriting the other client's change
+    const retry = await applyInventoryDiff(store, result.data!, { ...diff, updates: [diff.updates[0]] })
+    expect(retry.conflicts?.map((conflict) => conflict.id)).toEqual(["1"])
+    expect((await store.selectItems()).data!.find((row) => row.id === "1")!.quantity).toBe(99)
+  })
+})
+
+describe("rebaseInventory", () => {
+  const quantities = (items: InventoryItem[]) =>
+    Object.fromEntries(items.map((stock) => [`${stock.reference}@${stock.column}-${stock.shelf}`, stock.quantity]))
+
+  // REF001 +5 and a new REF004 in A-C2-L2, not saved yet
+  const edited = () => {
+    let aisles = buildAislesFromItems(layout, stored)
+    aisles = updateBox(aisles, { aisleId: "A", columnId: "A-C1", level: 1 }, (box) =>
+      adjustBoxReference(box, { id: "REF001", name: "Producto REF001", quantity: 0 }, 5),
+    )
+    return updateBox(aisles, { aisleId: "A", columnId: "A-C2", level: 2 }, (box) =>
+      adjustBoxReference(box, { id: "REF004", name: "Producto REF004", quantity: 0 }, 3),
+    )
+  }
+
+  it("takes the remote rows as they are when nothing is unsaved", () => {
+    const remote = [{ ...stored[1], quantity: 9, updated_at: "2024-02-01T00:00:00.000Z" }]
+    expect(rebaseInventory(buildAislesFromItems(layout, stored), stored, remote)).toEqual({
+      baseline: remote,
+      items: remote,
+    })
+  })
+
+  it("keeps unsaved edits on top of the rows another client changed or deleted", () => {
+    const remote = [stored[0], { ...stored[1], quantity: 9, updated_at: "2024-02-01T00:00:00.000Z" }]
+    const rebased = rebaseInventory(edited(), stored, remote)
+
+    expect(quantities(rebased.items)).toEqual({ "REF001@1-1": 15, "REF002@1-2": 9, "REF004@2-2": 3 })
+    expect([...rebased.baseline].sort((a, b) => a.id.localeCompare(b.id))).toEqual(remote)
+    const diff = diffInventory(buildAislesFromItems(layout, rebased.items), rebased.baseline)
+    expect(diff.updates).toEqual([{ id: "1", updates: { quantity: 15 } }])
+    expect(diff.inserts.map((row) => row.reference)).toEqual(["REF004"])
+    expect(diff.deletes).toEqual([])
+  })
+
+  it("keeps the version an edit was made on when the row also changed remotely, so saving it conflicts", () => {
+    const remote = [{ ...stored[0], quantity: 2, updated_at: "2024-02-01T00:00:00.000Z" }, stored[1], stored[2]]
+    const rebased = rebaseInventory(edited(), stored, remote)
+
+    expect(quantities(rebased.items)["REF001@1-1"]).toBe(15)
+    expect(rebased.baseline.find((stock) => stock.id === "1")).toBe(stored[0])
+  })
+
+  it("keeps an edit to a row deleted remotely, and a local delete of a row that is gone", () => {
+    let aisles = edited()
+    aisles = updateBox(aisles, { aisleId: "A", columnId: "A-C2", level: 1 }, (box) => ({ ...box, references: [] }))
+    const rebased = rebaseInventory(aisles, stored, [stored[1]])
+
+    expect(quantities(rebased.items)).toEqual({ "REF001@1-1": 15, "REF002@1-2": 5, "REF004@2-2": 3 })
+    expect(rebased.baseline.map((stock) => stock.id).sort()).toEqual(["1", "2", "3"])
+  })
+
+  it("keeps the receipt date of a reference that is not stored yet", () => {
+    const aisles = updateBox(
+      buildAislesFromItems(layout, stored),
+      { aisleId: "A", columnId: "A-C2", level: 2 },
+      (box) => ({
+        ...box,
+        references: [{ id: "REF004", name: "Producto REF004", quantity: 3, receivedAt: "2024-03-01T00:00:00.000Z" }],
+      }),
+    )
+    const rebased = rebaseInventory(aisles, stored, stored)
+    expect(rebased.items.find((stock) => stock.reference === "REF004")).toMatchObject({
+      quantity: 3,
+      created_at: "2024-03-01T00:00:00.000Z",
+    })
+  })
+})
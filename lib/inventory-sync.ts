@@ -0,0 +1,208 @@
+import type { BulkProgress, DatabaseResponse, InventoryItem, StorageAdapter, WriteConflict } from "@/lib/database"
+import { StorageError } from "@/lib/storage"
+import { findBox, getColumnId, getColumnNumber, type Aisle, type Box, type Column, type SlotRef } from "@/lib/warehouse"
+
+export type InventoryRow = Omit<InventoryItem, "id" | "created_at" | "updated_at">
+
+export interface InventoryDiff {
+  inserts: InventoryRow[]
+  updates: { id: string; updates: Partial<InventoryItem> }[]
+  deletes: string[]
+}
+
+// A row is identified by where it sits and what it holds; ids are only known on the stored side
+export const rowKey = (row: Pick<InventoryItem, "aisle" | "column" | "shelf" | "reference">) =>
+  `${row.aisle}|${row.column}|${row.shelf}|${row.reference}`
+
+const formatLocation = (aisle: Aisle, column: Column, box: Box) => `${aisle.name}-${column.name}-${box.name}`
+
+export function getLocationLabel(aisles: Aisle[], slot: SlotRef): string {
+  const aisle = aisles.find((a) => a.id === slot.aisleId)
+  const column = aisle?.columns.find((c) => c.id === slot.columnId)
+  const box = column?.boxes.find((b) => b.level === slot.level)
+  return aisle && column && box ? formatLocation(aisle, column, box) : `${slot.columnId}-L${slot.level}`
+}
+
+export function flattenAisles(aisles: Aisle[]): InventoryRow[] {
+  const rows: InventoryRow[] = []
+
+  aisles.forEach((aisle) => {
+    aisle.columns.forEach((column) => {
+      column.boxes.forEach((box) => {
+        box.references.forEach((ref) => {
+          rows.push({
+            reference: ref.id,
+            description: ref.name,
+            quantity: ref.quantity,
+            location: formatLocation(aisle, column, box),
+            aisle: aisle.id,
+            column: getColumnNumber(column.id),
+            shelf: box.level,
+          })
+        })
+      })
+    })
+  })
+
+  return rows
+}
+
+export function diffInventory(aisles: Aisle[], existing: InventoryItem[]): InventoryDiff {
+  const diff: InventoryDiff = { inserts: [], updates: [], deletes: [] }
+  const existingByKey = new Map<string, InventoryItem>()
+
+  existing.forEach((item) => {
+    const key = rowKey(item)
+    if (existingByKey.has(key)) {
+      // Duplicate rows for the same slot are left over from older full rewrites
+      diff.deletes.push(item.id)
+    } else {
+      existingByKey.set(key, item)
+    }
+  })
+
+  flattenAisles(aisles).forEach((row) => {
+    const key = rowKey(row)
+    const current = existingByKey.get(key)
+    if (!current) {
+      diff.inserts.push(row)
+      return
+    }
+
+    existingByKey.delete(key)
+    const updates: Partial<InventoryItem> = {}
+    if (current.quantity !== row.quantity) updates.quantity = row.quantity
+    if (current.description !== row.description) updates.description = row.description
+    if (current.location !== row.location) updates.location = row.location
+    if (Object.keys(updates).length > 0) {
+      diff.updates.push({ id: current.id, updates })
+    }
+  })
+
+  existingByKey.forEach((item) => diff.deletes.push(item.id))
+  return diff
+}
+
+export const isEmptyDiff = (diff: InventoryDiff) =>
+  diff.inserts.length === 0 && diff.updates.length === 0 && diff.deletes.length === 0
+
+export interface RebasedInventory {
+  // The rows as stored now, except that rows with a local change keep the version that change was made on
+  baseline: InventoryItem[]
+  // The stored rows with the local changes on top, to rebuild the aisles from
+  items: InventoryItem[]
+}
+
+// Moves the changes in `aisles` that are not saved yet onto rows that changed remotely, so an update from another
+// client does not discard them. A row changed on both sides keeps its old version in the baseline: saving it then
+// comes back as a conflict for the merge dialog instead of silently overwriting the other client's change.
+export function rebaseInventory(aisles: Aisle[], baseline: InventoryItem[], remote: InventoryItem[]): RebasedInventory {
+  const diff = diffInventory(aisles, baseline)
+  if (isEmptyDiff(diff)) return { baseline: remote, items: remote }
+
+  const baselineById = new Map(baseline.map((item) => [item.id, item]))
+  const remoteById = new Map(remote.map((item) => [item.id, item]))
+  const touched = new Set([...diff.updates.map((change) => change.id), ...diff.deletes])
+  const untouched = remote.filter((item) => !touched.has(item.id))
+
+  const items = [...untouched]
+  diff.updates.forEach(({ id, updates }) => {
+    const base = remoteById.get(id) || baselineById.get(id)
+    if (base) items.push({ ...base, ...updates })
+  })
+
+  diff.inserts.forEach((row) => {
+    const key = rowKey(row)
+    // Another client stored the same reference in the same box meanwhile; the local quantity is shown on that row
+    const index = items.findIndex((item) => rowKey(item) === key)
+    if (index !== -1) {
+      items[index] = { ...items[index], ...row }
+      return
+    }
+    // Not stored yet, so there is no id or version; the receipt date is kept for the age score
+    const box = findBox(aisles, { aisleId: row.aisle, columnId: getColumnId(row.aisle, row.column), level: row.shelf })
+    const receivedAt = box?.references.find((ref) => ref.id === row.reference)?.receivedAt || ""
+    items.push({ ...row, id: key, created_at: receivedAt, updated_at: "" })
+  })
+
+  const rebasedBaseline = [...untouched]
+  touched.forEach((id) => {
+    const base = baselineById.get(id)
+    if (base) rebasedBaseline.push(base)
+  })
+  return { baseline: rebasedBaseline, items }
+}
+
+export interface InventorySyncResult extends DatabaseResponse<InventoryItem[], InventoryItem> {
+  // Rows of the diff that were not written, so their stock movements can be left out of the ledger
+  failedRows?: InventoryRow[]
+  // Every row that failed because another client changed it first, not only the first one in `conflict`
+  conflicts?: WriteConflict<InventoryItem>[]
+}
+
+// Every update and delete is conditional on the row still being the version in `existing`, so a concurrent
+// edit from another client comes back as a conflict instead of being overwritten. Rows that fail do not stop
+// the rest; `data` is then the best known state of the store, with failed rows still at their version in
+// `existing` so a later diff against it writes them conditionally again, and `error` summarises what failed.
+export async function applyInventoryDiff(
+  store: StorageAdapter<InventoryItem>,
+  existing: InventoryItem[],
+  diff: InventoryDiff,
+  onProgress?: (progress: BulkProgress) => void,
+): Promise<InventorySyncResult> {
+  const itemsById = new Map(existing.map((item) => [item.id, item]))
+  const errors: StorageError[] = []
+  const failedRows: InventoryRow[] = []
+  const conflicts: WriteConflict<InventoryItem>[] = []
+
+  const recordFailure = (result: DatabaseResponse<unknown, InventoryItem>, rows: (InventoryRow | undefined)[]) => {
+    if (!result.error) return
+    errors.push(result.error)
+    // Without per-row failures the whole call failed
+    if (result.failures) {
+      result.failures.forEach((failure) => failure.conflict && conflicts.push(failure.conflict))
+    } else if (result.conflict) {
+      conflicts.push(result.conflict)
+    }
+    const failed = result.failures ? result.failures.map((failure) => rows[failure.index]) : rows
+    failed.forEach((row) => row && failedRows.push(row))
+  }
+
+  if (diff.deletes.length > 0) {
+    const versions = Object.fromEntries(
+      diff.deletes.filter((id) => itemsById.has(id)).map((id) => [id, itemsById.get(id)!.updated_at]),
+    )
+    const rows = diff.deletes.map((id) => itemsById.get(id))
+    const result = await store.deleteMany(diff.deletes, { expectedUpdatedAt: versions, onProgress })
+    recordFailure(result, rows)
+    result.data?.forEach((id) => itemsById.delete(id))
+  }
+
+  if (diff.updates.length > 0) {
+    const rows = diff.updates.map((change) => itemsById.get(change.id))
+    const result = await store.updateMany(
+      diff.updates.map((change) => ({ ...change, expectedUpdatedAt: itemsById.get(change.id)?.updated_at })),
+      { onProgress },
+    )
+    recordFailure(result, rows)
+    result.data?.forEach((item) => itemsById.set(item.id, item))
+  }
+
+  if (diff.inserts.length > 0) {
+    const result = await store.insertMany(diff.inserts, { onProgress })
+    recordFailure(result, diff.inserts)
+    result.data?.forEach((item) => itemsById.set(item.id, item))
+  }
+
+  const data = Array.from(itemsById.values())
+  if (errors.length === 0) return { data, error: null }
+  const [first] = errors
+  const error =
+    errors.length === 1
+      ? first
+      : new StorageError(first.code, errors.map((e) => e.message).join("; "), {
+          retryable: errors.some((e) => e.retryable),
+          retryAfterMs: first.retryAfterMs,
+        })
+  return { data, error, conflict: conflicts[0], conflicts, failedRows }
+}
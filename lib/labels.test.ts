@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import { createProductDraft } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import {
+  buildPrintDocument,
+  getLocationLabels,
+  getProductLabels,
+  LABEL_STOCKS,
+  renderLabelSheets,
+  type LabelData,
+} from "@/lib/labels"
+import { buildAislesFromItems, DEFAULT_LAYOUT } from "@/lib/layout"
+
+const stock = (id: string) => LABEL_STOCKS.find((candidate) => candidate.id === id)!
+
+const aisles = buildAislesFromItems(
+  { ...DEFAULT_LAYOUT, aisles: [{ id: "A", columns: [{ number: 1, levels: 3, disabledLevels: [2] }] }] },
+  [],
+)
+
+const labels = (count: number): LabelData[] =>
+  Array.from({ length: count }, (_, index) => ({ code: `A-C1-L${index + 1}`, title: "Pasillo A", subtitle: "" }))
+
+describe("label data", () => {
+  it("makes one label per usable box, filtered by the caller", () => {
+    expect(getLocationLabels(aisles).map((label) => label.code)).toEqual(["A-C1-L1", "A-C1-L3"])
+    expect(getLocationLabels(aisles, (_, __, box) => box.id.endsWith("L3"))).toHaveLength(1)
+    expect(getLocationLabels(aisles)[0].title).toContain(aisles[0].columns[0].name)
+  })
+
+  it("labels products by SKU with category and barcode underneath", () => {
+    const product: Product = {
+      ...createProductDraft("REF001", "Arnés Deportivo"),
+      category: "Arneses",
+      barcode: "8412345678905",
+      id: "product-1",
+      created_at: "",
+      updated_at: "",
+    }
+    expect(getProductLabels([product, { ...product, category: "", barcode: "" }])).toEqual([
+      { code: "REF001", title: "Arnés Deportivo", subtitle: "Arneses · 8412345678905" },
+      { code: "REF001", title: "Arnés Deportivo", subtitle: "" },
+    ])
+  })
+})
+
+describe("renderLabelSheets", () => {
+  it("fills pages in reading order and starts a new page when the sheet is full", () => {
+    const sheet = stock("a4-21")
+    const pages = renderLabelSheets(labels(22), sheet)
+    expect(pages).toHaveLength(2)
+    expect(pages[0].match(/<g>/g)).toHaveLength(21)
+    expect(pages[1].match(/<g>/g)).toHaveLength(1)
+    expect(pages[0]).toContain(`width="${sheet.pageWidthMm}mm" height="${sheet.pageHeightMm}mm"`)
+
+    const secondInRow = `x="${sheet.marginLeftMm + sheet.labelWidthMm + sheet.gapXMm + 3}"`
+    expect(pages[0]).toContain(secondInRow)
+  })
+
+  it("prints one label per page on a roll", () => {
+    expect(renderLabelSheets(labels(3), stock("roll-100x50"))).toHaveLength(3)
+    expect(renderLabelSheets([], stock("roll-100x50"))).toEqual([])
+  })
+
+  it("escapes text and shortens titles that do not fit", () => {
+    const [page] = renderLabelSheets(
+      [{ code: "A&B", title: "Correa <extensible> ".repeat(10), subtitle: 'Talla "M"' }],
+      stock("roll-62x29"),
+    )
+    expect(page).toContain("A&amp;B")
+    expect(page).toContain("&lt;extensible&gt;")
+    expect(page).toContain("Talla &quot;M&quot;")
+    expect(page).toContain("…")
+    expect(page).not.toContain("<extensible>")
+  })
+
+  it("leaves out the barcode for codes Code 128 cannot encode but still prints the code", () => {
+    const [page] = renderLabelSheets([{ code: "Año-ñ", title: "Sin código", subtitle: "" }], stock("roll-100x50"))
+    expect(page).not.toContain("<g>")
+    expect(page).toContain("Año-ñ")
+  })
+})
+
+describe("buildPrintDocument", () => {
+  it("sets the page size of the stock and breaks after every sheet", () => {
+    const sheet = stock("a4-8")
+    const pages = renderLabelSheets(labels(9), sheet)
+    const html = buildPrintDocument(pages, sheet)
+    expect(html).toContain("@page { size: 210mm 297mm; margin: 0; }")
+    expect(html).toContain("page-break-after: always")
+    expect(html.match(/<svg /g)).toHaveLength(2)
+  })
+})
+
+describe("LABEL_STOCKS", () => {
+  it("offers label stocks that fit on their page", () => {
+    LABEL_STOCKS.forEach((sheet) => {
+      const width = sheet.marginLeftMm + sheet.columns * sheet.labelWidthMm + (sheet.columns - 1) * sheet.gapXMm
+      const height = sheet.marginTopMm + sheet.rows * sheet.labelHeightMm + (sheet.rows - 1) * sheet.gapYMm
+      expect(width).toBeLessThanOrEqual(sheet.pageWidthMm)
+      expect(height).toBeLessThanOrEqual(sheet.pageHeightMm)
+    })
+  })
+})
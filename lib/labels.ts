@@ -0,0 +1,207 @@
+import { canEncodeCode128, encodeCode128 } from "@/lib/code128"
+import type { Product } from "@/lib/database"
+import type { Aisle, Box, Column } from "@/lib/warehouse"
+
+export interface LabelStock {
+  id: string
+  name: string
+  pageWidthMm: number
+  pageHeightMm: number
+  columns: number
+  rows: number
+  labelWidthMm: number
+  labelHeightMm: number
+  marginTopMm: number
+  marginLeftMm: number
+  gapXMm: number
+  gapYMm: number
+}
+
+// Common A4 sheets plus single-label rolls for thermal printers
+export const LABEL_STOCKS: LabelStock[] = [
+  {
+    id: "a4-21",
+    name: "A4 · 21 etiquetas 63,5 × 38,1 mm (L7160)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 3,
+    rows: 7,
+    labelWidthMm: 63.5,
+    labelHeightMm: 38.1,
+    marginTopMm: 15.1,
+    marginLeftMm: 7.2,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-14",
+    name: "A4 · 14 etiquetas 99,1 × 38,1 mm (L7163)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 2,
+    rows: 7,
+    labelWidthMm: 99.1,
+    labelHeightMm: 38.1,
+    marginTopMm: 15.1,
+    marginLeftMm: 4.7,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-8",
+    name: "A4 · 8 etiquetas 99,1 × 67,7 mm (L7165)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 2,
+    rows: 4,
+    labelWidthMm: 99.1,
+    labelHeightMm: 67.7,
+    marginTopMm: 13.1,
+    marginLeftMm: 4.7,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: "roll-100x50",
+    name: "Rollo térmico 100 × 50 mm",
+    pageWidthMm: 100,
+    pageHeightMm: 50,
+    columns: 1,
+    rows: 1,
+    labelWidthMm: 100,
+    labelHeightMm: 50,
+    marginTopMm: 0,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "roll-62x29",
+    name: "Rollo térmico 62 × 29 mm",
+    pageWidthMm: 62,
+    pageHeightMm: 29,
+    columns: 1,
+    rows: 1,
+    labelWidthMm: 62,
+    labelHeightMm: 29,
+    marginTopMm: 0,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+]
+
+// `code` is what the barcode encodes: a box id or a SKU, both of which the scanner and search resolve
+export interface LabelData {
+  code: string
+  title: string
+  subtitle: string
+}
+
+export function getLocationLabels(
+  aisles: Aisle[],
+  include: (aisle: Aisle, column: Column, box: Box) => boolean = () => true,
+): LabelData[] {
+  const labels: LabelData[] = []
+  aisles.forEach((aisle) =>
+    aisle.columns.forEach((column) =>
+      column.boxes.forEach((box) => {
+        if (!box.disabled && include(aisle, column, box)) {
+          labels.push({ code: box.id, title: `${aisle.name} · ${column.name}`, subtitle: box.name })
+        }
+      }),
+    ),
+  )
+  return labels
+}
+
+export const getProductLabels = (products: Product[]): LabelData[] =>
+  products.map((product) => ({
+    code: product.sku,
+    title: product.name,
+    subtitle: [product.category, product.barcode].filter(Boolean).join(" · "),
+  }))
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+// Rough fit for a proportional font: about 0.55em per character
+const fitText = (text: string, widthMm: number, fontSizeMm: number) => {
+  const maxChars = Math.floor(widthMm / (fontSizeMm * 0.55))
+  return text.length > maxChars ? `${text.slice(0, Math.max(0, maxChars - 1))}…` : text
+}
+
+function renderLabel(label: LabelData, x: number, y: number, width: number, height: number): string {
+  const padding = Math.min(3, height * 0.08)
+  const innerWidth = width - padding * 2
+  const titleSize = Math.min(5, height * 0.14)
+  const subtitleSize = titleSize * 0.7
+  const codeSize = subtitleSize
+  const barcodeTop = y + padding + titleSize + subtitleSize + padding
+  const barcodeHeight = y + height - padding - codeSize - 1 - barcodeTop
+
+  const parts = [
+    `<text x="${x + padding}" y="${y + padding + titleSize * 0.85}" font-size="${titleSize}" font-weight="bold">${escapeXml(
+      fitText(label.title, innerWidth, titleSize),
+    )}</text>`,
+    `<text x="${x + padding}" y="${y + padding + titleSize + subtitleSize}" font-size="${subtitleSize}">${escapeXml(
+      fitText(label.subtitle, innerWidth, subtitleSize),
+    )}</text>`,
+  ]
+
+  if (canEncodeCode128(label.code)) {
+    const { bars, modules } = encodeCode128(label.code)
+    const moduleWidth = innerWidth / modules
+    const rects = bars
+      .map(
+        (bar) =>
+          `<rect x="${(x + padding + bar.x * moduleWidth).toFixed(3)}" y="${barcodeTop.toFixed(3)}" ` +
+          `width="${(bar.width * moduleWidth).toFixed(3)}" height="${barcodeHeight.toFixed(3)}"/>`,
+      )
+      .join("")
+    parts.push(`<g>${rects}</g>`)
+  }
+
+  parts.push(
+    `<text x="${x + width / 2}" y="${y + height - padding}" font-size="${codeSize}" text-anchor="middle" font-family="monospace">${escapeXml(
+      label.code,
+    )}</text>`,
+  )
+  return parts.join("")
+}
+
+// One standalone SVG document per page, sized in millimetres so it prints at true scale
+export function renderLabelSheets(labels: LabelData[], stock: LabelStock): string[] {
+  const perPage = stock.columns * stock.rows
+  const pages: string[] = []
+
+  for (let start = 0; start < labels.length; start += perPage) {
+    const body = labels
+      .slice(start, start + perPage)
+      .map((label, index) => {
+        const column = index % stock.columns
+        const row = Math.floor(index / stock.columns)
+        const x = stock.marginLeftMm + column * (stock.labelWidthMm + stock.gapXMm)
+        const y = stock.marginTopMm + row * (stock.labelHeightMm + stock.gapYMm)
+        return renderLabel(label, x, y, stock.labelWidthMm, stock.labelHeightMm)
+      })
+      .join("")
+
+    pages.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${stock.pageWidthMm}mm" height="${stock.pageHeightMm}mm" ` +
+        `viewBox="0 0 ${stock.pageWidthMm} ${stock.pageHeightMm}" font-family="Helvetica, Arial, sans-serif" fill="#000">` +
+        `<rect width="100%" height="100%" fill="#fff"/>${body}</svg>`,
+    )
+  }
+
+  return pages
+}
+
+// Print-ready HTML for the browser's print dialog, where "Save as PDF" gives the PDF
+export function buildPrintDocument(pages: string[], stock: LabelStock): string {
+  return `<!DOCTYPE html><html><head><title>Etiquetas ORTOCANIS</title><style>
+@page { size: ${stock.pageWidthMm}mm ${stock.pageHeightMm}mm; margin: 0; }
+body { margin: 0; }
+svg { display: block; page-break-after: always; }
+</style></head><body>${pages.join("")}</body></html>`
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest"
+import { inventoryCollection, layoutCollection, type InventoryItem } from "@/lib/database"
+import {
+  buildAislesFromItems,
+  createLayoutColumns,
+  DEFAULT_LAYOUT,
+  findDisplacedSlots,
+  layoutFromRecords,
+  renameAisle,
+  renameBox,
+  renameColumn,
+  loadLayout,
+  saveLayout,
+  type WarehouseLayout,
+} from "@/lib/layout"
+import { MemoryAdapter } from "@/lib/storage"
+
+const layout: WarehouseLayout = {
+  ...DEFAULT_LAYOUT,
+  aisles: [
+    { id: "A", columns: createLayoutColumns(2, 3) },
+    { id: "B", columns: [{ number: 1, levels: 2, disabledLevels: [2] }] },
+  ],
+}
+
+const item = (aisle: string, column: number, shelf: number, quantity = 4): InventoryItem => ({
+  id: `${aisle}-${column}-${shelf}`,
+  reference: "REF001",
+  description: "Arnés Deportivo",
+  quantity,
+  location: "",
+  aisle,
+  column,
+  shelf,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+})
+
+describe("buildAislesFromItems", () => {
+  it("lays out every column and level, marking disabled levels", () => {
+    const aisles = buildAislesFromItems(layout, [])
+    expect(aisles.map((aisle) => [aisle.id, aisle.columns.map((column) => column.boxes.length)])).toEqual([
+      ["A", [3, 3]],
+      ["B", [2]],
+    ])
+    expect(aisles[1].columns[0].boxes.map((box) => [box.id, Boolean(box.disabled)])).toEqual([
+      ["B-C1-L1", false],
+      ["B-C1-L2", true],
+    ])
+  })
+
+  it("grows the structure for stock outside the layout instead of dropping it", () => {
+    const aisles = buildAislesFromItems(layout, [item("A", 1, 2), item("Z", 4, 2)])
+    expect(aisles[0].columns[0].boxes[1].references).toEqual([
+      { id: "REF001", name: "Arnés Deportivo", quantity: 4, receivedAt: "2024-01-01T00:00:00.000Z" },
+    ])
+    const extra = aisles.find((aisle) => aisle.id === "Z")!
+    expect(extra.columns[0].boxes.map((box) => [box.id, Boolean(box.disabled), box.references.length])).toEqual([
+      ["Z-C4-L1", true, 0],
+      ["Z-C4-L2", false, 1],
+    ])
+  })
+})
+
+describe("findDisplacedSlots", () => {
+  it("lists occupied boxes that the new layout removes or disables", () => {
+    const aisles = buildAislesFromItems(layout, [item("A", 2, 3), item("B", 1, 1)])
+    const smaller: WarehouseLayout = {
+      ...layout,
+      aisles: [
+        { id: "A", columns: createLayoutColumns(2, 2) },
+        { id: "B", columns: layout.aisles[1].columns },
+      ],
+    }
+    expect(findDisplacedSlots(smaller, aisles)).toEqual(["A-C2-L3"])
+    expect(findDisplacedSlots(layout, aisles)).toEqual([])
+  })
+})
+
+describe("saveLayout and loadLayout", () => {
+  it("falls back to the default layout when nothing is stored", async () => {
+    expect(await loadLayout(new MemoryAdapter(layoutCollection))).toBe(DEFAULT_LAYOUT)
+    expect(layoutFromRecords([])).toBeNull()
+  })
+
+  it("stores one row per aisle plus the geometry and reads the same layout back", async () => {
+    const store = new MemoryAdapter(layoutCollection)
+    expect((await saveLayout(store, layout)).error).toBeNull()
+    expect((await store.selectItems()).data!.map((record) => record.aisle_id).sort()).toEqual(["#geometry", "A", "B"])
+    expect(await loadLayout(store)).toEqual(layout)
+  })
+
+  it("writes only what changed and removes aisles that are gone", async () => {
+    const store = new MemoryAdapter(layoutCollection)
+    await saveLayout(store, layout)
+    const before = (await store.selectItems()).data!
+    const onlyA = { ...layout, aisles: [{ id: "A", columns: createLayoutColumns(3, 3) }] }
+
+    expect((await saveLayout(store, onlyA)).error).toBeNull()
+    const after = (await store.selectItems()).data!
+    expect(after.map((record) => record.aisle_id).sort()).toEqual(["#geometry", "A"])
+    const geometry = (records: typeof after) => records.find((record) => record.aisle_id === "#geometry")!
+    expect(geometry(after).updated_at).toBe(geometry(before).updated_at)
+    expect(await loadLayout(store)).toEqual(onlyA)
+  })
+})
+
+describe("renaming", () => {
+  it("applies renames on top of each other and leaves the rest of the layout alone", () => {
+    const renamed = renameBox(renameColumn(renameAisle(layout, "A", "Entrada"), "A", 2, "Frío"), "A", 2, 3, "Arriba")
+    expect(renamed.aisles[0]).toMatchObject({ id: "A", name: "Entrada" })
+    expect(renamed.aisles[0].columns[1]).toMatchObject({
+      number: 2,
+      levels: 3,
+      name: "Frío",
+      boxNames: { 3: "Arriba" },
+    })
+    expect(renamed.aisles[0].columns[0]).toBe(layout.aisles[0].columns[0])
+    expect(renamed.aisles[1]).toBe(layout.aisles[1])
+  })
+
+  it("shows the names on the aisles built from the layout", () => {
+    const renamed = renameBox(renameColumn(renameAisle(layout, "B", "Muelle"), "B", 1, "Palés"), "B", 1, 1, "Suelo")
+    const aisle = buildAislesFromItems(renamed, []).find((candidate) => candidate.id === "B")!
+    expect([aisle.name, aisle.columns[0].name, aisle.columns[0].boxes[0].name]).toEqual(["Muelle", "Palés", "Suelo"])
+  })
+
+  it("persists the names with the layout", async () => {
+    const store = new MemoryAdapter(layoutCollection)
+    const renamed = renameBox(renameAisle(layout, "A", "Entrada"), "A", 1, 2, "Medio")
+    await saveLayout(store, renamed)
+    expect(await loadLayout(store)).toEqual(renamed)
+  })
+})
@@ -0,0 +1,259 @@
+import type { DatabaseResponse, InventoryItem, LayoutAisleRecord, LayoutColumn, StorageAdapter } from "@/lib/database"
+import { DEFAULT_GEOMETRY, type WarehouseGeometry } from "@/lib/geometry"
+import { StorageError } from "@/lib/storage"
+import { getBoxId, getColumnId, type Aisle, type Box, type Column } from "@/lib/warehouse"
+
+export type { LayoutColumn } from "@/lib/database"
+
+export interface LayoutAisle {
+  id: string
+  name?: string
+  columns: LayoutColumn[]
+}
+
+export interface WarehouseLayout {
+  aisles: LayoutAisle[]
+  geometry: WarehouseGeometry
+}
+
+// The original floor: aisles A-I, each with 7 columns of 6 levels
+export const DEFAULT_LAYOUT: WarehouseLayout = {
+  aisles: ["A", "B", "C", "D", "E", "F", "G", "H", "I"].map((id) => ({
+    id,
+    columns: createLayoutColumns(7, 6),
+  })),
+  geometry: DEFAULT_GEOMETRY,
+}
+
+export function createLayoutColumns(count: number, levels: number, startAt = 1): LayoutColumn[] {
+  return Array.from({ length: count }, (_, index) => ({ number: startAt + index, levels, disabledLevels: [] }))
+}
+
+export const isValidAisleId = (id: string) => /^[A-Za-z0-9]+$/.test(id)
+
+const createBox = (aisleId: string, layoutColumn: LayoutColumn, level: number, disabled: boolean): Box => ({
+  id: getBoxId(aisleId, layoutColumn.number, level),
+  level,
+  name: layoutColumn.boxNames?.[level] || `Nivel ${level}`,
+  references: [],
+  ...(disabled ? { disabled: true } : {}),
+})
+
+const createColumn = (aisleId: string, layoutColumn: LayoutColumn): Column => ({
+  id: getColumnId(aisleId, layoutColumn.number),
+  name: layoutColumn.name || `Columna ${layoutColumn.number}`,
+  boxes: Array.from({ length: layoutColumn.levels }, (_, levelIndex) =>
+    createBox(aisleId, layoutColumn, levelIndex + 1, layoutColumn.disabledLevels.includes(levelIndex + 1)),
+  ),
+  ...(layoutColumn.blocking ? { blocking: layoutColumn.blocking } : {}),
+})
+
+export function buildEmptyAisles(layout: WarehouseLayout): Aisle[] {
+  return layout.aisles.map((layoutAisle) => ({
+    id: layoutAisle.id,
+    name: layoutAisle.name || `Pasillo ${layoutAisle.id}`,
+    columns: layoutAisle.columns.map((layoutColumn) => createColumn(layoutAisle.id, layoutColumn)),
+  }))
+}
+
+// Finds the box an item belongs to, growing the structure when the item sits outside the layout
+// so that stock is never dropped (and then deleted by the next sync) because the layout shrank
+function locateBox(aisles: Aisle[], item: InventoryItem): Box {
+  let aisle = aisles.find((a) => a.id === item.aisle)
+  if (!aisle) {
+    aisle = { id: item.aisle, name: `Pasillo ${item.aisle}`, columns: [] }
+    aisles.push(aisle)
+  }
+
+  const columnId = getColumnId(item.aisle, item.column)
+  let column = aisle.columns.find((c) => c.id === columnId)
+  if (!column) {
+    column = createColumn(item.aisle, { number: item.column, levels: 0, disabledLevels: [] })
+    aisle.columns.push(column)
+    aisle.columns.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }))
+  }
+
+  let box = column.boxes.find((b) => b.level === item.shelf)
+  if (!box) {
+    for (let level = column.boxes.length + 1; level <= item.shelf; level++) {
+      column.boxes.push(
+        createBox(item.aisle, { number: item.column, levels: 0, disabledLevels: [] }, level, level !== item.shelf),
+      )
+    }
+    box = column.boxes.find((b) => b.level === item.shelf)!
+  }
+  return box
+}
+
+export function buildAislesFromItems(layout: WarehouseLayout, items: InventoryItem[]): Aisle[] {
+  const aisles = buildEmptyAisles(layout)
+
+  items.forEach((item) => {
+    locateBox(aisles, item).references.push({
+      id: item.reference,
+      name: item.description,
+      quantity: item.quantity,
+      receivedAt: item.created_at || undefined,
+    })
+  })
+
+  return aisles
+}
+
+export const getUsableBoxes = (column: Column) => column.boxes.filter((box) => !box.disabled)
+
+export const countUsableBoxes = (aisles: Aisle[]) =>
+  aisles.reduce(
+    (total, aisle) => total + aisle.columns.reduce((sum, column) => sum + getUsableBoxes(column).length, 0),
+    0,
+  )
+
+// Aisle ids are alphanumeric (see isValidAisleId), so this can never clash with a real aisle
+export const GEOMETRY_ROW_ID = "#geometry"
+
+export function layoutFromRecords(records: LayoutAisleRecord[]): WarehouseLayout | null {
+  const aisleRecords = records.filter((record) => record.aisle_id !== GEOMETRY_ROW_ID)
+  const geometry = records.find((record) => record.aisle_id === GEOMETRY_ROW_ID)?.geometry
+  if (aisleRecords.length === 0) return geometry ? { ...DEFAULT_LAYOUT, geometry } : null
+  return {
+    aisles: aisleRecords
+      .sort((a, b) => a.position - b.position)
+      .map((record) => ({ id: record.aisle_id, name: record.name || undefined, columns: record.columns })),
+    geometry: { ...DEFAULT_GEOMETRY, ...geometry },
+  }
+}
+
+export async function loadLayout(store: StorageAdapter<LayoutAisleRecord>): Promise<WarehouseLayout> {
+  const result = await store.selectItems()
+  if (result.error || !result.data) {
+    console.error("[v0] Error loading layout, using default:", result.error)
+    return DEFAULT_LAYOUT
+  }
+  return layoutFromRecords(result.data) || DEFAULT_LAYOUT
+}
+
+export async function saveLayout(
+  store: StorageAdapter<LayoutAisleRecord>,
+  layout: WarehouseLayout,
+): Promise<DatabaseResponse<boolean>> {
+  const existing = await store.selectItems()
+  if (existing.error || !existing.data) {
+    return { data: false, error: existing.error || new StorageError("unknown", "Error loading layout") }
+  }
+
+  const recordsByAisle = new Map(existing.data.map((record) => [record.aisle_id, record]))
+  const inserts: Omit<LayoutAisleRecord, "id" | "created_at" | "updated_at">[] = []
+  const updates: { id: string; updates: Partial<LayoutAisleRecord> }[] = []
+
+  const geometryRecord = recordsByAisle.get(GEOMETRY_ROW_ID)
+  recordsByAisle.delete(GEOMETRY_ROW_ID)
+  if (!geometryRecord) {
+    inserts.push({ aisle_id: GEOMETRY_ROW_ID, name: "", position: -1, columns: [], geometry: layout.geometry })
+  } else if (JSON.stringify(geometryRecord.geometry) !== JSON.stringify(layout.geometry)) {
+    updates.push({ id: geometryRecord.id, updates: { geometry: layout.geometry } })
+  }
+
+  layout.aisles.forEach((aisle, position) => {
+    const record = recordsByAisle.get(aisle.id)
+    if (!record) {
+      inserts.push({ aisle_id: aisle.id, name: aisle.name || "", position, columns: aisle.columns })
+      return
+    }
+    recordsByAisle.delete(aisle.id)
+    if (
+      record.position !== position ||
+      record.name !== (aisle.name || "") ||
+      JSON.stringify(record.columns) !== JSON.stringify(aisle.columns)
+    ) {
+      updates.push({ id: record.id, updates: { name: aisle.name || "", position, columns: aisle.columns } })
+    }
+  })
+
+  const deletes = Array.from(recordsByAisle.values()).map((record) => record.id)
+
+  if (deletes.length > 0) {
+    const result = await store.deleteMany(deletes)
+    if (result.error) return { data: false, error: result.error }
+  }
+  if (updates.length > 0) {
+    const result = await store.updateMany(updates)
+    if (result.error) return { data: false, error: result.error }
+  }
+  if (inserts.length > 0) {
+    const result = await store.insertMany(inserts)
+    if (result.error) return { data: false, error: result.error }
+  }
+  return { data: true, error: null }
+}
+
+const updateLayoutColumn = (
+  layout: WarehouseLayout,
+  aisleId: string,
+  columnNumber: number,
+  update: (column: LayoutColumn) => LayoutColumn,
+): WarehouseLayout => ({
+  ...layout,
+  aisles: layout.aisles.map((aisle) =>
+    aisle.id === aisleId
+      ? {
+          ...aisle,
+          columns: aisle.columns.map((column) => (column.number === columnNumber ? update(column) : column)),
+        }
+      : aisle,
+  ),
+})
+
+export const renameAisle = (layout: WarehouseLayout, aisleId: string, name: string): WarehouseLayout => ({
+  ...layout,
+  aisles: layout.aisles.map((aisle) => (aisle.id === aisleId ? { ...aisle, name } : aisle)),
+})
+
+export const renameColumn = (
+  layout: WarehouseLayout,
+  aisleId: string,
+  columnNumber: number,
+  name: string,
+): WarehouseLayout => updateLayoutColumn(layout, aisleId, columnNumber, (column) => ({ ...column, name }))
+
+export const renameBox = (
+  layout: WarehouseLayout,
+  aisleId: string,
+  columnNumber: number,
+  level: number,
+  name: string,
+): WarehouseLayout =>
+  updateLayoutColumn(layout, aisleId, columnNumber, (column) => ({
+    ...column,
+    boxNames: { ...column.boxNames, [level]: name },
+  }))
+
+// Slots that currently hold stock, which a layout change must not remove or disable
+export function getOccupiedSlots(aisles: Aisle[]): Set<string> {
+  const occupied = new Set<string>()
+  aisles.forEach((aisle) =>
+    aisle.columns.forEach((column) =>
+      column.boxes.forEach((box) => {
+        if (box.references.length > 0) occupied.add(box.id)
+      }),
+    ),
+  )
+  return occupied
+}
+
+// Box ids of every enabled level in the layout, the only places stock can be put
+export function getUsableSlots(layout: WarehouseLayout): Set<string> {
+  const usable = new Set<string>()
+  layout.aisles.forEach((aisle) =>
+    aisle.columns.forEach((column) => {
+      for (let level = 1; level <= column.levels; level++) {
+        if (!column.disabledLevels.includes(level)) usable.add(getBoxId(aisle.id, column.number, level))
+      }
+    }),
+  )
+  return usable
+}
+
+export function findDisplacedSlots(layout: WarehouseLayout, aisles: Aisle[]): string[] {
+  const usable = getUsableSlots(layout)
+  return Array.from(getOccupiedSlots(aisles)).filter((slot) => !usable.has(slot))
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import type { StockMovement } from "@/lib/database"
+import {
+  getBoxDelta,
+  queueMovement,
+  RESET_REASON,
+  toMovementRows,
+  toResetMovements,
+  type PendingMovement,
+} from "@/lib/movements"
+
+const adjustment = (delta: number, boxId = "A-C1-L1"): PendingMovement => ({
+  type: "adjustment",
+  reference: "REF001",
+  description: "Arnés Deportivo",
+  boxId,
+  delta,
+  reason: "",
+})
+
+const row = (reference: string, quantity: number, column = 1, shelf = 1) => ({
+  reference,
+  description: `Producto ${reference}`,
+  quantity,
+  location: "",
+  aisle: "A",
+  column,
+  shelf,
+})
+
+describe("queueMovement", () => {
+  it("collapses repeated adjustments of the same reference and box", () => {
+    const pending = [adjustment(1), adjustment(1), adjustment(-3)].reduce<PendingMovement[]>(queueMovement, [])
+    expect(pending).toEqual([adjustment(-1)])
+  })
+
+  it("keeps separate entries for other boxes, types and zero changes", () => {
+    let pending = queueMovement([], adjustment(2))
+    pending = queueMovement(pending, adjustment(0))
+    pending = queueMovement(pending, adjustment(1, "A-C1-L2"))
+    pending = queueMovement(pending, { ...adjustment(5), type: "receipt" })
+    pending = queueMovement(pending, { ...adjustment(5), type: "receipt" })
+    expect(pending.map((movement) => [movement.type, movement.boxId, movement.delta])).toEqual([
+      ["adjustment", "A-C1-L1", 2],
+      ["adjustment", "A-C1-L2", 1],
+      ["receipt", "A-C1-L1", 5],
+      ["receipt", "A-C1-L1", 5],
+    ])
+  })
+})
+
+describe("toMovementRows", () => {
+  it("turns the sign of a change into the box it came from or went to", () => {
+    const rows = toMovementRows(
+      [
+        adjustment(4),
+        adjustment(-2, "A-C1-L2"),
+        { ...adjustment(3), type: "transfer", toBoxId: "B-C2-L1" },
+        adjustment(0),
+      ],
+      "Ana",
+    )
+    expect(rows.map(({ type, quantity, from_box, to_box, user }) => [type, quantity, from_box, to_box, user])).toEqual([
+      ["adjustment", 4, "", "A-C1-L1", "Ana"],
+      ["adjustment", 2, "A-C1-L2", "", "Ana"],
+      ["transfer", 3, "A-C1-L1", "B-C2-L1", "Ana"],
+    ])
+  })
+})
+
+describe("getBoxDelta", () => {
+  it("counts a movement into a box as positive and out of it as negative", () => {
+    const movement = { quantity: 3, from_box: "A-C1-L1", to_box: "B-C2-L1" } as StockMovement
+    expect(getBoxDelta(movement, "B-C2-L1")).toBe(3)
+    expect(getBoxDelta(movement, "A-C1-L1")).toBe(-3)
+    expect(getBoxDelta(movement, "C-C1-L1")).toBe(0)
+  })
+})
+
+describe("toResetMovements", () => {
+  it("records the removed stock as it leaves and the sample stock as it is received", () => {
+    const movements = toResetMovements([row("REF009", 7, 2, 3), row("REF010", 0)], [row("REF001", 25)])
+    expect(movements).toEqual([
+      {
+        type: "adjustment",
+        reference: "REF009",
+        description: "Producto REF009",
+        boxId: "A-C2-L3",
+        delta: -7,
+        reason: RESET_REASON,
+      },
+      {
+        type: "receipt",
+        reference: "REF001",
+        description: "Producto REF001",
+        boxId: "A-C1-L1",
+        delta: 25,
+        reason: RESET_REASON,
+      },
+    ])
+  })
+})
@@ -0,0 +1,104 @@
+import type { MovementType, StockMovement } from "@/lib/database"
+import type { InventoryRow } from "@/lib/inventory-sync"
+import type { NewRecord } from "@/lib/storage"
+import { getBoxId } from "@/lib/warehouse"
+
+export type NewMovement = NewRecord<StockMovement>
+
+// A stock change that has happened in the UI but not yet been written to the ledger.
+// `delta` is signed so repeated +/- clicks on the same box collapse into one entry.
+export interface PendingMovement {
+  type: MovementType
+  reference: string
+  description: string
+  boxId: string
+  delta: number
+  reason: string
+  // Only set for transfers, where boxId is the source
+  toBoxId?: string
+}
+
+const OPERATOR_KEY = "warehouse-operator"
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  receipt: "Entrada",
+  pick: "Salida",
+  adjustment: "Ajuste",
+  transfer: "Traslado",
+  count_correction: "Corrección de recuento",
+}
+
+export function getOperatorName(): string {
+  if (typeof window === "undefined") return ""
+  return localStorage.getItem(OPERATOR_KEY) || ""
+}
+
+export function setOperatorName(name: string): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(OPERATOR_KEY, name.trim())
+  }
+}
+
+const isMergeable = (type: MovementType) => type === "adjustment" || type === "count_correction"
+
+export function queueMovement(pending: PendingMovement[], next: PendingMovement): PendingMovement[] {
+  if (next.delta === 0) return pending
+
+  const last = pending[pending.length - 1]
+  if (
+    last &&
+    isMergeable(next.type) &&
+    last.type === next.type &&
+    last.reference === next.reference &&
+    last.boxId === next.boxId
+  ) {
+    return [...pending.slice(0, -1), { ...last, delta: last.delta + next.delta }]
+  }
+  return [...pending, next]
+}
+
+export function toMovementRows(pending: PendingMovement[], user: string): NewMovement[] {
+  return pending
+    .filter((movement) => movement.delta !== 0)
+    .map((movement) => {
+      const base = {
+        type: movement.type,
+        reference: movement.reference,
+        description: movement.description,
+        quantity: Math.abs(movement.delta),
+        user,
+        reason: movement.reason,
+      }
+      if (movement.type === "transfer") {
+        return { ...base, from_box: movement.boxId, to_box: movement.toBoxId || "" }
+      }
+      return movement.delta > 0
+        ? { ...base, from_box: "", to_box: movement.boxId }
+        : { ...base, from_box: movement.boxId, to_box: "" }
+    })
+}
+
+export const RESET_REASON = "Reinicio del almacén"
+
+// A reset empties every box and fills the warehouse again with sample stock; both sides go to the ledger
+export function toResetMovements(removed: InventoryRow[], added: InventoryRow[]): PendingMovement[] {
+  const toMovement = (row: InventoryRow, type: MovementType, delta: number): PendingMovement => ({
+    type,
+    reference: row.reference,
+    description: row.description,
+    boxId: getBoxId(row.aisle, row.column, row.shelf),
+    delta,
+    reason: RESET_REASON,
+  })
+  return [
+    ...removed.map((row) => toMovement(row, "adjustment", -row.quantity)),
+    ...added.map((row) => toMovement(row, "receipt", row.quantity)),
+  ].reduce<PendingMovement[]>(queueMovement, [])
+}
+
+// Signed effect of a movement on one box, for per-box history
+export function getBoxDelta(movement: StockMovement, boxId: string): number {
+  if (movement.to_box === boxId) return movement.quantity
+  if (movement.from_box === boxId) return -movement.quantity
+  return 0
+}
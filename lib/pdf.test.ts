@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { createTablePdf, type PdfTable } from "@/lib/pdf"
+
+const table = (rowCount: number): PdfTable => ({
+  title: "Inventario (completo)",
+  subtitle: "Pasillo A",
+  columns: [
+    { header: "Referencia", width: 90 },
+    { header: "Cantidad", width: 60, align: "right" },
+  ],
+  rows: Array.from({ length: rowCount }, (_, index) => [`REF${index}`, String(index)]),
+  footer: "Generado hoy",
+})
+
+const read = async (blob: Blob) =>
+  Array.from(new Uint8Array(await blob.arrayBuffer()), (byte) => String.fromCharCode(byte)).join("")
+
+describe("createTablePdf", () => {
+  it("writes a PDF whose cross-reference table points at each object", async () => {
+    const pdf = await read(createTablePdf(table(3)))
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true)
+    expect(pdf.endsWith("%%EOF\n")).toBe(true)
+
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)![1])
+    expect(pdf.slice(xref, xref + 4)).toBe("xref")
+    const offsets = Array.from(pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm), (match) => Number(match[1]))
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true))
+  })
+
+  it("splits long tables over pages and numbers them", async () => {
+    const pdf = await read(createTablePdf(table(100)))
+    expect(pdf).toContain("/Count 3")
+    expect(pdf).toContain("(P\xe1gina 3 de 3)")
+  })
+
+  it("escapes parentheses and replaces characters outside WinAnsi", async () => {
+    const pdf = await read(createTablePdf({ ...table(0), rows: [["caja (ñ) ✓", "1"]] }))
+    expect(pdf).toContain("(Inventario \\(completo\\))")
+    expect(pdf).toContain("(caja \\(\xf1\\) ?)")
+  })
+})
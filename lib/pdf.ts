@@ -0,0 +1,129 @@
+// Minimal PDF writer for tabular reports: A4 landscape pages with the standard Helvetica fonts, so no font
+// needs embedding. Text is encoded as WinAnsi, which covers Spanish accents; other characters print as "?".
+
+export interface PdfColumn {
+  header: string
+  // Points; the page leaves 770 between margins
+  width: number
+  align?: "left" | "right"
+}
+
+export interface PdfTable {
+  title: string
+  subtitle?: string
+  columns: PdfColumn[]
+  rows: string[][]
+  // Printed in the footer next to the page number
+  footer?: string
+}
+
+const PAGE_WIDTH = 842
+const PAGE_HEIGHT = 595
+const MARGIN = 36
+const FONT_SIZE = 8
+const ROW_HEIGHT = 13
+const TABLE_TOP = PAGE_HEIGHT - MARGIN - 44
+const ROWS_PER_PAGE = Math.floor((TABLE_TOP - MARGIN - 24) / ROW_HEIGHT)
+
+// Narrow space and similar separators used by some locales when grouping digits
+const toWinAnsi = (text: string) =>
+  Array.from(text.replace(/[\u202f\u2009]/g, " "))
+    .map((char) => (char.charCodeAt(0) <= 0xff ? char : "?"))
+    .join("")
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")
+
+// Rough Helvetica metrics: digits are 0.556 em, punctuation narrower, letters about half an em on average
+const textWidth = (text: string, size: number) =>
+  Array.from(text).reduce(
+    (width, char) => width + (/\d/.test(char) ? 0.556 : /[.,:;'|il ]/.test(char) ? 0.278 : 0.52),
+    0,
+  ) * size
+
+function fitText(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text
+  let fitted = text
+  while (fitted.length > 1 && textWidth(`${fitted}...`, size) > width) fitted = fitted.slice(0, -1)
+  return `${fitted}...`
+}
+
+const textAt = (font: "F1" | "F2", size: number, x: number, y: number, text: string) =>
+  `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`
+
+function drawRow(cells: string[], columns: PdfColumn[], y: number, font: "F1" | "F2"): string[] {
+  let x = MARGIN
+  return columns.map((column, index) => {
+    const text = fitText(cells[index] ?? "", column.width - 4, FONT_SIZE)
+    const cellX = column.align === "right" ? x + column.width - 4 - textWidth(text, FONT_SIZE) : x
+    x += column.width
+    return textAt(font, FONT_SIZE, cellX, y, text)
+  })
+}
+
+function buildPage(table: PdfTable, rows: string[][], page: number, pageCount: number): string {
+  const right = PAGE_WIDTH - MARGIN
+  const commands = [
+    textAt("F2", 14, MARGIN, PAGE_HEIGHT - MARGIN - 14, table.title),
+    ...(table.subtitle ? [textAt("F1", 9, MARGIN, PAGE_HEIGHT - MARGIN - 28, table.subtitle)] : []),
+    ...drawRow(
+      table.columns.map((column) => column.header),
+      table.columns,
+      TABLE_TOP,
+      "F2",
+    ),
+    `0.5 w ${MARGIN} ${TABLE_TOP - 4} m ${right} ${TABLE_TOP - 4} l S`,
+  ]
+
+  rows.forEach((row, index) => {
+    const y = TABLE_TOP - (index + 1) * ROW_HEIGHT - 2
+    // Zebra stripes in the app's light green keep long rows readable on paper
+    if (index % 2 === 1) {
+      commands.push(`0.94 0.97 0.96 rg ${MARGIN} ${y - 3} ${right - MARGIN} ${ROW_HEIGHT} re f 0 g`)
+    }
+    commands.push(...drawRow(row, table.columns, y, "F1"))
+  })
+
+  const pageLabel = `Página ${page} de ${pageCount}`
+  commands.push(textAt("F1", 8, right - textWidth(pageLabel, 8), MARGIN - 12, pageLabel))
+  if (table.footer) commands.push(textAt("F1", 8, MARGIN, MARGIN - 12, table.footer))
+  return commands.join("\n")
+}
+
+export function createTablePdf(table: PdfTable): Blob {
+  const pages: string[][][] = []
+  for (let start = 0; start < table.rows.length; start += ROWS_PER_PAGE) {
+    pages.push(table.rows.slice(start, start + ROWS_PER_PAGE))
+  }
+  if (pages.length === 0) pages.push([])
+
+  // Objects 1-4 are fixed; each page then takes a page object and a content stream
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ]
+  pages.forEach((rows, index) => {
+    const content = toWinAnsi(buildPage(table, rows, index + 1, pages.length))
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    )
+  })
+
+  // Every character is a single byte once encoded, so string lengths are byte offsets
+  let output = "%PDF-1.4\n"
+  const offsets = objects.map((object, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("")
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  const bytes = Uint8Array.from(Array.from(output), (char) => char.charCodeAt(0))
+  return new Blob([bytes], { type: "application/pdf" })
+}
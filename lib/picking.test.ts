@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import { createProductDraft } from "@/lib/catalog"
+import type { InventoryItem, Product } from "@/lib/database"
+import { buildAislesFromItems, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+import { allocateOrder, parseOrder } from "@/lib/picking"
+import { DEFAULT_SCORING_SETTINGS, type ScoringSettings } from "@/lib/scoring"
+
+const products: Product[] = [
+  {
+    ...createProductDraft("REF001", "Arnés Deportivo"),
+    barcode: "8412345678905",
+    id: "product-1",
+    created_at: "",
+    updated_at: "",
+  },
+]
+
+const item = (
+  reference: string,
+  quantity: number,
+  column: number,
+  shelf: number,
+  receivedAt: string,
+): InventoryItem => ({
+  id: `${reference}-${column}-${shelf}`,
+  reference,
+  description: reference,
+  quantity,
+  location: "",
+  aisle: "A",
+  column,
+  shelf,
+  created_at: receivedAt,
+  updated_at: receivedAt,
+})
+
+const aisles = buildAislesFromItems({ ...DEFAULT_LAYOUT, aisles: [{ id: "A", columns: createLayoutColumns(3, 2) }] }, [
+  item("REF001", 4, 3, 1, "2024-01-01T00:00:00.000Z"),
+  item("REF001", 10, 1, 1, "2024-03-01T00:00:00.000Z"),
+  item("REF002", 2, 2, 2, "2024-02-01T00:00:00.000Z"),
+])
+
+// Oldest stock first, so the expected boxes do not depend on distances
+const fifo: ScoringSettings = { ...DEFAULT_SCORING_SETTINGS, strategyId: "fifo" }
+
+describe("parseOrder", () => {
+  it("reads the separators people paste and adds up repeated SKUs", () => {
+    const { lines, errors } = parseOrder("REF001 2\nREF002;3\r\nREF001,1\nREF003\t4\n\nREF004", products)
+    expect(errors).toEqual([])
+    expect(lines).toEqual([
+      { sku: "REF001", quantity: 3 },
+      { sku: "REF002", quantity: 3 },
+      { sku: "REF003", quantity: 4 },
+      { sku: "REF004", quantity: 1 },
+    ])
+  })
+
+  it("accepts barcodes in place of SKUs", () => {
+    expect(parseOrder("8412345678905 2", products).lines).toEqual([{ sku: "REF001", quantity: 2 }])
+  })
+
+  it("skips a header row but reports bad quantities further down", () => {
+    const { lines, errors } = parseOrder("SKU;Cantidad\nREF001;2\nREF002;-1\nREF003;dos", products)
+    expect(lines).toEqual([{ sku: "REF001", quantity: 2 }])
+    expect(errors).toEqual([
+      'Línea 3: cantidad no válida en "REF002;-1"',
+      'Línea 4: cantidad no válida en "REF003;dos"',
+    ])
+  })
+})
+
+describe("allocateOrder", () => {
+  const picked = (list: ReturnType<typeof allocateOrder>) =>
+    Object.fromEntries(list.stops.map((stop) => [stop.boxId, stop.quantity]))
+
+  it("takes units from the best-ranked box first and moves on when it runs out", () => {
+    expect(picked(allocateOrder(aisles, [{ sku: "REF001", quantity: 3 }], fifo))).toEqual({ "A-C3-L1": 3 })
+    expect(picked(allocateOrder(aisles, [{ sku: "REF001", quantity: 6 }], fifo))).toEqual({
+      "A-C3-L1": 4,
+      "A-C1-L1": 2,
+    })
+  })
+
+  it("reports what could not be allocated", () => {
+    const list = allocateOrder(
+      aisles,
+      [
+        { sku: "REF002", quantity: 5 },
+        { sku: "NADA", quantity: 1 },
+      ],
+      fifo,
+    )
+    expect(picked(list)).toEqual({ "A-C2-L2": 2 })
+    expect(list.shortages).toEqual([
+      { sku: "REF002", requested: 5, allocated: 2 },
+      { sku: "NADA", requested: 1, allocated: 0 },
+    ])
+  })
+
+  it("walks the stops in route order and measures the walk", () => {
+    const list = allocateOrder(
+      aisles,
+      [
+        { sku: "REF001", quantity: 14 },
+        { sku: "REF002", quantity: 1 },
+      ],
+      fifo,
+    )
+    expect(list.stops.map((stop) => stop.boxId)).toEqual(["A-C1-L1", "A-C2-L2", "A-C3-L1"])
+    expect(list.stops[0]).toMatchObject({ id: "A-C1-L1|REF001", slot: { aisleId: "A", columnId: "A-C1", level: 1 } })
+    expect(list.distance).toBeGreaterThan(0)
+    expect(allocateOrder(aisles, []).distance).toBe(0)
+  })
+})
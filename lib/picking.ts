@@ -0,0 +1,107 @@
+import { DEFAULT_ACCESSIBILITY_CONTEXT, type AccessibilityContext } from "@/lib/accessibility"
+import { findProduct } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import { planRoute } from "@/lib/geometry"
+import { scoreCandidates, type ScoringCandidate, type ScoringSettings } from "@/lib/scoring"
+import type { Aisle, Reference, SlotRef } from "@/lib/warehouse"
+
+export interface OrderLine {
+  sku: string
+  quantity: number
+}
+
+export interface PickStop {
+  id: string
+  slot: SlotRef
+  boxId: string
+  location: string
+  reference: Reference
+  quantity: number
+  score: number
+}
+
+export interface PickShortage {
+  sku: string
+  requested: number
+  allocated: number
+}
+
+export interface PickList {
+  stops: PickStop[]
+  shortages: PickShortage[]
+  // Metres walked from the entrance through every stop and back
+  distance: number
+}
+
+// One line per SKU: "REF001 5", "REF001;5", "REF001,5" or tab separated as pasted from a spreadsheet.
+// Barcodes are accepted in place of SKUs; repeated SKUs are added up.
+export function parseOrder(text: string, products: Product[]): { lines: OrderLine[]; errors: string[] } {
+  const quantities = new Map<string, number>()
+  const errors: string[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim()
+    if (!line) return
+
+    const [code, quantityText = "1"] = line.split(/[\t;,]+|\s+/).filter(Boolean)
+    const quantity = Number.parseInt(quantityText)
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      // A header row from an exported file is not an error
+      if (index === 0) return
+      errors.push(`Línea ${index + 1}: cantidad no válida en "${line}"`)
+      return
+    }
+
+    const sku = findProduct(products, code)?.sku || code
+    quantities.set(sku, (quantities.get(sku) || 0) + quantity)
+  })
+
+  return { lines: Array.from(quantities, ([sku, quantity]) => ({ sku, quantity })), errors }
+}
+
+// Takes units from the best-scored boxes first, the same ranking the search tab shows
+export function allocateOrder(
+  aisles: Aisle[],
+  lines: OrderLine[],
+  settings?: ScoringSettings,
+  context: AccessibilityContext = DEFAULT_ACCESSIBILITY_CONTEXT,
+): PickList {
+  const stops: PickStop[] = []
+  const shortages: PickShortage[] = []
+
+  lines.forEach((line) => {
+    const candidates: ScoringCandidate[] = []
+    aisles.forEach((aisle) =>
+      aisle.columns.forEach((column) =>
+        column.boxes.forEach((box) => {
+          const reference = box.references.find((ref) => ref.id === line.sku)
+          if (reference && reference.quantity > 0) candidates.push({ aisle, column, box, reference })
+        }),
+      ),
+    )
+
+    let remaining = line.quantity
+    for (const candidate of scoreCandidates(aisles, candidates, settings, context)) {
+      if (remaining <= 0) break
+      const { aisle, column, box, reference } = candidate
+      const quantity = Math.min(remaining, reference.quantity)
+      stops.push({
+        id: `${box.id}|${line.sku}`,
+        slot: { aisleId: aisle.id, columnId: column.id, level: box.level },
+        boxId: box.id,
+        location: `${aisle.name} · ${column.name} · ${box.name}`,
+        reference,
+        quantity,
+        score: candidate.totalScore,
+      })
+      remaining -= quantity
+    }
+
+    if (remaining > 0) {
+      shortages.push({ sku: line.sku, requested: line.quantity, allocated: line.quantity - remaining })
+    }
+  })
+
+  const route = planRoute(aisles, context.geometry, stops)
+  return { stops: route.stops, shortages, distance: route.distance }
+}
@@ -0,0 +1,159 @@
+import { z } from "zod"
+import {
+  layoutCollection,
+  MOVEMENT_TYPES,
+  type InventoryItem,
+  type LayoutAisleRecord,
+  type MovementType,
+  type Product,
+  type StockMovement,
+} from "@/lib/database"
+import {
+  DEFAULT_LAYOUT,
+  GEOMETRY_ROW_ID,
+  getUsableSlots,
+  isValidAisleId,
+  layoutFromRecords,
+  type WarehouseLayout,
+} from "@/lib/layout"
+import { StorageError, toStorageError } from "@/lib/storage"
+import { subscribeToChangeHub } from "@/lib/storage/change-hub"
+import type { CollectionValidation } from "@/lib/storage/collection-routes"
+import { listRecords } from "@/lib/storage/stein-server"
+import { getBoxId } from "@/lib/warehouse"
+
+// What the route handlers in app/api accept for each collection. The codecs read whatever a sheet holds; these are
+// stricter, so a browser cannot write a row the app would misread later (a negative stock, an unknown movement type).
+
+const storageRecordSchema = z.object({
+  id: z.string().min(1),
+  created_at: z.string().min(1),
+  updated_at: z.string().min(1),
+})
+
+const quantitySchema = z.number().int().nonnegative()
+const measureSchema = z.number().finite().nonnegative()
+
+export const inventoryRecordSchema: z.ZodType<InventoryItem> = storageRecordSchema.extend({
+  reference: z.string().min(1),
+  description: z.string(),
+  quantity: quantitySchema,
+  location: z.string(),
+  aisle: z.string().refine(isValidAisleId, "Invalid aisle id"),
+  column: z.number().int().positive(),
+  shelf: z.number().int().positive(),
+})
+
+export const movementRecordSchema: z.ZodType<StockMovement> = storageRecordSchema.extend({
+  type: z.enum(MOVEMENT_TYPES as [MovementType, ...MovementType[]]),
+  reference: z.string().min(1),
+  description: z.string(),
+  quantity: quantitySchema,
+  from_box: z.string(),
+  to_box: z.string(),
+  user: z.string(),
+  reason: z.string(),
+})
+
+const layoutColumnSchema = z.object({
+  number: z.number().int().positive(),
+  levels: z.number().int().nonnegative(),
+  disabledLevels: z.array(z.number().int().positive()),
+  name: z.string().optional(),
+  boxNames: z.record(z.string()).optional(),
+  blocking: z.enum(["stacked", "shelved"]).optional(),
+})
+
+const pointSchema = z.object({ x: z.number().finite(), y: z.number().finite() })
+
+export const layoutRecordSchema: z.ZodType<LayoutAisleRecord> = storageRecordSchema.extend({
+  aisle_id: z.string().refine((id) => id === GEOMETRY_ROW_ID || isValidAisleId(id), "Invalid aisle id"),
+  name: z.string(),
+  position: z.number().int(),
+  columns: z.array(layoutColumnSchema),
+  geometry: z
+    .object({
+      entrance: pointSchema,
+      aisleSpacing: measureSchema,
+      columnWidth: measureSchema,
+      levelHeight: measureSchema,
+    })
+    .optional(),
+})
+
+export const productRecordSchema: z.ZodType<Product> = storageRecordSchema.extend({
+  sku: z.string().min(1),
+  name: z.string(),
+  category: z.string(),
+  unit: z.string(),
+  length_cm: measureSchema,
+  width_cm: measureSchema,
+  height_cm: measureSchema,
+  weight_kg: measureSchema,
+  barcode: z.string(),
+  min_stock: quantitySchema,
+  reorder_point: quantitySchema,
+  reorder_quantity: quantitySchema,
+  image_url: z.string(),
+})
+
+// Same fallback as the browser: without a layout sheet, or with an empty one, the warehouse has the default floor
+async function loadStoredLayout() {
+  try {
+    return layoutFromRecords(await listRecords(layoutCollection)) || DEFAULT_LAYOUT
+  } catch (caught) {
+    const error = toStorageError(caught)
+    if (error.code === "misconfigured_sheet") return DEFAULT_LAYOUT
+    throw error
+  }
+}
+
+// An import arrives as many insert requests, so the layout is read once and kept for a while. Layout writes through
+// app/api drop it right away; edits made straight in the sheet are picked up once it expires.
+const LAYOUT_CACHE_MS = 30000
+let cachedLayout: { layout: Promise<WarehouseLayout>; expiresAt: number } | null = null
+let watchingLayout = false
+
+function getStoredLayout(): Promise<WarehouseLayout> {
+  if (!watchingLayout) {
+    watchingLayout = true
+    subscribeToChangeHub((changes) => {
+      if (changes.some((change) => change.collection === layoutCollection.name)) cachedLayout = null
+    })
+  }
+  if (!cachedLayout || cachedLayout.expiresAt <= Date.now()) {
+    const layout = loadStoredLayout()
+    cachedLayout = { layout, expiresAt: Date.now() + LAYOUT_CACHE_MS }
+    // A failed read is not kept, so the next request tries again
+    layout.catch(() => {
+      if (cachedLayout?.layout === layout) cachedLayout = null
+    })
+  }
+  return cachedLayout.layout
+}
+
+// New boxes must sit in an enabled slot of the stored layout. Existing rows are left alone: the layout editor never
+// removes a slot that holds stock, and older rows outside it must still be editable.
+export async function checkInventorySlots(records: InventoryItem[]): Promise<StorageError | null> {
+  const layout = await getStoredLayout()
+  const usable = getUsableSlots(layout)
+  const problems = new Set<string>()
+  records.forEach((record) => {
+    if (!layout.aisles.some((aisle) => aisle.id === record.aisle)) {
+      problems.add(`unknown aisle ${record.aisle}`)
+    } else if (!usable.has(getBoxId(record.aisle, record.column, record.shelf))) {
+      problems.add(`unknown slot ${getBoxId(record.aisle, record.column, record.shelf)}`)
+    }
+  })
+  return problems.size > 0
+    ? new StorageError("validation", `Not in the warehouse layout: ${[...problems].join(", ")}`)
+    : null
+}
+
+export const inventoryValidation: CollectionValidation<InventoryItem> = {
+  schema: inventoryRecordSchema,
+  checkInsert: checkInventorySlots,
+}
+export const movementValidation: CollectionValidation<StockMovement> = { schema: movementRecordSchema }
+export const layoutValidation: CollectionValidation<LayoutAisleRecord> = { schema: layoutRecordSchema }
+export const productValidation: CollectionValidation<Product> = { schema: productRecordSchema }
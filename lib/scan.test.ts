@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest"
+import { createProductDraft } from "@/lib/catalog"
+import type { InventoryItem, Product } from "@/lib/database"
+import { buildAislesFromItems, DEFAULT_LAYOUT } from "@/lib/layout"
+import { createWedgeDetector, parseLocationCode, resolveScan } from "@/lib/scan"
+
+const products: Product[] = [
+  {
+    ...createProductDraft("REF001", "Arnés Deportivo"),
+    barcode: "8412345678905",
+    id: "product-1",
+    created_at: "2024-01-01T00:00:00.000Z",
+    updated_at: "2024-01-01T00:00:00.000Z",
+  },
+]
+
+const stock: InventoryItem = {
+  id: "item-1",
+  reference: "OLD-7",
+  description: "Sin ficha",
+  quantity: 2,
+  location: "",
+  aisle: "A",
+  column: 1,
+  shelf: 1,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+}
+
+const aisles = buildAislesFromItems(DEFAULT_LAYOUT, [stock])
+
+describe("parseLocationCode", () => {
+  it("reads aisle, column and level from a box id, in any case", () => {
+    expect(parseLocationCode(" a-c3-l2 ")).toEqual({ aisleId: "A", columnId: "A-C3", level: 2 })
+    expect(parseLocationCode("B12-C10-L1")).toEqual({ aisleId: "B12", columnId: "B12-C10", level: 1 })
+  })
+
+  it("rejects anything else", () => {
+    expect(parseLocationCode("A-C3")).toBeNull()
+    expect(parseLocationCode("A-3-2")).toBeNull()
+    expect(parseLocationCode("REF001")).toBeNull()
+  })
+})
+
+describe("resolveScan", () => {
+  it("resolves a code to an existing box", () => {
+    const result = resolveScan("A-C1-L1", aisles, products)
+    expect(result.kind).toBe("location")
+    expect(result.kind === "location" && result.box.id).toBe("A-C1-L1")
+  })
+
+  it("treats a location code outside the warehouse as unknown", () => {
+    expect(resolveScan("Z-C9-L9", aisles, products)).toEqual({ kind: "unknown", code: "Z-C9-L9" })
+  })
+
+  it("resolves SKUs and barcodes through the catalog", () => {
+    expect(resolveScan("8412345678905", aisles, products)).toEqual({
+      kind: "product",
+      code: "8412345678905",
+      sku: "REF001",
+    })
+    expect(resolveScan(" ref001 ", aisles, products)).toEqual({ kind: "product", code: "ref001", sku: "REF001" })
+  })
+
+  it("still finds stock whose reference is not in the catalog", () => {
+    expect(resolveScan("old-7", aisles, products)).toEqual({ kind: "product", code: "old-7", sku: "old-7" })
+    expect(resolveScan("NADA", aisles, products)).toEqual({ kind: "unknown", code: "NADA" })
+  })
+})
+
+describe("createWedgeDetector", () => {
+  // Feeds the keys of `text` followed by Enter, `interval` ms apart
+  const type = (detect: ReturnType<typeof createWedgeDetector>, text: string, start: number, interval: number) => {
+    const keys = [...text, "Enter"]
+    return keys.map((key, index) => detect(key, start + index * interval)).at(-1)
+  }
+
+  it("reports a fast burst that ends in Enter", () => {
+    const onScan = vi.fn()
+    const detect = createWedgeDetector(onScan)
+    expect(type(detect, "A-C1-L1", 1000, 10)).toBe(true)
+    expect(onScan).toHaveBeenCalledWith("A-C1-L1")
+  })
+
+  it("accepts keys exactly at the maximum interval and ignores ones slower than it", () => {
+    const onScan = vi.fn()
+    const detect = createWedgeDetector(onScan, { maxKeyInterval: 30 })
+    expect(type(detect, "REF001", 1000, 30)).toBe(true)
+    expect(type(detect, "REF001", 5000, 31)).toBe(false)
+    expect(onScan).toHaveBeenCalledTimes(1)
+  })
+
+  it("drops what was typed before a pause and keeps the fast part", () => {
+    const onScan = vi.fn()
+    const detect = createWedgeDetector(onScan)
+    detect("x", 1000)
+    detect("y", 1010)
+    expect(type(detect, "REF001", 2000, 5)).toBe(true)
+    expect(onScan).toHaveBeenCalledWith("REF001")
+  })
+
+  it("ignores short bursts and non-character keys", () => {
+    const onScan = vi.fn()
+    const detect = createWedgeDetector(onScan, { minLength: 4 })
+    expect(type(detect, "ABC", 1000, 5)).toBe(false)
+    detect("Shift", 2000)
+    expect(type(detect, "ABCD", 2005, 5)).toBe(true)
+    expect(onScan).toHaveBeenCalledExactlyOnceWith("ABCD")
+  })
+
+  it("starts over after Enter", () => {
+    const onScan = vi.fn()
+    const detect = createWedgeDetector(onScan)
+    type(detect, "REF001", 1000, 5)
+    expect(detect("Enter", 1040)).toBe(false)
+    expect(onScan).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,72 @@
+import { findProduct } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import { findBox, getColumnId, type Aisle, type Box, type SlotRef } from "@/lib/warehouse"
+
+export type ScanResult =
+  | { kind: "location"; code: string; slot: SlotRef; box: Box }
+  | { kind: "product"; code: string; sku: string }
+  | { kind: "unknown"; code: string }
+
+// Formats printed on our labels and on supplier packaging
+export const BARCODE_FORMATS = ["qr_code", "code_128", "code_39", "ean_13", "ean_8", "upc_a", "upc_e"]
+
+const LOCATION_CODE = /^([A-Z0-9]+)-C(\d+)-L(\d+)$/
+
+// Location codes are box ids, e.g. A-C3-L2 for aisle A, column 3, level 2
+export function parseLocationCode(code: string): SlotRef | null {
+  const match = LOCATION_CODE.exec(code.trim().toUpperCase())
+  if (!match) return null
+  const [, aisleId, column, level] = match
+  return { aisleId, columnId: getColumnId(aisleId, Number.parseInt(column)), level: Number.parseInt(level) }
+}
+
+export function resolveScan(code: string, aisles: Aisle[], products: Product[]): ScanResult {
+  const trimmed = code.trim()
+
+  const slot = parseLocationCode(trimmed)
+  const box = slot ? findBox(aisles, slot) : undefined
+  if (slot && box) return { kind: "location", code: trimmed, slot, box }
+
+  const product = findProduct(products, trimmed)
+  if (product) return { kind: "product", code: trimmed, sku: product.sku }
+
+  // Stock that predates the catalog is still found by its reference code
+  const stocked = aisles.some((aisle) =>
+    aisle.columns.some((column) =>
+      column.boxes.some((b) => b.references.some((ref) => ref.id.toLowerCase() === trimmed.toLowerCase())),
+    ),
+  )
+  return stocked ? { kind: "product", code: trimmed, sku: trimmed } : { kind: "unknown", code: trimmed }
+}
+
+export interface WedgeOptions {
+  // Scanners type far faster than people; anything slower than this between keys is treated as typing
+  maxKeyInterval?: number
+  minLength?: number
+}
+
+// Keyboard-wedge scanners "type" the code followed by Enter. Feed every keydown to the returned
+// handler; it calls onScan when a burst of fast keystrokes ends in Enter.
+export function createWedgeDetector(onScan: (code: string) => void, options: WedgeOptions = {}) {
+  const maxKeyInterval = options.maxKeyInterval ?? 50
+  const minLength = options.minLength ?? 4
+  let buffer = ""
+  let lastKeyAt = 0
+
+  return (key: string, timestamp: number) => {
+    if (timestamp - lastKeyAt > maxKeyInterval) buffer = ""
+    lastKeyAt = timestamp
+
+    if (key === "Enter") {
+      const code = buffer
+      buffer = ""
+      if (code.length >= minLength) {
+        onScan(code)
+        return true
+      }
+      return false
+    }
+    if (key.length === 1) buffer += key
+    return false
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import { buildEmptyAisles, createLayoutColumns } from "@/lib/layout"
+import {
+  calculateProximity,
+  DEFAULT_SCORING_SETTINGS,
+  getStockPriority,
+  getStrategyWeights,
+  scoreCandidates,
+  type ScoringCandidate,
+  type ScoringSettings,
+} from "@/lib/scoring"
+import { DEFAULT_GEOMETRY } from "@/lib/geometry"
+import type { Aisle, Reference } from "@/lib/warehouse"
+
+const aisles: Aisle[] = buildEmptyAisles({
+  geometry: DEFAULT_GEOMETRY,
+  aisles: [{ id: "A", columns: createLayoutColumns(3, 1) }],
+})
+
+// One candidate per column of aisle A, so they differ in distance but not in reach
+function candidates(references: Omit<Reference, "id" | "name">[]): ScoringCandidate[] {
+  return references.map((reference, index) => {
+    const aisle = aisles[0]
+    const column = aisle.columns[index]
+    const box = { ...column.boxes[0], references: [{ id: "REF001", name: "Plantilla", ...reference }] }
+    return { aisle, column: { ...column, boxes: [box] }, box, reference: box.references[0] }
+  })
+}
+
+const settings = (strategyId: ScoringSettings["strategyId"]): ScoringSettings => ({
+  ...DEFAULT_SCORING_SETTINGS,
+  strategyId,
+})
+
+describe("getStockPriority", () => {
+  it("uses the low and medium thresholds", () => {
+    expect(getStockPriority(50)).toBe(3)
+    expect(getStockPriority(100)).toBe(2)
+    expect(getStockPriority(101)).toBe(1)
+  })
+})
+
+describe("calculateProximity", () => {
+  it("maps the nearest box to 9 and the farthest to 1", () => {
+    expect(calculateProximity(0, 10)).toBe(9)
+    expect(calculateProximity(10, 10)).toBe(1)
+    expect(calculateProximity(3, 0)).toBe(9)
+  })
+})
+
+describe("getStrategyWeights", () => {
+  it("only uses the stored weights for the custom strategy", () => {
+    const custom = { priority: 1, accessibility: 0, proximity: 0, age: 0 }
+    expect(getStrategyWeights({ ...settings("fifo"), weights: custom }).age).toBe(0.7)
+    expect(getStrategyWeights({ ...settings("custom"), weights: custom })).toBe(custom)
+  })
+})
+
+describe("scoreCandidates", () => {
+  it("puts the oldest stock first with the FIFO strategy", () => {
+    const scored = scoreCandidates(
+      aisles,
+      candidates([
+        { quantity: 10, receivedAt: "2024-03-01T00:00:00Z" },
+        { quantity: 10, receivedAt: "2024-01-01T00:00:00Z" },
+        { quantity: 10, receivedAt: "2024-02-01T00:00:00Z" },
+      ]),
+      settings("fifo"),
+    )
+    expect(scored.map((location) => location.reference.receivedAt)).toEqual([
+      "2024-01-01T00:00:00Z",
+      "2024-02-01T00:00:00Z",
+      "2024-03-01T00:00:00Z",
+    ])
+    expect(scored[0].factors.age).toBe(5)
+    expect(scored[0].drivingFactor).toBe("age")
+  })
+
+  it("scores stock without a receipt date as neither old nor new", () => {
+    const scored = scoreCandidates(
+      aisles,
+      candidates([
+        { quantity: 10, receivedAt: "2024-03-01T00:00:00Z" },
+        { quantity: 10 },
+        { quantity: 10, receivedAt: "2024-01-01T00:00:00Z" },
+      ]),
+      settings("fifo"),
+    )
+    expect(scored.map((location) => [location.reference.receivedAt, location.factors.age])).toEqual([
+      ["2024-01-01T00:00:00Z", 5],
+      [undefined, 2.5],
+      ["2024-03-01T00:00:00Z", 0],
+    ])
+  })
+
+  it("puts the nearest box first with the nearest-first strategy", () => {
+    const scored = scoreCandidates(aisles, candidates([{ quantity: 10 }, { quantity: 10 }]), settings("nearest-first"))
+    expect(scored.map((location) => location.column.id)).toEqual(["A-C1", "A-C2"])
+    expect(scored[0].totalScore).toBeGreaterThan(scored[1].totalScore)
+  })
+
+  it("keeps the total on the 0-5 scale", () => {
+    const scored = scoreCandidates(aisles, candidates([{ quantity: 1 }, { quantity: 500 }]))
+    scored.forEach((location) => {
+      expect(location.totalScore).toBeGreaterThanOrEqual(0)
+      expect(location.totalScore).toBeLessThanOrEqual(5)
+    })
+  })
+})
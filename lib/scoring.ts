@@ -0,0 +1,195 @@
+import { assessAccessibility, DEFAULT_ACCESSIBILITY_CONTEXT, type AccessibilityContext } from "@/lib/accessibility"
+import { getDistanceFromEntrance, getMaxDistance } from "@/lib/geometry"
+import type { Aisle, Box, Column, Reference } from "@/lib/warehouse"
+
+// 9 for the box nearest the entrance down to 1 for the farthest, from the walking distance in metres
+export const calculateProximity = (distance: number, maxDistance: number): number =>
+  maxDistance > 0 ? Math.round(9 - (distance * 8) / maxDistance) : 9
+
+export type ScoreFactor = "priority" | "accessibility" | "proximity" | "age"
+
+export type ScoringWeights = Record<ScoreFactor, number>
+
+export type ScoringStrategyId =
+  "balanced" | "fifo" | "empty-small-first" | "nearest-first" | "most-accessible-first" | "custom"
+
+export interface ScoringStrategy {
+  id: ScoringStrategyId
+  name: string
+  description: string
+  weights: ScoringWeights
+}
+
+export interface ScoringSettings {
+  strategyId: ScoringStrategyId
+  // Only used by the "custom" strategy
+  weights: ScoringWeights
+  // Boxes at or below these quantities get priority 3 and 2 respectively
+  lowStockThreshold: number
+  mediumStockThreshold: number
+}
+
+export const SCORE_FACTOR_LABELS: Record<ScoreFactor, string> = {
+  priority: "Poco stock",
+  accessibility: "Accesibilidad",
+  proximity: "Proximidad",
+  age: "Antigüedad",
+}
+
+export const SCORING_STRATEGIES: ScoringStrategy[] = [
+  {
+    id: "balanced",
+    name: "Equilibrada",
+    description: "La puntuación original: vaciar cajas con poco stock, accesibilidad y proximidad",
+    weights: { priority: 0.4, accessibility: 0.35, proximity: 0.25, age: 0 },
+  },
+  {
+    id: "fifo",
+    name: "FIFO",
+    description: "Primero el stock que lleva más tiempo en el almacén",
+    weights: { priority: 0.1, accessibility: 0.1, proximity: 0.1, age: 0.7 },
+  },
+  {
+    id: "empty-small-first",
+    name: "Vaciar cajas pequeñas",
+    description: "Primero las cajas con menos unidades, para liberar huecos",
+    weights: { priority: 0.7, accessibility: 0.15, proximity: 0.15, age: 0 },
+  },
+  {
+    id: "nearest-first",
+    name: "Más cercana",
+    description: "Primero las ubicaciones más próximas a la entrada",
+    weights: { priority: 0.1, accessibility: 0.2, proximity: 0.7, age: 0 },
+  },
+  {
+    id: "most-accessible-first",
+    name: "Más accesible",
+    description: "Primero las cajas que se alcanzan sin mover nada",
+    weights: { priority: 0.1, accessibility: 0.7, proximity: 0.2, age: 0 },
+  },
+  {
+    id: "custom",
+    name: "Personalizada",
+    description: "Pesos definidos por el usuario",
+    weights: { priority: 0.25, accessibility: 0.25, proximity: 0.25, age: 0.25 },
+  },
+]
+
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  strategyId: "balanced",
+  weights: SCORING_STRATEGIES[SCORING_STRATEGIES.length - 1].weights,
+  lowStockThreshold: 50,
+  mediumStockThreshold: 100,
+}
+
+export function getStrategyWeights(settings: ScoringSettings): ScoringWeights {
+  if (settings.strategyId === "custom") return settings.weights
+  return (SCORING_STRATEGIES.find((strategy) => strategy.id === settings.strategyId) || SCORING_STRATEGIES[0]).weights
+}
+
+// Boxes running low are emptied first so they can be freed up
+export const getStockPriority = (quantity: number, settings: ScoringSettings = DEFAULT_SCORING_SETTINGS) =>
+  quantity <= settings.lowStockThreshold ? 3 : quantity <= settings.mediumStockThreshold ? 2 : 1
+
+const SETTINGS_KEY = "warehouse-scoring"
+
+// Stored per operator name, so each person on a shared device keeps their own weights
+export function loadScoringSettings(user: string): ScoringSettings {
+  if (typeof window === "undefined") return DEFAULT_SCORING_SETTINGS
+  try {
+    const stored = localStorage.getItem(`${SETTINGS_KEY}:${user}`)
+    return stored ? { ...DEFAULT_SCORING_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SCORING_SETTINGS
+  } catch {
+    return DEFAULT_SCORING_SETTINGS
+  }
+}
+
+export function saveScoringSettings(user: string, settings: ScoringSettings): void {
+  if (typeof window !== "undefined") {
+    localStorage.setItem(`${SETTINGS_KEY}:${user}`, JSON.stringify(settings))
+  }
+}
+
+export interface ScoringCandidate {
+  aisle: Aisle
+  column: Column
+  box: Box
+  reference: Reference
+}
+
+export interface ScoredLocation extends ScoringCandidate {
+  priority: number
+  accessibility: number
+  accessibilityReason: string
+  proximity: number
+  // Walking distance from the entrance, in metres
+  distance: number
+  // Each factor on a 0-5 scale before weighting
+  factors: Record<ScoreFactor, number>
+  totalScore: number
+  // The factor that contributed most to totalScore
+  drivingFactor: ScoreFactor
+}
+
+const SCORE_FACTORS: ScoreFactor[] = ["priority", "accessibility", "proximity", "age"]
+const NEUTRAL_AGE_FACTOR = 2.5
+
+// Scores every candidate on a 0-5 scale and returns them best first. Age is relative to the
+// candidates themselves: the oldest stock in the list scores 5, the newest 0. Stock without a
+// known receipt date scores in the middle and does not count towards the oldest and newest.
+export function scoreCandidates(
+  aisles: Aisle[],
+  candidates: ScoringCandidate[],
+  settings: ScoringSettings = DEFAULT_SCORING_SETTINGS,
+  context: AccessibilityContext = DEFAULT_ACCESSIBILITY_CONTEXT,
+): ScoredLocation[] {
+  const { geometry } = context
+  const weights = getStrategyWeights(settings)
+  const maxDistance = getMaxDistance(aisles, geometry)
+  const totalWeight = SCORE_FACTORS.reduce((sum, factor) => sum + weights[factor], 0) || 1
+
+  // NaN for stock received before dates were recorded
+  const receivedTimes = candidates.map((candidate) => Date.parse(candidate.reference.receivedAt || ""))
+  const knownTimes = receivedTimes.filter((time) => !Number.isNaN(time))
+  const oldest = Math.min(...knownTimes)
+  const newest = Math.max(...knownTimes)
+  const getAgeFactor = (time: number) =>
+    Number.isNaN(time) ? NEUTRAL_AGE_FACTOR : newest === oldest ? 5 : ((newest - time) / (newest - oldest)) * 5
+
+  return candidates
+    .map((candidate, index) => {
+      const priority = getStockPriority(candidate.reference.quantity, settings)
+      const assessment = assessAccessibility(candidate.aisle, candidate.column.id, candidate.box.level, context)
+      const accessibility = assessment.score
+      const distance = getDistanceFromEntrance(aisles, geometry, {
+        aisleId: candidate.aisle.id,
+        columnId: candidate.column.id,
+        level: candidate.box.level,
+      })
+      const proximity = calculateProximity(distance, maxDistance)
+      const factors: Record<ScoreFactor, number> = {
+        priority: (priority / 3) * 5,
+        accessibility: (accessibility / 3) * 5,
+        proximity: maxDistance > 0 ? (1 - distance / maxDistance) * 5 : 5,
+        age: getAgeFactor(receivedTimes[index]),
+      }
+
+      const drivingFactor = SCORE_FACTORS.reduce((best, factor) =>
+        factors[factor] * weights[factor] > factors[best] * weights[best] ? factor : best,
+      )
+      const totalScore = SCORE_FACTORS.reduce((sum, factor) => sum + factors[factor] * weights[factor], 0) / totalWeight
+
+      return {
+        ...candidate,
+        priority,
+        accessibility,
+        accessibilityReason: assessment.reason,
+        proximity,
+        distance,
+        factors,
+        totalScore,
+        drivingFactor,
+      }
+    })
+    .sort((a, b) => b.totalScore - a.totalScore)
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_ACCESSIBILITY_CONTEXT } from "@/lib/accessibility"
+import type { Product } from "@/lib/database"
+import { buildEmptyAisles, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+import {
+  EMPTY_SEARCH_FILTERS,
+  matchFields,
+  searchInventory,
+  splitHighlights,
+  tokenize,
+  type SearchFilters,
+} from "@/lib/search"
+import { adjustBoxReference, updateBox, type Aisle } from "@/lib/warehouse"
+
+function buildAisles(): Aisle[] {
+  let aisles = buildEmptyAisles({
+    ...DEFAULT_LAYOUT,
+    aisles: [
+      { id: "A", columns: createLayoutColumns(2, 3) },
+      { id: "B", columns: createLayoutColumns(2, 3) },
+    ],
+  })
+  const stock = (aisleId: string, column: number, level: number, id: string, name: string, quantity: number) => {
+    aisles = updateBox(aisles, { aisleId, columnId: `${aisleId}-C${column}`, level }, (box) =>
+      adjustBoxReference(box, { id, name, quantity: 0 }, quantity),
+    )
+  }
+  stock("A", 1, 1, "REF001", "Plantilla ortopédica", 40)
+  stock("A", 2, 3, "REF002", "Calcetín deportivo", 200)
+  stock("B", 1, 2, "REF001", "Plantilla ortopédica", 5)
+  return aisles
+}
+
+const products = [{ sku: "REF002", barcode: "8412345678905", category: "Textil" } as Product]
+
+const search = (query: string, filters: Partial<SearchFilters> = {}) =>
+  searchInventory(
+    buildAisles(),
+    products,
+    query,
+    { ...EMPTY_SEARCH_FILTERS, ...filters },
+    DEFAULT_ACCESSIBILITY_CONTEXT,
+  )
+
+describe("tokenize", () => {
+  it("lower-cases, strips accents and splits on punctuation", () => {
+    expect(tokenize("  Plantilla ORTOPÉDICA/ref-001 ")).toEqual(["plantilla", "ortopedica", "ref", "001"])
+  })
+})
+
+describe("matchFields", () => {
+  it("prefers matches at the start of a word", () => {
+    expect(matchFields(["plan"], { name: "Plantilla" })!.score).toBe(1)
+    expect(matchFields(["tilla"], { name: "Plantilla" })!.score).toBe(0.8)
+  })
+
+  it("tolerates typos in words but not in codes", () => {
+    expect(matchFields(["platnilla"], { name: "Plantilla" })).not.toBeNull()
+    expect(matchFields(["ref003"], { sku: "REF001" })).toBeNull()
+  })
+
+  it("needs every token somewhere and maps spans back to the original text", () => {
+    const match = matchFields(["ortopedica", "ref001"], { sku: "REF001", name: "Plantilla ortopédica" })
+    expect(match!.spans).toEqual({ sku: [{ start: 0, end: 6 }], name: [{ start: 10, end: 20 }] })
+    expect(matchFields(["ortopedica", "zapato"], { name: "Plantilla ortopédica" })).toBeNull()
+  })
+})
+
+describe("searchInventory", () => {
+  it("yields one hit per matching reference and box", () => {
+    expect(search("plantilla").map((hit) => hit.box.id)).toEqual(["A-C1-L1", "B-C1-L2"])
+  })
+
+  it("matches catalogue fields such as the barcode", () => {
+    expect(search("8412345678905").map((hit) => hit.reference.id)).toEqual(["REF002"])
+  })
+
+  it("applies the aisle, level and quantity filters", () => {
+    expect(search("plantilla", { aisleId: "B" })).toHaveLength(1)
+    expect(search("", { level: 3 }).map((hit) => hit.reference.id)).toEqual(["REF002"])
+    expect(search("", { minQuantity: 10, maxQuantity: 100 }).map((hit) => hit.box.id)).toEqual(["A-C1-L1"])
+  })
+})
+
+describe("splitHighlights", () => {
+  it("never highlights the same characters twice when spans overlap", () => {
+    expect(
+      splitHighlights("Plantilla", [
+        { start: 0, end: 4 },
+        { start: 2, end: 6 },
+      ]),
+    ).toEqual([
+      { text: "Plan", match: true },
+      { text: "ti", match: true },
+      { text: "lla", match: false },
+    ])
+  })
+})
@@ -0,0 +1,214 @@
+import { assessAccessibility, type AccessibilityContext } from "@/lib/accessibility"
+import { findProduct } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import type { ScoringCandidate } from "@/lib/scoring"
+import type { Aisle, Reference } from "@/lib/warehouse"
+
+export type SearchField = "sku" | "name" | "category" | "barcode"
+
+// Half-open character range in the original (not normalized) text
+export interface MatchSpan {
+  start: number
+  end: number
+}
+
+export interface ReferenceMatch {
+  // 0-1, 1 being every token found verbatim at the start of a word
+  score: number
+  spans: Partial<Record<SearchField, MatchSpan[]>>
+}
+
+export interface SearchFilters {
+  aisleId: string
+  // 0 means any level
+  level: number
+  minQuantity: number | null
+  maxQuantity: number | null
+  // 1 accepts everything, 3 only easy to reach boxes
+  minAccessibility: number
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  aisleId: "",
+  level: 0,
+  minQuantity: null,
+  maxQuantity: null,
+  minAccessibility: 1,
+}
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  filters.aisleId !== "" ||
+  filters.level > 0 ||
+  filters.minQuantity !== null ||
+  filters.maxQuantity !== null ||
+  filters.minAccessibility > 1
+
+export interface SearchHit extends ScoringCandidate {
+  match: ReferenceMatch
+}
+
+// Lower case without accents, keeping a map back to the original positions so spans can be highlighted
+// on the text as written ("Ortopédica" and "ortopedica" both match "ORTOPÉDICA")
+function normalize(text: string): { value: string; positions: number[] } {
+  let value = ""
+  const positions: number[] = []
+  let offset = 0
+  for (const char of text) {
+    const folded = char
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+    for (const part of folded) {
+      value += part
+      positions.push(offset)
+    }
+    offset += char.length
+  }
+  positions.push(text.length)
+  return { value, positions }
+}
+
+export const normalizeText = (text: string) => normalize(text).value
+
+export const tokenize = (query: string) =>
+  normalizeText(query)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+
+// Optimal string alignment distance: insertions, deletions, substitutions and swapped neighbours
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Codes must be typed exactly (REF001 is not a typo of REF002); words get one typo from 4 letters, two from 8
+const allowedTypos = (token: string) => (/\d/.test(token) ? 0 : token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0)
+
+function matchToken(
+  token: string,
+  field: { value: string; positions: number[] },
+): { score: number; span: MatchSpan } | null {
+  const toSpan = (start: number, end: number): MatchSpan => ({
+    start: field.positions[start],
+    end: field.positions[end],
+  })
+
+  const index = field.value.indexOf(token)
+  if (index !== -1) {
+    const atWordStart = index === 0 || !/[a-z0-9]/.test(field.value[index - 1])
+    return { score: atWordStart ? 1 : 0.8, span: toSpan(index, index + token.length) }
+  }
+
+  const typos = allowedTypos(token)
+  if (typos === 0) return null
+
+  let best: { score: number; span: MatchSpan } | null = null
+  for (const word of field.value.matchAll(/[a-z0-9]+/g)) {
+    const start = word.index ?? 0
+    // Compare with the whole word and with its beginning, so half-typed words with a typo still match
+    for (const length of new Set([word[0].length, Math.min(word[0].length, token.length)])) {
+      const distance = editDistance(token, word[0].slice(0, length))
+      if (distance <= typos) {
+        const score = 0.6 - distance * 0.1
+        if (!best || score > best.score) best = { score, span: toSpan(start, start + length) }
+      }
+    }
+  }
+  return best
+}
+
+// Every token has to be found in at least one field; the best field wins for each token
+export function matchFields(tokens: string[], fields: Partial<Record<SearchField, string>>): ReferenceMatch | null {
+  if (tokens.length === 0) return { score: 1, spans: {} }
+
+  const normalized = Object.entries(fields)
+    .filter(([, text]) => text)
+    .map(([field, text]) => ({ field: field as SearchField, ...normalize(text as string) }))
+
+  const spans: ReferenceMatch["spans"] = {}
+  let total = 0
+  for (const token of tokens) {
+    let best: { field: SearchField; score: number; span: MatchSpan } | null = null
+    for (const field of normalized) {
+      const match = matchToken(token, field)
+      if (match && (!best || match.score > best.score)) best = { field: field.field, ...match }
+    }
+    if (!best) return null
+    total += best.score
+    spans[best.field] = [...(spans[best.field] || []), best.span]
+  }
+  return { score: total / tokens.length, spans }
+}
+
+export function matchReference(tokens: string[], reference: Reference, products: Product[]): ReferenceMatch | null {
+  const product = findProduct(products, reference.id)
+  return matchFields(tokens, {
+    sku: reference.id,
+    name: reference.name,
+    category: product?.category,
+    barcode: product?.barcode,
+  })
+}
+
+// Every reference of every box that matches the query and the filters; a box holding two
+// matching references yields two hits
+export function searchInventory(
+  aisles: Aisle[],
+  products: Product[],
+  query: string,
+  filters: SearchFilters,
+  context: AccessibilityContext,
+): SearchHit[] {
+  const tokens = tokenize(query)
+  const hits: SearchHit[] = []
+
+  aisles.forEach((aisle) => {
+    if (filters.aisleId && aisle.id !== filters.aisleId) return
+    aisle.columns.forEach((column) =>
+      column.boxes.forEach((box) => {
+        if (filters.level > 0 && box.level !== filters.level) return
+        if (
+          filters.minAccessibility > 1 &&
+          assessAccessibility(aisle, column.id, box.level, context).score < filters.minAccessibility
+        ) {
+          return
+        }
+        box.references.forEach((reference) => {
+          if (filters.minQuantity !== null && reference.quantity < filters.minQuantity) return
+          if (filters.maxQuantity !== null && reference.quantity > filters.maxQuantity) return
+          const match = matchReference(tokens, reference, products)
+          if (match) hits.push({ aisle, column, box, reference, match })
+        })
+      }),
+    )
+  })
+
+  return hits
+}
+
+// Splits text into plain and highlighted parts, merging overlapping spans
+export function splitHighlights(text: string, spans: MatchSpan[] = []): { text: string; match: boolean }[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start)
+  const parts: { text: string; match: boolean }[] = []
+  let cursor = 0
+  sorted.forEach((span) => {
+    const start = Math.max(cursor, span.start)
+    if (span.end <= start) return
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), match: false })
+    parts.push({ text: text.slice(start, span.end), match: true })
+    cursor = span.end
+  })
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), match: false })
+  return parts
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import { createProductDraft } from "@/lib/catalog"
+import type { InventoryItem, Product } from "@/lib/database"
+import { buildAislesFromItems, DEFAULT_LAYOUT } from "@/lib/layout"
+import {
+  findWorsenedAlerts,
+  getStockAlertLevel,
+  getStockAlerts,
+  getSuggestedQuantity,
+  type StockAlert,
+} from "@/lib/stock-alerts"
+
+const product = (sku: string, min_stock: number, reorder_point: number, reorder_quantity = 0): Product => ({
+  ...createProductDraft(sku, `Producto ${sku}`),
+  min_stock,
+  reorder_point,
+  reorder_quantity,
+  id: sku,
+  created_at: "",
+  updated_at: "",
+})
+
+const item = (reference: string, quantity: number, shelf: number): InventoryItem => ({
+  id: `${reference}-${shelf}`,
+  reference,
+  description: reference,
+  quantity,
+  location: "",
+  aisle: "A",
+  column: 1,
+  shelf,
+  created_at: "",
+  updated_at: "",
+})
+
+describe("getStockAlertLevel", () => {
+  it("goes from reorder to critical to out as stock falls", () => {
+    const watched = product("REF001", 5, 10)
+    expect([11, 10, 5, 4, 0, -1].map((stock) => getStockAlertLevel(watched, stock))).toEqual([
+      null,
+      "reorder",
+      "reorder",
+      "critical",
+      "out",
+      "out",
+    ])
+  })
+
+  it("never alerts for products without thresholds", () => {
+    expect(getStockAlertLevel(product("REF001", 0, 0), 0)).toBeNull()
+  })
+})
+
+describe("getSuggestedQuantity", () => {
+  it("orders whole lots until stock is back above the reorder point", () => {
+    expect(getSuggestedQuantity(product("REF001", 5, 10, 6), 4)).toBe(12)
+    expect(getSuggestedQuantity(product("REF001", 5, 10, 6), 10)).toBe(6)
+  })
+
+  it("tops up to twice the threshold without a lot size", () => {
+    expect(getSuggestedQuantity(product("REF001", 5, 10), 4)).toBe(16)
+    expect(getSuggestedQuantity(product("REF001", 8, 0), 0)).toBe(16)
+  })
+})
+
+describe("getStockAlerts", () => {
+  it("adds up stock across boxes and lists the worst alerts first", () => {
+    const aisles = buildAislesFromItems(DEFAULT_LAYOUT, [
+      item("REF002", 3, 1),
+      item("REF002", 4, 2),
+      item("REF003", 2, 3),
+    ])
+    const alerts = getStockAlerts(
+      [product("REF001", 1, 0), product("REF002", 5, 10), product("REF003", 5, 0), product("REF004", 0, 0)],
+      aisles,
+    )
+    expect(alerts.map((alert) => [alert.sku, alert.level, alert.stock])).toEqual([
+      ["REF001", "out", 0],
+      ["REF003", "critical", 2],
+      ["REF002", "reorder", 7],
+    ])
+    expect(alerts[2]).toMatchObject({ name: "Producto REF002", unit: "ud", minStock: 5, reorderPoint: 10 })
+  })
+})
+
+describe("findWorsenedAlerts", () => {
+  const alert = (stock: number): StockAlert => ({
+    sku: "REF001",
+    name: "Producto REF001",
+    unit: "ud",
+    stock,
+    minStock: 5,
+    reorderPoint: 10,
+    level: getStockAlertLevel(product("REF001", 5, 10), stock)!,
+    suggestedQuantity: 0,
+  })
+
+  it("reports alerts whose level got worse because stock went down", () => {
+    expect(findWorsenedAlerts(new Map([["REF001", 12]]), [alert(8)])).toHaveLength(1)
+    expect(findWorsenedAlerts(new Map([["REF001", 8]]), [alert(3)])).toHaveLength(1)
+  })
+
+  it("stays quiet when the level holds, stock went up or only a threshold changed", () => {
+    expect(findWorsenedAlerts(new Map([["REF001", 9]]), [alert(8)])).toEqual([])
+    expect(findWorsenedAlerts(new Map([["REF001", 0]]), [alert(3)])).toEqual([])
+    expect(findWorsenedAlerts(new Map([["REF001", 3]]), [alert(3)])).toEqual([])
+  })
+})
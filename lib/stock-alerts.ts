@@ -0,0 +1,85 @@
+import { getStockBySku } from "@/lib/catalog"
+import type { Product } from "@/lib/database"
+import type { Aisle } from "@/lib/warehouse"
+
+// Worst first, so alerts sort and compare by index
+export const STOCK_ALERT_LEVELS = ["out", "critical", "reorder"] as const
+
+export type StockAlertLevel = (typeof STOCK_ALERT_LEVELS)[number]
+
+export const STOCK_ALERT_LABELS: Record<StockAlertLevel, string> = {
+  out: "Sin stock",
+  critical: "Bajo mínimo",
+  reorder: "Pedir",
+}
+
+export interface StockAlert {
+  sku: string
+  name: string
+  unit: string
+  // Units across every box
+  stock: number
+  minStock: number
+  reorderPoint: number
+  level: StockAlertLevel
+  suggestedQuantity: number
+}
+
+function getLevelForThresholds(stock: number, minStock: number, reorderPoint: number): StockAlertLevel | null {
+  if (minStock <= 0 && reorderPoint <= 0) return null
+  if (stock <= 0) return "out"
+  if (stock < minStock) return "critical"
+  if (stock <= reorderPoint) return "reorder"
+  return null
+}
+
+// Products without thresholds never alert, whatever their stock
+export const getStockAlertLevel = (product: Product, stock: number): StockAlertLevel | null =>
+  getLevelForThresholds(stock, product.min_stock, product.reorder_point)
+
+// Whole lots until stock is back above the reorder point, or up to twice the reorder point without a lot size
+export function getSuggestedQuantity(product: Product, stock: number): number {
+  const threshold = Math.max(product.reorder_point, product.min_stock)
+  if (product.reorder_quantity > 0) {
+    return Math.max(1, Math.floor((threshold - stock) / product.reorder_quantity) + 1) * product.reorder_quantity
+  }
+  return Math.max(0, threshold * 2 - stock)
+}
+
+export function getStockAlerts(products: Product[], aisles: Aisle[]): StockAlert[] {
+  const stockBySku = getStockBySku(aisles)
+  const alerts: StockAlert[] = []
+
+  products.forEach((product) => {
+    const stock = stockBySku.get(product.sku) || 0
+    const level = getStockAlertLevel(product, stock)
+    if (!level) return
+    alerts.push({
+      sku: product.sku,
+      name: product.name,
+      unit: product.unit,
+      stock,
+      minStock: product.min_stock,
+      reorderPoint: product.reorder_point,
+      level,
+      suggestedQuantity: getSuggestedQuantity(product, stock),
+    })
+  })
+
+  return alerts.sort(
+    (a, b) =>
+      STOCK_ALERT_LEVELS.indexOf(a.level) - STOCK_ALERT_LEVELS.indexOf(b.level) ||
+      a.sku.localeCompare(b.sku, undefined, { numeric: true }),
+  )
+}
+
+// Alerts whose level got worse because stock went down since the previous totals, so that editing
+// a threshold or loading the page does not raise notifications
+export function findWorsenedAlerts(previousStock: Map<string, number>, current: StockAlert[]): StockAlert[] {
+  return current.filter((alert) => {
+    const before = previousStock.get(alert.sku) || 0
+    if (alert.stock >= before) return false
+    const previousLevel = getLevelForThresholds(before, alert.minStock, alert.reorderPoint)
+    return !previousLevel || STOCK_ALERT_LEVELS.indexOf(alert.level) < STOCK_ALERT_LEVELS.indexOf(previousLevel)
+  })
+}
@@ -0,0 +1,24 @@
+import type { StorageError, StorageErrorCode } from "@/lib/database"
+
+export const STORAGE_ERROR_LABELS: Record<StorageErrorCode, string> = {
+  rate_limited: "Se ha superado el límite de peticiones del servidor",
+  not_found: "No se encontró el registro",
+  validation: "Los datos no son válidos",
+  network: "No se pudo conectar con el servidor",
+  conflict: "Otro usuario modificó los mismos datos",
+  misconfigured_sheet: "La hoja de cálculo no existe o no tiene las columnas esperadas",
+  forbidden: "No tienes acceso al almacén",
+  unknown: "Error inesperado",
+}
+
+export function getRetryHint(error: StorageError): string {
+  if (!error.retryable) return ""
+  if (error.retryAfterMs) return ` Vuelve a intentarlo en ${Math.ceil(error.retryAfterMs / 1000)} s.`
+  return " Vuelve a intentarlo en unos momentos."
+}
+
+// The backend message is kept after the label so support can tell similar failures apart
+export function describeStorageError(error: StorageError | null): string {
+  if (!error) return STORAGE_ERROR_LABELS.unknown
+  return `${STORAGE_ERROR_LABELS[error.code]}: ${error.message.replace(/\.$/, "")}.${getRetryHint(error)}`
+}
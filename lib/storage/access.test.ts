@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { checkAccess, hasPassword } from "./access"
+
+const request = (headers: Record<string, string> = {}, method = "GET") =>
+  new Request("http://almacen.example/api/items", { method, headers: { host: "almacen.example", ...headers } })
+
+const basic = (credentials: string) => ({ authorization: `Basic ${btoa(credentials)}` })
+
+describe("checkAccess", () => {
+  it("accepts requests from the app's own pages and reads from outside a browser", () => {
+    expect(checkAccess(request({ "sec-fetch-site": "same-origin" }))).toBeNull()
+    expect(checkAccess(request({ origin: "http://almacen.example" }))).toBeNull()
+    expect(checkAccess(request())).toBeNull()
+  })
+
+  it("rejects requests made by other sites", () => {
+    expect(checkAccess(request({ "sec-fetch-site": "cross-site" }))?.code).toBe("forbidden")
+    expect(checkAccess(request({ "sec-fetch-site": "same-site" }))?.code).toBe("forbidden")
+    expect(checkAccess(request({ origin: "https://evil.example" }))?.code).toBe("forbidden")
+    expect(checkAccess(request({ origin: "null" }))?.code).toBe("forbidden")
+  })
+
+  it("takes writes from outside a browser only with the password", () => {
+    expect(checkAccess(request({}, "POST"), "")?.code).toBe("forbidden")
+    expect(checkAccess(request({}, "DELETE"), "")?.code).toBe("forbidden")
+    expect(checkAccess(request({ "sec-fetch-site": "same-origin" }, "POST"), "")).toBeNull()
+    expect(checkAccess(request({ origin: "http://almacen.example" }, "PUT"), "")).toBeNull()
+
+    expect(checkAccess(request(basic("almacen:s3creto"), "POST"), "s3creto")).toBeNull()
+    expect(checkAccess(request({}, "POST"), "s3creto")?.code).toBe("forbidden")
+  })
+})
+
+describe("hasPassword", () => {
+  it("lets everything through when no password is configured", () => {
+    expect(hasPassword(request(), "")).toBe(true)
+  })
+
+  it("takes the password from basic auth with any user name", () => {
+    expect(hasPassword(request(basic("almacen:s3creto")), "s3creto")).toBe(true)
+    expect(hasPassword(request(basic(":s3creto")), "s3creto")).toBe(true)
+    expect(hasPassword(request(basic("almacen:s3cret")), "s3creto")).toBe(false)
+    expect(hasPassword(request(basic("s3creto")), "s3creto")).toBe(false)
+    expect(hasPassword(request({ authorization: "Bearer s3creto" }), "s3creto")).toBe(false)
+    expect(hasPassword(request(), "s3creto")).toBe(false)
+  })
+})
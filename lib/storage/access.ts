@@ -0,0 +1,67 @@
+import { StorageError } from "./errors"
+
+// Who may use the route handlers in app/api. Browsers mark where a request comes from, so another site cannot make
+// a visitor's browser read or write the sheet through them. With WAREHOUSE_PASSWORD set every request also needs
+// that password as HTTP basic auth; middleware.ts has the browser ask for it when the pages are opened, and the
+// browser then sends it along with every request to app/api. Without it, only browser pages may write.
+
+// "none" is a request the user made directly, e.g. by typing the URL
+const ALLOWED_FETCH_SITES = ["same-origin", "none"]
+
+const getHost = (request: Request) =>
+  request.headers.get("x-forwarded-host") || request.headers.get("host") || new URL(request.url).host
+
+function isSameOrigin(request: Request): boolean {
+  const fetchSite = request.headers.get("sec-fetch-site")
+  if (fetchSite) return ALLOWED_FETCH_SITES.includes(fetchSite)
+
+  // Older browsers only send Origin; requests without either are not from a browser page, see isFromBrowser
+  const origin = request.headers.get("origin")
+  if (!origin) return true
+  try {
+    return new URL(origin).host === getHost(request)
+  } catch {
+    return false
+  }
+}
+
+// Browsers send one of these with every write. Scripts and curl send neither, and could say anything if they did,
+// so only the password really keeps them out.
+const isFromBrowser = (request: Request) => request.headers.has("sec-fetch-site") || request.headers.has("origin")
+
+// Compares every character, so the time taken does not tell how much of a guess was right
+function safeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index % Math.max(b.length, 1))
+  }
+  return difference === 0
+}
+
+// Any user name is accepted; there is one password for the whole warehouse
+export function hasPassword(request: Request, password = process.env.WAREHOUSE_PASSWORD): boolean {
+  if (!password) return true
+  const [scheme, encoded] = (request.headers.get("authorization") || "").split(" ")
+  if (scheme?.toLowerCase() !== "basic" || !encoded) return false
+  try {
+    const credentials = atob(encoded)
+    const separator = credentials.indexOf(":")
+    return separator !== -1 && safeEqual(credentials.slice(separator + 1), password)
+  } catch {
+    return false
+  }
+}
+
+// Null when the request may go through
+export function checkAccess(request: Request, password = process.env.WAREHOUSE_PASSWORD): StorageError | null {
+  if (!isSameOrigin(request)) {
+    return new StorageError("forbidden", "Requests from other sites are not accepted")
+  }
+  if (!password && request.method !== "GET" && !isFromBrowser(request)) {
+    return new StorageError("forbidden", "Writes from outside the app need WAREHOUSE_PASSWORD to be set")
+  }
+  if (!hasPassword(request, password)) {
+    return new StorageError("forbidden", "Missing or wrong warehouse password")
+  }
+  return null
+}
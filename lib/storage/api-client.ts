@@ -0,0 +1,133 @@
+import { fromErrorBody, fromHttpResponse, StorageError, toStorageError, type StorageErrorBody } from "./errors"
+import type { SheetCheck } from "./stein-config"
+import type { SteinConnectionSummary } from "./stein-server"
+import type { StorageRecord, WriteConflict } from "./types"
+
+// Typed wrappers around the route handlers in app/api. Failures come out as the StorageError the server reported.
+
+// Sent with writes so the change the server publishes for them can be told apart from other clients' changes
+export const CLIENT_ID_HEADER = "X-Client-Id"
+
+// Makes an update or delete conditional: the server only writes while the row still has this updated_at
+export const EXPECTED_VERSION_HEADER = "X-Expected-Updated-At"
+
+export type WriteOutcome<T extends StorageRecord> =
+  { record: T; conflict: null } | { record: null; conflict: WriteConflict<T> }
+
+// Set on the StorageError of a 409, with the row as the server holds it now
+class ConflictError<T extends StorageRecord> extends StorageError {
+  constructor(
+    message: string,
+    readonly remote: T | null,
+  ) {
+    super("conflict", message, { status: 409 })
+  }
+}
+
+async function requestJson<R>(
+  url: string,
+  options: RequestInit = {},
+  headers: Record<string, string> = {},
+): Promise<R> {
+  const method = options.method || "GET"
+  let response: Response
+  try {
+    response = await fetch(url, {
+      ...options,
+      headers: { "Content-Type": "application/json", ...headers },
+      cache: "no-store",
+    })
+  } catch (error) {
+    throw toStorageError(error, "network")
+  }
+
+  const text = await response.text()
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch (error) {
+    if (response.ok) {
+      // Usually a response cut short, so worth another try
+      throw new StorageError("network", "Invalid JSON in API response", { cause: error })
+    }
+  }
+  if (!response.ok) {
+    const error = fromErrorBody(body, response.status)
+    if (error?.code === "conflict" && body && typeof body === "object" && "remote" in body) {
+      throw new ConflictError(error.message, body.remote as StorageRecord | null)
+    }
+    // Errors that did not come from the route handlers, e.g. a proxy in between
+    throw error || fromHttpResponse(response, text, method)
+  }
+  return body as R
+}
+
+export interface CollectionClient<T extends StorageRecord> {
+  list(limit?: number): Promise<T[]>
+  // restore puts back rows that were stored before, see CollectionValidation
+  insert(records: T[], options?: { restore?: boolean }): Promise<T[]>
+  // Without expectedUpdatedAt the write is unconditional and never comes back as a conflict
+  update(id: string, updates: Partial<T>, expectedUpdatedAt?: string): Promise<WriteOutcome<T>>
+  remove(id: string, expectedUpdatedAt?: string): Promise<WriteConflict<T> | null>
+}
+
+// clientId is the change feed's, when the page has one
+export function createCollectionClient<T extends StorageRecord>(path: string, clientId?: string): CollectionClient<T> {
+  const recordUrl = (id: string) => `${path}/${encodeURIComponent(id)}`
+  const headers: Record<string, string> = clientId ? { [CLIENT_ID_HEADER]: clientId } : {}
+  const conditional = (expectedUpdatedAt?: string) =>
+    expectedUpdatedAt === undefined ? headers : { ...headers, [EXPECTED_VERSION_HEADER]: expectedUpdatedAt }
+  // A 409 is an answer, not a failure: the conflict is returned for the caller to resolve
+  const toConflict = (id: string, expectedUpdatedAt: string | undefined, error: unknown): WriteConflict<T> => {
+    if (!(error instanceof ConflictError) || expectedUpdatedAt === undefined) throw error
+    return { id, expectedUpdatedAt, remote: error.remote as T | null }
+  }
+  return {
+    async list(limit) {
+      const { records } = await requestJson<{ records: T[] }>(limit ? `${path}?limit=${limit}` : path)
+      return records
+    },
+    async insert(records, { restore = false } = {}) {
+      const body = JSON.stringify(restore ? { records, restore } : { records })
+      return (await requestJson<{ records: T[] }>(path, { method: "POST", body }, headers)).records
+    },
+    async update(id, updates, expectedUpdatedAt) {
+      const body = JSON.stringify({ updates })
+      try {
+        const { record } = await requestJson<{ record: T }>(
+          recordUrl(id),
+          { method: "PUT", body },
+          conditional(expectedUpdatedAt),
+        )
+        return { record, conflict: null }
+      } catch (error) {
+        return { record: null, conflict: toConflict(id, expectedUpdatedAt, error) }
+      }
+    },
+    async remove(id, expectedUpdatedAt) {
+      try {
+        await requestJson(recordUrl(id), { method: "DELETE" }, conditional(expectedUpdatedAt))
+        return null
+      } catch (error) {
+        return toConflict(id, expectedUpdatedAt, error)
+      }
+    },
+  }
+}
+
+export type SheetCheckBody = Omit<SheetCheck, "error"> & { error: StorageErrorBody | null }
+
+export const connectionClient = {
+  async getSummary(): Promise<SteinConnectionSummary> {
+    return (await requestJson<{ connection: SteinConnectionSummary }>("/api/connection")).connection
+  },
+
+  // Runs on the server, which checks every collection's sheet with its own credentials
+  async test(): Promise<SheetCheck[]> {
+    const { checks } = await requestJson<{ checks: SheetCheckBody[] }>("/api/connection", { method: "POST" })
+    return checks.map((check) => ({
+      ...check,
+      error: check.error && (fromErrorBody(check.error) || new StorageError("unknown", check.error.error)),
+    }))
+  },
+}
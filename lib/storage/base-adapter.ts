@@ -0,0 +1,275 @@
+import type { ChangeFeed } from "./change-feed"
+import { StorageError } from "./errors"
+import type {
+  BulkDeleteOptions,
+  BulkOptions,
+  CollectionConfig,
+  DatabaseResponse,
+  NewRecord,
+  RecordChange,
+  RecordUpdate,
+  RowFailure,
+  StorageAdapter,
+  StorageBackend,
+  StorageRecord,
+  SyncStatus,
+  WriteConflict,
+  WritePrecondition,
+} from "./types"
+
+export function generateId(): string {
+  if (typeof window !== "undefined" && window.crypto && window.crypto.randomUUID) {
+    return window.crypto.randomUUID()
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0
+    const v = c == "x" ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Restoring a row expects it to be gone; one that is back already was re-created or restored by someone else
+export const restoreConflict = <T extends StorageRecord>(item: T, current: T | undefined): WriteConflict<T> | null =>
+  current ? { id: item.id, expectedUpdatedAt: item.updated_at, remote: current } : null
+
+// The conflict to report when `current` (the stored row, or undefined if it is gone) fails the precondition.
+// An empty expected version is a row stored without one, and still has to match.
+export function checkPrecondition<T extends StorageRecord>(
+  id: string,
+  current: T | undefined,
+  precondition: WritePrecondition = {},
+): WriteConflict<T> | null {
+  const { expectedUpdatedAt } = precondition
+  if (expectedUpdatedAt === undefined) return null
+  if (current && current.updated_at === expectedUpdatedAt) return null
+  return { id, expectedUpdatedAt, remote: current || null }
+}
+
+// Rows that succeeded go in `data` even when others failed, so callers can tell what was written
+export function bulkResponse<D, R extends StorageRecord>(
+  data: D[],
+  failures: RowFailure<R>[],
+  total: number,
+): DatabaseResponse<D[], R> {
+  if (failures.length === 0) return { data, error: null }
+  const [first] = failures
+  return {
+    data,
+    error: new StorageError(first.error.code, `${failures.length} of ${total} rows failed: ${first.error.message}`, {
+      retryable: failures.some((failure) => failure.error.retryable),
+      retryAfterMs: first.error.retryAfterMs,
+      status: first.error.status,
+    }),
+    conflict: failures.find((failure) => failure.conflict)?.conflict,
+    failures,
+  }
+}
+
+export const getConflictError = (conflict: WriteConflict<StorageRecord>) =>
+  new StorageError("conflict", conflict.remote ? "Modified by another user" : "Deleted by another user")
+
+export const conflictResponse = <R, T extends StorageRecord>(conflict: WriteConflict<T>): DatabaseResponse<R, T> => ({
+  data: null,
+  error: getConflictError(conflict),
+  conflict,
+})
+
+export const conflictFailure = <T extends StorageRecord>(index: number, conflict: WriteConflict<T>): RowFailure<T> => ({
+  index,
+  id: conflict.id,
+  error: getConflictError(conflict),
+  conflict,
+})
+
+// A row of a bulk write that went through the single-row method and failed
+const toRowFailure = <T extends StorageRecord>(
+  index: number,
+  id: string | null,
+  result: DatabaseResponse<unknown, T>,
+  message: string,
+): RowFailure<T> => ({
+  index,
+  id,
+  error: result.error || new StorageError("unknown", message),
+  conflict: result.conflict,
+})
+
+export abstract class BaseStorageAdapter<T extends StorageRecord> implements StorageAdapter<T> {
+  abstract readonly backend: StorageBackend
+  protected subscribers: ((items: T[]) => void)[] = []
+  protected lastDataCache: T[] = []
+  protected refreshInterval: ReturnType<typeof setInterval> | null = null
+  // Adapters backed by a remote store poll it; local ones only notify after their own writes
+  protected pollIntervalMs: number | null = null
+  // Shared stores also push row changes to other clients through the change feed
+  protected changeFeed: ChangeFeed | null = null
+  private unsubscribeFeed: (() => void) | null = null
+
+  constructor(protected collection: CollectionConfig<T>) {}
+
+  abstract insertItem(item: NewRecord<T>): Promise<DatabaseResponse<T>>
+  abstract selectItems(): Promise<DatabaseResponse<T[]>>
+  abstract updateItem(
+    id: string,
+    updates: Partial<T>,
+    precondition?: WritePrecondition,
+  ): Promise<DatabaseResponse<T, T>>
+  abstract deleteItem(id: string, precondition?: WritePrecondition): Promise<DatabaseResponse<boolean, T>>
+  abstract restoreItem(item: T): Promise<DatabaseResponse<T, T>>
+
+  async initialize(): Promise<void> {}
+
+  isFallbackMode(): boolean {
+    return false
+  }
+
+  getFallbackReason(): string {
+    return ""
+  }
+
+  getSyncStatus(): SyncStatus<T> {
+    return { pending: 0, conflicts: [] }
+  }
+
+  clearSyncConflicts(): void {}
+
+  async reconnect(): Promise<boolean> {
+    return true
+  }
+
+  protected createRecord(item: NewRecord<T>): T {
+    const now = new Date().toISOString()
+    return { ...item, id: generateId(), created_at: now, updated_at: now } as T
+  }
+
+  // Generic per-row versions; adapters that can batch override them
+
+  async insertMany(items: NewRecord<T>[], options: BulkOptions = {}): Promise<DatabaseResponse<T[]>> {
+    const created: T[] = []
+    const failures: RowFailure<never>[] = []
+    for (const [index, item] of items.entries()) {
+      const result = await this.insertItem(item)
+      if (result.data) created.push(result.data)
+      else failures.push(toRowFailure(index, null, result, "Error inserting item"))
+      options.onProgress?.({ operation: "insert", done: index + 1, total: items.length })
+    }
+    return bulkResponse(created, failures, items.length)
+  }
+
+  async updateMany(changes: RecordUpdate<T>[], options: BulkOptions = {}): Promise<DatabaseResponse<T[], T>> {
+    const updated: T[] = []
+    const failures: RowFailure<T>[] = []
+    for (const [index, change] of changes.entries()) {
+      const result = await this.updateItem(change.id, change.updates, change)
+      if (result.data) updated.push(result.data)
+      else failures.push(toRowFailure(index, change.id, result, "Error updating item"))
+      options.onProgress?.({ operation: "update", done: index + 1, total: changes.length })
+    }
+    return bulkResponse(updated, failures, changes.length)
+  }
+
+  async deleteMany(ids: string[], options: BulkDeleteOptions = {}): Promise<DatabaseResponse<string[], T>> {
+    const deleted: string[] = []
+    const failures: RowFailure<T>[] = []
+    for (const [index, id] of ids.entries()) {
+      const result = await this.deleteItem(id, { expectedUpdatedAt: options.expectedUpdatedAt?.[id] })
+      if (result.data) deleted.push(id)
+      else failures.push(toRowFailure(index, id, result, "Error deleting item"))
+      options.onProgress?.({ operation: "delete", done: index + 1, total: ids.length })
+    }
+    return bulkResponse(deleted, failures, ids.length)
+  }
+
+  private isSameData(items1: T[], items2: T[]): boolean {
+    if (items1.length !== items2.length) return false
+
+    // Sort both arrays by id to ensure consistent comparison
+    const serialize = (items: T[]) =>
+      JSON.stringify(
+        [...items].sort((a, b) => a.id.localeCompare(b.id)).map((item) => this.collection.codec.toRow(item)),
+      )
+
+    return serialize(items1) === serialize(items2)
+  }
+
+  // Patches the last known rows with a change made by another client, without re-reading the store
+  private applyRemoteChange(change: RecordChange): void {
+    // While offline the local copy is what this client works against; reconnecting resyncs anyway
+    if (this.isFallbackMode()) return
+
+    const item = change.row ? this.collection.codec.fromRow(change.row) : null
+    const index = this.lastDataCache.findIndex((cached) => cached.id === change.id)
+    const items = [...this.lastDataCache]
+    if (change.type === "delete" || !item) {
+      if (index === -1) return
+      items.splice(index, 1)
+    } else if (index === -1) {
+      items.push(item)
+    } else {
+      items[index] = item
+    }
+
+    this.lastDataCache = items
+    this.subscribers.forEach((callback) => callback([...items]))
+  }
+
+  protected async notifySubscribers(): Promise<void> {
+    if (this.subscribers.length === 0) return
+
+    const result = await this.selectItems()
+    if (result.data) {
+      if (!this.isSameData(this.lastDataCache, result.data)) {
+        this.lastDataCache = [...result.data]
+        this.subscribers.forEach((callback) => callback(result.data!))
+      }
+    }
+  }
+
+  async subscribeToChanges(callback: (items: T[]) => void): Promise<() => void> {
+    this.subscribers.push(callback)
+
+    const result = await this.selectItems()
+    if (result.data) {
+      this.lastDataCache = [...result.data]
+      callback(result.data)
+    }
+
+    if (this.changeFeed && !this.unsubscribeFeed) {
+      this.unsubscribeFeed = this.changeFeed.subscribe(this.collection.name, {
+        onChange: (change) => this.applyRemoteChange(change),
+        onReconnect: () => this.notifySubscribers(),
+      })
+    }
+
+    if (!this.refreshInterval && this.pollIntervalMs) {
+      this.refreshInterval = setInterval(async () => {
+        try {
+          if (!this.isFallbackMode()) await this.notifySubscribers()
+        } catch (error) {
+          console.error("Error during auto-refresh:", error)
+        }
+      }, this.pollIntervalMs)
+    }
+
+    return () => {
+      const index = this.subscribers.indexOf(callback)
+      if (index > -1) {
+        this.subscribers.splice(index, 1)
+      }
+
+      if (this.subscribers.length === 0) {
+        if (this.refreshInterval) {
+          clearInterval(this.refreshInterval)
+          this.refreshInterval = null
+        }
+        this.unsubscribeFeed?.()
+        this.unsubscribeFeed = null
+        this.lastDataCache = []
+      }
+    }
+  }
+}
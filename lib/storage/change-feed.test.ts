@@ -0,0 +1,136 @@
+import { spawn, type ChildProcess } from "node:child_process"
+import { fileURLToPath } from "node:url"
+import { EventSource } from "eventsource"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ChangeFeed } from "./change-feed"
+import type { RecordChange } from "./types"
+
+// The stand-in feed server, run as its own process like in a deployment
+const SERVER_SCRIPT = fileURLToPath(new URL("../../scripts/change-feed-server.mjs", import.meta.url))
+const TOKEN = "test-token"
+
+interface FeedServer {
+  url: string
+  port: number
+  stop(): Promise<void>
+}
+
+function startServer(port = 0): Promise<FeedServer> {
+  const child: ChildProcess = spawn(process.execPath, [SERVER_SCRIPT], {
+    env: { ...process.env, CHANGE_FEED_PORT: String(port), CHANGE_FEED_TOKEN: TOKEN },
+    stdio: ["ignore", "pipe", "inherit"],
+  })
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      if (child.exitCode !== null) return resolve()
+      child.once("exit", () => resolve())
+      child.kill()
+    })
+
+  return new Promise((resolve, reject) => {
+    child.once("error", reject)
+    child.stdout!.on("data", (chunk: Buffer) => {
+      const match = /listening on (http:\/\/localhost:(\d+)\/api\/changes)/.exec(chunk.toString())
+      if (match) resolve({ url: match[1], port: Number(match[2]), stop })
+    })
+  })
+}
+
+const change = (collection: string, origin: string, id = "1"): RecordChange => ({
+  collection,
+  type: "update",
+  id,
+  row: { id, quantity: 5 },
+  origin,
+  at: "2024-01-01T00:00:00.000Z",
+})
+
+const publish = (url: string, changes: RecordChange[], token = TOKEN) =>
+  fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ changes }),
+  })
+
+describe("ChangeFeed against the stand-in feed server", () => {
+  let server: FeedServer
+  let feed: ChangeFeed
+  const unsubscribes: (() => void)[] = []
+
+  const subscribe = (collection: string) => {
+    const listener = { onChange: vi.fn(), onReconnect: vi.fn() }
+    unsubscribes.push(feed.subscribe(collection, listener))
+    return listener
+  }
+
+  beforeEach(async () => {
+    vi.stubGlobal("EventSource", EventSource)
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    server = await startServer()
+    feed = new ChangeFeed(server.url)
+  })
+
+  afterEach(async () => {
+    unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe())
+    await server.stop()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("delivers other clients' changes to the subscribers of their collection", async () => {
+    const inventory = subscribe("inventory")
+    const movements = subscribe("movements")
+    await vi.waitFor(() => expect(feed.isConnected()).toBe(true))
+
+    const response = await publish(server.url, [
+      change("inventory", "other-client"),
+      change("inventory", feed.clientId, "2"),
+      change("layout", "other-client"),
+    ])
+    expect(response.status).toBe(202)
+    expect(await response.json()).toEqual({ delivered: 1 })
+
+    await vi.waitFor(() => expect(inventory.onChange).toHaveBeenCalled())
+    // Its own echo is skipped, and collections nobody subscribed to are ignored
+    expect(inventory.onChange.mock.calls).toEqual([[change("inventory", "other-client")]])
+    expect(movements.onChange).not.toHaveBeenCalled()
+  })
+
+  it("only relays changes published with the shared token", async () => {
+    subscribe("inventory")
+    await vi.waitFor(() => expect(feed.isConnected()).toBe(true))
+
+    expect((await publish(server.url, [change("inventory", "other-client")], "wrong")).status).toBe(401)
+    expect((await fetch(server.url, { method: "POST", body: "{}" })).status).toBe(401)
+  })
+
+  it("resyncs subscribers when the feed comes back after a restart", { timeout: 15000 }, async () => {
+    const inventory = subscribe("inventory")
+    await vi.waitFor(() => expect(feed.isConnected()).toBe(true))
+    expect(inventory.onReconnect).not.toHaveBeenCalled()
+
+    await server.stop()
+    await vi.waitFor(() => expect(feed.isConnected()).toBe(false))
+    server = await startServer(server.port)
+
+    // The stream asks browsers to wait 3 seconds before reconnecting
+    await vi.waitFor(() => expect(inventory.onReconnect).toHaveBeenCalledTimes(1), { timeout: 10000 })
+    expect(feed.isConnected()).toBe(true)
+  })
+
+  it("closes the stream once the last subscriber leaves", async () => {
+    subscribe("inventory")
+    subscribe("movements")
+    await vi.waitFor(() => expect(feed.isConnected()).toBe(true))
+
+    unsubscribes.shift()!()
+    expect(feed.isConnected()).toBe(true)
+    unsubscribes.shift()!()
+    expect(feed.isConnected()).toBe(false)
+
+    await vi.waitFor(async () => {
+      const response = await publish(server.url, [change("inventory", "other-client")])
+      expect(await response.json()).toEqual({ delivered: 0 })
+    })
+  })
+})
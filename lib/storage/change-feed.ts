@@ -0,0 +1,90 @@
+import { generateId } from "./base-adapter"
+import type { RecordChange } from "./types"
+
+// Server-sent events endpoint that relays row changes between clients; "off" disables the feed
+const CHANGE_FEED_URL = process.env.NEXT_PUBLIC_CHANGE_FEED_URL || "/api/changes"
+
+interface FeedListener {
+  onChange: (change: RecordChange) => void
+  // Called when the connection comes back, since changes sent while it was down are lost
+  onReconnect: () => void
+}
+
+// One EventSource per page, shared by every collection. Changes are only published by the server, after the writes
+// it proxies; this client's own writes come back with its clientId as origin and are skipped.
+export class ChangeFeed {
+  readonly clientId = generateId()
+  private source: EventSource | null = null
+  private listeners = new Map<string, Set<FeedListener>>()
+  private hasConnected = false
+  private connected = false
+
+  constructor(private url: string) {}
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  subscribe(collection: string, listener: FeedListener): () => void {
+    const collectionListeners = this.listeners.get(collection) || new Set()
+    collectionListeners.add(listener)
+    this.listeners.set(collection, collectionListeners)
+    this.connect()
+
+    return () => {
+      collectionListeners.delete(listener)
+      if (collectionListeners.size === 0) this.listeners.delete(collection)
+      if (this.listeners.size === 0) this.disconnect()
+    }
+  }
+
+  private connect(): void {
+    if (this.source) return
+
+    const source = new EventSource(this.url)
+    source.onopen = () => {
+      this.connected = true
+      if (this.hasConnected) {
+        console.log("[v0] Change feed reconnected, resyncing")
+        this.listeners.forEach((collectionListeners) => collectionListeners.forEach((l) => l.onReconnect()))
+      }
+      this.hasConnected = true
+    }
+    source.onmessage = (event) => {
+      try {
+        const { changes } = JSON.parse(event.data) as { changes: RecordChange[] }
+        changes.forEach((change) => {
+          if (change.origin === this.clientId) return
+          this.listeners.get(change.collection)?.forEach((listener) => listener.onChange(change))
+        })
+      } catch (error) {
+        console.error("[v0] Invalid change feed message:", error)
+      }
+    }
+    // EventSource retries by itself; the reconnect resync happens in onopen
+    source.onerror = () => {
+      if (this.connected) console.log("[v0] Change feed disconnected, retrying...")
+      this.connected = false
+    }
+    this.source = source
+  }
+
+  private disconnect(): void {
+    this.source?.close()
+    this.source = null
+    this.connected = false
+    this.hasConnected = false
+  }
+}
+
+let sharedFeed: ChangeFeed | null = null
+
+export function getChangeFeed(): ChangeFeed | null {
+  if (typeof window === "undefined" || typeof EventSource === "undefined" || CHANGE_FEED_URL === "off") {
+    return null
+  }
+  if (!sharedFeed) {
+    sharedFeed = new ChangeFeed(CHANGE_FEED_URL)
+  }
+  return sharedFeed
+}
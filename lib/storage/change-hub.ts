@@ -0,0 +1,45 @@
+import type { RecordChange } from "./types"
+
+// Server side of the change feed: fans out the changes the route handlers publish to every open event stream. State
+// lives in the server process, so all clients must reach the same instance (one Node server, or the stand-in server).
+
+type HubListener = (changes: RecordChange[]) => void
+
+// Kept on globalThis so hot reloads in development do not split clients across module copies
+const hub = globalThis as typeof globalThis & { __warehouseChangeHub?: Set<HubListener> }
+const listeners = (hub.__warehouseChangeHub ??= new Set())
+
+export function subscribeToChangeHub(listener: HubListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function publishToChangeHub(changes: RecordChange[]): number {
+  listeners.forEach((listener) => listener(changes))
+  return listeners.size
+}
+
+// With browsers listening on the stand-in feed server (scripts/change-feed-server.mjs) instead of /api/changes,
+// changes are forwarded to it. It only takes them with the shared token, which never leaves the servers.
+const RELAY_URL = process.env.CHANGE_FEED_RELAY_URL
+const RELAY_TOKEN = process.env.CHANGE_FEED_TOKEN
+
+// Called by the route handlers after a write went through, so clients only ever hear about rows the store has
+export function publishChanges(changes: RecordChange[]): void {
+  if (changes.length === 0) return
+  publishToChangeHub(changes)
+  if (!RELAY_URL) return
+
+  fetch(RELAY_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${RELAY_TOKEN}` },
+    body: JSON.stringify({ changes }),
+  })
+    .then((response) => {
+      if (!response.ok) console.warn(`Change feed relay rejected ${changes.length} changes: ${response.status}`)
+    })
+    // Clients still catch up through their reconnect resync or the periodic check
+    .catch((error) => console.warn("Could not forward changes to the change feed relay:", error))
+}
@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  inventoryCollection,
+  layoutCollection,
+  movementsCollection,
+  type InventoryItem,
+  type LayoutAisleRecord,
+} from "@/lib/database"
+import { inventoryValidation, layoutValidation, movementValidation } from "@/lib/record-validation"
+import { CLIENT_ID_HEADER, EXPECTED_VERSION_HEADER } from "./api-client"
+import { subscribeToChangeHub } from "./change-hub"
+import { StorageError } from "./errors"
+import { deleteRecord, findRecord, insertRecords, listRecords, replaceRecord } from "./stein-server"
+import { createCollectionRoutes } from "./collection-routes"
+import type { RecordChange } from "./types"
+
+// The write queue is the real one
+vi.mock("./stein-server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./stein-server")>()),
+  listRecords: vi.fn(),
+  findRecord: vi.fn(),
+  insertRecords: vi.fn(),
+  replaceRecord: vi.fn(),
+  deleteRecord: vi.fn(),
+}))
+
+const routes = createCollectionRoutes(inventoryCollection, inventoryValidation)
+const layoutRoutes = createCollectionRoutes(layoutCollection, layoutValidation)
+
+const item: InventoryItem = {
+  id: "box-1",
+  reference: "REF-1",
+  description: "Tornillos",
+  quantity: 10,
+  location: "A-C1-L1",
+  aisle: "A",
+  column: 1,
+  shelf: 1,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+}
+
+// Sent like the app's own pages send them
+const fromPage = { "Sec-Fetch-Site": "same-origin" }
+
+const jsonRequest = (method: string, body: unknown, clientId?: string, expectedUpdatedAt?: string) =>
+  new Request("http://localhost/api/items", {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...fromPage,
+      ...(clientId ? { [CLIENT_ID_HEADER]: clientId } : {}),
+      ...(expectedUpdatedAt !== undefined ? { [EXPECTED_VERSION_HEADER]: expectedUpdatedAt } : {}),
+    },
+    body: JSON.stringify(body),
+  })
+
+const deleteRequest = (expectedUpdatedAt?: string) =>
+  new Request("http://localhost/api/items/box-1", {
+    method: "DELETE",
+    headers: {
+      ...fromPage,
+      ...(expectedUpdatedAt !== undefined ? { [EXPECTED_VERSION_HEADER]: expectedUpdatedAt } : {}),
+    },
+  })
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe("createCollectionRoutes", () => {
+  let published: RecordChange[]
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    // An empty layout sheet: the default floor, aisles A-I with 7 columns of 6 levels
+    vi.mocked(listRecords).mockResolvedValue([])
+    vi.mocked(findRecord).mockResolvedValue(item)
+    published = []
+    unsubscribe = subscribeToChangeHub((changes) => published.push(...changes))
+  })
+
+  afterEach(() => {
+    unsubscribe()
+    vi.clearAllMocks()
+  })
+
+  it("publishes inserted rows with the writing client as origin", async () => {
+    const response = await routes.insert(jsonRequest("POST", { records: [item] }, "client-a"))
+
+    expect(response.status).toBe(201)
+    expect(insertRecords).toHaveBeenCalledWith(inventoryCollection, [item])
+    expect(published).toEqual([
+      { collection: "inventory", type: "insert", id: "box-1", row: item, origin: "client-a", at: expect.any(String) },
+    ])
+  })
+
+  it("publishes updated and deleted rows, from the server when no client id is sent", async () => {
+    await routes.update(jsonRequest("PUT", { updates: { quantity: 12 } }), params("box-1"))
+    await routes.remove(deleteRequest(), params("box-1"))
+
+    expect(published).toEqual([
+      expect.objectContaining({ type: "update", id: "box-1", row: { ...item, quantity: 12 }, origin: "server" }),
+      expect.objectContaining({ type: "delete", id: "box-1", row: undefined, origin: "server" }),
+    ])
+  })
+
+  it("turns away requests from other sites before touching the sheet", async () => {
+    const request = new Request("http://localhost/api/items", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Sec-Fetch-Site": "cross-site" },
+      body: JSON.stringify({ records: [item] }),
+    })
+
+    const response = await routes.insert(request)
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: "forbidden" })
+    expect(insertRecords).not.toHaveBeenCalled()
+    expect(published).toEqual([])
+  })
+
+  it("rejects records with invalid fields before writing anything", async () => {
+    const invalid = async (record: unknown) => {
+      const response = await routes.insert(jsonRequest("POST", { records: [item, record] }))
+      expect(response.status).toBe(400)
+      return (await response.json()).error as string
+    }
+
+    expect(await invalid({ ...item, id: "box-2", quantity: -3 })).toMatch(/record 1\.quantity/)
+    expect(await invalid({ ...item, id: "box-2", quantity: "12" })).toMatch(/record 1\.quantity/)
+    expect(await invalid({ ...item, id: "box-2", quantity: null })).toMatch(/record 1\.quantity/)
+    expect(await invalid({ ...item, id: "box-2", aisle: "Z" })).toMatch(/unknown aisle Z/)
+    expect(await invalid({ ...item, id: "box-2", column: 9 })).toMatch(/unknown slot A-C9-L1/)
+
+    const movements = createCollectionRoutes(movementsCollection, movementValidation)
+    const movement = {
+      id: "move-1",
+      type: "theft",
+      reference: "REF-1",
+      description: "",
+      quantity: 1,
+      from_box: "A-C1-L1",
+      to_box: "",
+      user: "",
+      reason: "",
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+    }
+    const response = await movements.insert(jsonRequest("POST", { records: [movement] }))
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/record 0\.type/)
+
+    const updated = await routes.update(jsonRequest("PUT", { updates: { quantity: -1 } }), params("box-1"))
+    expect(updated.status).toBe(400)
+    expect((await updated.json()).error).toMatch(/record 0\.quantity/)
+    expect(insertRecords).not.toHaveBeenCalled()
+    expect(replaceRecord).not.toHaveBeenCalled()
+  })
+
+  it("checks new boxes against the stored layout, read again once a layout is saved", async () => {
+    const layout: LayoutAisleRecord = {
+      id: "layout-1",
+      aisle_id: "X",
+      name: "",
+      position: 0,
+      columns: [{ number: 1, levels: 2, disabledLevels: [2] }],
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+    }
+    const box = { ...item, aisle: "X", column: 1 }
+    expect((await routes.insert(jsonRequest("POST", { records: [box] }))).status).toBe(400)
+
+    await layoutRoutes.insert(jsonRequest("POST", { records: [layout] }))
+    vi.mocked(listRecords).mockResolvedValue([layout])
+    expect((await routes.insert(jsonRequest("POST", { records: [box] }))).status).toBe(201)
+    const disabled = await routes.insert(jsonRequest("POST", { records: [{ ...box, shelf: 2 }] }))
+    expect(disabled.status).toBe(400)
+    expect((await disabled.json()).error).toMatch(/unknown slot X-C1-L2/)
+    expect((await routes.insert(jsonRequest("POST", { records: [item] }))).status).toBe(400)
+
+    // Rows put back after a failed transfer were stored before, wherever they sit
+    expect((await routes.insert(jsonRequest("POST", { records: [item], restore: true }))).status).toBe(201)
+  })
+
+  it("reads the layout once for the many requests of an import", async () => {
+    await layoutRoutes.remove(deleteRequest(), params("layout-1"))
+    vi.mocked(listRecords).mockClear()
+    await Promise.all([1, 2, 3].map((shelf) => routes.insert(jsonRequest("POST", { records: [{ ...item, shelf }] }))))
+    const layoutReads = vi
+      .mocked(listRecords)
+      .mock.calls.filter(([collection]) => collection.name === layoutCollection.name)
+    expect(layoutReads).toHaveLength(1)
+  })
+
+  it("publishes nothing when the write fails or is rejected", async () => {
+    vi.mocked(findRecord).mockResolvedValueOnce(undefined)
+    vi.mocked(deleteRecord).mockRejectedValueOnce(new StorageError("network", "Could not reach SteinHQ"))
+
+    const update = jsonRequest("PUT", { updates: { quantity: 1 } }, "client-a")
+    expect((await routes.update(update, params("box-1"))).status).toBe(404)
+    expect((await routes.remove(deleteRequest(), params("box-1"))).status).toBe(502)
+    expect((await routes.insert(jsonRequest("POST", { records: [{ id: "x" }] }, "client-a"))).status).toBe(400)
+    expect(published).toEqual([])
+  })
+
+  describe("conditional writes", () => {
+    const newer = { ...item, quantity: 7, updated_at: "2024-02-01T00:00:00.000Z" }
+
+    it("writes only while the stored row is still the expected version", async () => {
+      const updates = { quantity: 12, updated_at: "2024-03-01T00:00:00.000Z" }
+      const ok = await routes.update(jsonRequest("PUT", { updates }, "client-a", item.updated_at), params("box-1"))
+      expect(ok.status).toBe(200)
+      expect(replaceRecord).toHaveBeenCalledWith(inventoryCollection, { ...item, ...updates })
+
+      vi.mocked(findRecord).mockResolvedValue(newer)
+      const stale = await routes.update(jsonRequest("PUT", { updates }, "client-b", item.updated_at), params("box-1"))
+      expect(stale.status).toBe(409)
+      expect(await stale.json()).toMatchObject({ code: "conflict", remote: newer })
+      expect(replaceRecord).toHaveBeenCalledTimes(1)
+      expect(published.map((change) => change.origin)).toEqual(["client-a"])
+    })
+
+    it("reports a row deleted meanwhile as a conflict with no stored row", async () => {
+      vi.mocked(findRecord).mockResolvedValue(undefined)
+      const response = await routes.update(
+        jsonRequest("PUT", { updates: { quantity: 1 } }, undefined, item.updated_at),
+        params("box-1"),
+      )
+      expect(response.status).toBe(409)
+      expect(await response.json()).toMatchObject({ code: "conflict", remote: null })
+    })
+
+    it("treats a row stored without a version as its own version", async () => {
+      vi.mocked(findRecord).mockResolvedValue({ ...item, updated_at: "" })
+      const updates = { quantity: 3, updated_at: "2024-03-01T00:00:00.000Z" }
+      expect((await routes.update(jsonRequest("PUT", { updates }, undefined, ""), params("box-1"))).status).toBe(200)
+      const stale = await routes.update(jsonRequest("PUT", { updates }, undefined, item.updated_at), params("box-1"))
+      expect(stale.status).toBe(409)
+    })
+
+    it("answers a retried update that already went through without writing again", async () => {
+      vi.mocked(findRecord).mockResolvedValue(newer)
+      const retried = jsonRequest(
+        "PUT",
+        { updates: { quantity: 7, updated_at: newer.updated_at } },
+        "",
+        item.updated_at,
+      )
+      const response = await routes.update(retried, params("box-1"))
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ record: newer })
+      expect(replaceRecord).not.toHaveBeenCalled()
+    })
+
+    it("deletes only the expected version, and a row that is gone already is not an error", async () => {
+      vi.mocked(findRecord).mockResolvedValueOnce(newer)
+      const stale = await routes.remove(deleteRequest(item.updated_at), params("box-1"))
+      expect(stale.status).toBe(409)
+      expect(deleteRecord).not.toHaveBeenCalled()
+
+      vi.mocked(findRecord).mockResolvedValueOnce(undefined)
+      expect((await routes.remove(deleteRequest(item.updated_at), params("box-1"))).status).toBe(200)
+      expect((await routes.remove(deleteRequest(item.updated_at), params("box-1"))).status).toBe(200)
+      expect(deleteRecord).toHaveBeenCalledTimes(2)
+    })
+
+    it("does not let another write in between the version check and the write", async () => {
+      let stored = item
+      vi.mocked(findRecord).mockImplementation(async () => stored)
+      vi.mocked(replaceRecord).mockImplementation(async (_, record) => {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        stored = record as InventoryItem
+      })
+
+      const write = (quantity: number) =>
+        routes.update(
+          jsonRequest(
+            "PUT",
+            { updates: { quantity, updated_at: `2024-03-0${quantity}T00:00:00.000Z` } },
+            "",
+            item.updated_at,
+          ),
+          params("box-1"),
+        )
+      const statuses = (await Promise.all([write(1), write(2)])).map((response) => response.status)
+      expect(statuses).toEqual([200, 409])
+      expect(stored.quantity).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,204 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { checkAccess } from "./access"
+import { CLIENT_ID_HEADER, EXPECTED_VERSION_HEADER, type WriteOutcome } from "./api-client"
+import { checkPrecondition, getConflictError } from "./base-adapter"
+import { publishChanges } from "./change-hub"
+import { StorageError, toErrorBody, toStorageError, type StorageErrorCode } from "./errors"
+import { deleteRecord, findRecord, insertRecords, listRecords, queueWrite, replaceRecord } from "./stein-server"
+import type { CollectionConfig, RecordChangeType, StorageRecord, WriteConflict } from "./types"
+
+// Route handlers that proxy one collection to SteinHQ. The browser sends typed records; they are checked against the
+// collection's schema and written through its codec, so the sheet only ever receives the collection's own columns. Every
+// write that goes through is published to the change feed from here. Every handler first checks the request may
+// use the storage at all, see lib/storage/access.ts.
+
+// The SteinHQ adapter posts bulk inserts in chunks of 50
+const MAX_RECORDS_PER_REQUEST = 100
+
+const STATUS_BY_CODE: Record<StorageErrorCode, number> = {
+  rate_limited: 429,
+  not_found: 404,
+  validation: 400,
+  network: 502,
+  conflict: 409,
+  // The storage behind this server is set up wrong; nothing the browser sent
+  misconfigured_sheet: 502,
+  forbidden: 403,
+  unknown: 500,
+}
+
+export function errorResponse(caught: unknown) {
+  const error = toStorageError(caught)
+  const headers: Record<string, string> = {}
+  if (error.retryAfterMs) headers["Retry-After"] = String(Math.ceil(error.retryAfterMs / 1000))
+  return NextResponse.json(toErrorBody(error), { status: STATUS_BY_CODE[error.code], headers })
+}
+
+const invalidRequest = (message: string) => errorResponse(new StorageError("validation", message))
+
+// The stored row goes along, null when it is gone, so the client can show what the other change was
+const conflictResponse = <T extends StorageRecord>(conflict: WriteConflict<T>) =>
+  NextResponse.json({ ...toErrorBody(getConflictError(conflict)), remote: conflict.remote }, { status: 409 })
+
+// Absent for an unconditional write; empty for a row that was stored without a version
+const getExpectedVersion = (request: Request) => request.headers.get(EXPECTED_VERSION_HEADER) ?? undefined
+
+async function readJson(request: Request): Promise<any> {
+  try {
+    return await request.json()
+  } catch {
+    return undefined
+  }
+}
+
+export interface CollectionValidation<T extends StorageRecord> {
+  // Every record written must match it; fields it does not know are dropped
+  schema: z.ZodType<T>
+  // Checks new records against the rest of the store, e.g. that a box sits in a slot of the layout. Rows put back
+  // after a failed multi-step write (restoreItem) skip it: they were stored before and must be able to go back.
+  checkInsert?: (records: T[]) => Promise<StorageError | null>
+}
+
+type ParsedRecords<T> = { records: T[]; error: null } | { records: null; error: string }
+
+function parseRecords<T extends StorageRecord>(schema: z.ZodType<T>, value: unknown): ParsedRecords<T> {
+  if (!Array.isArray(value) || value.length === 0) return { records: null, error: "Expected at least one record" }
+  const records: T[] = []
+  for (const [index, record] of value.entries()) {
+    const parsed = schema.safeParse(record)
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues
+      const field = issue.path.length > 0 ? `.${issue.path.join(".")}` : ""
+      return { records: null, error: `Invalid record ${index}${field}: ${issue.message}` }
+    }
+    records.push(parsed.data)
+  }
+  return { records, error: null }
+}
+
+interface RecordContext {
+  params: Promise<{ id: string }>
+}
+
+export function createCollectionRoutes<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  { schema, checkInsert }: CollectionValidation<T>,
+) {
+  const publish = (request: Request, changes: { type: RecordChangeType; id: string; record?: T }[]) => {
+    // Without a client id (e.g. a script) every client applies the change
+    const origin = request.headers.get(CLIENT_ID_HEADER) || "server"
+    const at = new Date().toISOString()
+    publishChanges(
+      changes.map(({ type, id, record }) => ({
+        collection: collection.name,
+        type,
+        id,
+        row: record && collection.codec.toRow(record),
+        origin,
+        at,
+      })),
+    )
+  }
+
+  return {
+    // GET ?limit=n
+    async list(request: Request) {
+      const denied = checkAccess(request)
+      if (denied) return errorResponse(denied)
+      const limit = Number.parseInt(new URL(request.url).searchParams.get("limit") || "")
+      try {
+        const records = await listRecords(collection, limit > 0 ? limit : undefined)
+        return NextResponse.json({ records })
+      } catch (error) {
+        return errorResponse(error)
+      }
+    },
+
+    // POST { records, restore? }
+    async insert(request: Request) {
+      const denied = checkAccess(request)
+      if (denied) return errorResponse(denied)
+      const body = await readJson(request)
+      if (body === undefined) return invalidRequest("Invalid JSON body")
+      const { records, error } = parseRecords(schema, body?.records)
+      if (!records) return invalidRequest(`Expected { records }: ${error}`)
+      if (records.length > MAX_RECORDS_PER_REQUEST) {
+        return invalidRequest(`At most ${MAX_RECORDS_PER_REQUEST} records per request`)
+      }
+      try {
+        const rejected = body.restore === true ? null : await checkInsert?.(records)
+        if (rejected) return errorResponse(rejected)
+        await insertRecords(collection, records)
+        publish(
+          request,
+          records.map((record) => ({ type: "insert", id: record.id, record })),
+        )
+        return NextResponse.json({ records }, { status: 201 })
+      } catch (error) {
+        return errorResponse(error)
+      }
+    },
+
+    // PUT /[id] { updates }, merged onto the stored row. With an expected version the row is only written while it
+    // is still that version, and a 409 with the stored row comes back otherwise.
+    async update(request: Request, context: RecordContext) {
+      const denied = checkAccess(request)
+      if (denied) return errorResponse(denied)
+      const { id } = await context.params
+      const body = await readJson(request)
+      if (body === undefined) return invalidRequest("Invalid JSON body")
+      const updates = body?.updates
+      if (!updates || typeof updates !== "object" || Array.isArray(updates)) {
+        return invalidRequest("Expected { updates }")
+      }
+      const expectedUpdatedAt = getExpectedVersion(request)
+      try {
+        const outcome = await queueWrite(collection, async (): Promise<WriteOutcome<T>> => {
+          const current = await findRecord(collection, id)
+          // A retried request whose first attempt went through finds the row at the version it writes
+          if (current && expectedUpdatedAt !== undefined && updates.updated_at === current.updated_at) {
+            return { record: current, conflict: null }
+          }
+          const conflict = checkPrecondition(id, current, { expectedUpdatedAt })
+          if (conflict) return { record: null, conflict }
+          if (!current) throw new StorageError("not_found", "Item not found")
+
+          const { records, error } = parseRecords(schema, [{ ...current, ...updates, id }])
+          if (!records) throw new StorageError("validation", `Expected { updates }: ${error}`)
+          await replaceRecord(collection, records[0])
+          return { record: records[0], conflict: null }
+        })
+        if (outcome.conflict) return conflictResponse(outcome.conflict)
+        publish(request, [{ type: "update", id, record: outcome.record }])
+        return NextResponse.json({ record: outcome.record })
+      } catch (error) {
+        return errorResponse(error)
+      }
+    },
+
+    // DELETE /[id], conditional like updates. Deleting a row that is already gone is not an error.
+    async remove(request: Request, context: RecordContext) {
+      const denied = checkAccess(request)
+      if (denied) return errorResponse(denied)
+      const { id } = await context.params
+      const expectedUpdatedAt = getExpectedVersion(request)
+      try {
+        const conflict = await queueWrite(collection, async () => {
+          if (expectedUpdatedAt !== undefined) {
+            const current = await findRecord(collection, id)
+            const conflict = current && checkPrecondition(id, current, { expectedUpdatedAt })
+            if (conflict) return conflict
+          }
+          await deleteRecord(collection, id)
+          return null
+        })
+        if (conflict) return conflictResponse(conflict)
+        publish(request, [{ type: "delete", id }])
+        return NextResponse.json({ id })
+      } catch (error) {
+        return errorResponse(error)
+      }
+    },
+  }
+}
@@ -0,0 +1,134 @@
+export type StorageErrorCode =
+  // The backend refused the request because of its quota; writes go to local storage until it recovers
+  | "rate_limited"
+  // The row (or the source row of an operation) does not exist
+  | "not_found"
+  // The backend or the data layer rejected the values being written
+  | "validation"
+  // The backend could not be reached or answered with a server error
+  | "network"
+  // Another client changed or deleted the row first; the response carries the conflict
+  | "conflict"
+  // The storage or sheet does not exist, its credentials are rejected or its header row does not match
+  | "misconfigured_sheet"
+  // The request came from another site or without the warehouse password
+  | "forbidden"
+  | "unknown"
+
+const RETRYABLE_CODES: StorageErrorCode[] = ["rate_limited", "network"]
+
+export interface StorageErrorDetails {
+  // Defaults to whether the code is one that can clear up by itself
+  retryable?: boolean
+  retryAfterMs?: number | null
+  status?: number | null
+  attempts?: number
+  cause?: unknown
+}
+
+export class StorageError extends Error {
+  readonly code: StorageErrorCode
+  // Whether the same call can succeed later without any change on this side
+  readonly retryable: boolean
+  // How long the backend asked to wait before trying again, if it said so
+  readonly retryAfterMs: number | null
+  // HTTP status of the backend response, when there was one
+  readonly status: number | null
+  // Requests made before giving up, retries included
+  readonly attempts: number
+
+  constructor(code: StorageErrorCode, message: string, details: StorageErrorDetails = {}) {
+    super(message)
+    this.name = "StorageError"
+    this.code = code
+    this.retryable = details.retryable ?? RETRYABLE_CODES.includes(code)
+    this.retryAfterMs = details.retryAfterMs ?? null
+    this.status = details.status ?? null
+    this.attempts = details.attempts ?? 1
+    this.cause = details.cause
+  }
+
+  withAttempts(attempts: number): StorageError {
+    const { retryable, retryAfterMs, status, cause } = this
+    return new StorageError(this.code, this.message, { retryable, retryAfterMs, status, attempts, cause })
+  }
+}
+
+export function toStorageError(error: unknown, code: StorageErrorCode = "unknown"): StorageError {
+  if (error instanceof StorageError) return error
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError) return new StorageError("network", error.message, { cause: error })
+  return new StorageError(code, error instanceof Error ? error.message : String(error), { cause: error })
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+export function fromHttpResponse(response: Response, body: string, method = "GET"): StorageError {
+  const { status } = response
+  const details = { status, retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")) }
+  const text = body.trim() || response.statusText
+
+  if (status === 401 || status === 403) {
+    return new StorageError("misconfigured_sheet", `Credentials rejected by the storage: ${text}`, details)
+  }
+  if (status === 402 || status === 429) {
+    return new StorageError("rate_limited", `API limit exceeded: ${text}`, details)
+  }
+  // Reads only fail this way when the storage or sheet name is wrong; writes when the row itself is rejected
+  if (status === 400 || status === 404) {
+    return method === "GET"
+      ? new StorageError("misconfigured_sheet", `Sheet not found or not accessible: ${text}`, details)
+      : new StorageError("validation", `Rejected by the server: ${text}`, details)
+  }
+  if (status === 422) {
+    return new StorageError("validation", `Rejected by the server: ${text}`, details)
+  }
+  if (status >= 500) {
+    return new StorageError("network", `Server error ${status}: ${text}`, details)
+  }
+  return new StorageError("unknown", `HTTP error ${status}: ${text}`, details)
+}
+
+// How the route handlers in app/api send a StorageError to the browser; `error` keeps the shape of the other routes
+export interface StorageErrorBody {
+  error: string
+  code: StorageErrorCode
+  retryable: boolean
+  retryAfterMs: number | null
+}
+
+export const toErrorBody = (error: StorageError): StorageErrorBody => ({
+  error: error.message,
+  code: error.code,
+  retryable: error.retryable,
+  retryAfterMs: error.retryAfterMs,
+})
+
+const ERROR_CODES: StorageErrorCode[] = [
+  "rate_limited",
+  "not_found",
+  "validation",
+  "network",
+  "conflict",
+  "misconfigured_sheet",
+  "forbidden",
+  "unknown",
+]
+
+// Null when the body did not come from toErrorBody, e.g. a proxy error page
+export function fromErrorBody(body: unknown, status: number | null = null): StorageError | null {
+  const value = body as Partial<StorageErrorBody> | null
+  if (typeof value?.error !== "string" || !ERROR_CODES.includes(value.code as StorageErrorCode)) return null
+  return new StorageError(value.code as StorageErrorCode, value.error, {
+    retryable: typeof value.retryable === "boolean" ? value.retryable : undefined,
+    retryAfterMs: typeof value.retryAfterMs === "number" ? value.retryAfterMs : null,
+    status,
+  })
+}
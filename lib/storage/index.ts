@@ -0,0 +1,43 @@
+import { IndexedDBAdapter, LocalStorageAdapter, MemoryAdapter } from "./local-adapters"
+import { SteinAdapter } from "./stein-adapter"
+import type { CollectionConfig, StorageAdapter, StorageBackend, StorageRecord } from "./types"
+
+export type * from "./types"
+export { generateId, getErrorMessage } from "./base-adapter"
+export { StorageError, toStorageError, type StorageErrorCode } from "./errors"
+export { IndexedDBAdapter, LocalStorageAdapter, MemoryAdapter } from "./local-adapters"
+export { ChangeFeed, getChangeFeed } from "./change-feed"
+export { SteinAdapter } from "./stein-adapter"
+export { connectionClient, createCollectionClient, type CollectionClient } from "./api-client"
+// The SteinHQ settings themselves are only read on the server, by the route handlers in app/api
+export type { SheetCheck } from "./stein-config"
+export type { SteinConnectionSummary } from "./stein-server"
+
+const STORAGE_BACKENDS: StorageBackend[] = ["stein", "localStorage", "indexedDB", "memory"]
+
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.NEXT_PUBLIC_STORAGE_BACKEND as StorageBackend | undefined
+  if (configured && STORAGE_BACKENDS.includes(configured)) {
+    return configured
+  }
+  if (configured) {
+    console.warn(`Unknown storage backend "${configured}", using SteinHQ`)
+  }
+  return "stein"
+}
+
+export function createStorageAdapter<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  backend: StorageBackend = getStorageBackend(),
+): StorageAdapter<T> {
+  switch (backend) {
+    case "localStorage":
+      return new LocalStorageAdapter(collection)
+    case "indexedDB":
+      return new IndexedDBAdapter(collection)
+    case "memory":
+      return new MemoryAdapter(collection)
+    default:
+      return new SteinAdapter(collection)
+  }
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { inventoryCollection, type InventoryItem } from "@/lib/database"
+import { LocalStorageAdapter, MemoryAdapter } from "./local-adapters"
+
+const newItem = (reference: string, quantity: number) => ({
+  reference,
+  description: `Producto ${reference}`,
+  quantity,
+  location: "Pasillo A-Columna 1-Nivel 1",
+  aisle: "A",
+  column: 1,
+  shelf: 1,
+})
+
+const stored = (id: string, quantity: number, updatedAt = "2024-01-01T00:00:00.000Z"): InventoryItem => ({
+  ...newItem(`REF${id}`, quantity),
+  id,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: updatedAt,
+})
+
+describe("MemoryAdapter", () => {
+  it("creates records with an id and timestamps", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection)
+    const { data } = await adapter.insertItem(newItem("REF001", 3))
+    expect(data).toMatchObject({ reference: "REF001", quantity: 3 })
+    expect(data!.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(data!.created_at).toBe(data!.updated_at)
+    expect((await adapter.selectItems()).data).toEqual([data])
+  })
+
+  it("hands out copies, so callers cannot change the store by mutating results", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection, [stored("1", 5)])
+    const { data } = await adapter.selectItems()
+    data![0].quantity = 99
+    expect((await adapter.selectItems()).data![0].quantity).toBe(5)
+  })
+
+  it("updates and deletes only when the precondition still holds", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection, [stored("1", 5), stored("2", 6)])
+
+    const updated = await adapter.updateItem("1", { quantity: 7 }, { expectedUpdatedAt: "2024-01-01T00:00:00.000Z" })
+    expect(updated.data?.quantity).toBe(7)
+    expect(updated.data?.updated_at).not.toBe("2024-01-01T00:00:00.000Z")
+
+    const stale = await adapter.updateItem("1", { quantity: 8 }, { expectedUpdatedAt: "2024-01-01T00:00:00.000Z" })
+    expect(stale.error?.code).toBe("conflict")
+    expect(stale.conflict?.remote?.quantity).toBe(7)
+
+    const deleted = await adapter.deleteItem("2", { expectedUpdatedAt: "2023-12-31T00:00:00.000Z" })
+    expect(deleted.error?.code).toBe("conflict")
+    expect((await adapter.deleteItem("2")).data).toBe(true)
+    expect((await adapter.deleteItem("2")).error?.code).toBe("not_found")
+  })
+
+  it("reports a conflict when the row was deleted", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection)
+    const result = await adapter.updateItem("1", { quantity: 1 }, { expectedUpdatedAt: "2024-01-01T00:00:00.000Z" })
+    expect(result.conflict).toEqual({ id: "1", expectedUpdatedAt: "2024-01-01T00:00:00.000Z", remote: null })
+  })
+
+  it("writes the other rows of a bulk update and reports each failed row by position", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection, [stored("1", 5), stored("2", 6, "2024-02-01T00:00:00.000Z")])
+    const progress = vi.fn()
+
+    const result = await adapter.updateMany(
+      [
+        { id: "1", updates: { quantity: 10 } },
+        { id: "2", updates: { quantity: 11 }, expectedUpdatedAt: "2024-01-01T00:00:00.000Z" },
+        { id: "3", updates: { quantity: 12 } },
+      ],
+      { onProgress: progress },
+    )
+
+    expect(result.data?.map((item) => item.id)).toEqual(["1"])
+    expect(result.error?.message).toMatch(/^2 of 3 rows failed/)
+    expect(result.failures?.map((failure) => [failure.index, failure.id, failure.error.code])).toEqual([
+      [1, "2", "conflict"],
+      [2, "3", "not_found"],
+    ])
+    expect(result.conflict?.id).toBe("2")
+    expect(progress).toHaveBeenLastCalledWith({ operation: "update", done: 3, total: 3 })
+    expect((await adapter.selectItems()).data!.map((item) => item.quantity)).toEqual([10, 6])
+  })
+
+  it("deletes in bulk, keeping rows whose version moved on", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection, [stored("1", 5), stored("2", 6, "2024-02-01T00:00:00.000Z")])
+    const result = await adapter.deleteMany(["1", "2"], {
+      expectedUpdatedAt: { 2: "2024-01-01T00:00:00.000Z" },
+    })
+    expect(result.data).toEqual(["1"])
+    expect(result.failures?.map((failure) => failure.index)).toEqual([1])
+    expect((await adapter.selectItems()).data!.map((item) => item.id)).toEqual(["2"])
+  })
+
+  it("notifies subscribers after its own writes", async () => {
+    const adapter = new MemoryAdapter(inventoryCollection)
+    const callback = vi.fn()
+    const unsubscribe = await adapter.subscribeToChanges(callback)
+    expect(callback).toHaveBeenLastCalledWith([])
+
+    await adapter.insertMany([newItem("REF001", 1), newItem("REF002", 2)])
+    await vi.waitFor(() => expect(callback).toHaveBeenCalledTimes(2))
+    expect(callback.mock.lastCall![0]).toHaveLength(2)
+    unsubscribe()
+  })
+})
+
+describe("LocalStorageAdapter", () => {
+  beforeEach(() => {
+    const values = new Map<string, string>()
+    vi.stubGlobal("window", globalThis)
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => values.set(key, value),
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("persists rows across instances under its key", async () => {
+    await new LocalStorageAdapter(inventoryCollection).insertItem(newItem("REF001", 3))
+    const { data } = await new LocalStorageAdapter(inventoryCollection).selectItems()
+    expect(data?.map((item) => item.reference)).toEqual(["REF001"])
+    expect(JSON.parse(localStorage.getItem("warehouse-inventory")!)).toHaveLength(1)
+    expect((await new LocalStorageAdapter(inventoryCollection, "other").selectItems()).data).toEqual([])
+  })
+
+  it("starts empty when the stored value is not valid JSON", async () => {
+    localStorage.setItem("warehouse-inventory", "{")
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    expect((await new LocalStorageAdapter(inventoryCollection).selectItems()).data).toEqual([])
+  })
+})
@@ -0,0 +1,304 @@
+import {
+  BaseStorageAdapter,
+  bulkResponse,
+  checkPrecondition,
+  conflictFailure,
+  conflictResponse,
+  restoreConflict,
+} from "./base-adapter"
+import { StorageError } from "./errors"
+import type {
+  BulkDeleteOptions,
+  BulkOptions,
+  CollectionConfig,
+  DatabaseResponse,
+  NewRecord,
+  RecordUpdate,
+  RowFailure,
+  StorageBackend,
+  StorageRecord,
+  WritePrecondition,
+} from "./types"
+
+// Shared CRUD for adapters that hold the whole collection locally and persist it in one go
+abstract class LocalRecordAdapter<T extends StorageRecord> extends BaseStorageAdapter<T> {
+  protected abstract readAll(): Promise<T[]>
+  protected abstract writeAll(items: T[]): Promise<void>
+
+  private async commit(items: T[]): Promise<void> {
+    await this.writeAll(items)
+    this.notifySubscribers()
+  }
+
+  async replaceAll(items: T[]): Promise<void> {
+    await this.commit([...items])
+  }
+
+  async insertItem(item: NewRecord<T>): Promise<DatabaseResponse<T>> {
+    try {
+      const newItem = this.createRecord(item)
+      const items = await this.readAll()
+      items.push(newItem)
+      await this.commit(items)
+      return { data: newItem, error: null }
+    } catch (error) {
+      console.error(`Error inserting into ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error inserting item") }
+    }
+  }
+
+  async insertMany(newItems: NewRecord<T>[], options: BulkOptions = {}): Promise<DatabaseResponse<T[]>> {
+    try {
+      const created = newItems.map((item) => this.createRecord(item))
+      const items = await this.readAll()
+      await this.commit([...items, ...created])
+      options.onProgress?.({ operation: "insert", done: created.length, total: created.length })
+      return { data: created, error: null }
+    } catch (error) {
+      console.error(`Error inserting into ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error inserting items") }
+    }
+  }
+
+  async selectItems(): Promise<DatabaseResponse<T[]>> {
+    try {
+      return { data: await this.readAll(), error: null }
+    } catch (error) {
+      console.error(`Error reading from ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error loading items") }
+    }
+  }
+
+  async updateItem(id: string, updates: Partial<T>, precondition?: WritePrecondition): Promise<DatabaseResponse<T, T>> {
+    try {
+      const items = await this.readAll()
+      const index = items.findIndex((item) => item.id === id)
+      const conflict = checkPrecondition(id, items[index], precondition)
+      if (conflict) return conflictResponse(conflict)
+      if (index === -1) {
+        return { data: null, error: new StorageError("not_found", "Item not found") }
+      }
+
+      const updatedItem = {
+        ...items[index],
+        ...updates,
+        id,
+        updated_at: new Date().toISOString(),
+      }
+      items[index] = updatedItem
+      await this.commit(items)
+      return { data: updatedItem, error: null }
+    } catch (error) {
+      console.error(`Error updating ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error updating item") }
+    }
+  }
+
+  async updateMany(changes: RecordUpdate<T>[], options: BulkOptions = {}): Promise<DatabaseResponse<T[], T>> {
+    try {
+      const items = await this.readAll()
+      const updated: T[] = []
+      const failures: RowFailure<T>[] = []
+      const now = new Date().toISOString()
+      changes.forEach((change, changeIndex) => {
+        const index = items.findIndex((item) => item.id === change.id)
+        const conflict = checkPrecondition(change.id, items[index], change)
+        if (conflict) {
+          failures.push(conflictFailure(changeIndex, conflict))
+          return
+        }
+        if (index === -1) {
+          failures.push({ index: changeIndex, id: change.id, error: new StorageError("not_found", "Item not found") })
+          return
+        }
+        items[index] = { ...items[index], ...change.updates, id: change.id, updated_at: now }
+        updated.push(items[index])
+      })
+      await this.commit(items)
+      options.onProgress?.({ operation: "update", done: changes.length, total: changes.length })
+      return bulkResponse(updated, failures, changes.length)
+    } catch (error) {
+      console.error(`Error updating ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error updating items") }
+    }
+  }
+
+  async deleteItem(id: string, precondition?: WritePrecondition): Promise<DatabaseResponse<boolean, T>> {
+    try {
+      const items = await this.readAll()
+      const index = items.findIndex((item) => item.id === id)
+      const conflict = checkPrecondition(id, items[index], precondition)
+      if (conflict) return conflictResponse(conflict)
+      if (index === -1) {
+        return { data: false, error: new StorageError("not_found", "Item not found") }
+      }
+
+      items.splice(index, 1)
+      await this.commit(items)
+      return { data: true, error: null }
+    } catch (error) {
+      console.error(`Error deleting from ${this.backend}:`, error)
+      return { data: false, error: new StorageError("unknown", "Error deleting item") }
+    }
+  }
+
+  async restoreItem(item: T): Promise<DatabaseResponse<T, T>> {
+    try {
+      const items = await this.readAll()
+      const conflict = restoreConflict(
+        item,
+        items.find((existing) => existing.id === item.id),
+      )
+      if (conflict) return conflictResponse(conflict)
+
+      await this.commit([...items, { ...item }])
+      return { data: { ...item }, error: null }
+    } catch (error) {
+      console.error(`Error restoring into ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error restoring item") }
+    }
+  }
+
+  async deleteMany(ids: string[], options: BulkDeleteOptions = {}): Promise<DatabaseResponse<string[], T>> {
+    try {
+      const items = await this.readAll()
+      const toDelete = new Set<string>()
+      const failures: RowFailure<T>[] = []
+      ids.forEach((id, index) => {
+        const conflict = checkPrecondition(
+          id,
+          items.find((item) => item.id === id),
+          { expectedUpdatedAt: options.expectedUpdatedAt?.[id] },
+        )
+        if (conflict) failures.push(conflictFailure(index, conflict))
+        else toDelete.add(id)
+      })
+      await this.commit(items.filter((item) => !toDelete.has(item.id)))
+      options.onProgress?.({ operation: "delete", done: ids.length, total: ids.length })
+      return bulkResponse(Array.from(toDelete), failures, ids.length)
+    } catch (error) {
+      console.error(`Error deleting from ${this.backend}:`, error)
+      return { data: null, error: new StorageError("unknown", "Error deleting items") }
+    }
+  }
+}
+
+export class MemoryAdapter<T extends StorageRecord> extends LocalRecordAdapter<T> {
+  readonly backend: StorageBackend = "memory"
+  private items: T[] = []
+
+  constructor(collection: CollectionConfig<T>, initialItems: T[] = []) {
+    super(collection)
+    this.items = [...initialItems]
+  }
+
+  protected async readAll(): Promise<T[]> {
+    return this.items.map((item) => ({ ...item }))
+  }
+
+  protected async writeAll(items: T[]): Promise<void> {
+    this.items = items.map((item) => ({ ...item }))
+  }
+}
+
+export class LocalStorageAdapter<T extends StorageRecord> extends LocalRecordAdapter<T> {
+  readonly backend: StorageBackend = "localStorage"
+  private storageKey: string
+
+  constructor(collection: CollectionConfig<T>, storageKey = `warehouse-${collection.name}`) {
+    super(collection)
+    this.storageKey = storageKey
+  }
+
+  protected async readAll(): Promise<T[]> {
+    if (typeof window !== "undefined") {
+      const stored = localStorage.getItem(this.storageKey)
+      if (stored) {
+        try {
+          return JSON.parse(stored)
+        } catch (error) {
+          console.error("Error parsing localStorage data:", error)
+        }
+      }
+    }
+    return []
+  }
+
+  protected async writeAll(items: T[]): Promise<void> {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(this.storageKey, JSON.stringify(items))
+    }
+  }
+}
+
+const INDEXED_DB_NAME = "warehouse"
+
+export class IndexedDBAdapter<T extends StorageRecord> extends LocalRecordAdapter<T> {
+  readonly backend: StorageBackend = "indexedDB"
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+          reject(new Error("IndexedDB is not available in this environment"))
+          return
+        }
+
+        // Stores are created lazily, so bump the version whenever this collection's store is missing
+        const probe = indexedDB.open(INDEXED_DB_NAME)
+        probe.onerror = () => reject(probe.error)
+        probe.onsuccess = () => {
+          const existing = probe.result
+          if (existing.objectStoreNames.contains(this.collection.name)) {
+            resolve(this.watchVersionChange(existing))
+            return
+          }
+
+          const version = existing.version + 1
+          existing.close()
+          const upgrade = indexedDB.open(INDEXED_DB_NAME, version)
+          upgrade.onupgradeneeded = () => {
+            upgrade.result.createObjectStore(this.collection.name, { keyPath: "id" })
+          }
+          upgrade.onerror = () => reject(upgrade.error)
+          upgrade.onsuccess = () => resolve(this.watchVersionChange(upgrade.result))
+        }
+      })
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  // Another collection adding its store needs this connection closed; reopen on next access
+  private watchVersionChange(database: IDBDatabase): IDBDatabase {
+    database.onversionchange = () => {
+      database.close()
+      this.dbPromise = null
+    }
+    return database
+  }
+
+  protected async readAll(): Promise<T[]> {
+    const database = await this.openDatabase()
+    return new Promise((resolve, reject) => {
+      const request = database.transaction(this.collection.name, "readonly").objectStore(this.collection.name).getAll()
+      request.onsuccess = () => resolve(request.result as T[])
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  protected async writeAll(items: T[]): Promise<void> {
+    const database = await this.openDatabase()
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.collection.name, "readwrite")
+      const store = transaction.objectStore(this.collection.name)
+      store.clear()
+      items.forEach((item) => store.put(item))
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+}
@@ -0,0 +1,69 @@
+import { generateId } from "./base-adapter"
+import type { PendingOperation, StorageRecord, SyncConflict } from "./types"
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+type NewOperation<T extends StorageRecord> = DistributiveOmit<PendingOperation<T>, "opId" | "queued_at">
+
+// Durable, ordered queue of writes made while the remote store was unreachable
+export class Outbox<T extends StorageRecord> {
+  private outboxKey: string
+  private conflictsKey: string
+
+  constructor(name: string) {
+    this.outboxKey = `warehouse-${name}-outbox`
+    this.conflictsKey = `warehouse-${name}-conflicts`
+  }
+
+  private read<V>(key: string): V[] {
+    if (typeof window === "undefined") return []
+    const stored = localStorage.getItem(key)
+    if (!stored) return []
+    try {
+      return JSON.parse(stored)
+    } catch (error) {
+      console.error("Error parsing outbox data:", error)
+      return []
+    }
+  }
+
+  private write<V>(key: string, values: V[]): void {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(key, JSON.stringify(values))
+    }
+  }
+
+  getOperations(): PendingOperation<T>[] {
+    return this.read<PendingOperation<T>>(this.outboxKey)
+  }
+
+  enqueue(operation: NewOperation<T>): void {
+    const operations = this.getOperations()
+    operations.push({ ...operation, opId: generateId(), queued_at: new Date().toISOString() } as PendingOperation<T>)
+    this.write(this.outboxKey, operations)
+  }
+
+  // Drops the head of the queue once it has been replayed or moved to the conflict list
+  remove(opId: string): void {
+    this.write(
+      this.outboxKey,
+      this.getOperations().filter((operation) => operation.opId !== opId),
+    )
+  }
+
+  isEmpty(): boolean {
+    return this.getOperations().length === 0
+  }
+
+  getConflicts(): SyncConflict<T>[] {
+    return this.read<SyncConflict<T>>(this.conflictsKey)
+  }
+
+  addConflict(conflict: SyncConflict<T>): void {
+    this.write(this.conflictsKey, [...this.getConflicts(), conflict])
+  }
+
+  clearConflicts(): void {
+    this.write(this.conflictsKey, [])
+  }
+}
@@ -0,0 +1,299 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { inventoryCollection, type InventoryItem } from "@/lib/database"
+import { EXPECTED_VERSION_HEADER } from "./api-client"
+import { SteinAdapter } from "./stein-adapter"
+
+const newItem = (reference: string, quantity = 1) => ({
+  reference,
+  description: `Producto ${reference}`,
+  quantity,
+  location: "Pasillo A-Columna 1-Nivel 1",
+  aisle: "A",
+  column: 1,
+  shelf: 1,
+})
+
+const stored = (id: string, quantity: number, updatedAt = "2024-01-01T00:00:00.000Z"): InventoryItem => ({
+  ...newItem(`REF${id}`, quantity),
+  id,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: updatedAt,
+})
+
+const rateLimited = { status: 429, code: "rate_limited", error: "API limit exceeded" }
+const rejected = { status: 400, code: "validation", error: "Rejected by the server" }
+
+// Stands in for the /api/items route handlers, with the sheet held in memory
+function stubItemsApi(initialRows: InventoryItem[] = []) {
+  const api = {
+    rows: [...initialRows],
+    requests: [] as string[],
+    // Request bodies, in the same order
+    bodies: [] as unknown[],
+    // Answers for the next requests of a method, in order, instead of handling them
+    failures: [] as { method: string; status: number; code: string; error: string }[],
+  }
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit = {}) => {
+      const method = init.method || "GET"
+      api.requests.push(`${method} ${url}`)
+      api.bodies.push(init.body ? JSON.parse(init.body as string) : null)
+      const reply = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status })
+
+      const failure = api.failures.findIndex((candidate) => candidate.method === method)
+      if (failure !== -1) {
+        const [{ status, code, error }] = api.failures.splice(failure, 1)
+        return reply(
+          { error, code, retryable: code === "rate_limited" || code === "network", retryAfterMs: null },
+          status,
+        )
+      }
+
+      const id = decodeURIComponent(url.split("/")[3]?.split("?")[0] || "")
+      const body = init.body ? JSON.parse(init.body as string) : null
+      // Conditional writes are checked here, as the route handlers do against the sheet
+      const expected = (init.headers as Record<string, string> | undefined)?.[EXPECTED_VERSION_HEADER]
+      const current = api.rows.find((row) => row.id === id)
+      if (expected !== undefined && current && current.updated_at !== expected) {
+        return reply({ error: "Modified by another user", code: "conflict", retryable: false, remote: current }, 409)
+      }
+      if (method === "GET") {
+        const limit = Number(new URL(url, "http://localhost").searchParams.get("limit")) || undefined
+        return reply({ records: api.rows.slice(0, limit) })
+      }
+      if (method === "POST") {
+        api.rows.push(...body.records)
+        return reply({ records: body.records }, 201)
+      }
+      if (method === "PUT") {
+        const index = api.rows.findIndex((row) => row.id === id)
+        if (index === -1 && expected !== undefined) {
+          return reply({ error: "Deleted by another user", code: "conflict", retryable: false, remote: null }, 409)
+        }
+        if (index === -1) return reply({ error: "Item not found", code: "not_found", retryable: false }, 404)
+        api.rows[index] = { ...api.rows[index], ...body.updates, id }
+        return reply({ record: api.rows[index] })
+      }
+      api.rows = api.rows.filter((row) => row.id !== id)
+      return reply({ id })
+    }),
+  )
+  return api
+}
+
+const countRequests = (api: { requests: string[] }, method: string) =>
+  api.requests.filter((request) => request.startsWith(`${method} `)).length
+
+describe("SteinAdapter", () => {
+  beforeEach(() => {
+    const values = new Map<string, string>()
+    vi.stubGlobal("window", globalThis)
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => values.set(key, value),
+    })
+    // The reconnect probe is driven by hand
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] })
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("reads and writes rows through the collection routes", async () => {
+    const api = stubItemsApi([stored("1", 5)])
+    const adapter = new SteinAdapter(inventoryCollection)
+
+    const inserted = await adapter.insertItem(newItem("REF002", 2))
+    expect(inserted.error).toBeNull()
+    expect(api.rows.map((row) => row.reference)).toEqual(["REF1", "REF002"])
+
+    const updated = await adapter.updateItem("1", { quantity: 6 }, { expectedUpdatedAt: "2024-01-01T00:00:00.000Z" })
+    expect(updated.data?.quantity).toBe(6)
+    expect(api.requests).toContain("PUT /api/items/1")
+
+    expect((await adapter.deleteItem(inserted.data!.id)).data).toBe(true)
+    expect((await adapter.selectItems()).data).toEqual([api.rows[0]])
+  })
+
+  it("reports a conflict instead of overwriting a row changed by someone else", async () => {
+    const api = stubItemsApi([stored("1", 5, "2024-02-01T00:00:00.000Z")])
+    const adapter = new SteinAdapter(inventoryCollection)
+
+    const result = await adapter.updateItem("1", { quantity: 6 }, { expectedUpdatedAt: "2024-01-01T00:00:00.000Z" })
+    expect(result.error?.code).toBe("conflict")
+    expect(result.conflict?.remote?.updated_at).toBe("2024-02-01T00:00:00.000Z")
+    expect(api.rows[0].quantity).toBe(5)
+    // The server checks the version; the adapter no longer reads the sheet first
+    expect(countRequests(api, "GET")).toBe(0)
+  })
+
+  it("restores a deleted row with its id and timestamps, unless it is back already", async () => {
+    const api = stubItemsApi([stored("1", 5)])
+    const adapter = new SteinAdapter(inventoryCollection)
+
+    expect((await adapter.restoreItem(stored("1", 9))).error?.code).toBe("conflict")
+    expect((await adapter.restoreItem(stored("2", 6))).error).toBeNull()
+    expect(api.rows).toEqual([stored("1", 5), stored("2", 6)])
+    // Marked as a restore, so the server lets it back in without the checks for new boxes
+    expect(api.bodies.filter((_, index) => api.requests[index].startsWith("POST "))).toEqual([
+      { records: [stored("2", 6)], restore: true },
+    ])
+  })
+
+  it("sends the same record when an insert is retried", async () => {
+    const api = stubItemsApi()
+    api.failures.push({ method: "POST", status: 502, code: "network", error: "Could not reach SteinHQ" })
+
+    const result = await new SteinAdapter(inventoryCollection).insertItem(newItem("REF002", 2))
+    expect(result.error).toBeNull()
+    const posted = api.bodies.filter((_, index) => api.requests[index].startsWith("POST "))
+    expect(posted).toHaveLength(2)
+    expect(posted[1]).toEqual(posted[0])
+    expect(api.rows.map((row) => row.id)).toEqual([result.data!.id])
+  })
+
+  it("tells a failed read apart from an empty sheet", async () => {
+    const api = stubItemsApi([stored("1", 5)])
+    api.failures.push({ method: "GET", status: 500, code: "unknown", error: "Unexpected error" })
+    const result = await new SteinAdapter(inventoryCollection).selectItems()
+    expect(result.data).toBeNull()
+    expect(result.error?.code).toBe("unknown")
+  })
+
+  describe("bulk writes", () => {
+    it("posts inserts in chunks and reports the rows of a rejected chunk", async () => {
+      const api = stubItemsApi()
+      api.failures.push({ method: "POST", ...rejected })
+      const adapter = new SteinAdapter(inventoryCollection)
+      const progress = vi.fn()
+
+      const items = Array.from({ length: 120 }, (_, index) => newItem(`REF${index}`))
+      const result = await adapter.insertMany(items, { onProgress: progress })
+
+      expect(countRequests(api, "POST")).toBe(3)
+      expect(api.rows).toHaveLength(70)
+      expect(result.data).toHaveLength(70)
+      expect(result.error?.code).toBe("validation")
+      expect(result.failures).toHaveLength(50)
+      expect(result.failures?.[0]).toMatchObject({ index: 0, id: null })
+      expect(progress.mock.calls.map(([call]) => call.done)).toEqual([50, 100, 120])
+    })
+
+    it("leaves every precondition to the server, without reading the sheet", async () => {
+      const api = stubItemsApi([stored("1", 1), stored("2", 2, "2024-02-01T00:00:00.000Z"), stored("3", 3)])
+      const adapter = new SteinAdapter(inventoryCollection)
+
+      const result = await adapter.updateMany(
+        ["1", "2", "3"].map((id) => ({ id, updates: { quantity: 9 }, expectedUpdatedAt: "2024-01-01T00:00:00.000Z" })),
+      )
+
+      expect(countRequests(api, "GET")).toBe(0)
+      expect(countRequests(api, "PUT")).toBe(3)
+      expect(result.failures?.map((failure) => [failure.index, failure.error.code])).toEqual([[1, "conflict"]])
+      expect(api.rows.map((row) => row.quantity)).toEqual([9, 2, 9])
+    })
+
+    it("sends conditional and unconditional deletes in one batch", async () => {
+      const api = stubItemsApi([stored("1", 1), stored("2", 2, "2024-02-01T00:00:00.000Z"), stored("3", 3)])
+      const adapter = new SteinAdapter(inventoryCollection)
+
+      const expectedUpdatedAt = { "1": "2024-01-01T00:00:00.000Z", "2": "2024-01-01T00:00:00.000Z" }
+      const result = await adapter.deleteMany(["1", "2", "3"], { expectedUpdatedAt })
+
+      expect(countRequests(api, "GET")).toBe(0)
+      expect(countRequests(api, "DELETE")).toBe(3)
+      expect(result.failures?.map((failure) => [failure.index, failure.error.code])).toEqual([[1, "conflict"]])
+      expect(api.rows.map((row) => row.id)).toEqual(["2"])
+    })
+
+    it("writes the rest of a batch offline when the sheet hits its limit part way", async () => {
+      const api = stubItemsApi()
+      const adapter = new SteinAdapter(inventoryCollection)
+      api.failures.push({ method: "GET", ...rateLimited })
+      await adapter.selectItems()
+      api.failures.length = 0
+      await adapter.reconnect()
+
+      api.failures.push({ method: "POST", ...rejected }, { method: "POST", ...rateLimited })
+      const items = Array.from({ length: 120 }, (_, index) => newItem(`REF${index}`))
+      const result = await adapter.insertMany(items)
+
+      expect(adapter.isFallbackMode()).toBe(true)
+      expect(result.data).toHaveLength(70)
+      expect(result.failures?.map((failure) => failure.index)).toEqual(Array.from({ length: 50 }, (_, index) => index))
+      expect(api.rows).toHaveLength(0)
+      expect(adapter.getSyncStatus().pending).toBe(70)
+    })
+  })
+
+  describe("offline outbox", () => {
+    const goOffline = async (api: ReturnType<typeof stubItemsApi>, adapter: SteinAdapter<InventoryItem>) => {
+      await adapter.selectItems()
+      api.failures.push({ method: "POST", ...rateLimited })
+      await adapter.insertItem(newItem("REF900"))
+      expect(adapter.isFallbackMode()).toBe(true)
+    }
+
+    it("keeps writes locally while rate limited and replays them in order on reconnect", async () => {
+      const api = stubItemsApi([stored("1", 5), stored("2", 6)])
+      const adapter = new SteinAdapter(inventoryCollection)
+      await goOffline(api, adapter)
+
+      await adapter.updateItem("1", { quantity: 50 })
+      await adapter.deleteItem("2")
+      expect(adapter.getSyncStatus().pending).toBe(3)
+      expect((await adapter.selectItems()).data!.map((item) => item.reference)).toEqual(["REF1", "REF900"])
+      expect(api.rows.map((row) => row.quantity)).toEqual([5, 6])
+
+      expect(await adapter.reconnect()).toBe(true)
+      expect(adapter.getSyncStatus()).toEqual({ pending: 0, conflicts: [] })
+      expect(api.rows.map((row) => [row.reference, row.quantity])).toEqual([
+        ["REF1", 50],
+        ["REF900", 1],
+      ])
+    })
+
+    it("does not replay over rows changed remotely while offline", async () => {
+      const api = stubItemsApi([stored("1", 5), stored("2", 6)])
+      const adapter = new SteinAdapter(inventoryCollection)
+      await goOffline(api, adapter)
+
+      await adapter.updateItem("1", { quantity: 50 })
+      await adapter.updateItem("2", { quantity: 60 })
+      api.rows[0] = { ...api.rows[0], quantity: 7, updated_at: "2024-03-01T00:00:00.000Z" }
+      api.rows.splice(1, 1)
+
+      await adapter.reconnect()
+      const { pending, conflicts } = adapter.getSyncStatus()
+      expect(pending).toBe(0)
+      expect(conflicts.map((conflict) => [conflict.reason, conflict.remote?.quantity ?? null])).toEqual([
+        ["Modified remotely while offline", 7],
+        ["Deleted remotely while offline", null],
+      ])
+      expect(api.rows.map((row) => row.quantity)).toEqual([7, 1])
+    })
+
+    it("keeps the rest of the queue when the replay is interrupted", async () => {
+      const api = stubItemsApi([stored("1", 5)])
+      const adapter = new SteinAdapter(inventoryCollection)
+      await goOffline(api, adapter)
+      await adapter.updateItem("1", { quantity: 50 })
+
+      api.failures.push({ method: "PUT", ...rateLimited })
+      expect(await adapter.reconnect()).toBe(false)
+      expect(adapter.getSyncStatus().pending).toBe(1)
+
+      expect(await adapter.reconnect()).toBe(true)
+      expect(adapter.getSyncStatus().pending).toBe(0)
+      expect(api.rows.map((row) => row.quantity)).toEqual([50, 1])
+    })
+  })
+})
@@ -0,0 +1,573 @@
+import {
+  BaseStorageAdapter,
+  bulkResponse,
+  conflictFailure,
+  conflictResponse,
+  getErrorMessage,
+  restoreConflict,
+} from "./base-adapter"
+import { createCollectionClient, type CollectionClient } from "./api-client"
+import { StorageError, toStorageError } from "./errors"
+import { getChangeFeed } from "./change-feed"
+import { LocalStorageAdapter } from "./local-adapters"
+import { Outbox } from "./outbox"
+import type {
+  BulkDeleteOptions,
+  BulkOptions,
+  BulkProgress,
+  CollectionConfig,
+  DatabaseResponse,
+  NewRecord,
+  PendingOperation,
+  RecordUpdate,
+  RowFailure,
+  StorageBackend,
+  StorageRecord,
+  SyncStatus,
+  WritePrecondition,
+} from "./types"
+
+const RECONNECT_PROBE_INTERVAL = 60000 // 1 minute between reconnection attempts while in fallback mode
+// SteinHQ takes many rows per POST, so bulk inserts go in chunks. PUT and DELETE only take a single
+// condition, so bulk updates and deletes cost a request per row, each checked against its row on the server.
+// The chunk must stay within what the collection routes accept in one request.
+const BULK_CHUNK_SIZE = 50
+
+// When the sheet hits its limit part way through a batch, the rest is written offline and reported
+// as part of the whole batch
+function offsetProgress<O extends BulkOptions>(options: O, offset: number, total: number): O {
+  const { onProgress } = options
+  return {
+    ...options,
+    onProgress:
+      onProgress && ((progress: BulkProgress) => onProgress({ ...progress, done: offset + progress.done, total })),
+  }
+}
+
+function mergeOffline<D, R extends StorageRecord>(
+  data: D[],
+  failures: RowFailure<R>[],
+  offline: DatabaseResponse<D[], R>,
+  remainingIds: (string | null)[],
+  offset: number,
+): void {
+  if (!offline.data) {
+    const error = offline.error || new StorageError("unknown", "Error writing to local storage")
+    remainingIds.forEach((id, index) => failures.push({ index: offset + index, id, error }))
+    return
+  }
+  data.push(...offline.data)
+  offline.failures?.forEach((failure) => failures.push({ ...failure, index: offset + failure.index }))
+}
+
+// Reaches the sheet through the collection's route handlers; the server holds the SteinHQ settings and credentials,
+// resolves the sheet name and spaces out requests to stay within the storage's rate limit
+export class SteinAdapter<T extends StorageRecord> extends BaseStorageAdapter<T> {
+  readonly backend: StorageBackend = "stein"
+  private api: CollectionClient<T>
+  private maxRetries = 3
+  private fallbackMode = false
+  private fallbackReason = ""
+  private fallback: LocalStorageAdapter<T>
+  private outbox: Outbox<T>
+  private lastRemoteItems: T[] | null = null
+  private seeding: Promise<void> | null = null
+  private reconnectTimer: ReturnType<typeof setInterval> | null = null
+  private replaying = false
+
+  constructor(collection: CollectionConfig<T>) {
+    super(collection)
+    // Other clients' writes arrive through the change feed; the 16-minute check only catches what it missed
+    this.pollIntervalMs = 960000 // 16 minutes = 16 * 60 * 1000 = 960000ms
+    this.changeFeed = getChangeFeed()
+    this.api = createCollectionClient(collection.apiPath, this.changeFeed?.clientId)
+    this.fallback = new LocalStorageAdapter(collection, `warehouse-${collection.name}-fallback`)
+    this.outbox = new Outbox(collection.name)
+  }
+
+  private enterFallbackMode(reason: string): void {
+    if (!this.fallbackMode && this.lastRemoteItems && this.outbox.isEmpty()) {
+      // Nothing is waiting to be replayed, so start the local copy from what the sheet last returned
+      this.seeding = this.fallback.replaceAll(this.lastRemoteItems)
+    }
+    this.fallbackMode = true
+    this.fallbackReason = reason
+    this.startReconnectProbe()
+  }
+
+  private startReconnectProbe(): void {
+    if (this.reconnectTimer || typeof window === "undefined") return
+    this.reconnectTimer = setInterval(() => {
+      this.reconnect().catch((error) => console.error("Error during reconnect probe:", error))
+    }, RECONNECT_PROBE_INTERVAL)
+  }
+
+  private stopReconnectProbe(): void {
+    if (this.reconnectTimer) {
+      clearInterval(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+  }
+
+  async reconnect(): Promise<boolean> {
+    if (!this.fallbackMode) return true
+    if (this.replaying) return false
+
+    try {
+      await this.api.list(1)
+    } catch {
+      // Still unavailable; the probe tries again on its next tick
+      return false
+    }
+
+    this.fallbackMode = false
+    this.fallbackReason = ""
+    this.stopReconnectProbe()
+    await this.replayOutbox()
+    // Subscribers always hear about a reconnect, even when the remote rows match the local copy
+    this.lastDataCache = []
+    this.notifySubscribers()
+    return !this.fallbackMode
+  }
+
+  // Replays queued offline writes in order, skipping any whose row changed remotely in the meantime
+  private async replayOutbox(): Promise<void> {
+    const operations = this.outbox.getOperations()
+    if (operations.length === 0 || this.replaying) return
+
+    this.replaying = true
+    try {
+      const remoteItems = await this.request(() => this.api.list())
+      const remoteById = new Map(remoteItems.map((item) => [item.id, item]))
+
+      for (const operation of operations) {
+        const targetId = operation.type === "delete" ? operation.id : operation.item.id
+        const remote = remoteById.get(targetId) || null
+
+        if (operation.type === "insert") {
+          // A row with this id already exists when an earlier replay was interrupted after the POST
+          if (!remote) {
+            await this.request(() => this.api.insert([operation.item], { restore: operation.restore }))
+            remoteById.set(targetId, operation.item)
+          }
+        } else if (!remote) {
+          if (operation.type === "update") {
+            this.recordConflict(operation, null, "Deleted remotely while offline")
+          }
+        } else if (operation.baseUpdatedAt !== null && remote.updated_at !== operation.baseUpdatedAt) {
+          this.recordConflict(operation, remote, "Modified remotely while offline")
+        } else {
+          // The server checks the version again, in case the row changed since the list above
+          const expectedUpdatedAt = operation.baseUpdatedAt ?? undefined
+          const conflict =
+            operation.type === "update"
+              ? (await this.request(() => this.api.update(targetId, operation.item, expectedUpdatedAt))).conflict
+              : await this.request(() => this.api.remove(targetId, expectedUpdatedAt))
+          if (conflict) {
+            this.recordConflict(operation, conflict.remote, "Modified remotely while offline")
+          } else if (operation.type === "update") {
+            remoteById.set(targetId, operation.item)
+          } else {
+            remoteById.delete(targetId)
+          }
+        }
+
+        this.outbox.remove(operation.opId)
+      }
+    } catch (error) {
+      console.warn("Outbox replay interrupted, will retry on next reconnect:", getErrorMessage(error))
+      if (!this.fallbackMode) {
+        this.enterFallbackMode("Sync interrupted - using local storage")
+      }
+    } finally {
+      this.replaying = false
+    }
+  }
+
+  private recordConflict(operation: PendingOperation<T>, remote: T | null, reason: string): void {
+    this.outbox.addConflict({ operation, remote, reason, detected_at: new Date().toISOString() })
+  }
+
+  getSyncStatus(): SyncStatus<T> {
+    return { pending: this.outbox.getOperations().length, conflicts: this.outbox.getConflicts() }
+  }
+
+  clearSyncConflicts(): void {
+    this.outbox.clearConflicts()
+  }
+
+  private async findFallbackItem(id: string): Promise<T | null> {
+    const result = await this.fallback.selectItems()
+    return result.data?.find((item) => item.id === id) || null
+  }
+
+  private async insertOffline(item: NewRecord<T>): Promise<DatabaseResponse<T>> {
+    await this.seeding
+    const result = await this.fallback.insertItem(item)
+    if (result.data) {
+      this.outbox.enqueue({ type: "insert", item: result.data })
+    }
+    return this.afterFallbackWrite(result)
+  }
+
+  private async updateOffline(
+    id: string,
+    updates: Partial<T>,
+    precondition?: WritePrecondition,
+  ): Promise<DatabaseResponse<T, T>> {
+    await this.seeding
+    const before = await this.findFallbackItem(id)
+    const result = await this.fallback.updateItem(id, updates, precondition)
+    if (result.data) {
+      this.outbox.enqueue({ type: "update", item: result.data, baseUpdatedAt: before ? before.updated_at : null })
+    }
+    return this.afterFallbackWrite(result)
+  }
+
+  private async deleteOffline(id: string, precondition?: WritePrecondition): Promise<DatabaseResponse<boolean, T>> {
+    await this.seeding
+    const before = await this.findFallbackItem(id)
+    const result = await this.fallback.deleteItem(id, precondition)
+    if (result.data) {
+      this.outbox.enqueue({ type: "delete", id, baseUpdatedAt: before ? before.updated_at : null })
+    }
+    return this.afterFallbackWrite(result)
+  }
+
+  private async restoreOffline(item: T): Promise<DatabaseResponse<T, T>> {
+    await this.seeding
+    const result = await this.fallback.restoreItem(item)
+    if (result.data) {
+      // Replaying an insert keeps the record's id and timestamps, and skips it if the row is back already
+      this.outbox.enqueue({ type: "insert", item: result.data, restore: true })
+    }
+    return this.afterFallbackWrite(result)
+  }
+
+  private async insertManyOffline(items: NewRecord<T>[], options: BulkOptions): Promise<DatabaseResponse<T[]>> {
+    await this.seeding
+    const result = await this.fallback.insertMany(items, options)
+    result.data?.forEach((item) => this.outbox.enqueue({ type: "insert", item }))
+    return this.afterFallbackWrite(result)
+  }
+
+  private async getFallbackVersions(): Promise<Map<string, string>> {
+    const result = await this.fallback.selectItems()
+    return new Map((result.data || []).map((item) => [item.id, item.updated_at]))
+  }
+
+  private async updateManyOffline(changes: RecordUpdate<T>[], options: BulkOptions): Promise<DatabaseResponse<T[], T>> {
+    await this.seeding
+    const before = await this.getFallbackVersions()
+    const result = await this.fallback.updateMany(changes, options)
+    result.data?.forEach((item) =>
+      this.outbox.enqueue({ type: "update", item, baseUpdatedAt: before.get(item.id) ?? null }),
+    )
+    return this.afterFallbackWrite(result)
+  }
+
+  private async deleteManyOffline(ids: string[], options: BulkDeleteOptions): Promise<DatabaseResponse<string[], T>> {
+    await this.seeding
+    const before = await this.getFallbackVersions()
+    const result = await this.fallback.deleteMany(ids, options)
+    result.data?.forEach((id) => this.outbox.enqueue({ type: "delete", id, baseUpdatedAt: before.get(id) ?? null }))
+    return this.afterFallbackWrite(result)
+  }
+
+  // Failures come out as a StorageError; network and server errors are retried with backoff before giving up
+  private async request<R>(call: () => Promise<R>, attempt = 1): Promise<R> {
+    if (this.fallbackMode) {
+      throw new StorageError("network", `API unavailable: ${this.fallbackReason}`)
+    }
+
+    try {
+      return await call()
+    } catch (caught) {
+      console.error("SteinHQ API error:", caught)
+      const error = toStorageError(caught).withAttempts(attempt)
+
+      if (error.code === "rate_limited") {
+        console.warn("SteinHQ API limit exceeded, switching to localStorage fallback")
+        this.enterFallbackMode("API limit exceeded - using local storage")
+        throw error
+      }
+
+      if (error.retryable && attempt <= this.maxRetries) {
+        console.log(`Retrying request (${attempt}/${this.maxRetries})...`)
+        await new Promise((resolve) => setTimeout(resolve, error.retryAfterMs ?? 1000 * attempt))
+        return this.request(call, attempt + 1)
+      }
+      throw error
+    }
+  }
+
+  async insertItem(item: NewRecord<T>): Promise<DatabaseResponse<T>> {
+    try {
+      if (this.fallbackMode) {
+        return this.insertOffline(item)
+      }
+
+      // Built once, so a retried POST sends the same id instead of creating a second row
+      const record = this.createRecord(item)
+      const [createdItem] = await this.request(() => this.api.insert([record]))
+      this.notifySubscribers()
+      return { data: createdItem, error: null }
+    } catch (error) {
+      // A rate limit switches to fallback mode, and the write is kept locally instead
+      if (this.fallbackMode) {
+        return this.insertOffline(item)
+      }
+      return { data: null, error: toStorageError(error) }
+    }
+  }
+
+  async selectItems(): Promise<DatabaseResponse<T[]>> {
+    try {
+      if (this.fallbackMode) {
+        await this.seeding
+        return this.fallback.selectItems()
+      }
+
+      // Offline writes queued before a reload are replayed as soon as the sheet answers again
+      if (!this.outbox.isEmpty() && !this.replaying) {
+        await this.replayOutbox()
+        if (this.fallbackMode) {
+          return this.fallback.selectItems()
+        }
+      }
+
+      const items = await this.request(() => this.api.list())
+      this.lastRemoteItems = items
+      return { data: items, error: null }
+    } catch (caught) {
+      const error = toStorageError(caught)
+      if (error.code === "rate_limited" || error.code === "misconfigured_sheet") {
+        console.warn("SteinHQ API error, switching to localStorage:", error.message)
+        this.enterFallbackMode(
+          error.code === "misconfigured_sheet"
+            ? "Sheet access error - using local storage"
+            : "API limit exceeded - using local storage",
+        )
+        return this.fallback.selectItems()
+      }
+      // Never an empty list here: callers must be able to tell a failed read from an empty sheet
+      return { data: null, error }
+    }
+  }
+
+  // The server checks the precondition against the stored row and writes it in the same step
+  async updateItem(id: string, updates: Partial<T>, precondition?: WritePrecondition): Promise<DatabaseResponse<T, T>> {
+    try {
+      if (this.fallbackMode) {
+        return this.updateOffline(id, updates, precondition)
+      }
+
+      // Stamped once, so a retried request writes the same version
+      const changes = { ...updates, id, updated_at: new Date().toISOString() }
+      const { record, conflict } = await this.request(() =>
+        this.api.update(id, changes, precondition?.expectedUpdatedAt),
+      )
+      if (conflict) return conflictResponse(conflict)
+
+      this.notifySubscribers()
+      return { data: record, error: null }
+    } catch (error) {
+      if (this.fallbackMode) {
+        return this.updateOffline(id, updates, precondition)
+      }
+      return { data: null, error: toStorageError(error) }
+    }
+  }
+
+  async deleteItem(id: string, precondition?: WritePrecondition): Promise<DatabaseResponse<boolean, T>> {
+    try {
+      if (this.fallbackMode) {
+        return this.deleteOffline(id, precondition)
+      }
+
+      const conflict = await this.request(() => this.api.remove(id, precondition?.expectedUpdatedAt))
+      if (conflict) return conflictResponse(conflict)
+
+      this.notifySubscribers()
+      return { data: true, error: null }
+    } catch (error) {
+      if (this.fallbackMode) {
+        return this.deleteOffline(id, precondition)
+      }
+      return { data: false, error: toStorageError(error) }
+    }
+  }
+
+  async restoreItem(item: T): Promise<DatabaseResponse<T, T>> {
+    try {
+      if (this.fallbackMode) {
+        return this.restoreOffline(item)
+      }
+
+      const current = await this.selectItems()
+      if (this.fallbackMode) {
+        return this.restoreOffline(item)
+      }
+      if (!current.data) {
+        return { data: null, error: current.error }
+      }
+      const conflict = restoreConflict(
+        item,
+        current.data.find((existing) => existing.id === item.id),
+      )
+      if (conflict) return conflictResponse(conflict)
+
+      await this.request(() => this.api.insert([item], { restore: true }))
+      this.notifySubscribers()
+      return { data: item, error: null }
+    } catch (error) {
+      if (this.fallbackMode) {
+        return this.restoreOffline(item)
+      }
+      return { data: null, error: toStorageError(error) }
+    }
+  }
+
+  async insertMany(items: NewRecord<T>[], options: BulkOptions = {}): Promise<DatabaseResponse<T[]>> {
+    if (this.fallbackMode) {
+      return this.insertManyOffline(items, options)
+    }
+
+    const created: T[] = []
+    const failures: RowFailure<never>[] = []
+    let start = 0
+    for (; start < items.length && !this.fallbackMode; start += BULK_CHUNK_SIZE) {
+      const records = items.slice(start, start + BULK_CHUNK_SIZE).map((item) => this.createRecord(item))
+      try {
+        await this.request(() => this.api.insert(records))
+        created.push(...records)
+      } catch (caught) {
+        if (this.fallbackMode) break
+        // A rejected POST writes none of its rows; later chunks are still attempted
+        const error = toStorageError(caught)
+        records.forEach((_, index) => failures.push({ index: start + index, id: null, error }))
+      }
+      options.onProgress?.({
+        operation: "insert",
+        done: Math.min(start + BULK_CHUNK_SIZE, items.length),
+        total: items.length,
+      })
+    }
+
+    if (start < items.length) {
+      const remaining = items.slice(start)
+      const offline = await this.insertManyOffline(remaining, offsetProgress(options, start, items.length))
+      mergeOffline(
+        created,
+        failures,
+        offline,
+        remaining.map(() => null),
+        start,
+      )
+    }
+
+    this.notifySubscribers()
+    return bulkResponse(created, failures, items.length)
+  }
+
+  async updateMany(changes: RecordUpdate<T>[], options: BulkOptions = {}): Promise<DatabaseResponse<T[], T>> {
+    if (this.fallbackMode) {
+      return this.updateManyOffline(changes, options)
+    }
+
+    const updated: T[] = []
+    const failures: RowFailure<T>[] = []
+    const now = new Date().toISOString()
+    let index = 0
+    for (; index < changes.length && !this.fallbackMode; index++) {
+      const change = changes[index]
+      try {
+        const { record, conflict } = await this.request(() =>
+          this.api.update(change.id, { ...change.updates, id: change.id, updated_at: now }, change.expectedUpdatedAt),
+        )
+        if (conflict) {
+          failures.push(conflictFailure(index, conflict))
+        } else {
+          updated.push(record)
+        }
+      } catch (error) {
+        if (this.fallbackMode) break
+        failures.push({ index, id: change.id, error: toStorageError(error) })
+      }
+      options.onProgress?.({ operation: "update", done: index + 1, total: changes.length })
+    }
+
+    if (index < changes.length) {
+      const remaining = changes.slice(index)
+      const offline = await this.updateManyOffline(remaining, offsetProgress(options, index, changes.length))
+      mergeOffline(
+        updated,
+        failures,
+        offline,
+        remaining.map((change) => change.id),
+        index,
+      )
+    }
+
+    this.notifySubscribers()
+    return bulkResponse(updated, failures, changes.length)
+  }
+
+  async deleteMany(ids: string[], options: BulkDeleteOptions = {}): Promise<DatabaseResponse<string[], T>> {
+    if (this.fallbackMode) {
+      return this.deleteManyOffline(ids, options)
+    }
+
+    const versions = options.expectedUpdatedAt || {}
+    const deleted: string[] = []
+    const failures: RowFailure<T>[] = []
+    let index = 0
+    for (; index < ids.length && !this.fallbackMode; index++) {
+      const id = ids[index]
+      try {
+        const conflict = await this.request(() => this.api.remove(id, versions[id]))
+        if (conflict) {
+          failures.push(conflictFailure(index, conflict))
+        } else {
+          deleted.push(id)
+        }
+      } catch (error) {
+        if (this.fallbackMode) break
+        failures.push({ index, id, error: toStorageError(error) })
+      }
+      options.onProgress?.({ operation: "delete", done: index + 1, total: ids.length })
+    }
+
+    if (index < ids.length) {
+      const remaining = ids.slice(index)
+      const offline = await this.deleteManyOffline(remaining, offsetProgress(options, index, ids.length))
+      mergeOffline(deleted, failures, offline, remaining, index)
+    }
+
+    this.notifySubscribers()
+    return bulkResponse(deleted, failures, ids.length)
+  }
+
+  private afterFallbackWrite<R, C extends StorageRecord>(result: DatabaseResponse<R, C>): DatabaseResponse<R, C> {
+    this.notifySubscribers()
+    return result
+  }
+
+  isFallbackMode(): boolean {
+    return this.fallbackMode
+  }
+
+  getFallbackReason(): string {
+    return this.fallbackReason
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.request(() => this.api.list(1))
+      console.log(`SteinHQ API service initialized for ${this.collection.name}`)
+    } catch (error) {
+      console.warn("Could not initialize SteinHQ API, will use localStorage fallback:", getErrorMessage(error))
+      this.enterFallbackMode("Sheet initialization failed - using local storage")
+    }
+  }
+}
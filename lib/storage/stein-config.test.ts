@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { movementsCollection } from "@/lib/database"
+import { findSheet, getEnvSteinSettings, getStorageUrl, parseSheetMapping } from "./stein-config"
+
+describe("getEnvSteinSettings", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("reads the connection from the STEIN_ variables", () => {
+    vi.stubEnv("STEIN_STORAGE_ID", " abc123 ")
+    vi.stubEnv("STEIN_SHEETS", "inventory=Hoja1, movements = Movimientos, broken")
+    vi.stubEnv("STEIN_USERNAME", "almacen")
+
+    const settings = getEnvSteinSettings()
+    expect(getStorageUrl(settings)).toBe("https://api.steinhq.com/v1/storages/abc123")
+    expect(settings.sheets).toEqual({ inventory: "Hoja1", movements: "Movimientos" })
+    expect(settings.username).toBe("almacen")
+  })
+
+  it("fails with a configuration error instead of using some other storage", () => {
+    vi.stubEnv("STEIN_STORAGE_ID", "")
+    expect(() => getEnvSteinSettings()).toThrow(
+      expect.objectContaining({ code: "misconfigured_sheet", retryable: false }),
+    )
+  })
+})
+
+describe("parseSheetMapping", () => {
+  it("is empty without a mapping", () => {
+    expect(parseSheetMapping(undefined)).toEqual({})
+  })
+})
+
+describe("findSheet", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("waits for its turn before every sheet name it tries", async () => {
+    const events: string[] = []
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        const sheet = decodeURIComponent(url.split("/").pop()!.split("?")[0])
+        events.push(`fetch ${sheet}`)
+        return sheet === "movimientos"
+          ? new Response(JSON.stringify([{ id: "1" }]), { status: 200 })
+          : new Response("not found", { status: 404 })
+      }),
+    )
+    const settings = { baseUrl: "https://stein.test", storageId: "abc", sheets: {}, username: "", password: "" }
+
+    const found = await findSheet(settings, movementsCollection, async () => {
+      events.push("wait")
+    })
+
+    expect(found).toEqual({ sheetName: "movimientos", sample: [{ id: "1" }] })
+    expect(events).toEqual(["wait", "fetch movements", "wait", "fetch Movements", "wait", "fetch movimientos"])
+  })
+})
@@ -0,0 +1,173 @@
+import { fromHttpResponse, StorageError, toStorageError } from "./errors"
+import type { CollectionConfig, StorageRecord } from "./types"
+
+// Only read on the server: the browser reaches SteinHQ through the route handlers in app/api, so the storage id and
+// credentials never leave it
+const DEFAULT_BASE_URL = "https://api.steinhq.com/v1/storages"
+
+export interface SteinConnectionSettings {
+  baseUrl: string
+  storageId: string
+  // Sheet per collection name; collections without one try their own candidate names
+  sheets: Record<string, string>
+  // HTTP basic auth, when the storage has it enabled; empty username means none
+  username: string
+  password: string
+}
+
+// "inventory=Hoja1, movements=Movimientos"
+export function parseSheetMapping(value: string | undefined): Record<string, string> {
+  const sheets: Record<string, string> = {}
+  for (const entry of (value || "").split(",")) {
+    const [collection, sheet] = entry.split("=").map((part) => part.trim())
+    if (collection && sheet) sheets[collection] = sheet
+  }
+  return sheets
+}
+
+// There is no default storage: without STEIN_STORAGE_ID every deployment would read and write the same sheet
+export function getEnvSteinSettings(): SteinConnectionSettings {
+  const storageId = process.env.STEIN_STORAGE_ID?.trim()
+  if (!storageId) {
+    throw new StorageError("misconfigured_sheet", "STEIN_STORAGE_ID is not set in the server environment", {
+      retryable: false,
+    })
+  }
+  return {
+    baseUrl: process.env.STEIN_BASE_URL || DEFAULT_BASE_URL,
+    storageId,
+    sheets: parseSheetMapping(process.env.STEIN_SHEETS),
+    username: process.env.STEIN_USERNAME || "",
+    password: process.env.STEIN_PASSWORD || "",
+  }
+}
+
+export const getStorageUrl = (settings: SteinConnectionSettings) =>
+  `${settings.baseUrl.trim().replace(/\/+$/, "")}/${settings.storageId.trim()}`
+
+export function getSteinHeaders(settings: SteinConnectionSettings): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (settings.username) {
+    headers.Authorization = `Basic ${Buffer.from(`${settings.username}:${settings.password}`).toString("base64")}`
+  }
+  return headers
+}
+
+export const getSheetCandidates = <T extends StorageRecord>(
+  settings: SteinConnectionSettings,
+  collection: CollectionConfig<T>,
+) =>
+  // An explicitly mapped sheet is the only one tried, so a typo is reported instead of silently using another sheet
+  settings.sheets[collection.name] ? [settings.sheets[collection.name]] : collection.sheetNames
+
+// The columns a collection writes, taken from its codec so they always match what the adapter sends
+export const getExpectedColumns = <T extends StorageRecord>(collection: CollectionConfig<T>) =>
+  Object.keys(collection.codec.toRow(collection.codec.fromRow({})))
+
+export interface FoundSheet {
+  sheetName: string
+  // Up to one row, used to read the header; empty when the sheet has no data yet
+  sample: Record<string, unknown>[]
+}
+
+// Awaited before every request to the storage, so callers can hold each probe to their rate limit
+export type BeforeRequest = () => Promise<void>
+
+const noWait: BeforeRequest = async () => {}
+
+export async function findSheet<T extends StorageRecord>(
+  settings: SteinConnectionSettings,
+  collection: CollectionConfig<T>,
+  beforeRequest: BeforeRequest = noWait,
+): Promise<FoundSheet> {
+  const candidates = getSheetCandidates(settings, collection)
+  for (const sheetName of candidates) {
+    await beforeRequest()
+    let response: Response
+    try {
+      response = await fetch(`${getStorageUrl(settings)}/${encodeURIComponent(sheetName)}?limit=1`, {
+        method: "GET",
+        headers: getSteinHeaders(settings),
+      })
+    } catch (error) {
+      // The server could not be reached at all, so the other names would fail the same way
+      throw toStorageError(error, "network")
+    }
+
+    if (response.ok) {
+      const rows = await response.json().catch(() => [])
+      return { sheetName, sample: Array.isArray(rows) ? rows : [] }
+    }
+
+    const error = fromHttpResponse(response, await response.text(), "GET")
+    // Only a missing sheet is worth trying the next name for
+    if (error.code !== "misconfigured_sheet" || response.status === 401 || response.status === 403) {
+      throw error
+    }
+  }
+  throw new StorageError(
+    "misconfigured_sheet",
+    `No sheet named ${candidates.map((name) => `"${name}"`).join(", ")} in the storage`,
+  )
+}
+
+export interface SheetCheck {
+  collection: string
+  sheetName: string | null
+  tried: string[]
+  // Null when the header could not be read because the sheet has no data rows yet
+  missingColumns: string[] | null
+  extraColumns: string[] | null
+  error: StorageError | null
+}
+
+// SteinHQ has no header endpoint; the keys of the first data row are the sheet's header row
+export async function checkSheet<T extends StorageRecord>(
+  settings: SteinConnectionSettings,
+  collection: CollectionConfig<T>,
+  beforeRequest: BeforeRequest = noWait,
+): Promise<SheetCheck> {
+  const tried = getSheetCandidates(settings, collection)
+  try {
+    const { sheetName, sample } = await findSheet(settings, collection, beforeRequest)
+    if (sample.length === 0) {
+      return { collection: collection.name, sheetName, tried, missingColumns: null, extraColumns: null, error: null }
+    }
+    const expected = getExpectedColumns(collection)
+    const header = Object.keys(sample[0])
+    return {
+      collection: collection.name,
+      sheetName,
+      tried,
+      missingColumns: expected.filter((column) => !header.includes(column)),
+      extraColumns: header.filter((column) => !expected.includes(column)),
+      error: null,
+    }
+  } catch (error) {
+    return {
+      collection: collection.name,
+      sheetName: null,
+      tried,
+      missingColumns: null,
+      extraColumns: null,
+      error: toStorageError(error),
+    }
+  }
+}
+
+// Checks one collection at a time to stay within the storage's rate limit
+export async function testSteinConnection(
+  settings: SteinConnectionSettings,
+  // Collections of different record types, hence `any`
+  collections: CollectionConfig<any>[],
+  beforeRequest: BeforeRequest = noWait,
+): Promise<SheetCheck[]> {
+  const checks: SheetCheck[] = []
+  for (const collection of collections) {
+    checks.push(await checkSheet(settings, collection, beforeRequest))
+    // A storage that cannot be reached or rejects the credentials fails the same way for every sheet
+    const { error } = checks[checks.length - 1]
+    if (error && (error.code !== "misconfigured_sheet" || error.status === 401 || error.status === 403)) break
+  }
+  return checks
+}
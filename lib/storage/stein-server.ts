@@ -0,0 +1,172 @@
+import { fromHttpResponse, StorageError, toStorageError } from "./errors"
+import {
+  findSheet,
+  getEnvSteinSettings,
+  getSteinHeaders,
+  getStorageUrl,
+  testSteinConnection,
+  type SheetCheck,
+  type SteinConnectionSettings,
+} from "./stein-config"
+import type { CollectionConfig, StorageRecord } from "./types"
+
+// Server side of the SteinHQ backend: the route handlers in app/api reach the sheets through these, with the
+// connection settings from the server environment. Throttling and resolved sheet names live in the server process.
+
+const MIN_REQUEST_INTERVAL = 1000 // All collections and clients share the storage's rate limit
+
+let settings: SteinConnectionSettings | null = null
+
+// Read on first use, so a missing variable comes back from each request as a storage error instead of failing the
+// server at start-up; it is read again until it is set
+const getSettings = () => (settings ??= getEnvSteinSettings())
+const sheetNames = new Map<string, Promise<string>>()
+let nextRequestAt = 0
+const writeQueues = new Map<string, Promise<unknown>>()
+
+async function waitForTurn(): Promise<void> {
+  const now = Date.now()
+  const wait = Math.max(0, nextRequestAt - now)
+  nextRequestAt = Math.max(now, nextRequestAt) + MIN_REQUEST_INTERVAL
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait))
+}
+
+// Resolved once per collection and shared by concurrent requests; a failed lookup is tried again next time
+function resolveSheet<T extends StorageRecord>(collection: CollectionConfig<T>): Promise<string> {
+  let sheetName = sheetNames.get(collection.name)
+  if (!sheetName) {
+    // Started inside then() so missing settings reject the lookup instead of throwing here
+    sheetName = Promise.resolve()
+      .then(() => findSheet(getSettings(), collection, waitForTurn))
+      .then((found) => found.sheetName)
+    sheetName.catch(() => sheetNames.delete(collection.name))
+    sheetNames.set(collection.name, sheetName)
+  }
+  return sheetName
+}
+
+async function steinRequest<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  query = "",
+  options: RequestInit = {},
+): Promise<unknown> {
+  const sheetName = await resolveSheet(collection)
+  const settings = getSettings()
+  await waitForTurn()
+
+  const method = options.method || "GET"
+
+  let response: Response
+  try {
+    response = await fetch(`${getStorageUrl(settings)}/${encodeURIComponent(sheetName)}${query}`, {
+      ...options,
+      headers: getSteinHeaders(settings),
+      cache: "no-store",
+    })
+  } catch (error) {
+    throw toStorageError(error, "network")
+  }
+
+  const text = await response.text()
+  if (!response.ok) {
+    // The storage id is left out of the log on purpose
+    console.warn(`SteinHQ ${method} ${sheetName}${query} failed with ${response.status}: ${text}`)
+    const error = fromHttpResponse(response, text, method)
+    // The sheet may have been renamed since it was resolved
+    if (error.code === "misconfigured_sheet") sheetNames.delete(collection.name)
+    throw error
+  }
+
+  if (text.trim() === "") return {}
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    // Usually a response cut short, so worth another try
+    throw new StorageError("network", "Invalid JSON in SteinHQ response", { cause: error })
+  }
+}
+
+export async function listRecords<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  limit?: number,
+): Promise<T[]> {
+  const rows = await steinRequest(collection, limit ? `?limit=${limit}` : "")
+  return Array.isArray(rows) ? rows.map((row) => collection.codec.fromRow(row)) : []
+}
+
+// The stored row with this id, read on its own instead of with the whole sheet
+export async function findRecord<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  id: string,
+): Promise<T | undefined> {
+  const rows = await steinRequest(collection, `?search=${encodeURIComponent(JSON.stringify({ id }))}`)
+  return Array.isArray(rows) && rows.length > 0 ? collection.codec.fromRow(rows[0]) : undefined
+}
+
+// SteinHQ has no conditional writes. Writes to a collection that go through here run one after another, so a row
+// read to check its version cannot change before the write that follows the check.
+export function queueWrite<T extends StorageRecord, R>(
+  collection: CollectionConfig<T>,
+  write: () => Promise<R>,
+): Promise<R> {
+  const previous = writeQueues.get(collection.name) || Promise.resolve()
+  const next = previous.catch(() => {}).then(write)
+  writeQueues.set(collection.name, next)
+  return next
+}
+
+// SteinHQ takes many rows in one POST
+export async function insertRecords<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  records: T[],
+): Promise<void> {
+  await steinRequest(collection, "", {
+    method: "POST",
+    body: JSON.stringify(records.map((record) => collection.codec.toRow(record))),
+  })
+}
+
+export async function replaceRecord<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  record: T,
+): Promise<void> {
+  const result = (await steinRequest(collection, "", {
+    method: "PUT",
+    body: JSON.stringify({ condition: { id: record.id }, set: collection.codec.toRow(record) }),
+  })) as { totalUpdatedRows?: unknown }
+  if (result.totalUpdatedRows === 0) {
+    throw new StorageError("not_found", "Item not found")
+  }
+}
+
+// Deleting a row that is already gone is not an error, so interrupted replays can run again
+export async function deleteRecord<T extends StorageRecord>(
+  collection: CollectionConfig<T>,
+  id: string,
+): Promise<void> {
+  await steinRequest(collection, "", { method: "DELETE", body: JSON.stringify({ condition: { id } }) })
+}
+
+// What the settings screen may show: enough to recognise the storage, never the credentials
+export interface SteinConnectionSummary {
+  baseUrl: string
+  storageIdHint: string
+  sheets: Record<string, string>
+  authenticated: boolean
+}
+
+export function getConnectionSummary(): SteinConnectionSummary {
+  const settings = getSettings()
+  return {
+    baseUrl: settings.baseUrl,
+    storageIdHint: `…${settings.storageId.slice(-4)}`,
+    sheets: settings.sheets,
+    authenticated: Boolean(settings.username),
+  }
+}
+
+export async function testConnection(collections: CollectionConfig<any>[]): Promise<SheetCheck[]> {
+  // A fresh lookup, so a sheet renamed since it was resolved is picked up by the next request too
+  sheetNames.clear()
+  return testSteinConnection(getSettings(), collections, waitForTurn)
+}
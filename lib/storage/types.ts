@@ -0,0 +1,136 @@
+import type { StorageError } from "./errors"
+
+export interface StorageRecord {
+  id: string
+  created_at: string
+  updated_at: string
+}
+
+// A write whose precondition failed because another client changed or deleted the row first
+export interface WriteConflict<R extends StorageRecord> {
+  id: string
+  expectedUpdatedAt: string
+  // The row as it is now in the store; null when it was deleted
+  remote: R | null
+}
+
+// One row of a bulk write that did not go through; the other rows are still written
+export interface RowFailure<R extends StorageRecord> {
+  // Position in the array passed to the bulk method
+  index: number
+  id: string | null
+  error: StorageError
+  conflict?: WriteConflict<R>
+}
+
+// R is the record type a conflict reports; responses of writes without preconditions never carry one.
+// Bulk writes that fail for some rows return the rows that succeeded in `data`, a summary in `error`,
+// every failed row in `failures` and the first conflict in `conflict`.
+export interface DatabaseResponse<T, R extends StorageRecord = never> {
+  data: T | null
+  error: StorageError | null
+  conflict?: WriteConflict<R>
+  failures?: RowFailure<R>[]
+}
+
+export type BulkOperation = "insert" | "update" | "delete"
+
+export interface BulkProgress {
+  operation: BulkOperation
+  done: number
+  total: number
+}
+
+export interface BulkOptions {
+  onProgress?: (progress: BulkProgress) => void
+}
+
+export interface BulkDeleteOptions extends BulkOptions {
+  // Version each delete is based on, by id; ids without an entry are deleted unconditionally
+  expectedUpdatedAt?: Record<string, string>
+}
+
+// Optimistic concurrency: the write only goes through if the stored row still has this updated_at
+export interface WritePrecondition {
+  // The updated_at the row must still have for the write to go through; "" for a row stored without one
+  expectedUpdatedAt?: string
+}
+
+export interface RecordUpdate<T extends StorageRecord> extends WritePrecondition {
+  id: string
+  updates: Partial<T>
+}
+
+export type NewRecord<T extends StorageRecord> = Omit<T, "id" | "created_at" | "updated_at">
+
+export type StorageBackend = "stein" | "localStorage" | "indexedDB" | "memory"
+
+export interface RecordCodec<T extends StorageRecord> {
+  fromRow: (row: any) => T
+  toRow: (item: T) => Record<string, unknown>
+}
+
+export interface CollectionConfig<T extends StorageRecord> {
+  // Used as the localStorage key suffix and IndexedDB object store name
+  name: string
+  // Candidate sheet names, tried in order by the server when it first reaches the collection's sheet
+  sheetNames: string[]
+  // Route handler through which the SteinHQ adapter reaches the sheet, see app/api
+  apiPath: string
+  codec: RecordCodec<T>
+}
+
+export type PendingOperation<T extends StorageRecord> =
+  // restore marks a row put back by restoreItem, replayed without the checks for new rows
+  | { opId: string; type: "insert"; item: T; restore?: boolean; queued_at: string }
+  // baseUpdatedAt is the row version the local change was made against, used to spot remote edits on replay
+  | { opId: string; type: "update"; item: T; baseUpdatedAt: string | null; queued_at: string }
+  | { opId: string; type: "delete"; id: string; baseUpdatedAt: string | null; queued_at: string }
+
+export interface SyncConflict<T extends StorageRecord> {
+  operation: PendingOperation<T>
+  remote: T | null
+  reason: string
+  detected_at: string
+}
+
+export interface SyncStatus<T extends StorageRecord> {
+  pending: number
+  conflicts: SyncConflict<T>[]
+}
+
+export interface StorageAdapter<T extends StorageRecord> {
+  readonly backend: StorageBackend
+  initialize(): Promise<void>
+  insertItem(item: NewRecord<T>): Promise<DatabaseResponse<T>>
+  selectItems(): Promise<DatabaseResponse<T[]>>
+  updateItem(id: string, updates: Partial<T>, precondition?: WritePrecondition): Promise<DatabaseResponse<T, T>>
+  deleteItem(id: string, precondition?: WritePrecondition): Promise<DatabaseResponse<boolean, T>>
+  // Puts a deleted row back as it was, id and timestamps included; a conflict if a row with its id exists
+  restoreItem(item: T): Promise<DatabaseResponse<T, T>>
+  insertMany(items: NewRecord<T>[], options?: BulkOptions): Promise<DatabaseResponse<T[]>>
+  updateMany(changes: RecordUpdate<T>[], options?: BulkOptions): Promise<DatabaseResponse<T[], T>>
+  // Resolves to the ids actually deleted
+  deleteMany(ids: string[], options?: BulkDeleteOptions): Promise<DatabaseResponse<string[], T>>
+  subscribeToChanges(callback: (items: T[]) => void): Promise<() => void>
+  isFallbackMode(): boolean
+  getFallbackReason(): string
+  // Offline outbox: queued writes and replay conflicts; always empty for purely local backends
+  getSyncStatus(): SyncStatus<T>
+  clearSyncConflicts(): void
+  reconnect(): Promise<boolean>
+}
+
+export type RecordChangeType = "insert" | "update" | "delete"
+
+// Row-level change pushed through the change feed to every connected client
+export interface RecordChange {
+  collection: string
+  type: RecordChangeType
+  id: string
+  // The row as the collection codec writes it; absent for deletes
+  row?: Record<string, unknown>
+  // Client that made the change, so it can ignore its own echo
+  origin: string
+  at: string
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import type { InventoryItem } from "@/lib/database"
+import { inventoryCollection } from "@/lib/database"
+import { buildAislesFromItems, createLayoutColumns, DEFAULT_LAYOUT } from "@/lib/layout"
+import { MemoryAdapter, StorageError, type NewRecord } from "@/lib/storage"
+import { persistTransfer, type StockTransfer } from "@/lib/transfer"
+
+const layout = { ...DEFAULT_LAYOUT, aisles: [{ id: "A", columns: createLayoutColumns(2, 2) }] }
+
+const source: InventoryItem = {
+  id: "1",
+  reference: "REF001",
+  description: "Tornillo",
+  quantity: 10,
+  location: "Pasillo A-Columna 1-Nivel 1",
+  aisle: "A",
+  column: 1,
+  shelf: 1,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-02T00:00:00.000Z",
+}
+
+const transfer = (quantity: number): StockTransfer => ({
+  from: { aisleId: "A", columnId: "A-C1", level: 1 },
+  to: { aisleId: "A", columnId: "A-C2", level: 2 },
+  reference: { id: "REF001", name: "Tornillo", quantity },
+  quantity,
+})
+
+// Fails every insert of a new row, and runs `beforeFailing` first to simulate another client's write
+class FailingInsertAdapter extends MemoryAdapter<InventoryItem> {
+  beforeFailing: () => Promise<unknown> = async () => {}
+
+  async insertItem(_item: NewRecord<InventoryItem>) {
+    await this.beforeFailing()
+    return { data: null, error: new StorageError("network", "Server error 502") }
+  }
+}
+
+const aisles = buildAislesFromItems(layout, [source])
+
+describe("persistTransfer", () => {
+  it("moves the units and returns the stored rows", async () => {
+    const store = new MemoryAdapter(inventoryCollection, [source])
+    const result = await persistTransfer(store, [source], aisles, transfer(4))
+
+    expect(result.error).toBeNull()
+    expect(result.data!.map((row) => [row.aisle, row.column, row.shelf, row.quantity])).toEqual([
+      ["A", 1, 1, 6],
+      ["A", 2, 2, 4],
+    ])
+    expect((await store.selectItems()).data).toHaveLength(2)
+  })
+
+  it("puts the source row back as it was when the target write fails", async () => {
+    const store = new FailingInsertAdapter(inventoryCollection, [source])
+    const result = await persistTransfer(store, [source], aisles, transfer(10))
+
+    expect(result.error?.message).toBe("Server error 502")
+    expect((await store.selectItems()).data).toEqual([source])
+  })
+
+  it("restores the quantity of a partly emptied source", async () => {
+    const store = new FailingInsertAdapter(inventoryCollection, [source])
+    await persistTransfer(store, [source], aisles, transfer(4))
+    expect((await store.selectItems()).data!.map((row) => row.quantity)).toEqual([10])
+  })
+
+  it("reports a partial failure instead of overwriting a source changed in the meantime", async () => {
+    const store = new FailingInsertAdapter(inventoryCollection, [source])
+    store.beforeFailing = async () => {
+      // Versions are timestamps, so the other write has to land in a later millisecond
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      await store.updateItem("1", { quantity: 3 })
+    }
+
+    const result = await persistTransfer(store, [source], aisles, transfer(4))
+
+    expect(result.error?.code).toBe("conflict")
+    expect(result.error?.message).toMatch(/^Transfer target not written \(Server error 502\) and the source could not/)
+    expect(result.conflict?.remote?.quantity).toBe(3)
+    expect((await store.selectItems()).data!.map((row) => row.quantity)).toEqual([3])
+  })
+
+  it("does not restore a deleted source that someone re-created", async () => {
+    const store = new FailingInsertAdapter(inventoryCollection, [source])
+    store.beforeFailing = () => store.restoreItem({ ...source, quantity: 1 })
+
+    const result = await persistTransfer(store, [source], aisles, transfer(10))
+
+    expect(result.error?.code).toBe("conflict")
+    expect((await store.selectItems()).data!.map((row) => row.quantity)).toEqual([1])
+  })
+})
@@ -0,0 +1,137 @@
+import type { DatabaseResponse, InventoryItem, StorageAdapter } from "@/lib/database"
+import { getLocationLabel } from "@/lib/inventory-sync"
+import { StorageError } from "@/lib/storage"
+import {
+  adjustBoxReference,
+  findBox,
+  getColumnNumber,
+  updateBox,
+  type Aisle,
+  type Reference,
+  type SlotRef,
+} from "@/lib/warehouse"
+
+export interface StockTransfer {
+  from: SlotRef
+  to: SlotRef
+  reference: Reference
+  quantity: number
+}
+
+const sameSlot = (a: SlotRef, b: SlotRef) => a.aisleId === b.aisleId && a.columnId === b.columnId && a.level === b.level
+
+export function validateTransfer(aisles: Aisle[], transfer: StockTransfer): string | null {
+  const source = findBox(aisles, transfer.from)
+  const target = findBox(aisles, transfer.to)
+  const available = source?.references.find((ref) => ref.id === transfer.reference.id)?.quantity || 0
+
+  if (!source || !target) return "La ubicación de origen o destino no existe"
+  if (sameSlot(transfer.from, transfer.to)) return "El origen y el destino son la misma caja"
+  if (target.disabled) return "La caja de destino está marcada como no disponible"
+  if (!Number.isInteger(transfer.quantity) || transfer.quantity <= 0) return "La cantidad debe ser un número positivo"
+  if (transfer.quantity > available) return `Solo hay ${available} unidades en el origen`
+  return null
+}
+
+export function applyTransfer(aisles: Aisle[], transfer: StockTransfer): Aisle[] {
+  const withdrawn = updateBox(aisles, transfer.from, (box) =>
+    adjustBoxReference(box, transfer.reference, -transfer.quantity),
+  )
+  return updateBox(withdrawn, transfer.to, (box) => adjustBoxReference(box, transfer.reference, transfer.quantity))
+}
+
+const findRow = (items: InventoryItem[], slot: SlotRef, referenceId: string) =>
+  items.find(
+    (item) =>
+      item.aisle === slot.aisleId &&
+      item.column === getColumnNumber(slot.columnId) &&
+      item.shelf === slot.level &&
+      item.reference === referenceId,
+  )
+
+// Writes both sides of a transfer straight to the store, undoing the source change if the target write fails.
+// Returns the stored rows after the transfer so callers can keep their sync baseline current.
+// If the undo fails as well, the error says so: the units then are missing from the source until someone fixes it.
+export async function persistTransfer(
+  store: StorageAdapter<InventoryItem>,
+  items: InventoryItem[],
+  aisles: Aisle[],
+  transfer: StockTransfer,
+): Promise<DatabaseResponse<InventoryItem[], InventoryItem>> {
+  const sourceRow = findRow(items, transfer.from, transfer.reference.id)
+  if (!sourceRow) {
+    return { data: null, error: new StorageError("not_found", "No se encontró la fila de origen en la base de datos") }
+  }
+
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+  const remaining = sourceRow.quantity - transfer.quantity
+  // The source row as written, so the undo only goes through if nobody changed it since
+  let writtenSource: InventoryItem | null = null
+  if (remaining > 0) {
+    const sourceResult = await store.updateItem(
+      sourceRow.id,
+      { quantity: remaining },
+      { expectedUpdatedAt: sourceRow.updated_at },
+    )
+    if (sourceResult.error || !sourceResult.data) {
+      return {
+        data: null,
+        error: sourceResult.error || new StorageError("unknown", "Error writing transfer source"),
+        conflict: sourceResult.conflict,
+      }
+    }
+    writtenSource = sourceResult.data
+    itemsById.set(sourceRow.id, sourceResult.data)
+  } else {
+    const sourceResult = await store.deleteItem(sourceRow.id, { expectedUpdatedAt: sourceRow.updated_at })
+    if (sourceResult.error) {
+      return { data: null, error: sourceResult.error, conflict: sourceResult.conflict }
+    }
+    itemsById.delete(sourceRow.id)
+  }
+
+  const targetRow = findRow(items, transfer.to, transfer.reference.id)
+  const targetResult = targetRow
+    ? await store.updateItem(
+        targetRow.id,
+        { quantity: targetRow.quantity + transfer.quantity },
+        { expectedUpdatedAt: targetRow.updated_at },
+      )
+    : await store.insertItem({
+        reference: transfer.reference.id,
+        description: transfer.reference.name,
+        quantity: transfer.quantity,
+        location: getLocationLabel(aisles, transfer.to),
+        aisle: transfer.to.aisleId,
+        column: getColumnNumber(transfer.to.columnId),
+        shelf: transfer.to.level,
+      })
+
+  if (targetResult.error || !targetResult.data) {
+    const targetError = targetResult.error || new StorageError("unknown", "Error writing transfer target")
+    const rollback = writtenSource
+      ? await store.updateItem(
+          sourceRow.id,
+          { quantity: sourceRow.quantity },
+          { expectedUpdatedAt: writtenSource.updated_at },
+        )
+      : await store.restoreItem(sourceRow)
+    if (rollback.error || !rollback.data) {
+      const rollbackError = rollback.error || new StorageError("unknown", "Error restoring transfer source")
+      return {
+        data: null,
+        error: new StorageError(
+          rollbackError.code,
+          `Transfer target not written (${targetError.message}) and the source could not be restored: ` +
+            rollbackError.message,
+          { retryable: false, status: rollbackError.status },
+        ),
+        conflict: targetResult.conflict || rollback.conflict,
+      }
+    }
+    return { data: null, error: targetError, conflict: targetResult.conflict }
+  }
+
+  itemsById.set(targetResult.data.id, targetResult.data)
+  return { data: Array.from(itemsById.values()), error: null }
+}
@@ -0,0 +1,87 @@
+export interface Reference {
+  id: string
+  name: string
+  quantity: number
+  // When this stock entered the box; drives FIFO picking
+  receivedAt?: string
+}
+
+export interface Box {
+  id: string
+  level: number
+  name: string
+  references: Reference[]
+  // Slot exists physically but cannot hold stock (blocked, under repair, used for a beam...)
+  disabled?: boolean
+}
+
+// "stacked": boxes rest on each other, so stock above has to be moved to reach a box (the default).
+// "shelved": every level is a separate shelf and can be reached on its own.
+export type ColumnBlocking = "stacked" | "shelved"
+
+export interface Column {
+  id: string
+  name: string
+  boxes: Box[]
+  blocking?: ColumnBlocking
+}
+
+export interface Aisle {
+  id: string
+  name: string
+  columns: Column[]
+}
+
+export const getColumnId = (aisleId: string, columnNumber: number) => `${aisleId}-C${columnNumber}`
+
+export const getBoxId = (aisleId: string, columnNumber: number, level: number) =>
+  `${getColumnId(aisleId, columnNumber)}-L${level}`
+
+export const getColumnNumber = (columnId: string): number =>
+  Number.parseInt(columnId.slice(columnId.lastIndexOf("-C") + 2))
+
+export interface SlotRef {
+  aisleId: string
+  columnId: string
+  level: number
+}
+
+export const getSlotBoxId = (slot: SlotRef) => `${slot.columnId}-L${slot.level}`
+
+export function findBox(aisles: Aisle[], slot: SlotRef): Box | undefined {
+  return aisles
+    .find((aisle) => aisle.id === slot.aisleId)
+    ?.columns.find((column) => column.id === slot.columnId)
+    ?.boxes.find((box) => box.level === slot.level)
+}
+
+// Returns a new tree with only the addressed box replaced
+export function updateBox(aisles: Aisle[], slot: SlotRef, update: (box: Box) => Box): Aisle[] {
+  return aisles.map((aisle) =>
+    aisle.id !== slot.aisleId
+      ? aisle
+      : {
+          ...aisle,
+          columns: aisle.columns.map((column) =>
+            column.id !== slot.columnId
+              ? column
+              : { ...column, boxes: column.boxes.map((box) => (box.level === slot.level ? update(box) : box)) },
+          ),
+        },
+  )
+}
+
+// Adds (or with a negative delta removes) units of a reference in one box, dropping it when it reaches zero
+export function adjustBoxReference(box: Box, reference: Reference, delta: number): Box {
+  const existing = box.references.find((ref) => ref.id === reference.id)
+  if (!existing) {
+    const added = { ...reference, quantity: delta, receivedAt: reference.receivedAt || new Date().toISOString() }
+    return delta > 0 ? { ...box, references: [...box.references, added] } : box
+  }
+  return {
+    ...box,
+    references: box.references
+      .map((ref) => (ref.id === reference.id ? { ...ref, quantity: Math.max(0, ref.quantity + delta) } : ref))
+      .filter((ref) => ref.quantity > 0),
+  }
+}
@@ -0,0 +1,35 @@
+import { JSDOM } from "jsdom"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { readXlsx, writeXlsx } from "@/lib/xlsx"
+
+beforeAll(() => {
+  // Reading parses the sheet XML with the browser's DOMParser
+  vi.stubGlobal("DOMParser", new JSDOM().window.DOMParser)
+})
+
+describe("xlsx", () => {
+  it("reads back what it writes", async () => {
+    const rows = [
+      ["Referencia", "Descripción", "Cantidad"],
+      ["REF001", 'Tornillo <M8> & "arandela"', 1500],
+      ["REF002", "  espacios  ", 0],
+    ]
+    const blob = writeXlsx("Inventario", rows)
+    expect(blob.type).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")
+    expect(await readXlsx(await blob.arrayBuffer())).toEqual([
+      ["Referencia", "Descripción", "Cantidad"],
+      ["REF001", 'Tornillo <M8> & "arandela"', "1500"],
+      ["REF002", "  espacios  ", "0"],
+    ])
+  })
+
+  it("writes sheet names Excel accepts", async () => {
+    const blob = writeXlsx("Búsqueda: a/b [1] de un nombre muy muy largo", [["a"]])
+    const text = new TextDecoder().decode(await blob.arrayBuffer())
+    expect(text).toContain('<sheet name="Búsqueda  a b  1  de un nombre "')
+  })
+
+  it("rejects files that are not a zip", async () => {
+    await expect(readXlsx(new TextEncoder().encode("Referencia;Cantidad").buffer)).rejects.toThrow(/XLSX/)
+  })
+})
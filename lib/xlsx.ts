@@ -0,0 +1,262 @@
+// Minimal XLSX support without a spreadsheet library. Reading takes the first worksheet of a workbook as rows of
+// cell text, unzipping with the browser's DecompressionStream; writing produces a single-sheet workbook.
+
+// Not in the DOM typings of the TypeScript version this project builds with
+declare const DecompressionStream: { new (format: "deflate-raw"): TransformStream<Uint8Array, Uint8Array> }
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  // The end of central directory record sits at the end, followed by a comment of up to 64 KB
+  let end = -1
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 65535); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) throw new Error("El archivo no es un XLSX válido")
+
+  const entries = new Map<string, ZipEntry>()
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength))
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+async function readZipEntry(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true)
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize)
+
+  if (entry.method === 0) return new TextDecoder().decode(data)
+  if (entry.method !== 8) throw new Error("Compresión no soportada en el XLSX")
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("Este navegador no puede leer archivos XLSX. Guarda el archivo como CSV e impórtalo de nuevo.")
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Response(stream).text()
+}
+
+// "AB12" -> 27
+const columnIndex = (reference: string) =>
+  Array.from(reference.replace(/\d+$/, "")).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml")
+
+async function getFirstSheetPath(view: DataView, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = entries.get("xl/workbook.xml")
+  const rels = entries.get("xl/_rels/workbook.xml.rels")
+  if (workbook && rels) {
+    const sheet = parseXml(await readZipEntry(view, workbook)).getElementsByTagName("sheet")[0]
+    const relationId = sheet?.getAttribute("r:id")
+    const target = Array.from(parseXml(await readZipEntry(view, rels)).getElementsByTagName("Relationship"))
+      .find((relationship) => relationship.getAttribute("Id") === relationId)
+      ?.getAttribute("Target")
+    if (target) return target.startsWith("/") ? target.slice(1) : `xl/${target}`
+  }
+  return "xl/worksheets/sheet1.xml"
+}
+
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer)
+  const entries = readZipDirectory(view)
+
+  const sharedStringsEntry = entries.get("xl/sharedStrings.xml")
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await readZipEntry(view, sharedStringsEntry)).getElementsByTagName("si")).map((item) =>
+        Array.from(item.getElementsByTagName("t"))
+          .map((text) => text.textContent || "")
+          .join(""),
+      )
+    : []
+
+  const sheetEntry = entries.get(await getFirstSheetPath(view, entries))
+  if (!sheetEntry) throw new Error("El XLSX no contiene ninguna hoja")
+  const sheet = parseXml(await readZipEntry(view, sheetEntry))
+
+  return Array.from(sheet.getElementsByTagName("row")).map((row) => {
+    const cells: string[] = []
+    Array.from(row.getElementsByTagName("c")).forEach((cell, position) => {
+      const reference = cell.getAttribute("r")
+      const index = reference ? columnIndex(reference) : position
+      const type = cell.getAttribute("t")
+      const value = cell.getElementsByTagName("v")[0]?.textContent || ""
+      let text = value
+      if (type === "s") text = sharedStrings[Number.parseInt(value)] || ""
+      else if (type === "inlineStr") text = cell.getElementsByTagName("t")[0]?.textContent || ""
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE"
+      while (cells.length < index) cells.push("")
+      cells[index] = text
+    })
+    return cells
+  })
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Stored (uncompressed) zip: exports are small and this keeps the writer free of a deflate implementation
+function writeZip(files: { name: string; content: string }[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, data)
+    directory.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + data.length
+  })
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  })
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26))
+
+// Style 1 is "#,##0" so Excel shows thousands separators in the reader's own locale; style 2 is the bold header
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  "</styleSheet>"
+
+// Single-sheet workbook; the first row is written as a bold header and numbers stay numeric
+export function writeXlsx(sheetName: string, rows: (string | number)[][]): Blob {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          const reference = `${columnLetter(columnIndex)}${rowIndex + 1}`
+          if (typeof value === "number") return `<c r="${reference}" s="1"><v>${value}</v></c>`
+          const style = rowIndex === 0 ? ' s="2"' : ""
+          return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+        })
+        .join("")
+      return `<row r="${rowIndex + 1}">${cells}</row>`
+    })
+    .join("")
+
+  // Sheet names are limited to 31 characters and some punctuation
+  const safeName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Hoja1")
+
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeName}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>",
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        "</Relationships>",
+    },
+    { name: "xl/styles.xml", content: STYLES_XML },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows}</sheetData>` +
+        "</worksheet>",
+    },
+  ])
+}
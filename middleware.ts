@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { hasPassword } from "@/lib/storage/access"
+
+// With WAREHOUSE_PASSWORD set the pages are behind the browser's own sign-in prompt. The route handlers in app/api
+// check the password themselves, so they answer with a storage error body instead of the prompt.
+export function middleware(request: NextRequest) {
+  if (hasPassword(request)) return NextResponse.next()
+  return new NextResponse("Se necesita la contraseña del almacén", {
+    status: 401,
+    headers: {
+      "WWW-Authenticate": 'Basic realm="Almacen", charset="UTF-8"',
+      "Content-Type": "text/plain; charset=utf-8",
+    },
+  })
+}
+
+export const config = {
+  matcher: ["/((?!api/|_next/static|_next/image|favicon.ico).*)"],
+}
@@ -0,0 +1,97 @@
+// Stand-in for the /api/changes route, for running the feed apart from the Next.js server (e.g. tests, or several
+// app servers sharing one feed). Same protocol: GET opens an event stream. POST { changes } relays them, and only
+// takes them from the app servers, which forward every write their route handlers publish with the shared token.
+//
+//   CHANGE_FEED_TOKEN=secret node scripts/change-feed-server.mjs      # listens on 4010
+//   NEXT_PUBLIC_CHANGE_FEED_URL=http://localhost:4010/api/changes \
+//     CHANGE_FEED_RELAY_URL=http://localhost:4010/api/changes CHANGE_FEED_TOKEN=secret pnpm dev
+
+import { timingSafeEqual } from "node:crypto"
+import { createServer } from "node:http"
+
+const PORT = process.env.CHANGE_FEED_PORT ? Number(process.env.CHANGE_FEED_PORT) : 4010
+// Without a token nobody can publish; the feed then only serves streams
+const TOKEN = process.env.CHANGE_FEED_TOKEN || ""
+const HEARTBEAT_INTERVAL = 25000
+const CHANGE_TYPES = ["insert", "update", "delete"]
+const clients = new Set()
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+function isAuthorized(request) {
+  const expected = Buffer.from(`Bearer ${TOKEN}`)
+  const given = Buffer.from(request.headers.authorization || "")
+  return TOKEN !== "" && given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+const isRecordChange = (value) =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof value.collection === "string" &&
+  CHANGE_TYPES.includes(value.type) &&
+  typeof value.id === "string" &&
+  typeof value.origin === "string" &&
+  typeof value.at === "string" &&
+  (value.type === "delete" || (typeof value.row === "object" && value.row !== null))
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+function openStream(request, response) {
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  })
+  response.write("retry: 3000\n\n")
+  clients.add(response)
+  const heartbeat = setInterval(() => response.write(": ping\n\n"), HEARTBEAT_INTERVAL)
+  request.on("close", () => {
+    clearInterval(heartbeat)
+    clients.delete(response)
+  })
+}
+
+function relay(request, response) {
+  if (!isAuthorized(request)) return sendJson(response, 401, { error: "Unauthorized" })
+  let body = ""
+  request.on("data", (chunk) => (body += chunk))
+  request.on("end", () => {
+    let changes
+    try {
+      changes = JSON.parse(body).changes
+    } catch {
+      return sendJson(response, 400, { error: "Invalid JSON body" })
+    }
+    if (!Array.isArray(changes) || changes.length === 0 || !changes.every(isRecordChange)) {
+      return sendJson(response, 400, { error: "Expected { changes: RecordChange[] }" })
+    }
+    const message = `data: ${JSON.stringify({ changes })}\n\n`
+    clients.forEach((client) => client.write(message))
+    sendJson(response, 202, { delivered: clients.size })
+  })
+}
+
+const server = createServer((request, response) => {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`)
+  if (pathname !== "/api/changes") return sendJson(response, 404, { error: "Not found" })
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, CORS_HEADERS)
+    return response.end()
+  }
+  if (request.method === "GET") return openStream(request, response)
+  if (request.method === "POST") return relay(request, response)
+  sendJson(response, 405, { error: "Method not allowed" })
+})
+
+// CHANGE_FEED_PORT=0 picks a free port; the line below says which
+server.listen(PORT, () =>
+  console.log(`Change feed stand-in listening on http://localhost:${server.address().port}/api/changes`),
+)
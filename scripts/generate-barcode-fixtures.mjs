@@ -0,0 +1,92 @@
+// Writes the camera-like frames the barcode decoder tests read from lib/__fixtures__/barcodes: codes printed in
+// low contrast on grey with sensor noise and a slight blur, as a phone camera sees a label on a shelf.
+//
+//   node scripts/generate-barcode-fixtures.mjs
+
+import { mkdirSync, writeFileSync } from "node:fs"
+import pngjs from "pngjs"
+import zxing from "@zxing/library"
+
+// Both are CommonJS packages
+const { PNG } = pngjs
+const { BarcodeFormat, QRCodeWriter } = zxing
+
+const OUT_DIR = new URL("../lib/__fixtures__/barcodes/", import.meta.url)
+
+// EAN-13: the first digit picks the L/G parity of the left half; each digit is 7 modules
+// prettier-ignore
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"]
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"]
+const EAN_R = EAN_L.map((pattern) => Array.from(pattern, (bit) => (bit === "1" ? "0" : "1")).join(""))
+const EAN_G = EAN_R.map((pattern) => Array.from(pattern).reverse().join(""))
+
+function ean13Modules(code) {
+  const digits = Array.from(code, Number)
+  const left = digits.slice(1, 7).map((digit, index) => (EAN_PARITY[digits[0]][index] === "L" ? EAN_L : EAN_G)[digit])
+  const right = digits.slice(7).map((digit) => EAN_R[digit])
+  return Array.from(`101${left.join("")}01010${right.join("")}101`, (bit) => bit === "1")
+}
+
+// Deterministic noise, so regenerating gives the same files
+function createRandom(seed) {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0
+    return state / 2 ** 32
+  }
+}
+
+function toCameraFrame(width, height, isDark, seed) {
+  const random = createRandom(seed)
+  const ink = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) ink[y * width + x] = isDark(x, y) ? 55 : 200
+  }
+
+  const png = new PNG({ width, height })
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Horizontal 3-pixel blur plus noise of up to ±20 levels
+      const blurred =
+        (ink[y * width + Math.max(0, x - 1)] + ink[y * width + x] + ink[y * width + Math.min(width - 1, x + 1)]) / 3
+      const value = Math.max(0, Math.min(255, Math.round(blurred + (random() - 0.5) * 40)))
+      const offset = (y * width + x) * 4
+      png.data[offset] = value
+      png.data[offset + 1] = value
+      png.data[offset + 2] = Math.max(0, value - 10)
+      png.data[offset + 3] = 255
+    }
+  }
+  return PNG.sync.write(png)
+}
+
+function linearFixture(modules, scale, seed) {
+  const margin = 15 * scale
+  const width = modules.length * scale + margin * 2
+  const height = 40 * scale
+  return toCameraFrame(
+    width,
+    height,
+    (x, y) =>
+      y > height * 0.2 &&
+      y < height * 0.8 &&
+      x >= margin &&
+      x < width - margin &&
+      modules[Math.floor((x - margin) / scale)],
+    seed,
+  )
+}
+
+function qrFixture(text, size, seed) {
+  const matrix = new QRCodeWriter().encode(text, BarcodeFormat.QR_CODE, size, size, new Map())
+  return toCameraFrame(size, size, (x, y) => matrix.get(x, y), seed)
+}
+
+mkdirSync(OUT_DIR, { recursive: true })
+writeFileSync(new URL("ean13-8412345678905.png", OUT_DIR), linearFixture(ean13Modules("8412345678905"), 2, 1))
+writeFileSync(new URL("qr-A-C3-L2.png", OUT_DIR), qrFixture("A-C3-L2", 160, 2))
+writeFileSync(
+  new URL("no-code.png", OUT_DIR),
+  toCameraFrame(160, 90, () => false, 3),
+)
+console.log(`Barcode fixtures written to ${OUT_DIR.pathname}`)